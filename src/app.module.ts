@@ -3,9 +3,22 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { ConfigModule } from '@nestjs/config';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
+import { databaseOptions } from './database/database.config';
 import { AuthModule } from './auth/auth.module';
+import { MailModule } from './mail/mail.module';
+import { StorageModule } from './storage/storage.module';
 import { UsersModule } from './users/users.module';
 import { LeavesModule } from './leaves/leaves.module';
+import { BalancesModule } from './balances/balances.module';
+import { LeaveTypesModule } from './leave-types/leave-types.module';
+import { HolidaysModule } from './holidays/holidays.module';
+import { ApprovalsModule } from './approvals/approvals.module';
+import { CalendarModule } from './calendar/calendar.module';
+import { NotificationsModule } from './notifications/notifications.module';
+import { WebhooksModule } from './webhooks/webhooks.module';
+import { ReportsModule } from './reports/reports.module';
+import { DepartmentsModule } from './departments/departments.module';
+import { EscalationsModule } from './escalations/escalations.module';
 
 @Module({
   imports: [
@@ -14,18 +27,24 @@ import { LeavesModule } from './leaves/leaves.module';
       isGlobal: true,
     }),
     TypeOrmModule.forRoot({
-      type: 'postgres',
-      host: process.env.DB_HOST || 'localhost',
-      port: parseInt(process.env.DB_PORT || '5432'),
-      username: process.env.DB_USERNAME || 'postgres',
-      password: process.env.DB_PASSWORD || 'password',
-      database: process.env.DB_NAME || 'leave_db',
+      ...databaseOptions(),
       autoLoadEntities: true,
-      synchronize: true,
     }),
+    MailModule,
+    StorageModule,
     AuthModule,
     UsersModule,
     LeavesModule,
+    BalancesModule,
+    LeaveTypesModule,
+    HolidaysModule,
+    ApprovalsModule,
+    CalendarModule,
+    NotificationsModule,
+    WebhooksModule,
+    ReportsModule,
+    DepartmentsModule,
+    EscalationsModule,
   ],
   controllers: [AppController],
   providers: [AppService],
@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ApprovalRule } from './entities/approval-rule.entity';
+import { ApprovalDelegation } from './entities/approval-delegation.entity';
+import { User } from '../users/entities/user.entity';
+import { ApprovalsService } from './services/approvals.service';
+import { ApprovalDelegationsService } from './services/approval-delegations.service';
+import { ApprovalRulesController } from './controllers/approval-rules.controller';
+import { ApprovalDelegationsController } from './controllers/approval-delegations.controller';
+import { LeaveTypesModule } from '../leave-types/leave-types.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([ApprovalRule, ApprovalDelegation, User]),
+    LeaveTypesModule,
+  ],
+  providers: [ApprovalsService, ApprovalDelegationsService],
+  controllers: [ApprovalRulesController, ApprovalDelegationsController],
+  exports: [ApprovalsService],
+})
+export class ApprovalsModule {}
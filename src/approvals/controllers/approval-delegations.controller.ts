@@ -0,0 +1,118 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  Body,
+  Query,
+  Request,
+  UseGuards,
+  ValidationPipe,
+  ParseIntPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiBearerAuth,
+  ApiResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+} from '@nestjs/swagger';
+import { ApprovalDelegationsService } from '../services/approval-delegations.service';
+import { JwtAuthGuard } from '../../auth/jwt/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/guards/roles.decorator';
+import { UserRole } from '../../users/entities/user.entity';
+import {
+  CreateApprovalDelegationDto,
+  ApprovalDelegationQueryDto,
+} from '../dto/approval-delegation.dto';
+
+/**
+ * Approval Delegations Controller
+ * Lets approvers hand their approval rights to a colleague while they are away
+ * All endpoints require manager or admin role for access
+ */
+@ApiTags('Approval Delegations')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN, UserRole.MANAGER)
+@Controller('approval-delegations')
+export class ApprovalDelegationsController {
+  constructor(private approvalDelegationsService: ApprovalDelegationsService) {}
+
+  /**
+   * Get delegations
+   * Lists delegations the caller gave or received
+   */
+  @Get()
+  @ApiOperation({
+    summary: 'Get approval delegations (Manager/Admin)',
+    description:
+      'Lists the delegations the caller set up or received, with a status of SCHEDULED, ACTIVE, ENDED or REVOKED. Admins see every delegation. Ended and revoked delegations are only included with includeEnded=true.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns an array of delegations.',
+  })
+  @ApiForbiddenResponse({
+    description: 'Access denied - only managers and admins have delegations.',
+  })
+  findAll(
+    @Query(new ValidationPipe({ transform: true }))
+    query: ApprovalDelegationQueryDto,
+    @Request() req,
+  ) {
+    return this.approvalDelegationsService.findAll(req.user, query);
+  }
+
+  /**
+   * Create a delegation
+   * The delegate can approve and reject on the caller's behalf within the window
+   */
+  @Post()
+  @ApiOperation({
+    summary: 'Create approval delegation (Manager/Admin)',
+    description:
+      "Lets another manager or admin approve and reject requests on the caller's behalf from startDate to endDate (inclusive), optionally only for one leave type. The delegation ends automatically after endDate. Decisions taken by the delegate record both the delegate and the original approver in the leave history.",
+  })
+  @ApiResponse({ status: 201, description: 'Delegation created.' })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Bad request - invalid dates, a window that has already ended, delegating to yourself or to a regular user, or an unknown leave type.',
+  })
+  @ApiNotFoundResponse({ description: 'Delegate does not exist' })
+  create(
+    @Body(new ValidationPipe()) body: CreateApprovalDelegationDto,
+    @Request() req,
+  ) {
+    return this.approvalDelegationsService.create(req.user, body);
+  }
+
+  /**
+   * Revoke a delegation
+   * Ends a delegation before its window closes
+   */
+  @Delete(':id')
+  @ApiOperation({
+    summary: 'Revoke approval delegation (Manager/Admin)',
+    description:
+      'Ends a delegation immediately. It stays listed with status REVOKED. Only the approver who set it up or an admin can revoke it.',
+  })
+  @ApiResponse({ status: 200, description: 'Delegation revoked.' })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - the delegation has already ended.',
+  })
+  @ApiForbiddenResponse({
+    description: 'Access denied - only the approver or an admin can revoke it.',
+  })
+  @ApiNotFoundResponse({
+    description: 'Delegation does not exist or is not visible to the caller',
+  })
+  revoke(@Param('id', ParseIntPipe) id: number, @Request() req) {
+    return this.approvalDelegationsService.revoke(id, req.user);
+  }
+}
@@ -0,0 +1,144 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Param,
+  Body,
+  UseGuards,
+  ValidationPipe,
+  ParseIntPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiBearerAuth,
+  ApiResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+} from '@nestjs/swagger';
+import { ApprovalsService } from '../services/approvals.service';
+import { JwtAuthGuard } from '../../auth/jwt/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/guards/roles.decorator';
+import { UserRole } from '../../users/entities/user.entity';
+import {
+  CreateApprovalRuleDto,
+  UpdateApprovalRuleDto,
+} from '../dto/approval-rule.dto';
+
+/**
+ * Approval Rules Controller
+ * Configures which approval chain a leave request has to go through
+ * All endpoints require admin role for access
+ */
+@ApiTags('Approval Rules')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@Controller('approval-rules')
+export class ApprovalRulesController {
+  constructor(private approvalsService: ApprovalsService) {}
+
+  /**
+   * Get all approval rules
+   * Lists rules in the order they are evaluated
+   */
+  @Get()
+  @ApiOperation({
+    summary: 'Get all approval rules (Admin only)',
+    description:
+      'Lists approval rules by priority. Requests matching no rule need their direct manager (or an admin) to approve.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns an array of approval rules.',
+  })
+  @ApiForbiddenResponse({
+    description: 'Access denied - only admins can access this endpoint.',
+  })
+  findAll() {
+    return this.approvalsService.findAll();
+  }
+
+  /**
+   * Get approval rule by ID
+   */
+  @Get(':id')
+  @ApiOperation({ summary: 'Get approval rule by ID (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Returns the approval rule.' })
+  @ApiForbiddenResponse({
+    description: 'Access denied - only admins can access this endpoint.',
+  })
+  @ApiNotFoundResponse({
+    description: 'Approval rule with the specified ID does not exist',
+  })
+  findOne(@Param('id', ParseIntPipe) id: number) {
+    return this.approvalsService.findOne(id);
+  }
+
+  /**
+   * Create an approval rule
+   * E.g. direct manager then HR for annual leave longer than 5 days
+   */
+  @Post()
+  @ApiOperation({
+    summary: 'Create approval rule (Admin only)',
+    description:
+      'Adds an approval chain for requests of a leave type (or any type) longer than minDays working days.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Approval rule created. Returns the rule.',
+  })
+  @ApiForbiddenResponse({
+    description: 'Access denied - only admins can access this endpoint.',
+  })
+  create(@Body(new ValidationPipe()) body: CreateApprovalRuleDto) {
+    return this.approvalsService.create(body);
+  }
+
+  /**
+   * Update an approval rule
+   * Changes only apply to requests submitted afterwards
+   */
+  @Put(':id')
+  @ApiOperation({
+    summary: 'Update approval rule (Admin only)',
+    description:
+      'Updates an approval rule. Requests already submitted keep the chain they were given.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Approval rule updated. Returns the rule.',
+  })
+  @ApiForbiddenResponse({
+    description: 'Access denied - only admins can access this endpoint.',
+  })
+  @ApiNotFoundResponse({
+    description: 'Approval rule with the specified ID does not exist',
+  })
+  update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body(new ValidationPipe()) body: UpdateApprovalRuleDto,
+  ) {
+    return this.approvalsService.update(id, body);
+  }
+
+  /**
+   * Delete an approval rule
+   */
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete approval rule (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Approval rule deleted.' })
+  @ApiForbiddenResponse({
+    description: 'Access denied - only admins can access this endpoint.',
+  })
+  @ApiNotFoundResponse({
+    description: 'Approval rule with the specified ID does not exist',
+  })
+  remove(@Param('id', ParseIntPipe) id: number) {
+    return this.approvalsService.remove(id);
+  }
+}
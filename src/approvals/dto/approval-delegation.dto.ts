@@ -0,0 +1,63 @@
+import {
+  IsString,
+  IsBoolean,
+  IsInt,
+  IsOptional,
+  IsDateString,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CreateApprovalDelegationDto {
+  @ApiProperty({
+    example: 7,
+    description: 'Manager or admin who approves on your behalf',
+  })
+  @IsInt()
+  delegateId: number;
+
+  @ApiProperty({
+    example: '2025-07-01',
+    description: 'First day of the delegation in YYYY-MM-DD format',
+  })
+  @IsDateString()
+  startDate: string;
+
+  @ApiProperty({
+    example: '2025-07-14',
+    description:
+      'Last day of the delegation in YYYY-MM-DD format; it ends automatically afterwards',
+  })
+  @IsDateString()
+  endDate: string;
+
+  @ApiProperty({
+    example: 'ANNUAL',
+    required: false,
+    nullable: true,
+    description:
+      'Leave type code the delegation is limited to; omit for every type',
+  })
+  @IsOptional()
+  @IsString()
+  leaveType?: string | null;
+
+  @ApiProperty({ example: 'Summer holiday', required: false })
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
+
+export class ApprovalDelegationQueryDto {
+  @ApiProperty({
+    required: false,
+    default: false,
+    description: 'Also list delegations that have ended or were revoked',
+  })
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    value === 'true' ? true : value === 'false' ? false : value,
+  )
+  @IsBoolean()
+  includeEnded?: boolean;
+}
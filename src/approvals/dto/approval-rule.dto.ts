@@ -0,0 +1,69 @@
+import {
+  IsString,
+  IsBoolean,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsArray,
+  IsEnum,
+  ArrayMinSize,
+  Min,
+  MinLength,
+} from 'class-validator';
+import { ApiProperty, PartialType } from '@nestjs/swagger';
+import { ApprovalStep } from '../entities/approval-rule.entity';
+
+export class CreateApprovalRuleDto {
+  @ApiProperty({ example: 'Long annual leave', minLength: 2 })
+  @IsString()
+  @MinLength(2, { message: 'Name must be at least 2 characters' })
+  name: string;
+
+  @ApiProperty({
+    example: 'ANNUAL',
+    required: false,
+    nullable: true,
+    description: 'Leave type code the rule applies to; omit for every type',
+  })
+  @IsOptional()
+  @IsString()
+  leaveType?: string | null;
+
+  @ApiProperty({
+    example: 5,
+    required: false,
+    description:
+      'Rule applies to requests longer than this many working days (default 0)',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  minDays?: number;
+
+  @ApiProperty({
+    example: [ApprovalStep.MANAGER, ApprovalStep.ADMIN],
+    enum: ApprovalStep,
+    isArray: true,
+    description: 'Approvers in order',
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsEnum(ApprovalStep, { each: true })
+  steps: ApprovalStep[];
+
+  @ApiProperty({
+    example: 0,
+    required: false,
+    description: 'Higher priority rules win when several match',
+  })
+  @IsOptional()
+  @IsInt()
+  priority?: number;
+
+  @ApiProperty({ example: true, required: false })
+  @IsOptional()
+  @IsBoolean()
+  active?: boolean;
+}
+
+export class UpdateApprovalRuleDto extends PartialType(CreateApprovalRuleDto) {}
@@ -0,0 +1,45 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  CreateDateColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { LeaveType } from '../../leave-types/entities/leave-type.entity';
+
+/**
+ * Approval Delegation
+ * Lets a delegate approve and reject requests on behalf of an approver between
+ * two dates (inclusive), optionally only for one leave type. A delegation ends on
+ * its own once endDate has passed, or earlier when revoked.
+ */
+@Entity()
+export class ApprovalDelegation {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => User, { nullable: false, onDelete: 'CASCADE' })
+  delegator: User;
+
+  @ManyToOne(() => User, { nullable: false, onDelete: 'CASCADE' })
+  delegate: User;
+
+  @ManyToOne(() => LeaveType, { nullable: true, onDelete: 'RESTRICT' })
+  leaveType: LeaveType | null;
+
+  @Column()
+  startDate: string;
+
+  @Column()
+  endDate: string;
+
+  @Column({ type: 'text', nullable: true })
+  reason: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  revokedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,60 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { LeaveType } from '../../leave-types/entities/leave-type.entity';
+import { numericTransformer } from '../../common/transformers/numeric.transformer';
+
+/**
+ * Who has to sign off a step of an approval chain
+ * MANAGER is the requester's direct manager, ADMIN is any admin (HR)
+ */
+export enum ApprovalStep {
+  MANAGER = 'MANAGER',
+  ADMIN = 'ADMIN',
+}
+
+/**
+ * Approval Rule
+ * Chooses the approval chain for requests of a leave type (or any type)
+ * that are longer than a number of working days
+ */
+@Entity()
+export class ApprovalRule {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  name: string;
+
+  @ManyToOne(() => LeaveType, { nullable: true, onDelete: 'RESTRICT' })
+  leaveType: LeaveType | null;
+
+  @Column({
+    type: 'numeric',
+    precision: 6,
+    scale: 2,
+    default: 0,
+    transformer: numericTransformer,
+  })
+  minDays: number;
+
+  @Column({ type: 'enum', enum: ApprovalStep, array: true })
+  steps: ApprovalStep[];
+
+  @Column({ type: 'int', default: 0 })
+  priority: number;
+
+  @Column({ default: true })
+  active: boolean;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,170 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { ApprovalDelegation } from '../entities/approval-delegation.entity';
+import {
+  CreateApprovalDelegationDto,
+  ApprovalDelegationQueryDto,
+} from '../dto/approval-delegation.dto';
+import { User, UserRole } from '../../users/entities/user.entity';
+import { LeaveTypesService } from '../../leave-types/services/leave-types.service';
+import { AuthUser } from '../../auth/interfaces/auth-user.interface';
+import { formatDate } from '../../common/utils/dates';
+
+/**
+ * Where a delegation stands today; derived from its dates and revokedAt
+ */
+export enum ApprovalDelegationStatus {
+  SCHEDULED = 'SCHEDULED',
+  ACTIVE = 'ACTIVE',
+  ENDED = 'ENDED',
+  REVOKED = 'REVOKED',
+}
+
+@Injectable()
+export class ApprovalDelegationsService {
+  constructor(
+    @InjectRepository(ApprovalDelegation)
+    private delegationRepo: Repository<ApprovalDelegation>,
+    @InjectRepository(User)
+    private userRepo: Repository<User>,
+    private leaveTypesService: LeaveTypesService,
+  ) {}
+
+  /**
+   * Delegations the actor gave or received; admins see every delegation
+   * Ended and revoked delegations are only listed with includeEnded
+   */
+  async findAll(actor: AuthUser, query: ApprovalDelegationQueryDto) {
+    const qb = this.query();
+    if (actor.role !== UserRole.ADMIN) {
+      qb.andWhere('(delegator.id = :actorId OR delegate.id = :actorId)', {
+        actorId: actor.userId,
+      });
+    }
+    if (!query.includeEnded) {
+      qb.andWhere('delegation.revokedAt IS NULL').andWhere(
+        'delegation.endDate >= :today',
+        { today: formatDate(new Date()) },
+      );
+    }
+    const delegations = await qb
+      .orderBy('delegation.startDate', 'ASC')
+      .addOrderBy('delegation.id', 'ASC')
+      .getMany();
+    return delegations.map((delegation) => this.withStatus(delegation));
+  }
+
+  /**
+   * The actor delegates their own approval rights to another manager or admin
+   */
+  async create(actor: AuthUser, data: CreateApprovalDelegationDto) {
+    const startDate = data.startDate.substring(0, 10);
+    const endDate = data.endDate.substring(0, 10);
+    if (endDate < startDate) {
+      throw new BadRequestException('endDate must not be before startDate');
+    }
+    if (endDate < formatDate(new Date())) {
+      throw new BadRequestException('A delegation cannot end in the past');
+    }
+    if (data.delegateId === actor.userId) {
+      throw new BadRequestException('You cannot delegate to yourself');
+    }
+    const delegate = await this.userRepo.findOne({
+      where: { id: data.delegateId },
+    });
+    if (!delegate) {
+      throw new NotFoundException(`User ${data.delegateId} not found`);
+    }
+    if (delegate.role === UserRole.USER) {
+      throw new BadRequestException('Delegates must be managers or admins');
+    }
+    const leaveType = data.leaveType
+      ? await this.leaveTypesService.findActiveByCode(data.leaveType)
+      : null;
+
+    const delegation = await this.delegationRepo.save(
+      this.delegationRepo.create({
+        delegator: { id: actor.userId },
+        delegate: { id: delegate.id },
+        leaveType,
+        startDate,
+        endDate,
+        reason: data.reason ?? null,
+      }),
+    );
+    return this.findOne(delegation.id, actor);
+  }
+
+  /**
+   * Ends a delegation before its window closes; it stays listed as REVOKED
+   */
+  async revoke(id: number, actor: AuthUser) {
+    const delegation = await this.findOne(id, actor);
+    if (
+      actor.role !== UserRole.ADMIN &&
+      delegation.delegator.id !== actor.userId
+    ) {
+      throw new ForbiddenException(
+        'Only the approver who set up a delegation or an admin can revoke it',
+      );
+    }
+    if (
+      delegation.status === ApprovalDelegationStatus.ENDED ||
+      delegation.status === ApprovalDelegationStatus.REVOKED
+    ) {
+      throw new ConflictException(
+        `Approval delegation ${id} has already ended`,
+      );
+    }
+    await this.delegationRepo.update(id, { revokedAt: new Date() });
+    return this.findOne(id, actor);
+  }
+
+  /**
+   * Delegations are visible to admins and to the two users involved
+   */
+  private async findOne(id: number, actor: AuthUser) {
+    const delegation = await this.query()
+      .where('delegation.id = :id', { id })
+      .getOne();
+    if (
+      !delegation ||
+      (actor.role !== UserRole.ADMIN &&
+        delegation.delegator.id !== actor.userId &&
+        delegation.delegate.id !== actor.userId)
+    ) {
+      throw new NotFoundException(`Approval delegation ${id} not found`);
+    }
+    return this.withStatus(delegation);
+  }
+
+  private query() {
+    return this.delegationRepo
+      .createQueryBuilder('delegation')
+      .innerJoin('delegation.delegator', 'delegator')
+      .addSelect(['delegator.id', 'delegator.name', 'delegator.email'])
+      .innerJoin('delegation.delegate', 'delegate')
+      .addSelect(['delegate.id', 'delegate.name', 'delegate.email'])
+      .leftJoinAndSelect('delegation.leaveType', 'leaveType');
+  }
+
+  private withStatus(delegation: ApprovalDelegation) {
+    const today = formatDate(new Date());
+    let status = ApprovalDelegationStatus.ACTIVE;
+    if (delegation.revokedAt) {
+      status = ApprovalDelegationStatus.REVOKED;
+    } else if (delegation.endDate < today) {
+      status = ApprovalDelegationStatus.ENDED;
+    } else if (delegation.startDate > today) {
+      status = ApprovalDelegationStatus.SCHEDULED;
+    }
+    return { ...delegation, status };
+  }
+}
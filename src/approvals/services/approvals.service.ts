@@ -0,0 +1,234 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { ApprovalRule, ApprovalStep } from '../entities/approval-rule.entity';
+import { ApprovalDelegation } from '../entities/approval-delegation.entity';
+import {
+  CreateApprovalRuleDto,
+  UpdateApprovalRuleDto,
+} from '../dto/approval-rule.dto';
+import { User, UserRole } from '../../users/entities/user.entity';
+import { Leave } from '../../leaves/entities/leave.entity';
+import { LeaveType } from '../../leave-types/entities/leave-type.entity';
+import { LeaveTypesService } from '../../leave-types/services/leave-types.service';
+import { AuthUser } from '../../auth/interfaces/auth-user.interface';
+import { formatDate } from '../../common/utils/dates';
+
+/** Chain used when no rule matches a request */
+const DEFAULT_CHAIN = [ApprovalStep.MANAGER];
+
+@Injectable()
+export class ApprovalsService {
+  constructor(
+    @InjectRepository(ApprovalRule)
+    private ruleRepo: Repository<ApprovalRule>,
+    @InjectRepository(User)
+    private userRepo: Repository<User>,
+    @InjectRepository(ApprovalDelegation)
+    private delegationRepo: Repository<ApprovalDelegation>,
+    private leaveTypesService: LeaveTypesService,
+  ) {}
+
+  findAll() {
+    return this.ruleRepo.find({
+      relations: ['leaveType'],
+      order: { priority: 'DESC', id: 'ASC' },
+    });
+  }
+
+  async findOne(id: number) {
+    const rule = await this.ruleRepo.findOne({
+      where: { id },
+      relations: ['leaveType'],
+    });
+    if (!rule) {
+      throw new NotFoundException(`Approval rule ${id} not found`);
+    }
+    return rule;
+  }
+
+  async create(data: CreateApprovalRuleDto) {
+    const leaveType = await this.resolveLeaveType(data.leaveType);
+    return this.ruleRepo.save(this.ruleRepo.create({ ...data, leaveType }));
+  }
+
+  async update(id: number, data: UpdateApprovalRuleDto) {
+    const rule = await this.findOne(id);
+    const { leaveType, ...fields } = data;
+    this.ruleRepo.merge(rule, fields);
+    if (leaveType !== undefined) {
+      rule.leaveType = await this.resolveLeaveType(leaveType);
+    }
+    return this.ruleRepo.save(rule);
+  }
+
+  async remove(id: number) {
+    await this.findOne(id);
+    return this.ruleRepo.delete(id);
+  }
+
+  /**
+   * Approval chain for a new request.
+   * The highest priority matching rule wins, type-specific rules beat generic ones,
+   * then the rule with the highest day threshold. MANAGER steps fall back to ADMIN
+   * when the requester has no manager.
+   */
+  async resolveChain(
+    userId: number,
+    leaveType: LeaveType,
+    workingDays: number,
+  ): Promise<ApprovalStep[]> {
+    const [rules, requester] = await Promise.all([
+      this.ruleRepo.find({ where: { active: true }, relations: ['leaveType'] }),
+      this.userRepo.findOne({ where: { id: userId }, relations: ['manager'] }),
+    ]);
+
+    const rule = rules
+      .filter(
+        (candidate) =>
+          (!candidate.leaveType || candidate.leaveType.id === leaveType.id) &&
+          workingDays > candidate.minDays,
+      )
+      .sort(
+        (a, b) =>
+          b.priority - a.priority ||
+          Number(!!b.leaveType) - Number(!!a.leaveType) ||
+          b.minDays - a.minDays,
+      )[0];
+
+    const steps = (rule?.steps ?? DEFAULT_CHAIN).map((step) =>
+      step === ApprovalStep.MANAGER && !requester?.manager
+        ? ApprovalStep.ADMIN
+        : step,
+    );
+    return steps.filter((step, index) => step !== steps[index - 1]);
+  }
+
+  /**
+   * Whether the actor may sign off the current step of a leave.
+   * Nobody may act on their own request, not even an admin; admins may act on
+   * any step of other requests.
+   * Expects leave.user.manager to be loaded.
+   */
+  canAct(actor: AuthUser, leave: Leave): boolean {
+    if (leave.user.id === actor.userId) {
+      return false;
+    }
+    if (actor.role === UserRole.ADMIN) {
+      return true;
+    }
+    return (
+      leave.approvalSteps[leave.currentStep] === ApprovalStep.MANAGER &&
+      leave.user.manager?.id === actor.userId
+    );
+  }
+
+  /**
+   * Users who can sign off the current step of a leave, not counting admins acting on a manager step
+   * Delegates currently standing in for one of them are included.
+   * Expects leave.type to be loaded.
+   */
+  async findApproverIds(leave: Leave): Promise<number[]> {
+    const approverIds = await this.findStepApproverIds(leave);
+    const delegations = approverIds.length
+      ? await this.activeDelegations(leave)
+          .andWhere('delegator.id IN (:...approverIds)', { approverIds })
+          .getMany()
+      : [];
+    return [
+      ...new Set([
+        ...approverIds,
+        ...delegations.map((delegation) => delegation.delegate.id),
+      ]),
+    ].filter((id) => id !== leave.user.id);
+  }
+
+  /**
+   * Admins other than the requester, e.g. to confirm a cancellation
+   */
+  async findAdminIds(leave: Leave): Promise<number[]> {
+    const admins = await this.userRepo.find({
+      where: { role: UserRole.ADMIN },
+      select: ['id'],
+    });
+    return admins.map((admin) => admin.id).filter((id) => id !== leave.user.id);
+  }
+
+  /**
+   * Approver the actor stands in for on the current step of a leave, through a
+   * delegation active today that covers the leave's type; null when there is none
+   * Expects leave.user.manager and leave.type to be loaded.
+   */
+  async findDelegator(actor: AuthUser, leave: Leave): Promise<User | null> {
+    if (leave.user.id === actor.userId) {
+      return null;
+    }
+    const delegations = await this.activeDelegations(leave)
+      .andWhere('delegate.id = :actorId', { actorId: actor.userId })
+      .orderBy('delegation.id', 'ASC')
+      .getMany();
+    return (
+      delegations
+        .map((delegation) => delegation.delegator)
+        .find((delegator) =>
+          this.canAct(
+            {
+              userId: delegator.id,
+              email: delegator.email,
+              role: delegator.role,
+            },
+            leave,
+          ),
+        ) ?? null
+    );
+  }
+
+  assertCanAct(actor: AuthUser, leave: Leave) {
+    if (!this.canAct(actor, leave)) {
+      throw new ForbiddenException(
+        'You are not an approver for the current step of this leave request',
+      );
+    }
+  }
+
+  private async findStepApproverIds(leave: Leave): Promise<number[]> {
+    if (leave.approvalSteps[leave.currentStep] === ApprovalStep.MANAGER) {
+      const requester = await this.userRepo.findOne({
+        where: { id: leave.user.id },
+        relations: ['manager'],
+      });
+      if (requester?.manager) {
+        return [requester.manager.id];
+      }
+    }
+    return this.findAdminIds(leave);
+  }
+
+  /**
+   * Unrevoked delegations whose window includes today and that cover the leave's type
+   */
+  private activeDelegations(leave: Leave) {
+    const today = formatDate(new Date());
+    return this.delegationRepo
+      .createQueryBuilder('delegation')
+      .innerJoin('delegation.delegator', 'delegator')
+      .addSelect(['delegator.id', 'delegator.email', 'delegator.role'])
+      .innerJoin('delegation.delegate', 'delegate')
+      .addSelect(['delegate.id'])
+      .where('delegation.revokedAt IS NULL')
+      .andWhere('delegation.startDate <= :today', { today })
+      .andWhere('delegation.endDate >= :today', { today })
+      .andWhere(
+        '(delegation.leaveTypeId IS NULL OR delegation.leaveTypeId = :leaveTypeId)',
+        { leaveTypeId: leave.type.id },
+      );
+  }
+
+  private async resolveLeaveType(code?: string | null) {
+    return code ? this.leaveTypesService.findActiveByCode(code) : null;
+  }
+}
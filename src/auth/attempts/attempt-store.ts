@@ -0,0 +1,30 @@
+/**
+ * Number of attempts counted for a key in the current window
+ */
+export interface AttemptCounter {
+  count: number;
+  lastAttemptAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Attempt Store
+ * Keeps the failed-login and request counters used for throttling. Inject this
+ * class; AuthModule decides which implementation backs it from AUTH_ATTEMPT_STORE.
+ * A counter starts a window on its first attempt and is dropped once it expires.
+ */
+export abstract class AttemptStore {
+  /**
+   * Counts an attempt, starting a new window of windowMs if there is none
+   */
+  abstract increment(key: string, windowMs: number): Promise<AttemptCounter>;
+
+  /**
+   * The counter of the current window, or null when there is none
+   */
+  abstract get(key: string): Promise<AttemptCounter | null>;
+
+  abstract reset(key: string): Promise<void>;
+
+  abstract purgeExpired(): Promise<void>;
+}
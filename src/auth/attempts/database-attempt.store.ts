@@ -0,0 +1,42 @@
+import { LessThanOrEqual, MoreThan, Repository } from 'typeorm';
+import { AttemptCounter, AttemptStore } from './attempt-store';
+import { AttemptCounterEntry } from '../entities/attempt-counter-entry.entity';
+
+/**
+ * Keeps counters in the attempt_counter_entry table, shared by every instance.
+ * Increments are a single upsert, so concurrent attempts are all counted.
+ */
+export class DatabaseAttemptStore extends AttemptStore {
+  constructor(private counterRepo: Repository<AttemptCounterEntry>) {
+    super();
+  }
+
+  async increment(key: string, windowMs: number): Promise<AttemptCounter> {
+    const now = new Date();
+    const rows: AttemptCounter[] = await this.counterRepo.query(
+      `INSERT INTO attempt_counter_entry (key, count, "lastAttemptAt", "expiresAt")
+       VALUES ($1, 1, $2, $3)
+       ON CONFLICT (key) DO UPDATE SET
+         count = CASE WHEN attempt_counter_entry."expiresAt" > $2 THEN attempt_counter_entry.count + 1 ELSE 1 END,
+         "lastAttemptAt" = $2,
+         "expiresAt" = CASE WHEN attempt_counter_entry."expiresAt" > $2 THEN attempt_counter_entry."expiresAt" ELSE $3 END
+       RETURNING count, "lastAttemptAt", "expiresAt"`,
+      [key, now, new Date(now.getTime() + windowMs)],
+    );
+    return rows[0];
+  }
+
+  get(key: string) {
+    return this.counterRepo.findOne({
+      where: { key, expiresAt: MoreThan(new Date()) },
+    });
+  }
+
+  async reset(key: string) {
+    await this.counterRepo.delete({ key });
+  }
+
+  async purgeExpired() {
+    await this.counterRepo.delete({ expiresAt: LessThanOrEqual(new Date()) });
+  }
+}
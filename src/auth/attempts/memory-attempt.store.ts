@@ -0,0 +1,47 @@
+import { AttemptCounter, AttemptStore } from './attempt-store';
+
+/**
+ * Keeps counters in process memory; they are lost on restart and not shared
+ * between instances, so use the database store when running more than one
+ */
+export class MemoryAttemptStore extends AttemptStore {
+  private readonly counters = new Map<string, AttemptCounter>();
+
+  increment(key: string, windowMs: number) {
+    const now = new Date();
+    const current = this.current(key, now);
+    const counter: AttemptCounter = current
+      ? { ...current, count: current.count + 1, lastAttemptAt: now }
+      : {
+          count: 1,
+          lastAttemptAt: now,
+          expiresAt: new Date(now.getTime() + windowMs),
+        };
+    this.counters.set(key, counter);
+    return Promise.resolve(counter);
+  }
+
+  get(key: string) {
+    return Promise.resolve(this.current(key, new Date()));
+  }
+
+  reset(key: string) {
+    this.counters.delete(key);
+    return Promise.resolve();
+  }
+
+  purgeExpired() {
+    const now = new Date();
+    for (const [key, counter] of this.counters) {
+      if (counter.expiresAt <= now) {
+        this.counters.delete(key);
+      }
+    }
+    return Promise.resolve();
+  }
+
+  private current(key: string, now: Date) {
+    const counter = this.counters.get(key);
+    return counter && counter.expiresAt > now ? counter : null;
+  }
+}
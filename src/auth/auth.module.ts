@@ -1,27 +1,72 @@
 import { Module } from '@nestjs/common';
 import { JwtModule } from '@nestjs/jwt';
-import { TypeOrmModule } from '@nestjs/typeorm';
+import { TypeOrmModule, getRepositoryToken } from '@nestjs/typeorm';
 import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
 import { AuthService } from './services/auth.service';
+import { LoginThrottleService } from './services/login-throttle.service';
+import { LockoutNotifier } from './services/lockout-notifier.service';
+import { InviteMailer } from './services/invite-mailer.service';
 import { User } from '../users/entities/user.entity';
+import { RefreshToken } from './entities/refresh-token.entity';
+import { PasswordResetToken } from './entities/password-reset-token.entity';
+import { AttemptCounterEntry } from './entities/attempt-counter-entry.entity';
+import { AttemptStore } from './attempts/attempt-store';
+import { MemoryAttemptStore } from './attempts/memory-attempt.store';
+import { DatabaseAttemptStore } from './attempts/database-attempt.store';
 import { AuthController } from './controllers/auth.controller';
 import { JwtStrategy } from './jwt/jwt.strategy';
+import { OutboxModule } from '../outbox/outbox.module';
+import { SchedulerModule } from '../scheduler/scheduler.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([User]),
+    TypeOrmModule.forFeature([
+      User,
+      RefreshToken,
+      PasswordResetToken,
+      AttemptCounterEntry,
+    ]),
+    OutboxModule,
+    SchedulerModule,
     JwtModule.registerAsync({
       inject: [ConfigService],
       useFactory: (configService: ConfigService) => {
         return {
           secret: configService.get<string>('JWT_SECRET', 'default-secret-key'),
-          signOptions: { expiresIn: configService.get<number>('JWT_EXPIRATION', 604800) },
+          signOptions: {
+            expiresIn: configService.get<number>('JWT_EXPIRATION', 900),
+          },
         };
       },
     }),
   ],
-  providers: [AuthService, JwtStrategy],
-  exports: [AuthService, JwtModule],
+  providers: [
+    AuthService,
+    LoginThrottleService,
+    LockoutNotifier,
+    InviteMailer,
+    JwtStrategy,
+    // Failed-login and rate limit counters, selected by AUTH_ATTEMPT_STORE (memory or database, default memory)
+    {
+      provide: AttemptStore,
+      inject: [ConfigService, getRepositoryToken(AttemptCounterEntry)],
+      useFactory: (
+        configService: ConfigService,
+        counterRepo: Repository<AttemptCounterEntry>,
+      ): AttemptStore => {
+        const store = configService.get<string>('AUTH_ATTEMPT_STORE', 'memory');
+        if (store === 'database') {
+          return new DatabaseAttemptStore(counterRepo);
+        }
+        if (store !== 'memory') {
+          throw new Error(`Unsupported AUTH_ATTEMPT_STORE ${store}`);
+        }
+        return new MemoryAttemptStore();
+      },
+    },
+  ],
+  exports: [AuthService, LoginThrottleService, JwtModule],
   controllers: [AuthController],
 })
 export class AuthModule {}
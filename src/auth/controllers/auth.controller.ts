@@ -1,13 +1,48 @@
-import { Controller, Post, Body, ValidationPipe, HttpCode, HttpStatus } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBadRequestResponse, ApiUnauthorizedResponse } from '@nestjs/swagger';
+import {
+  Controller,
+  Post,
+  Put,
+  Body,
+  ValidationPipe,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+  UseInterceptors,
+  Request,
+  Ip,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBadRequestResponse,
+  ApiUnauthorizedResponse,
+  ApiBearerAuth,
+  ApiTooManyRequestsResponse,
+} from '@nestjs/swagger';
 import { AuthService } from '../services/auth.service';
-import { AuthRegisterDto, AuthLoginDto } from '../dto/auth.dto';
+import { AuthRateLimitInterceptor } from '../interceptors/auth-rate-limit.interceptor';
+import {
+  AuthRegisterDto,
+  AuthLoginDto,
+  RefreshTokenDto,
+  ForgotPasswordDto,
+  ResetPasswordDto,
+  ChangePasswordDto,
+} from '../dto/auth.dto';
+import { JwtAuthGuard } from '../jwt/jwt-auth.guard';
 
 /**
  * Authentication Controller
- * Handles user registration and login for the Internal Leave Request API
+ * Handles user registration, login and session management for the Internal Leave Request API
+ * Every route is rate limited per IP; refusals are 429 with a Retry-After header
  */
 @ApiTags('Authentication')
+@ApiTooManyRequestsResponse({
+  description:
+    'Too many requests from this IP - retry after the number of seconds in the Retry-After header',
+})
+@UseInterceptors(AuthRateLimitInterceptor)
 @Controller('auth')
 export class AuthController {
   constructor(private authService: AuthService) {}
@@ -31,18 +66,161 @@ export class AuthController {
 
   /**
    * User login
-   * Authenticates user and returns JWT access token
+   * Authenticates user and returns a short-lived JWT access token and a refresh token
    */
   @Post('login')
   @ApiOperation({ 
     summary: 'User login',
-    description: 'Authenticates user with email and password. Returns JWT access token for subsequent API calls.'
+    description:
+      'Authenticates user with email and password. Returns a short-lived JWT access token for subsequent API calls and a refresh token to obtain new ones. After repeated failures the account has to wait progressively longer between attempts (429), and is then locked for a while (423); an admin can unlock it.',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Login successful. Returns JWT access token and refresh token.',
   })
-  @ApiResponse({ status: 200, description: 'Login successful. Returns JWT access token.' })
   @ApiResponse({ status: 401, description: 'Unauthorized - invalid email or password' })
+  @ApiResponse({
+    status: 423,
+    description:
+      'Account is temporarily locked after too many failed attempts - see Retry-After',
+  })
   @ApiUnauthorizedResponse({ description: 'Invalid credentials - email or password is incorrect' })
   @HttpCode(HttpStatus.OK)
-  login(@Body(new ValidationPipe()) body: AuthLoginDto) {
-    return this.authService.login(body.email, body.password);
+  login(@Body(new ValidationPipe()) body: AuthLoginDto, @Ip() ip: string) {
+    return this.authService.login(body.email, body.password, ip);
+  }
+
+  /**
+   * Refresh tokens
+   * Rotates a refresh token into a new access token and refresh token
+   */
+  @Post('refresh')
+  @ApiOperation({
+    summary: 'Refresh access token',
+    description:
+      'Exchanges a refresh token for a new access token and refresh token. Each refresh token can only be used once; reusing one ends the session it belongs to.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns a new JWT access token and refresh token.',
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Refresh token is invalid, expired, revoked or already used',
+  })
+  @HttpCode(HttpStatus.OK)
+  refresh(@Body(new ValidationPipe()) body: RefreshTokenDto) {
+    return this.authService.refresh(body.refresh_token);
+  }
+
+  /**
+   * Logout
+   * Revokes the session the refresh token belongs to
+   */
+  @Post('logout')
+  @ApiOperation({
+    summary: 'Logout',
+    description:
+      'Revokes the refresh token and every token rotated from the same login. The current access token stays valid until it expires.',
+  })
+  @ApiResponse({ status: 204, description: 'Session ended.' })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async logout(@Body(new ValidationPipe()) body: RefreshTokenDto) {
+    await this.authService.logout(body.refresh_token);
+  }
+
+  /**
+   * Logout from all sessions
+   * Revokes every refresh token and access token of the current user
+   */
+  @Post('logout-all')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Logout from all sessions',
+    description:
+      'Revokes all refresh tokens of the current user and invalidates every access token issued so far, on all devices.',
+  })
+  @ApiResponse({ status: 204, description: 'All sessions ended.' })
+  @ApiUnauthorizedResponse({ description: 'Missing or invalid access token' })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async logoutAll(@Request() req) {
+    await this.authService.logoutAll(req.user.userId);
+  }
+
+  /**
+   * Forgot password
+   * Emails a password reset link
+   */
+  @Post('forgot-password')
+  @ApiOperation({
+    summary: 'Request password reset',
+    description:
+      'Emails a single-use, expiring password reset link if an account exists for the address. The response is the same whether or not the account exists.',
+  })
+  @ApiResponse({
+    status: 202,
+    description: 'Reset email sent if the account exists.',
+  })
+  @HttpCode(HttpStatus.ACCEPTED)
+  async forgotPassword(@Body(new ValidationPipe()) body: ForgotPasswordDto) {
+    await this.authService.forgotPassword(body.email);
+    return {
+      message:
+        'If an account exists for this email, a reset link has been sent.',
+    };
+  }
+
+  /**
+   * Reset password
+   * Sets a new password using the token from the reset email
+   */
+  @Post('reset-password')
+  @ApiOperation({
+    summary: 'Reset password',
+    description:
+      'Sets a new password using a reset token. The token can only be used once, and all existing sessions are ended.',
+  })
+  @ApiResponse({ status: 204, description: 'Password changed.' })
+  @ApiBadRequestResponse({
+    description:
+      'Reset token is invalid, expired or already used, or the password is too short',
+  })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async resetPassword(@Body(new ValidationPipe()) body: ResetPasswordDto) {
+    await this.authService.resetPassword(body.token, body.password);
+  }
+
+  /**
+   * Change password
+   * Changes the current user's password after verifying the current one
+   */
+  @Put('password')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Change password',
+    description:
+      'Changes the password of the current user. Requires the current password. Ends all other sessions and returns a new access token and refresh token.',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Password changed. Returns a new JWT access token and refresh token.',
+  })
+  @ApiBadRequestResponse({
+    description:
+      'Current password is incorrect or the new password is too short',
+  })
+  @ApiUnauthorizedResponse({ description: 'Missing or invalid access token' })
+  changePassword(
+    @Request() req,
+    @Body(new ValidationPipe()) body: ChangePasswordDto,
+  ) {
+    return this.authService.changePassword(
+      req.user.userId,
+      body.currentPassword,
+      body.newPassword,
+    );
   }
 }
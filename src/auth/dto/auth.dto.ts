@@ -26,3 +26,39 @@ export class AuthLoginDto {
   @IsString()
   password: string;
 }
+
+export class RefreshTokenDto {
+  @ApiProperty({
+    description: 'Refresh token returned by login or a previous refresh',
+  })
+  @IsString()
+  refresh_token: string;
+}
+
+export class ForgotPasswordDto {
+  @ApiProperty({ example: 'user@example.com' })
+  @IsEmail()
+  email: string;
+}
+
+export class ResetPasswordDto {
+  @ApiProperty({ description: 'Token from the password reset email' })
+  @IsString()
+  token: string;
+
+  @ApiProperty({ example: 'newpassword123', minLength: 6 })
+  @IsString()
+  @MinLength(6, { message: 'Password must be at least 6 characters' })
+  password: string;
+}
+
+export class ChangePasswordDto {
+  @ApiProperty({ example: 'password123' })
+  @IsString()
+  currentPassword: string;
+
+  @ApiProperty({ example: 'newpassword123', minLength: 6 })
+  @IsString()
+  @MinLength(6, { message: 'Password must be at least 6 characters' })
+  newPassword: string;
+}
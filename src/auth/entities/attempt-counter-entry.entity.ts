@@ -0,0 +1,22 @@
+import { Entity, PrimaryColumn, Column, Index } from 'typeorm';
+
+/**
+ * Attempt Counter Entry
+ * Row of the database attempt store: the attempts counted for a key
+ * (e.g. failed logins of an account) until the window expires
+ */
+@Entity()
+export class AttemptCounterEntry {
+  @PrimaryColumn()
+  key: string;
+
+  @Column({ type: 'int' })
+  count: number;
+
+  @Column({ type: 'timestamp' })
+  lastAttemptAt: Date;
+
+  @Index()
+  @Column({ type: 'timestamp' })
+  expiresAt: Date;
+}
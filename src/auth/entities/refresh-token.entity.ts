@@ -0,0 +1,40 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+/**
+ * Refresh Token
+ * One link in a rotation chain; only the SHA-256 hash of the token is stored.
+ * All tokens descending from the same login share a family, so presenting a
+ * token that was already rotated revokes the whole session.
+ */
+@Entity()
+export class RefreshToken {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  user: User;
+
+  @Index()
+  @Column()
+  family: string;
+
+  @Column({ unique: true, select: false })
+  tokenHash: string;
+
+  @Column({ type: 'timestamp' })
+  expiresAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  revokedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,39 @@
+import {
+  Injectable,
+  NestInterceptor,
+  ExecutionContext,
+  CallHandler,
+} from '@nestjs/common';
+import type { Request, Response } from 'express';
+import { defer, throwError } from 'rxjs';
+import { catchError, switchMap } from 'rxjs/operators';
+import { LoginThrottleService } from '../services/login-throttle.service';
+import { RetryLaterException } from '../../common/exceptions/retry-later.exception';
+
+/**
+ * Counts each request against the per-IP limit of its route, and sends
+ * Retry-After with every RetryLaterException of the route
+ */
+@Injectable()
+export class AuthRateLimitInterceptor implements NestInterceptor {
+  constructor(private loginThrottleService: LoginThrottleService) {}
+
+  intercept(context: ExecutionContext, next: CallHandler) {
+    const http = context.switchToHttp();
+    const request = http.getRequest<Request>();
+    const response = http.getResponse<Response>();
+    const route = `${context.getClass().name}.${context.getHandler().name}`;
+
+    return defer(() =>
+      this.loginThrottleService.assertRateLimit(route, request.ip ?? ''),
+    ).pipe(
+      switchMap(() => next.handle()),
+      catchError((error: unknown) => {
+        if (error instanceof RetryLaterException) {
+          response.setHeader('Retry-After', String(error.retryAfter));
+        }
+        return throwError(() => error);
+      }),
+    );
+  }
+}
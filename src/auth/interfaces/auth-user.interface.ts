@@ -0,0 +1,10 @@
+import { UserRole } from '../../users/entities/user.entity';
+
+/**
+ * Authenticated user attached to the request by JwtStrategy
+ */
+export interface AuthUser {
+  userId: number;
+  email?: string;
+  role: UserRole;
+}
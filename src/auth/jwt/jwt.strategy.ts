@@ -1,18 +1,37 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { AuthUser } from '../interfaces/auth-user.interface';
+import { User } from '../../users/entities/user.entity';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
-  constructor(configService: ConfigService) {
+  constructor(
+    configService: ConfigService,
+    @InjectRepository(User)
+    private userRepo: Repository<User>,
+  ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
       secretOrKey: configService.get<string>('JWT_SECRET', 'default-secret-key'),
     });
   }
 
-  async validate(payload: any) {
-    return { userId: payload.sub, email: payload.email, role: payload.role };
+  /**
+   * The role is read from the database rather than the token, so deletions,
+   * role changes and "log out all sessions" take effect on the next request
+   */
+  async validate(payload: any): Promise<AuthUser> {
+    const user = await this.userRepo.findOne({
+      where: { id: payload.sub },
+      select: ['id', 'email', 'role', 'tokenVersion'],
+    });
+    if (!user || user.tokenVersion !== (payload.ver ?? 0)) {
+      throw new UnauthorizedException();
+    }
+    return { userId: user.id, email: user.email, role: user.role };
   }
 }
@@ -1,33 +1,330 @@
-import { Injectable, UnauthorizedException } from '@nestjs/common';
+import {
+  Injectable,
+  UnauthorizedException,
+  BadRequestException,
+} from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { ConfigService } from '@nestjs/config';
+import { IsNull, Repository } from 'typeorm';
+import { createHash, randomBytes, randomUUID } from 'crypto';
 import * as bcrypt from 'bcrypt';
 import { User, UserRole } from '../../users/entities/user.entity';
+import { RefreshToken } from '../entities/refresh-token.entity';
+import { PasswordResetToken } from '../entities/password-reset-token.entity';
+import { MailTransport } from '../../mail/transports/mail-transport';
+import { OutboxService } from '../../outbox/services/outbox.service';
+import {
+  UserDomainEvent,
+  toUserEventPayload,
+} from '../../users/events/user-domain-event';
+import { LoginThrottleService } from './login-throttle.service';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const MS_PER_MINUTE = 60 * 1000;
+// Compared against when the email has no account, so that both cases take as long
+const UNKNOWN_USER_HASH = bcrypt.hashSync(randomUUID(), 10);
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
 
 @Injectable()
 export class AuthService {
   constructor(
     @InjectRepository(User)
     private userRepo: Repository<User>,
+    @InjectRepository(RefreshToken)
+    private refreshTokenRepo: Repository<RefreshToken>,
+    @InjectRepository(PasswordResetToken)
+    private resetTokenRepo: Repository<PasswordResetToken>,
     private jwtService: JwtService,
+    private configService: ConfigService,
+    private mailTransport: MailTransport,
+    private outboxService: OutboxService,
+    private loginThrottleService: LoginThrottleService,
   ) {}
 
-  async register(email: string, password: string, name: string) {
+  // Self-registration always creates a USER; other roles are only given by the CLI (create-admin) and admins
+  async register(
+    email: string,
+    password: string,
+    name: string,
+    role = UserRole.USER,
+  ) {
     const hashed = await bcrypt.hash(password, 10);
-    const user = this.userRepo.create({ email, password: hashed, name, role: UserRole.USER });
-    return this.userRepo.save(user);
+    const user = this.userRepo.create({ email, password: hashed, name, role });
+    return this.userRepo.manager.transaction(async (manager) => {
+      const saved = await manager.save(user);
+      await this.outboxService.enqueue(
+        UserDomainEvent.CREATED,
+        toUserEventPayload(saved),
+        manager,
+      );
+      return saved;
+    });
   }
 
-  async login(email: string, password: string) {
-    const user = await this.userRepo.findOne({ where: { email } });
-    if (!user || !(await bcrypt.compare(password, user.password))) {
+  // Failed attempts are throttled per account and IP, see LoginThrottleService
+  async login(email: string, password: string, ip: string) {
+    const user = await this.userRepo.findOne({
+      where: { email },
+      select: [
+        'id',
+        'email',
+        'name',
+        'password',
+        'role',
+        'tokenVersion',
+        'lockedUntil',
+      ],
+    });
+    await this.loginThrottleService.assertCanAttempt(email, ip, user);
+    const matches = await bcrypt.compare(
+      password,
+      user?.password ?? UNKNOWN_USER_HASH,
+    );
+    if (!user || !matches) {
+      const lockedUntil = await this.loginThrottleService.recordFailure(
+        email,
+        ip,
+        user,
+      );
+      if (lockedUntil) {
+        throw this.loginThrottleService.lockedException(lockedUntil);
+      }
       throw new UnauthorizedException();
     }
 
-    const payload = { sub: user.id, userId: user.id, role: user.role };
+    await this.loginThrottleService.recordSuccess(email);
+    return this.issueTokens(user, randomUUID());
+  }
+
+  /**
+   * Exchanges a refresh token for a new access/refresh token pair
+   * Every refresh token is single-use; presenting one that was already used revokes its whole family
+   */
+  async refresh(token: string) {
+    const stored = await this.refreshTokenRepo.findOne({
+      where: { tokenHash: hashToken(token) },
+      relations: ['user'],
+      select: {
+        id: true,
+        family: true,
+        expiresAt: true,
+        revokedAt: true,
+        user: { id: true, role: true, tokenVersion: true },
+      },
+    });
+    if (!stored) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+    if (stored.revokedAt) {
+      await this.revokeFamily(stored.family);
+      throw new UnauthorizedException('Refresh token has already been used');
+    }
+    if (stored.expiresAt <= new Date()) {
+      throw new UnauthorizedException('Refresh token has expired');
+    }
+
+    // Conditional update so two concurrent refreshes cannot both rotate the same token
+    const { affected } = await this.refreshTokenRepo.update(
+      { id: stored.id, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+    if (!affected) {
+      await this.revokeFamily(stored.family);
+      throw new UnauthorizedException('Refresh token has already been used');
+    }
+    return this.issueTokens(stored.user, stored.family);
+  }
+
+  /**
+   * Ends the session the refresh token belongs to
+   */
+  async logout(token: string) {
+    const stored = await this.refreshTokenRepo.findOne({
+      where: { tokenHash: hashToken(token) },
+    });
+    if (stored) {
+      await this.revokeFamily(stored.family);
+    }
+  }
+
+  /**
+   * Ends every session of the user, including access tokens that have not expired yet
+   */
+  async logoutAll(userId: number) {
+    await this.refreshTokenRepo.update(
+      { user: { id: userId }, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+    await this.userRepo.increment({ id: userId }, 'tokenVersion', 1);
+  }
+
+  /**
+   * Emails a single-use reset link; unknown addresses are ignored so the response does not reveal who has an account
+   */
+  async forgotPassword(email: string) {
+    const user = await this.userRepo.findOne({ where: { email } });
+    if (!user) {
+      return;
+    }
+
+    const ttlMinutes = parseInt(
+      this.configService.get<string>('PASSWORD_RESET_EXPIRATION_MINUTES', '60'),
+      10,
+    );
+    const token = await this.createResetToken(
+      user.id,
+      ttlMinutes * MS_PER_MINUTE,
+    );
+
+    const appUrl = this.configService.get<string>(
+      'APP_URL',
+      'http://localhost:3000',
+    );
+    const link = `${appUrl}/reset-password?token=${encodeURIComponent(token)}`;
+    await this.mailTransport.send({
+      to: user.email,
+      subject: 'Reset your password',
+      text:
+        `Hello ${user.name || user.email},\n\n` +
+        `Use the link below to choose a new password. It expires in ${ttlMinutes} minutes and can only be used once.\n\n` +
+        `${link}\n\n` +
+        'If you did not ask for a password reset you can ignore this email.',
+    });
+  }
+
+  /**
+   * Emails a set-password link to an account created on the user's behalf, e.g. by CSV import
+   * Its token is redeemed with resetPassword like a reset token, but stays valid for INVITE_EXPIRATION_DAYS;
+   * sending another invite replaces it
+   */
+  async sendInvite(user: Pick<User, 'id' | 'email' | 'name'>) {
+    const ttlDays = parseInt(
+      this.configService.get<string>('INVITE_EXPIRATION_DAYS', '7'),
+      10,
+    );
+    const token = await this.createResetToken(user.id, ttlDays * MS_PER_DAY);
+    const appUrl = this.configService.get<string>(
+      'APP_URL',
+      'http://localhost:3000',
+    );
+    const link = `${appUrl}/set-password?token=${encodeURIComponent(token)}`;
+    await this.mailTransport.send({
+      to: user.email,
+      subject: 'Your leave account is ready',
+      text:
+        `Hello ${user.name || user.email},\n\n` +
+        'An account has been created for you. Use the link below to choose your password; it can only be used once.\n\n' +
+        `${link}\n\n` +
+        'If the link has expired, use "Forgot password" with this email address to get a new one.',
+    });
+  }
+
+  /**
+   * Sets a new password with a reset token and ends every existing session
+   */
+  async resetPassword(token: string, password: string) {
+    const stored = await this.resetTokenRepo.findOne({
+      where: { tokenHash: hashToken(token), usedAt: IsNull() },
+      relations: ['user'],
+    });
+    if (!stored || stored.expiresAt <= new Date()) {
+      throw new BadRequestException('Invalid or expired reset token');
+    }
+    const { affected } = await this.resetTokenRepo.update(
+      { id: stored.id, usedAt: IsNull() },
+      { usedAt: new Date() },
+    );
+    if (!affected) {
+      throw new BadRequestException('Invalid or expired reset token');
+    }
+
+    await this.userRepo.update(stored.user.id, {
+      password: await bcrypt.hash(password, 10),
+    });
+    await this.logoutAll(stored.user.id);
+  }
+
+  /**
+   * Changes the password of a signed-in user
+   * Other sessions are ended; the caller receives a fresh token pair
+   */
+  async changePassword(
+    userId: number,
+    currentPassword: string,
+    newPassword: string,
+  ) {
+    const user = await this.userRepo.findOne({
+      where: { id: userId },
+      select: ['id', 'password'],
+    });
+    if (!user || !(await bcrypt.compare(currentPassword, user.password))) {
+      throw new BadRequestException('Current password is incorrect');
+    }
+
+    await this.userRepo.update(userId, {
+      password: await bcrypt.hash(newPassword, 10),
+    });
+    await this.logoutAll(userId);
+    const updated = await this.userRepo.findOneOrFail({
+      where: { id: userId },
+      select: ['id', 'role', 'tokenVersion'],
+    });
+    return this.issueTokens(updated, randomUUID());
+  }
+
+  private async issueTokens(user: User, family: string) {
+    const payload = {
+      sub: user.id,
+      userId: user.id,
+      role: user.role,
+      ver: user.tokenVersion,
+    };
+    const refreshToken = randomBytes(32).toString('base64url');
+    const ttlDays = parseInt(
+      this.configService.get<string>('REFRESH_TOKEN_EXPIRATION_DAYS', '30'),
+      10,
+    );
+    await this.refreshTokenRepo.save(
+      this.refreshTokenRepo.create({
+        user: { id: user.id },
+        family,
+        tokenHash: hashToken(refreshToken),
+        expiresAt: new Date(Date.now() + ttlDays * MS_PER_DAY),
+      }),
+    );
     return {
       access_token: this.jwtService.sign(payload),
+      refresh_token: refreshToken,
     };
   }
+
+  /**
+   * Stores a new single-use password token and returns it; only the most recent one works
+   */
+  private async createResetToken(userId: number, ttlMs: number) {
+    await this.resetTokenRepo.delete({
+      user: { id: userId },
+      usedAt: IsNull(),
+    });
+    const token = randomBytes(32).toString('base64url');
+    await this.resetTokenRepo.save(
+      this.resetTokenRepo.create({
+        user: { id: userId },
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + ttlMs),
+      }),
+    );
+    return token;
+  }
+
+  private async revokeFamily(family: string) {
+    await this.refreshTokenRepo.update(
+      { family, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+  }
 }
@@ -0,0 +1,37 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { OutboxDispatcher } from '../../outbox/services/outbox-dispatcher.service';
+import { OutboxEvent } from '../../outbox/entities/outbox-event.entity';
+import { OutboxHandler } from '../../outbox/interfaces/outbox-handler.interface';
+import { AuthService } from './auth.service';
+import {
+  UserDomainEvent,
+  UserInvitedPayload,
+} from '../../users/events/user-domain-event';
+
+/**
+ * Invite Mailer
+ * Emails invited users their set-password link. Runs from the outbox, so that
+ * importing many users does not wait for the mail server and a failed email is
+ * retried; the token is only created when the email is sent.
+ */
+@Injectable()
+export class InviteMailer implements OutboxHandler, OnModuleInit {
+  readonly name = 'invite-mailer';
+
+  constructor(
+    private outboxDispatcher: OutboxDispatcher,
+    private authService: AuthService,
+  ) {}
+
+  onModuleInit() {
+    this.outboxDispatcher.register(this);
+  }
+
+  async handle(event: OutboxEvent) {
+    if (event.type !== (UserDomainEvent.INVITED as string)) {
+      return;
+    }
+    const { user } = event.payload as unknown as UserInvitedPayload;
+    await this.authService.sendInvite(user);
+  }
+}
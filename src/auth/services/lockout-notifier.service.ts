@@ -0,0 +1,46 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { OutboxDispatcher } from '../../outbox/services/outbox-dispatcher.service';
+import { OutboxEvent } from '../../outbox/entities/outbox-event.entity';
+import { OutboxHandler } from '../../outbox/interfaces/outbox-handler.interface';
+import { MailTransport } from '../../mail/transports/mail-transport';
+import {
+  UserDomainEvent,
+  UserLockedPayload,
+} from '../../users/events/user-domain-event';
+
+/**
+ * Lockout Notifier
+ * Tells users by email that their account was locked after failed logins.
+ * Runs from the outbox, so a failing mail server delays the email instead of
+ * failing the login attempt that caused the lock.
+ */
+@Injectable()
+export class LockoutNotifier implements OutboxHandler, OnModuleInit {
+  readonly name = 'lockout-notifier';
+
+  constructor(
+    private outboxDispatcher: OutboxDispatcher,
+    private mailTransport: MailTransport,
+  ) {}
+
+  onModuleInit() {
+    this.outboxDispatcher.register(this);
+  }
+
+  async handle(event: OutboxEvent) {
+    if (event.type !== (UserDomainEvent.LOCKED as string)) {
+      return;
+    }
+    const { user, lockedUntil, failures, ip } =
+      event.payload as unknown as UserLockedPayload;
+    await this.mailTransport.send({
+      to: user.email,
+      subject: 'Your account has been temporarily locked',
+      text:
+        `Hello ${user.name || user.email},\n\n` +
+        `There were ${failures} failed attempts to sign in to your account, the last from ${ip}, ` +
+        `so it is locked until ${lockedUntil}.\n\n` +
+        'If this was not you, consider resetting your password. An administrator can unlock the account sooner.',
+    });
+  }
+}
@@ -0,0 +1,227 @@
+import {
+  HttpStatus,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { AttemptStore } from '../attempts/attempt-store';
+import { OutboxService } from '../../outbox/services/outbox.service';
+import {
+  UserDomainEvent,
+  UserLockedPayload,
+} from '../../users/events/user-domain-event';
+import { RetryLaterException } from '../../common/exceptions/retry-later.exception';
+import { SchedulerService } from '../../scheduler/services/scheduler.service';
+import { ScheduledJob } from '../../scheduler/interfaces/scheduled-job.interface';
+import { normalizeEmail } from '../../common/transformers/email.transformer';
+
+const MS_PER_SECOND = 1000;
+const MS_PER_MINUTE = 60 * MS_PER_SECOND;
+
+const accountKey = (email: string) => `login:account:${normalizeEmail(email)}`;
+const lockKey = (email: string) => `login:lock:${normalizeEmail(email)}`;
+const ipKey = (ip: string) => `login:ip:${ip}`;
+
+function secondsUntil(date: Date) {
+  return Math.max(Math.ceil((date.getTime() - Date.now()) / MS_PER_SECOND), 1);
+}
+
+/**
+ * Login Throttle Service
+ * Brute-force protection for the auth routes:
+ * - every auth route allows AUTH_RATE_LIMIT requests per IP and AUTH_RATE_WINDOW_SECONDS
+ * - failed logins are counted per account and per IP for LOGIN_FAILURE_WINDOW_MINUTES
+ * - from LOGIN_DELAY_AFTER_FAILURES failures on, an account must wait 1, 2, 4... seconds
+ *   (up to LOGIN_MAX_DELAY_SECONDS) between attempts
+ * - LOGIN_LOCKOUT_THRESHOLD failures lock the account for LOGIN_LOCKOUT_MINUTES; emails without an
+ *   account are locked the same way, so that the responses do not reveal which accounts exist
+ * - LOGIN_IP_MAX_FAILURES failures block logins from the IP until its window ends
+ * A limit of 0 disables the corresponding check. Expired counters are purged as a scheduled job.
+ */
+@Injectable()
+export class LoginThrottleService implements ScheduledJob, OnModuleInit {
+  readonly name = 'auth-attempt-cleanup';
+  private readonly logger = new Logger(LoginThrottleService.name);
+
+  constructor(
+    @InjectRepository(User)
+    private userRepo: Repository<User>,
+    private attemptStore: AttemptStore,
+    private configService: ConfigService,
+    private outboxService: OutboxService,
+    private schedulerService: SchedulerService,
+  ) {}
+
+  onModuleInit() {
+    this.schedulerService.register(this);
+  }
+
+  run() {
+    return this.attemptStore.purgeExpired();
+  }
+
+  /**
+   * Counts a request to an auth route and refuses it once the IP is over the limit
+   */
+  async assertRateLimit(route: string, ip: string) {
+    const limit = this.setting('AUTH_RATE_LIMIT', 30);
+    if (limit <= 0) {
+      return;
+    }
+    const requests = await this.attemptStore.increment(
+      `rate:${route}:${ip}`,
+      this.setting('AUTH_RATE_WINDOW_SECONDS', 60) * MS_PER_SECOND,
+    );
+    if (requests.count > limit) {
+      throw new RetryLaterException(
+        'Too many requests; try again later',
+        secondsUntil(requests.expiresAt),
+      );
+    }
+  }
+
+  /**
+   * Refuses a login attempt for a locked account, from a blocked IP, or
+   * before the account's progressive delay has passed
+   */
+  async assertCanAttempt(email: string, ip: string, user: User | null) {
+    if (user?.lockedUntil && user.lockedUntil > new Date()) {
+      throw this.lockedException(user.lockedUntil);
+    }
+    const lock = await this.attemptStore.get(lockKey(email));
+    if (lock) {
+      throw this.lockedException(lock.expiresAt);
+    }
+
+    const ipLimit = this.setting('LOGIN_IP_MAX_FAILURES', 50);
+    const ipFailures = await this.attemptStore.get(ipKey(ip));
+    if (ipLimit > 0 && ipFailures && ipFailures.count >= ipLimit) {
+      throw new RetryLaterException(
+        'Too many failed login attempts from this address; try again later',
+        secondsUntil(ipFailures.expiresAt),
+      );
+    }
+
+    const failures = await this.attemptStore.get(accountKey(email));
+    const delay = failures ? this.delayAfter(failures.count) : 0;
+    if (failures && delay) {
+      const allowedAt = new Date(
+        failures.lastAttemptAt.getTime() + delay * MS_PER_SECOND,
+      );
+      if (allowedAt > new Date()) {
+        throw new RetryLaterException(
+          'Too many failed login attempts; wait before trying again',
+          secondsUntil(allowedAt),
+        );
+      }
+    }
+  }
+
+  /**
+   * Counts a failed login against the email and the IP, locking the email once it
+   * reaches the threshold; returns the lock's end when it did
+   */
+  async recordFailure(
+    email: string,
+    ip: string,
+    user: User | null,
+  ): Promise<Date | null> {
+    const window =
+      this.setting('LOGIN_FAILURE_WINDOW_MINUTES', 15) * MS_PER_MINUTE;
+    const [failures, ipFailures] = await Promise.all([
+      this.attemptStore.increment(accountKey(email), window),
+      this.attemptStore.increment(ipKey(ip), window),
+    ]);
+    if (ipFailures.count === this.setting('LOGIN_IP_MAX_FAILURES', 50)) {
+      this.logger.warn(
+        `Blocking logins from ${ip} after ${ipFailures.count} failed attempts`,
+      );
+    }
+
+    const threshold = this.setting('LOGIN_LOCKOUT_THRESHOLD', 5);
+    if (threshold <= 0 || failures.count < threshold) {
+      return null;
+    }
+    const { expiresAt: lockedUntil } = await this.attemptStore.increment(
+      lockKey(email),
+      this.setting('LOGIN_LOCKOUT_MINUTES', 15) * MS_PER_MINUTE,
+    );
+    await this.attemptStore.reset(accountKey(email));
+    if (!user) {
+      this.logger.warn(
+        `Locked logins for ${normalizeEmail(email)}, which has no account, until ${lockedUntil.toISOString()}`,
+      );
+      return lockedUntil;
+    }
+    // The email to the user goes out through the outbox (LockoutNotifier)
+    await this.userRepo.manager.transaction(async (manager) => {
+      await manager.update(User, user.id, { lockedUntil });
+      const payload: UserLockedPayload = {
+        user: { id: user.id, email: user.email, name: user.name },
+        lockedUntil: lockedUntil.toISOString(),
+        failures: failures.count,
+        ip,
+      };
+      await this.outboxService.enqueue(
+        UserDomainEvent.LOCKED,
+        payload,
+        manager,
+      );
+    });
+    this.logger.warn(
+      `Locked account ${user.email} until ${lockedUntil.toISOString()} after ${failures.count} failed login attempts, the last from ${ip}`,
+    );
+    return lockedUntil;
+  }
+
+  recordSuccess(email: string) {
+    return this.attemptStore.reset(accountKey(email));
+  }
+
+  /**
+   * Lifts a lock and forgets the account's failed attempts
+   */
+  async unlock(userId: number) {
+    const user = await this.userRepo.findOne({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundException(`User ${userId} not found`);
+    }
+    await this.userRepo.update(user.id, { lockedUntil: null });
+    await Promise.all([
+      this.attemptStore.reset(accountKey(user.email)),
+      this.attemptStore.reset(lockKey(user.email)),
+    ]);
+    return { ...user, lockedUntil: null };
+  }
+
+  lockedException(lockedUntil: Date) {
+    return new RetryLaterException(
+      'Account is temporarily locked after too many failed login attempts',
+      secondsUntil(lockedUntil),
+      HttpStatus.LOCKED,
+    );
+  }
+
+  private delayAfter(failures: number) {
+    const start = this.setting('LOGIN_DELAY_AFTER_FAILURES', 3);
+    if (start <= 0 || failures < start) {
+      return 0;
+    }
+    return Math.min(
+      2 ** (failures - start),
+      this.setting('LOGIN_MAX_DELAY_SECONDS', 30),
+    );
+  }
+
+  private setting(key: string, defaultValue: number) {
+    return parseInt(
+      this.configService.get<string>(key, String(defaultValue)),
+      10,
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { LeaveEntitlement } from './entities/leave-entitlement.entity';
+import { LedgerEntry } from './entities/ledger-entry.entity';
+import { Leave } from '../leaves/entities/leave.entity';
+import { User } from '../users/entities/user.entity';
+import { BalancesService } from './services/balances.service';
+import { CarryOverService } from './services/carry-over.service';
+import { BalancesController } from './controllers/balances.controller';
+import { LeaveTypesModule } from '../leave-types/leave-types.module';
+import { SchedulerModule } from '../scheduler/scheduler.module';
+import { HolidaysModule } from '../holidays/holidays.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([LeaveEntitlement, LedgerEntry, Leave, User]),
+    LeaveTypesModule,
+    SchedulerModule,
+    HolidaysModule,
+  ],
+  providers: [BalancesService, CarryOverService],
+  controllers: [BalancesController],
+  exports: [BalancesService, CarryOverService],
+})
+export class BalancesModule {}
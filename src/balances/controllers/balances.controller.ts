@@ -0,0 +1,189 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Post,
+  Param,
+  Body,
+  Query,
+  UseGuards,
+  Request,
+  ValidationPipe,
+  ParseIntPipe,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiBearerAuth,
+  ApiResponse,
+  ApiForbiddenResponse,
+} from '@nestjs/swagger';
+import { BalancesService } from '../services/balances.service';
+import { CarryOverService } from '../services/carry-over.service';
+import { JwtAuthGuard } from '../../auth/jwt/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/guards/roles.decorator';
+import { UserRole } from '../../users/entities/user.entity';
+import {
+  BalanceQueryDto,
+  SetEntitlementDto,
+  CreateAdjustmentDto,
+  YearEndDto,
+} from '../dto/balance.dto';
+
+/**
+ * Balances Controller
+ * Admin management of yearly leave entitlements and the balance ledger
+ * Employees read their own balance through GET /leaves/balance
+ * Year-end carry-over is also available as `npm run cli -- year-end`
+ */
+@ApiTags('Balances')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('balances')
+export class BalancesController {
+  constructor(
+    private balancesService: BalancesService,
+    private carryOverService: CarryOverService,
+  ) {}
+
+  /**
+   * Run year-end processing
+   * Carries unused balance into the next year and expires old carried days
+   */
+  @Post('year-end')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Run year-end carry-over (Admin only)',
+    description:
+      'Moves unused balance of the given year into the next one, up to the carry-over cap of each leave type, and expires carried days not used by the end of the expiry month. Every change is a CARRY_OVER or CARRY_OVER_EXPIRY ledger entry; entries written by an earlier run are reported as ALREADY_APPLIED, so the run can be repeated. With dryRun nothing is written.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the carried-over and expired balances per user.',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'The year has not ended yet (only a dry run is possible).',
+  })
+  @ApiForbiddenResponse({
+    description: 'Access denied - only admins can access this endpoint.',
+  })
+  @HttpCode(HttpStatus.OK)
+  runYearEnd(@Body(new ValidationPipe()) body: YearEndDto, @Request() req) {
+    return this.carryOverService.runYearEnd(
+      body.year,
+      body.dryRun,
+      req.user.userId,
+    );
+  }
+
+  /**
+   * Get a user's balances
+   * Returns entitled, taken, pending and remaining days per leave type
+   */
+  @Get(':userId')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Get user balances (Admin only)',
+    description:
+      'Returns entitled, taken, pending and remaining days per leave type for the given user and year. Balances of hourly types are in hours.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns an array of balances, one per leave type.',
+  })
+  @ApiForbiddenResponse({
+    description: 'Access denied - only admins can access this endpoint.',
+  })
+  getBalances(
+    @Param('userId', ParseIntPipe) userId: number,
+    @Query(new ValidationPipe({ transform: true })) query: BalanceQueryDto,
+  ) {
+    return this.balancesService.getBalances(
+      userId,
+      query.year ?? new Date().getFullYear(),
+    );
+  }
+
+  /**
+   * Get a user's ledger
+   * Lists every approval, cancellation, adjustment and carry-over recorded against the user
+   */
+  @Get(':userId/ledger')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Get user balance ledger (Admin only)',
+    description:
+      'Lists every approval, cancellation, manual adjustment, carry-over and carry-over expiry recorded against the user for the given year.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the ledger entries in chronological order.',
+  })
+  @ApiForbiddenResponse({
+    description: 'Access denied - only admins can access this endpoint.',
+  })
+  getLedger(
+    @Param('userId', ParseIntPipe) userId: number,
+    @Query(new ValidationPipe({ transform: true })) query: BalanceQueryDto,
+  ) {
+    return this.balancesService.getLedger(
+      userId,
+      query.year ?? new Date().getFullYear(),
+    );
+  }
+
+  /**
+   * Set a yearly entitlement
+   * Creates or replaces the number of days a user is granted for a leave type and year
+   */
+  @Put(':userId/entitlements')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Set yearly entitlement (Admin only)',
+    description:
+      'Creates or replaces the number of days granted to the user for a leave type and year.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Entitlement saved. Returns the entitlement.',
+  })
+  @ApiForbiddenResponse({
+    description: 'Access denied - only admins can access this endpoint.',
+  })
+  setEntitlement(
+    @Param('userId', ParseIntPipe) userId: number,
+    @Body(new ValidationPipe()) body: SetEntitlementDto,
+  ) {
+    return this.balancesService.setEntitlement(userId, body);
+  }
+
+  /**
+   * Record a manual adjustment
+   * Adds or removes days from a user's balance with an audit note
+   */
+  @Post(':userId/adjustments')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Adjust balance (Admin only)',
+    description:
+      'Records a manual ledger adjustment. Positive days add to the balance, negative days remove from it.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Adjustment recorded. Returns the ledger entry.',
+  })
+  @ApiForbiddenResponse({
+    description: 'Access denied - only admins can access this endpoint.',
+  })
+  addAdjustment(
+    @Param('userId', ParseIntPipe) userId: number,
+    @Body(new ValidationPipe()) body: CreateAdjustmentDto,
+    @Request() req,
+  ) {
+    return this.balancesService.addAdjustment(userId, body, req.user.userId);
+  }
+}
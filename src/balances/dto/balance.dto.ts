@@ -0,0 +1,100 @@
+import {
+  IsString,
+  IsBoolean,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class BalanceQueryDto {
+  @ApiProperty({
+    example: 2025,
+    required: false,
+    description: 'Balance year (defaults to the current year)',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(2000)
+  @Max(2100)
+  year?: number;
+}
+
+export class SetEntitlementDto {
+  @ApiProperty({
+    example: 'ANNUAL',
+    description: 'Code of the leave type the entitlement applies to',
+  })
+  @IsString()
+  type: string;
+
+  @ApiProperty({ example: 2025, description: 'Entitlement year' })
+  @IsInt()
+  @Min(2000)
+  @Max(2100)
+  year: number;
+
+  @ApiProperty({
+    example: 20,
+    description: 'Number of days (hours for hourly types) granted for the year',
+  })
+  @IsNumber()
+  @Min(0)
+  days: number;
+}
+
+export class CreateAdjustmentDto {
+  @ApiProperty({
+    example: 'ANNUAL',
+    description: 'Code of the leave type to adjust',
+  })
+  @IsString()
+  type: string;
+
+  @ApiProperty({ example: 2025, description: 'Balance year to adjust' })
+  @IsInt()
+  @Min(2000)
+  @Max(2100)
+  year: number;
+
+  @ApiProperty({
+    example: 1.5,
+    description:
+      'Days (hours for hourly types) to add (positive) or remove (negative)',
+  })
+  @IsNumber()
+  days: number;
+
+  @ApiProperty({
+    example: 'Compensation for weekend on-call',
+    required: false,
+    description: 'Reason for the adjustment',
+  })
+  @IsOptional()
+  @IsString()
+  note?: string;
+}
+
+export class YearEndDto {
+  @ApiProperty({
+    example: 2025,
+    description: 'Year to close; unused balance moves into the following year',
+  })
+  @IsInt()
+  @Min(2000)
+  @Max(2100)
+  year: number;
+
+  @ApiProperty({
+    example: true,
+    required: false,
+    description: 'Report what would be written without changing any balance',
+  })
+  @IsOptional()
+  @IsBoolean()
+  dryRun?: boolean;
+}
@@ -0,0 +1,42 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Unique,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { LeaveType } from '../../leave-types/entities/leave-type.entity';
+import { numericTransformer } from '../../common/transformers/numeric.transformer';
+
+@Entity()
+@Unique(['user', 'leaveType', 'year'])
+export class LeaveEntitlement {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  user: User;
+
+  @ManyToOne(() => LeaveType, { nullable: false, onDelete: 'RESTRICT' })
+  leaveType: LeaveType;
+
+  @Column({ type: 'int' })
+  year: number;
+
+  @Column({
+    type: 'numeric',
+    precision: 6,
+    scale: 2,
+    transformer: numericTransformer,
+  })
+  days: number;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,77 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { LeaveType } from '../../leave-types/entities/leave-type.entity';
+import { Leave } from '../../leaves/entities/leave.entity';
+import { numericTransformer } from '../../common/transformers/numeric.transformer';
+
+export enum LedgerEntryKind {
+  APPROVAL = 'APPROVAL',
+  CANCELLATION = 'CANCELLATION',
+  ADJUSTMENT = 'ADJUSTMENT',
+  CARRY_OVER = 'CARRY_OVER',
+  CARRY_OVER_EXPIRY = 'CARRY_OVER_EXPIRY',
+}
+
+/**
+ * Ledger Entry
+ * A signed movement against a user's yearly balance for one leave type.
+ * Negative days consume balance, positive days give it back.
+ * Days are hours for hourly leave types.
+ * Year-end processing writes at most one carry-over and one expiry per user,
+ * type and year, which the partial unique index enforces.
+ */
+@Entity()
+@Index(['user', 'leaveType', 'year', 'kind'], {
+  unique: true,
+  where: `"kind" IN ('CARRY_OVER', 'CARRY_OVER_EXPIRY')`,
+})
+export class LedgerEntry {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  user: User;
+
+  @ManyToOne(() => LeaveType, { nullable: false, onDelete: 'RESTRICT' })
+  leaveType: LeaveType;
+
+  @Column({ type: 'int' })
+  year: number;
+
+  @Column({
+    type: 'enum',
+    enum: LedgerEntryKind,
+  })
+  kind: LedgerEntryKind;
+
+  @Column({
+    type: 'numeric',
+    precision: 6,
+    scale: 2,
+    transformer: numericTransformer,
+  })
+  days: number;
+
+  @ManyToOne(() => Leave, { nullable: true, onDelete: 'SET NULL' })
+  leave: Leave | null;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  createdBy: User | null;
+
+  @Column({ nullable: true })
+  note: string;
+
+  // Last day carried-over days can be used on
+  @Column({ type: 'date', nullable: true })
+  expiresOn: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,365 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import {
+  EntityManager,
+  LessThanOrEqual,
+  MoreThanOrEqual,
+  Repository,
+} from 'typeorm';
+import { LeaveEntitlement } from '../entities/leave-entitlement.entity';
+import { LedgerEntry, LedgerEntryKind } from '../entities/ledger-entry.entity';
+import { Leave, LeaveStatus } from '../../leaves/entities/leave.entity';
+import {
+  LeaveType,
+  LeaveUnit,
+} from '../../leave-types/entities/leave-type.entity';
+import { LeaveTypesService } from '../../leave-types/services/leave-types.service';
+import { SetEntitlementDto, CreateAdjustmentDto } from '../dto/balance.dto';
+import { yearOf } from '../../common/utils/dates';
+import { leaveAmountsByYear } from '../../leaves/services/leave-duration';
+import { HolidaysService } from '../../holidays/services/holidays.service';
+
+/**
+ * Balance of one leave type for one user and year, in the unit of the type
+ */
+export interface LeaveBalance {
+  type: string;
+  name: string;
+  unit: LeaveUnit;
+  year: number;
+  entitled: number;
+  taken: number;
+  pending: number;
+  remaining: number;
+}
+
+interface Movement {
+  leaveTypeId: number;
+  kind: LedgerEntryKind;
+  days: string;
+}
+
+/** What a pending request would take from the balance of one year */
+interface PendingAmount {
+  type: LeaveType;
+  amount: number;
+}
+
+type LeaveDuration = Pick<
+  Leave,
+  | 'startDate'
+  | 'endDate'
+  | 'startDayPart'
+  | 'endDayPart'
+  | 'workingDays'
+  | 'hours'
+>;
+
+@Injectable()
+export class BalancesService {
+  constructor(
+    @InjectRepository(LeaveEntitlement)
+    private entitlementRepo: Repository<LeaveEntitlement>,
+    @InjectRepository(LedgerEntry)
+    private ledgerRepo: Repository<LedgerEntry>,
+    @InjectRepository(Leave)
+    private leaveRepo: Repository<Leave>,
+    private leaveTypesService: LeaveTypesService,
+    private holidaysService: HolidaysService,
+  ) {}
+
+  /**
+   * Balances for every active type that counts against balance,
+   * plus any other type the user has an entitlement, ledger entry or pending request for
+   */
+  async getBalances(userId: number, year: number): Promise<LeaveBalance[]> {
+    const [types, entitlements, movements, pending] = await Promise.all([
+      this.leaveTypesService.findAll(true),
+      this.entitlementRepo.find({
+        where: { user: { id: userId }, year },
+        relations: ['leaveType'],
+      }),
+      this.sumMovements(userId, year),
+      this.findPending(userId, year),
+    ]);
+
+    const typeIds = new Set<number>([
+      ...types
+        .filter((type) => type.active && type.countsAgainstBalance)
+        .map((type) => type.id),
+      ...entitlements.map((entitlement) => entitlement.leaveType.id),
+      ...movements.map((movement) => Number(movement.leaveTypeId)),
+      ...pending.map((request) => request.type.id),
+    ]);
+
+    return types
+      .filter((type) => typeIds.has(type.id))
+      .map((type) =>
+        this.buildBalance(
+          type,
+          year,
+          entitlements.find(
+            (entitlement) => entitlement.leaveType.id === type.id,
+          ),
+          movements.filter(
+            (movement) => Number(movement.leaveTypeId) === type.id,
+          ),
+          pending.filter((request) => request.type.id === type.id),
+        ),
+      );
+  }
+
+  async getBalance(
+    userId: number,
+    type: LeaveType,
+    year: number,
+  ): Promise<LeaveBalance> {
+    const [entitlement, movements, pending] = await Promise.all([
+      this.entitlementRepo.findOne({
+        where: { user: { id: userId }, leaveType: { id: type.id }, year },
+      }),
+      this.sumMovements(userId, year, type.id),
+      this.findPending(userId, year, type.id),
+    ]);
+    return this.buildBalance(type, year, entitlement, movements, pending);
+  }
+
+  /**
+   * Throws if the user cannot afford a requested leave on top of what is already taken or pending,
+   * in every calendar year it covers. Amounts are in hours for hourly types and in days otherwise.
+   * Types that do not count against balance are always available.
+   */
+  async assertAvailable(userId: number, type: LeaveType, leave: LeaveDuration) {
+    if (!type.countsAgainstBalance) {
+      return;
+    }
+
+    for (const [year, amount] of await this.amountsByYear(leave)) {
+      const balance = await this.getBalance(userId, type, year);
+      if (amount > balance.remaining) {
+        const unit = type.unit === LeaveUnit.HOURS ? 'hour(s)' : 'day(s)';
+        throw new BadRequestException(
+          `Insufficient ${type.name} balance for ${year}: requested ${amount} ${unit}, ${balance.remaining} remaining`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Debits the balance of each year a leave that has just been approved covers
+   */
+  async recordApproval(
+    leave: Leave,
+    actorId?: number,
+    manager: EntityManager = this.ledgerRepo.manager,
+  ) {
+    for (const [year, amount] of await this.amountsByYear(leave)) {
+      await this.record(
+        manager,
+        leave,
+        LedgerEntryKind.APPROVAL,
+        year,
+        -amount,
+        actorId,
+      );
+    }
+  }
+
+  /**
+   * Credits back, year by year, what an approved leave that no longer stands was debited
+   */
+  async recordCancellation(
+    leave: Leave,
+    actorId?: number,
+    manager: EntityManager = this.ledgerRepo.manager,
+  ) {
+    const booked = await manager
+      .getRepository(LedgerEntry)
+      .createQueryBuilder('entry')
+      .select('entry.year', 'year')
+      .addSelect('SUM(entry.days)', 'days')
+      .where('entry.leaveId = :leaveId', { leaveId: leave.id })
+      .groupBy('entry.year')
+      .getRawMany<{ year: number; days: string }>();
+    for (const { year, days } of booked) {
+      if (parseFloat(days) !== 0) {
+        await this.record(
+          manager,
+          leave,
+          LedgerEntryKind.CANCELLATION,
+          year,
+          -parseFloat(days),
+          actorId,
+        );
+      }
+    }
+  }
+
+  async setEntitlement(userId: number, data: SetEntitlementDto) {
+    const leaveType = await this.leaveTypesService.findActiveByCode(data.type);
+    const existing = await this.entitlementRepo.findOne({
+      where: {
+        user: { id: userId },
+        leaveType: { id: leaveType.id },
+        year: data.year,
+      },
+    });
+    const entitlement =
+      existing ??
+      this.entitlementRepo.create({
+        user: { id: userId },
+        leaveType,
+        year: data.year,
+      });
+    entitlement.days = data.days;
+    return this.entitlementRepo.save(entitlement);
+  }
+
+  async addAdjustment(
+    userId: number,
+    data: CreateAdjustmentDto,
+    actorId: number,
+  ) {
+    const leaveType = await this.leaveTypesService.findActiveByCode(data.type);
+    return this.ledgerRepo.save(
+      this.ledgerRepo.create({
+        user: { id: userId },
+        leaveType,
+        year: data.year,
+        kind: LedgerEntryKind.ADJUSTMENT,
+        days: data.days,
+        note: data.note,
+        createdBy: { id: actorId },
+      }),
+    );
+  }
+
+  getLedger(userId: number, year: number) {
+    return this.ledgerRepo.find({
+      where: { user: { id: userId }, year },
+      relations: ['leaveType', 'leave', 'createdBy'],
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  /**
+   * What a leave takes from each calendar year's balance; leave over New Year is
+   * split by the working days it covers in each year
+   */
+  private async amountsByYear(leave: LeaveDuration) {
+    const workingDates =
+      yearOf(leave.startDate) === yearOf(leave.endDate)
+        ? []
+        : await this.holidaysService.getWorkingDates(
+            leave.startDate,
+            leave.endDate,
+          );
+    return leaveAmountsByYear(leave, workingDates);
+  }
+
+  private record(
+    manager: EntityManager,
+    leave: Leave,
+    kind: LedgerEntryKind,
+    year: number,
+    days: number,
+    actorId?: number,
+  ) {
+    const repo = manager.getRepository(LedgerEntry);
+    return repo.save(
+      repo.create({
+        user: { id: leave.user.id },
+        leaveType: { id: leave.type.id },
+        year,
+        kind,
+        days,
+        leave: { id: leave.id },
+        createdBy: actorId ? { id: actorId } : null,
+      }),
+    );
+  }
+
+  private sumMovements(userId: number, year: number, leaveTypeId?: number) {
+    const query = this.ledgerRepo
+      .createQueryBuilder('entry')
+      .select('entry.leaveTypeId', 'leaveTypeId')
+      .addSelect('entry.kind', 'kind')
+      .addSelect('SUM(entry.days)', 'days')
+      .where('entry.userId = :userId', { userId })
+      .andWhere('entry.year = :year', { year })
+      .groupBy('entry.leaveTypeId')
+      .addGroupBy('entry.kind');
+
+    if (leaveTypeId) {
+      query.andWhere('entry.leaveTypeId = :leaveTypeId', { leaveTypeId });
+    }
+
+    return query.getRawMany<Movement>();
+  }
+
+  /**
+   * Pending requests covering the year, with what each would take from its balance
+   */
+  private async findPending(
+    userId: number,
+    year: number,
+    leaveTypeId?: number,
+  ): Promise<PendingAmount[]> {
+    const leaves = await this.leaveRepo.find({
+      where: {
+        user: { id: userId },
+        status: LeaveStatus.PENDING,
+        startDate: LessThanOrEqual(`${year}-12-31T23:59:59`),
+        endDate: MoreThanOrEqual(`${year}-01-01`),
+        ...(leaveTypeId && { type: { id: leaveTypeId } }),
+      },
+      relations: ['type'],
+    });
+    return Promise.all(
+      leaves.map(async (leave) => ({
+        type: leave.type,
+        amount: (await this.amountsByYear(leave)).get(year) ?? 0,
+      })),
+    );
+  }
+
+  private buildBalance(
+    type: LeaveType,
+    year: number,
+    entitlement: LeaveEntitlement | null | undefined,
+    movements: Movement[],
+    pendingRequests: PendingAmount[],
+  ): LeaveBalance {
+    const sumOf = (...kinds: LedgerEntryKind[]) =>
+      movements
+        .filter((movement) => kinds.includes(movement.kind))
+        .reduce((sum, movement) => sum + parseFloat(movement.days), 0);
+
+    const entitled =
+      (entitlement?.days ?? type.defaultEntitlement) +
+      sumOf(
+        LedgerEntryKind.ADJUSTMENT,
+        LedgerEntryKind.CARRY_OVER,
+        LedgerEntryKind.CARRY_OVER_EXPIRY,
+      );
+    const taken = -sumOf(
+      LedgerEntryKind.APPROVAL,
+      LedgerEntryKind.CANCELLATION,
+    );
+    const pending = pendingRequests.reduce(
+      (sum, request) => sum + request.amount,
+      0,
+    );
+
+    return {
+      type: type.code,
+      name: type.name,
+      unit: type.unit,
+      year,
+      entitled,
+      taken,
+      pending,
+      remaining: entitled - taken - pending,
+    };
+  }
+}
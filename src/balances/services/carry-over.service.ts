@@ -0,0 +1,329 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { QueryDeepPartialEntity } from 'typeorm/query-builder/QueryPartialEntity';
+import { LedgerEntry, LedgerEntryKind } from '../entities/ledger-entry.entity';
+import { User } from '../../users/entities/user.entity';
+import { LeaveType } from '../../leave-types/entities/leave-type.entity';
+import { LeaveTypesService } from '../../leave-types/services/leave-types.service';
+import { BalancesService } from './balances.service';
+import { SchedulerService } from '../../scheduler/services/scheduler.service';
+import { ScheduledJob } from '../../scheduler/interfaces/scheduled-job.interface';
+import { formatDate } from '../../common/utils/dates';
+
+export enum YearEndStatus {
+  // Dry run: the entry would be written
+  PLANNED = 'PLANNED',
+  APPLIED = 'APPLIED',
+  // Written by an earlier run, left as it is
+  ALREADY_APPLIED = 'ALREADY_APPLIED',
+}
+
+export interface CarryOverItem {
+  userId: number;
+  email: string;
+  type: string;
+  remaining: number;
+  carried: number;
+  forfeited: number;
+  expiresOn: string | null;
+  status: YearEndStatus;
+}
+
+export interface ExpiryItem {
+  userId: number;
+  email: string;
+  type: string;
+  year: number;
+  expiresOn: string;
+  carried: number;
+  used: number;
+  expired: number;
+  status: YearEndStatus;
+}
+
+/**
+ * Outcome of a year-end run, closing `year` into `year + 1`
+ */
+export interface YearEndReport {
+  year: number;
+  dryRun: boolean;
+  carriedOver: CarryOverItem[];
+  expired: ExpiryItem[];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Carry-Over Service
+ * Year-end processing of balances. Unused balance of types with a carry-over cap
+ * moves into the next year as a CARRY_OVER ledger entry, up to the cap. Carried
+ * days are used first; whatever is left of them after the type's expiry month is
+ * removed with a CARRY_OVER_EXPIRY entry. Both entries are written at most once
+ * per user, type and year, so runs can safely be repeated. Expiry also runs as a
+ * scheduled job.
+ */
+@Injectable()
+export class CarryOverService implements ScheduledJob, OnModuleInit {
+  readonly name = 'carry-over-expiry';
+  private readonly logger = new Logger(CarryOverService.name);
+
+  constructor(
+    @InjectRepository(LedgerEntry)
+    private ledgerRepo: Repository<LedgerEntry>,
+    @InjectRepository(User)
+    private userRepo: Repository<User>,
+    private leaveTypesService: LeaveTypesService,
+    private balancesService: BalancesService,
+    private schedulerService: SchedulerService,
+  ) {}
+
+  onModuleInit() {
+    this.schedulerService.register(this);
+  }
+
+  /**
+   * Carries unused balance of `year` into the next year, then expires carried
+   * days past their expiry date. A dry run reports the entries without writing them.
+   */
+  async runYearEnd(
+    year: number,
+    dryRun = false,
+    actorId?: number,
+  ): Promise<YearEndReport> {
+    if (!dryRun && year >= new Date().getFullYear()) {
+      throw new BadRequestException(
+        `Year ${year} has not ended yet; only a dry run is possible`,
+      );
+    }
+    const carriedOver = await this.carryOver(year, dryRun, actorId);
+    const expired = await this.expire(formatDate(new Date()), dryRun, actorId);
+    return { year, dryRun, carriedOver, expired };
+  }
+
+  async run() {
+    const expired = await this.expire(formatDate(new Date()), false);
+    const applied = expired.filter(
+      (item) => item.status === YearEndStatus.APPLIED,
+    );
+    if (applied.length) {
+      this.logger.log(
+        `Expired carried-over balance of ${applied.length} user(s)`,
+      );
+    }
+  }
+
+  private async carryOver(
+    year: number,
+    dryRun: boolean,
+    actorId?: number,
+  ): Promise<CarryOverItem[]> {
+    const types = (await this.leaveTypesService.findAll()).filter(
+      (type) => type.countsAgainstBalance && type.carryOverCap > 0,
+    );
+    if (!types.length) {
+      return [];
+    }
+
+    const [users, existing] = await Promise.all([
+      this.userRepo.find({
+        select: { id: true, email: true },
+        order: { id: 'ASC' },
+      }),
+      this.ledgerRepo.find({
+        where: {
+          year: year + 1,
+          kind: LedgerEntryKind.CARRY_OVER,
+          leaveType: { id: In(types.map((type) => type.id)) },
+        },
+        relations: ['user', 'leaveType'],
+      }),
+    ]);
+    const carried = new Map(
+      existing.map((entry) => [
+        `${entry.user.id}:${entry.leaveType.id}`,
+        entry,
+      ]),
+    );
+
+    const items: CarryOverItem[] = [];
+    for (const user of users) {
+      for (const type of types) {
+        const balance = await this.balancesService.getBalance(
+          user.id,
+          type,
+          year,
+        );
+        const remaining = round(balance.remaining);
+        const previous = carried.get(`${user.id}:${type.id}`);
+        if (previous) {
+          items.push({
+            userId: user.id,
+            email: user.email,
+            type: type.code,
+            remaining,
+            carried: previous.days,
+            forfeited: round(Math.max(remaining - previous.days, 0)),
+            expiresOn: previous.expiresOn,
+            status: YearEndStatus.ALREADY_APPLIED,
+          });
+          continue;
+        }
+        if (remaining <= 0) {
+          continue;
+        }
+
+        const item: CarryOverItem = {
+          userId: user.id,
+          email: user.email,
+          type: type.code,
+          remaining,
+          carried: Math.min(remaining, type.carryOverCap),
+          forfeited: round(Math.max(remaining - type.carryOverCap, 0)),
+          expiresOn: this.expiryDate(type, year + 1),
+          status: YearEndStatus.PLANNED,
+        };
+        if (!dryRun) {
+          const written = await this.insert({
+            user: { id: user.id },
+            leaveType: { id: type.id },
+            year: year + 1,
+            kind: LedgerEntryKind.CARRY_OVER,
+            days: item.carried,
+            expiresOn: item.expiresOn,
+            note: item.forfeited
+              ? `Carried over from ${year}; ${item.forfeited} over the cap of ${type.carryOverCap} forfeited`
+              : `Carried over from ${year}`,
+            createdBy: actorId ? { id: actorId } : null,
+          });
+          item.status = written
+            ? YearEndStatus.APPLIED
+            : YearEndStatus.ALREADY_APPLIED;
+        }
+        items.push(item);
+      }
+    }
+    return items;
+  }
+
+  /**
+   * Expires what is left of carry-overs whose expiry date is before `asOf`.
+   * Carried days count as used by approved leave starting on or before the expiry date.
+   */
+  private async expire(
+    asOf: string,
+    dryRun: boolean,
+    actorId?: number,
+  ): Promise<ExpiryItem[]> {
+    const entries = await this.ledgerRepo
+      .createQueryBuilder('entry')
+      .innerJoin('entry.user', 'user')
+      .addSelect(['user.id', 'user.email'])
+      .innerJoinAndSelect('entry.leaveType', 'leaveType')
+      .where('entry.kind = :kind', { kind: LedgerEntryKind.CARRY_OVER })
+      .andWhere('entry.expiresOn < :asOf', { asOf })
+      .andWhere(
+        `NOT EXISTS (SELECT 1 FROM ledger_entry expiry WHERE expiry."userId" = entry."userId" AND expiry."leaveTypeId" = entry."leaveTypeId" AND expiry.year = entry.year AND expiry.kind = :expiryKind)`,
+        { expiryKind: LedgerEntryKind.CARRY_OVER_EXPIRY },
+      )
+      .orderBy('entry.id', 'ASC')
+      .getMany();
+
+    const items: ExpiryItem[] = [];
+    for (const entry of entries) {
+      const expiresOn = entry.expiresOn as string;
+      const used = round(
+        Math.max(
+          await this.usedBefore(
+            entry.user.id,
+            entry.leaveType.id,
+            entry.year,
+            expiresOn,
+          ),
+          0,
+        ),
+      );
+      const item: ExpiryItem = {
+        userId: entry.user.id,
+        email: entry.user.email,
+        type: entry.leaveType.code,
+        year: entry.year,
+        expiresOn,
+        carried: entry.days,
+        used,
+        expired: round(Math.max(entry.days - used, 0)),
+        status: YearEndStatus.PLANNED,
+      };
+      if (!dryRun) {
+        // Written even when nothing is left, to settle the carry-over for good
+        const written = await this.insert({
+          user: { id: entry.user.id },
+          leaveType: { id: entry.leaveType.id },
+          year: entry.year,
+          kind: LedgerEntryKind.CARRY_OVER_EXPIRY,
+          days: -item.expired,
+          note: `Carried-over balance expired after ${expiresOn}`,
+          createdBy: actorId ? { id: actorId } : null,
+        });
+        item.status = written
+          ? YearEndStatus.APPLIED
+          : YearEndStatus.ALREADY_APPLIED;
+      }
+      items.push(item);
+    }
+    return items;
+  }
+
+  /**
+   * Net amount taken by approved leave of the year starting on or before the date
+   */
+  private async usedBefore(
+    userId: number,
+    leaveTypeId: number,
+    year: number,
+    date: string,
+  ) {
+    const { days } = (await this.ledgerRepo
+      .createQueryBuilder('entry')
+      .innerJoin('entry.leave', 'leave')
+      .select('COALESCE(SUM(entry.days), 0)', 'days')
+      .where('entry.userId = :userId', { userId })
+      .andWhere('entry.leaveTypeId = :leaveTypeId', { leaveTypeId })
+      .andWhere('entry.year = :year', { year })
+      .andWhere('entry.kind IN (:...kinds)', {
+        kinds: [LedgerEntryKind.APPROVAL, LedgerEntryKind.CANCELLATION],
+      })
+      .andWhere('LEFT(leave.startDate, 10) <= :date', { date })
+      .getRawOne<{ days: string }>()) ?? { days: '0' };
+    return -parseFloat(days);
+  }
+
+  /**
+   * Last day of the type's expiry month in the given year, or null when carried days do not expire
+   */
+  private expiryDate(type: LeaveType, year: number) {
+    if (!type.carryOverExpiryMonth) {
+      return null;
+    }
+    return formatDate(new Date(Date.UTC(year, type.carryOverExpiryMonth, 0)));
+  }
+
+  /**
+   * Returns false when the entry already exists
+   */
+  private async insert(values: QueryDeepPartialEntity<LedgerEntry>) {
+    const result = await this.ledgerRepo
+      .createQueryBuilder()
+      .insert()
+      .into(LedgerEntry)
+      .values(values)
+      .orIgnore()
+      .execute();
+    return (result.raw as unknown[]).length > 0;
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { CalendarFeed } from './entities/calendar-feed.entity';
+import { Leave } from '../leaves/entities/leave.entity';
+import { CalendarService } from './services/calendar.service';
+import { CalendarController } from './controllers/calendar.controller';
+import { CalendarFeedController } from './controllers/calendar-feed.controller';
+import { LeavesModule } from '../leaves/leaves.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([CalendarFeed, Leave]), LeavesModule],
+  providers: [CalendarService],
+  controllers: [CalendarController, CalendarFeedController],
+})
+export class CalendarModule {}
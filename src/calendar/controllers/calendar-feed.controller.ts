@@ -0,0 +1,37 @@
+import { Controller, Get, Param, Res } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import type { Response } from 'express';
+import { CalendarService } from '../services/calendar.service';
+
+/**
+ * Calendar Feed Controller
+ * Serves iCalendar feeds to calendar clients
+ * Clients cannot send bearer tokens, so the secret feed token in the URL is the only credential
+ */
+@ApiTags('Calendar')
+@Controller('calendar/feeds')
+export class CalendarFeedController {
+  constructor(private calendarService: CalendarService) {}
+
+  /**
+   * Get iCalendar feed
+   * Returns the feed's absences as a text/calendar document
+   */
+  @Get(':token.ics')
+  @ApiOperation({
+    summary: 'Get iCalendar feed',
+    description:
+      'Returns approved (confirmed) and pending (tentative) absences from the last 90 days onwards as an iCalendar document. Authenticated by the feed token instead of a bearer token.',
+  })
+  @ApiResponse({ status: 200, description: 'Returns the iCalendar document.' })
+  @ApiResponse({
+    status: 404,
+    description: 'Unknown or revoked feed token.',
+  })
+  async getFeed(@Param('token') token: string, @Res() res: Response) {
+    const body = await this.calendarService.renderFeed(token);
+    res.set('Content-Type', 'text/calendar; charset=utf-8');
+    res.set('Cache-Control', 'private, max-age=300');
+    res.send(body);
+  }
+}
@@ -0,0 +1,116 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  Body,
+  Query,
+  Request,
+  UseGuards,
+  ValidationPipe,
+  ParseIntPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiBearerAuth,
+  ApiResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+} from '@nestjs/swagger';
+import { CalendarService } from '../services/calendar.service';
+import { JwtAuthGuard } from '../../auth/jwt/jwt-auth.guard';
+import { CalendarQueryDto, CreateCalendarFeedDto } from '../dto/calendar.dto';
+
+/**
+ * Calendar Controller
+ * Day-by-day view of approved and pending absences, and management of iCalendar feeds
+ * The calendar only shows leaves the caller may see (admin all, managers their team, users their own)
+ */
+@ApiTags('Calendar')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('calendar')
+export class CalendarController {
+  constructor(private calendarService: CalendarService) {}
+
+  /**
+   * Get absence calendar
+   * Returns approved and pending absences grouped by day
+   */
+  @Get()
+  @ApiOperation({
+    summary: 'Get absence calendar',
+    description:
+      'Returns every day between from and to (inclusive, at most 366 days) with the approved and pending absences on that day that the caller may see.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns an array of days with their absences.',
+  })
+  @ApiResponse({ status: 400, description: 'Invalid or too long date range.' })
+  getCalendar(
+    @Request() req,
+    @Query(new ValidationPipe({ transform: true })) query: CalendarQueryDto,
+  ) {
+    return this.calendarService.getCalendar(req.user, query);
+  }
+
+  /**
+   * Get own calendar feeds
+   * Lists the caller's active iCalendar feeds
+   */
+  @Get('feeds')
+  @ApiOperation({
+    summary: 'Get own calendar feeds',
+    description:
+      'Lists the active iCalendar feeds of the current user. Feed tokens are only shown once, when the feed is created.',
+  })
+  @ApiResponse({ status: 200, description: 'Returns an array of feeds.' })
+  findFeeds(@Request() req) {
+    return this.calendarService.findFeeds(req.user.userId);
+  }
+
+  /**
+   * Create a calendar feed
+   * Issues a secret feed URL that calendar clients can subscribe to
+   */
+  @Post('feeds')
+  @ApiOperation({
+    summary: 'Create calendar feed',
+    description:
+      'Creates an iCalendar feed of your own absences (scope user) or of every absence you can see (scope team, managers and admins only). The response contains the feed token and path; store them, they cannot be retrieved again.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Feed created. Returns the feed with its token and path.',
+  })
+  @ApiForbiddenResponse({
+    description: 'Team feeds are only available to managers and admins.',
+  })
+  createFeed(
+    @Request() req,
+    @Body(new ValidationPipe()) body: CreateCalendarFeedDto,
+  ) {
+    return this.calendarService.createFeed(req.user, body);
+  }
+
+  /**
+   * Revoke a calendar feed
+   * Disables a feed URL immediately
+   */
+  @Delete('feeds/:id')
+  @ApiOperation({
+    summary: 'Revoke calendar feed',
+    description:
+      'Revokes a feed so its URL stops working. Users can revoke their own feeds, admins any feed.',
+  })
+  @ApiResponse({ status: 200, description: 'Feed revoked.' })
+  @ApiNotFoundResponse({
+    description: 'Feed with the specified ID does not exist',
+  })
+  revokeFeed(@Request() req, @Param('id', ParseIntPipe) id: number) {
+    return this.calendarService.revokeFeed(id, req.user);
+  }
+}
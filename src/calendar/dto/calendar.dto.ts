@@ -0,0 +1,54 @@
+import {
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { CalendarFeedScope } from '../entities/calendar-feed.entity';
+
+export class CalendarQueryDto {
+  @ApiProperty({
+    example: '2025-01-13',
+    description: 'First day of the range in YYYY-MM-DD format',
+  })
+  @IsDateString()
+  from: string;
+
+  @ApiProperty({
+    example: '2025-01-19',
+    description: 'Last day of the range in YYYY-MM-DD format',
+  })
+  @IsDateString()
+  to: string;
+
+  @ApiProperty({
+    example: 12,
+    required: false,
+    description: 'Only include absences of this user',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  userId?: number;
+}
+
+export class CreateCalendarFeedDto {
+  @ApiProperty({
+    enum: CalendarFeedScope,
+    example: CalendarFeedScope.USER,
+    description:
+      'user: only your own absences; team: every absence you can see (managers and admins only)',
+  })
+  @IsEnum(CalendarFeedScope)
+  scope: CalendarFeedScope;
+
+  @ApiProperty({ example: 'Work phone', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+}
@@ -0,0 +1,45 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  CreateDateColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+export enum CalendarFeedScope {
+  USER = 'user',
+  TEAM = 'team',
+}
+
+/**
+ * Calendar Feed
+ * An iCalendar subscription owned by a user and authenticated by a secret token.
+ * Only the SHA-256 hash of the token is stored; revoking a feed keeps the row for auditing.
+ */
+@Entity()
+export class CalendarFeed {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  owner: User;
+
+  @Column({ type: 'enum', enum: CalendarFeedScope })
+  scope: CalendarFeedScope;
+
+  @Column({ nullable: true })
+  name: string;
+
+  @Column({ unique: true, select: false })
+  tokenHash: string;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastUsedAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  revokedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
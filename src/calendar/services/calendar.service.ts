@@ -0,0 +1,217 @@
+import {
+  Injectable,
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import {
+  CalendarFeed,
+  CalendarFeedScope,
+} from '../entities/calendar-feed.entity';
+import { CalendarQueryDto, CreateCalendarFeedDto } from '../dto/calendar.dto';
+import { Leave, LeaveStatus } from '../../leaves/entities/leave.entity';
+import { LeaveAccessService } from '../../leaves/services/leave-access.service';
+import { UserRole } from '../../users/entities/user.entity';
+import { AuthUser } from '../../auth/interfaces/auth-user.interface';
+import { addDays, eachDate, formatDate } from '../../common/utils/dates';
+import { buildIcal } from '../../common/utils/ical';
+
+const MAX_RANGE_DAYS = 366;
+const FEED_LOOKBACK_DAYS = 90;
+
+export interface CalendarAbsence {
+  leaveId: number;
+  status: LeaveStatus;
+  user: { id: number; name: string; email: string };
+  type: { code: string; name: string };
+}
+
+export interface CalendarDay {
+  date: string;
+  absences: CalendarAbsence[];
+}
+
+interface AbsenceFilter {
+  from?: string;
+  to?: string;
+  userId?: number;
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+@Injectable()
+export class CalendarService {
+  constructor(
+    @InjectRepository(Leave)
+    private leaveRepo: Repository<Leave>,
+    @InjectRepository(CalendarFeed)
+    private feedRepo: Repository<CalendarFeed>,
+    private leaveAccessService: LeaveAccessService,
+  ) {}
+
+  /**
+   * Every day of the range with the approved and pending absences the actor may see
+   */
+  async getCalendar(
+    actor: AuthUser,
+    query: CalendarQueryDto,
+  ): Promise<CalendarDay[]> {
+    if (query.to < query.from) {
+      throw new BadRequestException('to must not be before from');
+    }
+    if (query.to > addDays(query.from, MAX_RANGE_DAYS - 1)) {
+      throw new BadRequestException(
+        `The range must not exceed ${MAX_RANGE_DAYS} days`,
+      );
+    }
+
+    const days = new Map<string, CalendarAbsence[]>(
+      eachDate(query.from, query.to).map((date) => [date, []]),
+    );
+    const leaves = await this.findAbsences(actor, query);
+    for (const leave of leaves) {
+      const absence: CalendarAbsence = {
+        leaveId: leave.id,
+        status: leave.status,
+        user: {
+          id: leave.user.id,
+          name: leave.user.name,
+          email: leave.user.email,
+        },
+        type: { code: leave.type.code, name: leave.type.name },
+      };
+      const first = leave.startDate > query.from ? leave.startDate : query.from;
+      const last = leave.endDate < query.to ? leave.endDate : query.to;
+      for (const date of eachDate(first, last)) {
+        days.get(date)?.push(absence);
+      }
+    }
+    return [...days].map(([date, absences]) => ({ date, absences }));
+  }
+
+  /**
+   * Creates a feed and returns its token; the token cannot be retrieved again later
+   */
+  async createFeed(actor: AuthUser, data: CreateCalendarFeedDto) {
+    if (data.scope === CalendarFeedScope.TEAM && actor.role === UserRole.USER) {
+      throw new ForbiddenException(
+        'Team feeds are only available to managers and admins',
+      );
+    }
+    const token = randomBytes(32).toString('base64url');
+    const feed = await this.feedRepo.save(
+      this.feedRepo.create({
+        owner: { id: actor.userId },
+        scope: data.scope,
+        name: data.name,
+        tokenHash: hashToken(token),
+      }),
+    );
+    return {
+      id: feed.id,
+      scope: feed.scope,
+      name: feed.name,
+      createdAt: feed.createdAt,
+      token,
+      path: `/calendar/feeds/${token}.ics`,
+    };
+  }
+
+  findFeeds(userId: number) {
+    return this.feedRepo.find({
+      where: { owner: { id: userId }, revokedAt: IsNull() },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Owners can revoke their own feeds, admins any feed
+   */
+  async revokeFeed(id: number, actor: AuthUser) {
+    const feed = await this.feedRepo.findOne({
+      where:
+        actor.role === UserRole.ADMIN
+          ? { id }
+          : { id, owner: { id: actor.userId } },
+    });
+    if (!feed) {
+      throw new NotFoundException(`Calendar feed ${id} not found`);
+    }
+    if (!feed.revokedAt) {
+      feed.revokedAt = new Date();
+      await this.feedRepo.save(feed);
+    }
+    return feed;
+  }
+
+  /**
+   * Renders the iCalendar document of a feed
+   * Visibility follows the owner's current role, so a demoted manager's team feed shrinks to their own absences
+   */
+  async renderFeed(token: string): Promise<string> {
+    const feed = await this.feedRepo.findOne({
+      where: { tokenHash: hashToken(token), revokedAt: IsNull() },
+      relations: ['owner'],
+    });
+    if (!feed) {
+      throw new NotFoundException('Calendar feed not found');
+    }
+    await this.feedRepo.update(feed.id, { lastUsedAt: new Date() });
+
+    const owner: AuthUser = {
+      userId: feed.owner.id,
+      role:
+        feed.scope === CalendarFeedScope.TEAM ? feed.owner.role : UserRole.USER,
+    };
+    const leaves = await this.findAbsences(owner, {
+      from: addDays(formatDate(new Date()), -FEED_LOOKBACK_DAYS),
+    });
+    const name =
+      feed.name ||
+      (feed.scope === CalendarFeedScope.TEAM ? 'Team absences' : 'My absences');
+    return buildIcal(
+      name,
+      leaves.map((leave) => ({
+        uid: `leave-${leave.id}@leave-api`,
+        startDate: leave.startDate,
+        endDate: leave.endDate,
+        summary:
+          `${leave.user.name || leave.user.email}: ${leave.type.name}` +
+          (leave.status === LeaveStatus.PENDING ? ' (pending)' : ''),
+        tentative: leave.status === LeaveStatus.PENDING,
+        updatedAt: leave.updatedAt,
+      })),
+    );
+  }
+
+  private findAbsences(actor: AuthUser, filter: AbsenceFilter) {
+    const qb = this.leaveRepo
+      .createQueryBuilder('leave')
+      .leftJoin('leave.user', 'user')
+      .addSelect(['user.id', 'user.name', 'user.email'])
+      .leftJoinAndSelect('leave.type', 'type')
+      .where('leave.status IN (:...statuses)', {
+        statuses: [LeaveStatus.APPROVED, LeaveStatus.PENDING],
+      });
+    this.leaveAccessService.applyScope(qb, actor);
+
+    if (filter.from) {
+      qb.andWhere('leave.endDate >= :from', { from: filter.from });
+    }
+    if (filter.to) {
+      qb.andWhere('leave.startDate <= :to', { to: filter.to });
+    }
+    if (filter.userId) {
+      qb.andWhere('user.id = :userId', { userId: filter.userId });
+    }
+    return qb
+      .orderBy('leave.startDate', 'ASC')
+      .addOrderBy('leave.id', 'ASC')
+      .getMany();
+  }
+}
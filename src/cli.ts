@@ -0,0 +1,165 @@
+import { NestFactory } from '@nestjs/core';
+import { INestApplicationContext } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { parseArgs } from 'util';
+import { randomBytes } from 'crypto';
+import { isEmail } from 'class-validator';
+import { AppModule } from './app.module';
+import { CarryOverService } from './balances/services/carry-over.service';
+import { AuthService } from './auth/services/auth.service';
+import { UsersService } from './users/services/users.service';
+import { UserRole } from './users/entities/user.entity';
+import { seedSampleData } from './database/seeds/sample-data';
+
+type Command = (app: INestApplicationContext, args: string[]) => Promise<void>;
+
+/**
+ * year-end --year <year> [--dry-run]
+ * Carries unused balance of the year into the next one and expires old carried days
+ */
+async function yearEnd(app: INestApplicationContext, args: string[]) {
+  const { values } = parseArgs({
+    args,
+    options: {
+      year: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+    },
+  });
+  const year = parseInt(values.year ?? '', 10);
+  if (!year) {
+    throw new Error('Usage: year-end --year <year> [--dry-run]');
+  }
+
+  const report = await app
+    .get(CarryOverService)
+    .runYearEnd(year, values['dry-run']);
+  console.log(
+    `Year-end ${report.year} -> ${report.year + 1}${report.dryRun ? ' (dry run, nothing written)' : ''}`,
+  );
+  for (const item of report.carriedOver) {
+    console.log(
+      `  carry-over ${item.email} ${item.type}: remaining ${item.remaining}, carried ${item.carried}, forfeited ${item.forfeited}, expires ${item.expiresOn ?? 'never'} [${item.status}]`,
+    );
+  }
+  for (const item of report.expired) {
+    console.log(
+      `  expiry ${item.email} ${item.type} ${item.year}: carried ${item.carried}, used ${item.used}, expired ${item.expired} [${item.status}]`,
+    );
+  }
+  console.log(
+    `${report.carriedOver.length} carry-over(s), ${report.expired.length} expiry(ies)`,
+  );
+}
+
+/**
+ * create-admin --email <email> [--name <name>] [--password <password>]
+ * Creates an ADMIN user, e.g. the first one of a new installation.
+ * The password can also come from ADMIN_PASSWORD; without either one is generated and printed.
+ */
+async function createAdmin(app: INestApplicationContext, args: string[]) {
+  const { values } = parseArgs({
+    args,
+    options: {
+      email: { type: 'string' },
+      name: { type: 'string', default: 'Administrator' },
+      password: { type: 'string' },
+    },
+  });
+  if (!values.email || !isEmail(values.email)) {
+    throw new Error(
+      'Usage: create-admin --email <email> [--name <name>] [--password <password>]',
+    );
+  }
+  const generated = !values.password && !process.env.ADMIN_PASSWORD;
+  const password =
+    values.password ??
+    process.env.ADMIN_PASSWORD ??
+    randomBytes(12).toString('base64url');
+  if (password.length < 6) {
+    throw new Error('Password must be at least 6 characters');
+  }
+  if (await app.get(UsersService).findByEmail(values.email)) {
+    throw new Error(`User ${values.email} already exists`);
+  }
+
+  const admin = await app
+    .get(AuthService)
+    .register(values.email, password, values.name, UserRole.ADMIN);
+  console.log(`Created admin ${admin.email} (id ${admin.id})`);
+  if (generated) {
+    console.log(`Generated password: ${password}`);
+  }
+}
+
+/**
+ * seed [--password <password>] [--force]
+ * Adds sample leave types, a department, users and holidays; existing records are kept.
+ * Refuses to run with NODE_ENV=production unless --force is given.
+ */
+async function seed(app: INestApplicationContext, args: string[]) {
+  const { values } = parseArgs({
+    args,
+    options: {
+      password: { type: 'string', default: 'password123' },
+      force: { type: 'boolean', default: false },
+    },
+  });
+  if (process.env.NODE_ENV === 'production' && !values.force) {
+    throw new Error(
+      'Refusing to seed sample data in production without --force',
+    );
+  }
+
+  const report = await seedSampleData(app.get(DataSource), values.password);
+  for (const label of report.created) {
+    console.log(`  created ${label}`);
+  }
+  console.log(
+    `${report.created.length} record(s) created, ${report.existing.length} already present`,
+  );
+  if (report.created.some((label) => label.startsWith('user '))) {
+    console.log(`Sample users can log in with password "${values.password}"`);
+  }
+}
+
+const commands: Record<string, Command> = {
+  'create-admin': createAdmin,
+  seed,
+  'year-end': yearEnd,
+};
+
+/**
+ * Maintenance commands run against the configured database, e.g.
+ * npm run cli -- year-end --year 2025 --dry-run
+ */
+async function bootstrap() {
+  const [name, ...args] = process.argv.slice(2);
+  const command = commands[name];
+  if (!command) {
+    console.error(
+      `Usage: npm run cli -- <command> [options]\nCommands: ${Object.keys(commands).join(', ')}`,
+    );
+    process.exit(1);
+  }
+
+  // Commands do their work and exit; scheduled jobs, outbox and webhook delivery
+  // are left to the running server, which picks up any events queued here
+  process.env.SCHEDULER_INTERVAL_MS = '0';
+  process.env.OUTBOX_DISPATCH_INTERVAL_MS = '0';
+  process.env.WEBHOOK_DELIVERY_INTERVAL_MS = '0';
+
+  let app: INestApplicationContext | undefined;
+  try {
+    app = await NestFactory.createApplicationContext(AppModule, {
+      logger: ['error', 'warn'],
+    });
+    await command(app, args);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    await app?.close();
+  }
+}
+
+void bootstrap();
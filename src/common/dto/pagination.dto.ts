@@ -0,0 +1,70 @@
+import { IsEnum, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+export enum SortOrder {
+  ASC = 'ASC',
+  DESC = 'DESC',
+}
+
+export class PaginationQueryDto {
+  @ApiProperty({
+    example: 1,
+    required: false,
+    description: 'Page number, starting at 1',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page: number = 1;
+
+  @ApiProperty({
+    example: 20,
+    required: false,
+    description: 'Items per page (max 100)',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit: number = 20;
+
+  @ApiProperty({
+    enum: SortOrder,
+    required: false,
+    description: 'Sort direction (default DESC)',
+  })
+  @IsOptional()
+  @IsEnum(SortOrder)
+  order: SortOrder = SortOrder.DESC;
+}
+
+export interface PaginationMeta {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
+/**
+ * One page of a listing
+ * ResponseInterceptor unwraps it into the envelope's data and meta fields
+ */
+export class Paginated<T> {
+  readonly meta: PaginationMeta;
+
+  constructor(
+    readonly items: T[],
+    total: number,
+    query: PaginationQueryDto,
+  ) {
+    this.meta = {
+      page: query.page,
+      limit: query.limit,
+      total,
+      totalPages: Math.ceil(total / query.limit),
+    };
+  }
+}
@@ -0,0 +1,16 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+/**
+ * Refusal the client may retry after `retryAfter` seconds (429 unless another
+ * status is given). The interceptor of the throwing route sends the delay as
+ * the Retry-After header.
+ */
+export class RetryLaterException extends HttpException {
+  constructor(
+    message: string,
+    readonly retryAfter: number,
+    status: HttpStatus = HttpStatus.TOO_MANY_REQUESTS,
+  ) {
+    super({ message, error: { retryAfter } }, status);
+  }
+}
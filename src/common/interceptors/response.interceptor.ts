@@ -1,16 +1,26 @@
 import { Injectable, NestInterceptor, ExecutionContext, CallHandler } from '@nestjs/common';
 import { Observable } from 'rxjs';
 import { map } from 'rxjs/operators';
+import { Paginated } from '../dto/pagination.dto';
 
 @Injectable()
 export class ResponseInterceptor implements NestInterceptor {
   intercept(_context: ExecutionContext, next: CallHandler): Observable<any> {
     return next.handle().pipe(
-      map((data) => ({
-        success: true,
-        data,
-        timestamp: new Date().toISOString(),
-      })),
+      map((data) =>
+        data instanceof Paginated
+          ? {
+              success: true,
+              data: data.items,
+              meta: data.meta,
+              timestamp: new Date().toISOString(),
+            }
+          : {
+              success: true,
+              data,
+              timestamp: new Date().toISOString(),
+            },
+      ),
     );
   }
 }
@@ -0,0 +1,17 @@
+import { ValueTransformer } from 'typeorm';
+
+/**
+ * Email addresses are compared case-insensitively, so they are stored and looked up
+ * trimmed and lowercased
+ */
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+/**
+ * Email column transformer
+ * Normalizes saved values and the values of find conditions on the column
+ */
+export const emailTransformer: ValueTransformer = {
+  to: (value?: string | null) =>
+    typeof value === 'string' ? normalizeEmail(value) : value,
+  from: (value?: string | null) => value,
+};
@@ -0,0 +1,11 @@
+import { ValueTransformer } from 'typeorm';
+
+/**
+ * Numeric column transformer
+ * Postgres returns NUMERIC values as strings; this maps them back to numbers
+ */
+export const numericTransformer: ValueTransformer = {
+  to: (value?: number | null) => value,
+  from: (value?: string | null) =>
+    value === null || value === undefined ? value : parseFloat(value),
+};
@@ -0,0 +1,72 @@
+/**
+ * Formats one CSV record (RFC 4180) including the trailing CRLF
+ * Text starting with a formula character is prefixed with a quote so
+ * spreadsheet applications do not evaluate it
+ */
+export function toCsvRow(values: (string | number | null | undefined)[]) {
+  return (
+    values
+      .map((value) => {
+        if (value === null || value === undefined) {
+          return '';
+        }
+        let text = String(value);
+        if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+          text = `'${text}`;
+        }
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+      })
+      .join(',') + '\r\n'
+  );
+}
+
+/**
+ * Parses CSV text (RFC 4180: quoted fields, escaped quotes, CRLF or LF line
+ * endings) into records. A leading byte order mark and blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  const endRecord = () => {
+    record.push(field);
+    if (record.length > 1 || record[0].trim() !== '') {
+      records.push(record);
+    }
+    record = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      endRecord();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length) {
+    endRecord();
+  }
+  return records;
+}
@@ -0,0 +1,68 @@
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Parses a YYYY-MM-DD (or ISO) date string into a UTC midnight Date
+ */
+export function parseDate(value: string): Date {
+  const [year, month, day] = value.substring(0, 10).split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+/**
+ * Formats a Date as YYYY-MM-DD using its UTC calendar day
+ */
+export function formatDate(date: Date): string {
+  return date.toISOString().substring(0, 10);
+}
+
+/**
+ * Calendar year a date string falls in
+ */
+export function yearOf(value: string): number {
+  return parseInt(value.substring(0, 4), 10);
+}
+
+/**
+ * Every calendar day from start to end (inclusive) as YYYY-MM-DD strings
+ */
+export function eachDate(startDate: string, endDate: string): string[] {
+  const dates: string[] = [];
+  const end = parseDate(endDate);
+  for (
+    let day = parseDate(startDate);
+    day <= end;
+    day = new Date(day.getTime() + MS_PER_DAY)
+  ) {
+    dates.push(formatDate(day));
+  }
+  return dates;
+}
+
+/**
+ * Shifts a YYYY-MM-DD date string by a number of calendar days
+ */
+export function addDays(value: string, days: number): string {
+  return formatDate(new Date(parseDate(value).getTime() + days * MS_PER_DAY));
+}
+
+/**
+ * Splits an inclusive date range at calendar month boundaries
+ */
+export function splitByMonth(
+  startDate: string,
+  endDate: string,
+): { startDate: string; endDate: string }[] {
+  const ranges: { startDate: string; endDate: string }[] = [];
+  const end = endDate.substring(0, 10);
+  let start = startDate.substring(0, 10);
+  while (start <= end) {
+    const from = parseDate(start);
+    const monthEnd = formatDate(
+      new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth() + 1, 0)),
+    );
+    const rangeEnd = monthEnd < end ? monthEnd : end;
+    ranges.push({ startDate: start, endDate: rangeEnd });
+    start = addDays(rangeEnd, 1);
+  }
+  return ranges;
+}
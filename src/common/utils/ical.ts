@@ -0,0 +1,92 @@
+import { addDays } from './dates';
+
+export interface IcalEvent {
+  uid: string;
+  /** First day in YYYY-MM-DD format */
+  startDate: string;
+  /** Last day (inclusive) in YYYY-MM-DD format */
+  endDate: string;
+  summary: string;
+  description?: string;
+  tentative?: boolean;
+  updatedAt: Date;
+}
+
+/**
+ * Escapes a TEXT value (RFC 5545 section 3.3.11)
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Folds content lines longer than 75 octets (RFC 5545 section 3.1)
+ */
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let rest = line;
+  while (Buffer.byteLength(rest) > 75) {
+    let size = Math.min(rest.length, 74);
+    while (Buffer.byteLength(rest.substring(0, size)) > 74) {
+      size--;
+    }
+    chunks.push(rest.substring(0, size));
+    rest = rest.substring(size);
+  }
+  chunks.push(rest);
+  return chunks.join('\r\n ');
+}
+
+/**
+ * DATE value (RFC 5545 section 3.3.4); a time of day in the input is ignored
+ */
+function icalDate(value: string): string {
+  return value.substring(0, 10).replace(/-/g, '');
+}
+
+function icalTimestamp(value: Date): string {
+  return value
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+/**
+ * Renders all-day events as an iCalendar (RFC 5545) document
+ */
+export function buildIcal(name: string, events: IcalEvent[]): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Internal Leave Request API//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${icalTimestamp(event.updatedAt)}`,
+      `LAST-MODIFIED:${icalTimestamp(event.updatedAt)}`,
+      `DTSTART;VALUE=DATE:${icalDate(event.startDate)}`,
+      // DTEND of an all-day event is exclusive
+      `DTEND;VALUE=DATE:${icalDate(addDays(event.endDate, 1))}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+    );
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    }
+    lines.push(
+      `STATUS:${event.tentative ? 'TENTATIVE' : 'CONFIRMED'}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT',
+    );
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,17 @@
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { DataSource } from 'typeorm';
+import { databaseOptions } from './database.config';
+
+// The TypeORM CLI runs outside Nest, so read .env the way ConfigModule does
+if (existsSync('.env')) {
+  process.loadEnvFile('.env');
+}
+
+/**
+ * Data source for the TypeORM CLI (npm run migration:*)
+ */
+export default new DataSource({
+  ...databaseOptions(),
+  entities: [join(__dirname, '..', '**', '*.entity.{ts,js}')],
+});
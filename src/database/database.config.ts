@@ -0,0 +1,21 @@
+import { join } from 'path';
+import { PostgresConnectionOptions } from 'typeorm/driver/postgres/PostgresConnectionOptions';
+
+/**
+ * Connection options shared by the application and the TypeORM migration CLI.
+ * The schema is only ever changed by the versioned migrations in ./migrations;
+ * DB_MIGRATIONS_RUN=true applies pending ones when the application starts.
+ */
+export function databaseOptions(): PostgresConnectionOptions {
+  return {
+    type: 'postgres',
+    host: process.env.DB_HOST || 'localhost',
+    port: parseInt(process.env.DB_PORT || '5432'),
+    username: process.env.DB_USERNAME || 'postgres',
+    password: process.env.DB_PASSWORD || 'password',
+    database: process.env.DB_NAME || 'leave_db',
+    synchronize: false,
+    migrations: [join(__dirname, 'migrations', '*.{ts,js}')],
+    migrationsRun: process.env.DB_MIGRATIONS_RUN === 'true',
+  };
+}
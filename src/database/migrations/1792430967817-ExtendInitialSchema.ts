@@ -0,0 +1,436 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Tables and columns added since the first release, on top of its schema
+ */
+export class ExtendInitialSchema1792430967817 implements MigrationInterface {
+  name = 'ExtendInitialSchema1792430967817';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "department" ("id" SERIAL NOT NULL, "name" character varying NOT NULL, "minHeadcount" integer NOT NULL DEFAULT '0', "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "headId" integer, CONSTRAINT "UQ_471da4b90e96c1ebe0af221e07b" UNIQUE ("name"), CONSTRAINT "PK_9a2213262c1593bffb581e382f5" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."leave_type_unit_enum" AS ENUM('DAYS', 'HOURS')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "leave_type" ("id" SERIAL NOT NULL, "code" character varying NOT NULL, "name" character varying NOT NULL, "paid" boolean NOT NULL DEFAULT true, "maxDaysPerRequest" integer, "requiresAttachment" boolean NOT NULL DEFAULT false, "attachmentRequiredAfterDays" integer NOT NULL DEFAULT '0', "countsAgainstBalance" boolean NOT NULL DEFAULT true, "unit" "public"."leave_type_unit_enum" NOT NULL DEFAULT 'DAYS', "defaultEntitlement" numeric(6,2) NOT NULL DEFAULT '0', "carryOverCap" numeric(6,2) NOT NULL DEFAULT '0', "carryOverExpiryMonth" integer, "active" boolean NOT NULL DEFAULT true, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "UQ_15cccf623fb57c4d4497a29549c" UNIQUE ("code"), CONSTRAINT "PK_dea42866b70af67caabf936f496" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."approval_rule_steps_enum" AS ENUM('MANAGER', 'ADMIN')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "approval_rule" ("id" SERIAL NOT NULL, "name" character varying NOT NULL, "minDays" numeric(6,2) NOT NULL DEFAULT '0', "steps" "public"."approval_rule_steps_enum" array NOT NULL, "priority" integer NOT NULL DEFAULT '0', "active" boolean NOT NULL DEFAULT true, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "leaveTypeId" integer, CONSTRAINT "PK_701d587e020637511e1d04312c9" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."leave_event_action_enum" AS ENUM('SUBMITTED', 'STEP_APPROVED', 'APPROVED', 'REJECTED', 'WITHDRAWN', 'CANCELLATION_REQUESTED', 'CANCELLED', 'ESCALATED')`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."leave_event_fromstatus_enum" AS ENUM('PENDING', 'APPROVED', 'REJECTED', 'WITHDRAWN', 'CANCELLED')`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."leave_event_tostatus_enum" AS ENUM('PENDING', 'APPROVED', 'REJECTED', 'WITHDRAWN', 'CANCELLED')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "leave_event" ("id" SERIAL NOT NULL, "action" "public"."leave_event_action_enum" NOT NULL, "fromStatus" "public"."leave_event_fromstatus_enum", "toStatus" "public"."leave_event_tostatus_enum" NOT NULL, "comment" text, "staffingOverride" jsonb, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "leaveId" integer, "actorId" integer, "onBehalfOfId" integer, CONSTRAINT "PK_4e0ff46a3abb8999cc9302c75fd" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "webhook_subscription" ("id" SERIAL NOT NULL, "url" character varying NOT NULL, "events" text array NOT NULL, "secret" character varying NOT NULL, "description" character varying, "active" boolean NOT NULL DEFAULT true, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_b52cb4811c5ada4f42896c37ba8" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."webhook_delivery_status_enum" AS ENUM('PENDING', 'SUCCEEDED', 'DEAD')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "webhook_delivery" ("id" SERIAL NOT NULL, "eventId" integer NOT NULL, "eventType" character varying NOT NULL, "payload" jsonb NOT NULL, "status" "public"."webhook_delivery_status_enum" NOT NULL DEFAULT 'PENDING', "attempts" integer NOT NULL DEFAULT '0', "nextAttemptAt" TIMESTAMP NOT NULL DEFAULT now(), "lastAttemptAt" TIMESTAMP, "lastStatusCode" integer, "lastError" text, "deliveredAt" TIMESTAMP, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "subscriptionId" integer, CONSTRAINT "UQ_94c378550479c6f29c29bc4a892" UNIQUE ("subscriptionId", "eventId"), CONSTRAINT "PK_b1ae290239a778f12399db91354" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_94782787f6d98f21d3cf247962" ON "webhook_delivery" ("status", "nextAttemptAt") `,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."outbox_event_status_enum" AS ENUM('PENDING', 'PROCESSED', 'FAILED')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "outbox_event" ("id" SERIAL NOT NULL, "type" character varying NOT NULL, "payload" jsonb NOT NULL, "status" "public"."outbox_event_status_enum" NOT NULL DEFAULT 'PENDING', "attempts" integer NOT NULL DEFAULT '0', "lastError" text, "availableAt" TIMESTAMP NOT NULL DEFAULT now(), "processedAt" TIMESTAMP, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_cc0c9e40998e45ecfc5e313429d" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_55e7fe82445685ecf690cfefba" ON "outbox_event" ("status", "availableAt") `,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."notification_event_enum" AS ENUM('leave.submitted', 'leave.approved', 'leave.rejected', 'leave.cancelled', 'leave.reminder', 'leave.escalated')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "notification" ("id" SERIAL NOT NULL, "event" "public"."notification_event_enum" NOT NULL, "title" character varying NOT NULL, "body" text NOT NULL, "readAt" TIMESTAMP, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "userId" integer, "leaveId" integer, CONSTRAINT "PK_705b6c7cdf9b2c2ff7ac7872cb7" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_039c7fcba309434f48b3ffaa58" ON "notification" ("userId", "createdAt") `,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."notification_preference_event_enum" AS ENUM('leave.submitted', 'leave.approved', 'leave.rejected', 'leave.cancelled', 'leave.reminder', 'leave.escalated')`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."notification_preference_channel_enum" AS ENUM('email', 'in_app')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "notification_preference" ("id" SERIAL NOT NULL, "event" "public"."notification_preference_event_enum" NOT NULL, "channel" "public"."notification_preference_channel_enum" NOT NULL, "enabled" boolean NOT NULL, "userId" integer, CONSTRAINT "UQ_81cdbcc55f29ed25e3ce0769a90" UNIQUE ("userId", "event", "channel"), CONSTRAINT "PK_ba8d816b10f3dcfcd2e71ce5776" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "leave_attachment" ("id" SERIAL NOT NULL, "fileName" character varying NOT NULL, "mimeType" character varying NOT NULL, "size" integer NOT NULL, "storageKey" character varying NOT NULL, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "leaveId" integer, "uploadedById" integer, CONSTRAINT "PK_2921ed4d43402dddc6d5f5163f5" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "work_week" ("id" integer NOT NULL, "weekendDays" integer array NOT NULL, "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_2c353b1a3708b114f8aac3f67e2" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "holiday" ("id" SERIAL NOT NULL, "date" character varying NOT NULL, "name" character varying NOT NULL, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "UQ_89b26e4ed3db8895b86c8df55e8" UNIQUE ("date"), CONSTRAINT "PK_3e7492c25f80418a7aad0aec053" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."escalation_rule_action_enum" AS ENUM('REMIND', 'ESCALATE')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "escalation_rule" ("id" SERIAL NOT NULL, "name" character varying NOT NULL, "action" "public"."escalation_rule_action_enum" NOT NULL, "afterBusinessDays" integer NOT NULL, "active" boolean NOT NULL DEFAULT true, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "leaveTypeId" integer, CONSTRAINT "PK_59fb330cb48e5cc769aad62fd15" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "escalation_log" ("id" SERIAL NOT NULL, "step" integer NOT NULL, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "leaveId" integer NOT NULL, "ruleId" integer NOT NULL, CONSTRAINT "UQ_52d81b715a59817e2b5d54fac8b" UNIQUE ("leaveId", "ruleId", "step"), CONSTRAINT "PK_e7db49531eb44ad668db525706f" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."calendar_feed_scope_enum" AS ENUM('user', 'team')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "calendar_feed" ("id" SERIAL NOT NULL, "scope" "public"."calendar_feed_scope_enum" NOT NULL, "name" character varying, "tokenHash" character varying NOT NULL, "lastUsedAt" TIMESTAMP, "revokedAt" TIMESTAMP, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "ownerId" integer, CONSTRAINT "UQ_21e336ad0937676891819f9b655" UNIQUE ("tokenHash"), CONSTRAINT "PK_24c0b9c80e4a4ac8752d854bc2e" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."ledger_entry_kind_enum" AS ENUM('APPROVAL', 'CANCELLATION', 'ADJUSTMENT', 'CARRY_OVER', 'CARRY_OVER_EXPIRY')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "ledger_entry" ("id" SERIAL NOT NULL, "year" integer NOT NULL, "kind" "public"."ledger_entry_kind_enum" NOT NULL, "days" numeric(6,2) NOT NULL, "note" character varying, "expiresOn" date, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "userId" integer, "leaveTypeId" integer NOT NULL, "leaveId" integer, "createdById" integer, CONSTRAINT "PK_04e9d274911f909a5848a15cd74" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_d5e619c3b7a4dad3e605c6f8f8" ON "ledger_entry" ("userId", "leaveTypeId", "year", "kind") WHERE "kind" IN ('CARRY_OVER', 'CARRY_OVER_EXPIRY')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "leave_entitlement" ("id" SERIAL NOT NULL, "year" integer NOT NULL, "days" numeric(6,2) NOT NULL, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "userId" integer, "leaveTypeId" integer NOT NULL, CONSTRAINT "UQ_935306f3a1973fcf0b8be569e69" UNIQUE ("userId", "leaveTypeId", "year"), CONSTRAINT "PK_ff825347520a6e950b0e5a52933" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "refresh_token" ("id" SERIAL NOT NULL, "family" character varying NOT NULL, "tokenHash" character varying NOT NULL, "expiresAt" TIMESTAMP NOT NULL, "revokedAt" TIMESTAMP, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "userId" integer, CONSTRAINT "UQ_204f27bcee2b705b8230beaf414" UNIQUE ("tokenHash"), CONSTRAINT "PK_b575dd3c21fb0831013c909e7fe" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_407cbf7a33b94af93195029996" ON "refresh_token" ("family") `,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "password_reset_token" ("id" SERIAL NOT NULL, "tokenHash" character varying NOT NULL, "expiresAt" TIMESTAMP NOT NULL, "usedAt" TIMESTAMP, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "userId" integer, CONSTRAINT "UQ_324e592c57094c9dcfa00ddf919" UNIQUE ("tokenHash"), CONSTRAINT "PK_838af121380dfe3a6330e04f5bb" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "approval_delegation" ("id" SERIAL NOT NULL, "startDate" character varying NOT NULL, "endDate" character varying NOT NULL, "reason" text, "revokedAt" TIMESTAMP, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "delegatorId" integer NOT NULL, "delegateId" integer NOT NULL, "leaveTypeId" integer, CONSTRAINT "PK_0a327c79dd69486450d8db81106" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user" ADD "tokenVersion" integer NOT NULL DEFAULT '0'`,
+    );
+    await queryRunner.query(`ALTER TABLE "user" ADD "managerId" integer`);
+    await queryRunner.query(`ALTER TABLE "user" ADD "departmentId" integer`);
+    await queryRunner.query(
+      `CREATE TYPE "public"."leave_startdaypart_enum" AS ENUM('FULL', 'AM', 'PM')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "leave" ADD "startDayPart" "public"."leave_startdaypart_enum" NOT NULL DEFAULT 'FULL'`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."leave_enddaypart_enum" AS ENUM('FULL', 'AM', 'PM')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "leave" ADD "endDayPart" "public"."leave_enddaypart_enum" NOT NULL DEFAULT 'FULL'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "leave" ADD "workingDays" numeric(6,2) NOT NULL DEFAULT '0'`,
+    );
+    await queryRunner.query(`ALTER TABLE "leave" ADD "hours" numeric(5,2)`);
+    await queryRunner.query(
+      `CREATE TYPE "public"."leave_approvalsteps_enum" AS ENUM('MANAGER', 'ADMIN')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "leave" ADD "approvalSteps" "public"."leave_approvalsteps_enum" array NOT NULL DEFAULT '{}'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "leave" ADD "currentStep" integer NOT NULL DEFAULT '0'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "leave" ADD "cancellationRequestedAt" TIMESTAMP`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "leave" ADD "cancellationReason" character varying`,
+    );
+    await queryRunner.query(
+      `ALTER TYPE "public"."user_role_enum" RENAME TO "user_role_enum_old"`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."user_role_enum" AS ENUM('user', 'manager', 'admin')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user" ALTER COLUMN "role" DROP DEFAULT`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user" ALTER COLUMN "role" TYPE "public"."user_role_enum" USING "role"::"text"::"public"."user_role_enum"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user" ALTER COLUMN "role" SET DEFAULT 'user'`,
+    );
+    await queryRunner.query(`DROP TYPE "public"."user_role_enum_old"`);
+    await queryRunner.query(
+      `ALTER TABLE "department" ADD CONSTRAINT "FK_704562fff92144d2bc2ade1016a" FOREIGN KEY ("headId") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user" ADD CONSTRAINT "FK_df69481de1f438f2082e4d54749" FOREIGN KEY ("managerId") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user" ADD CONSTRAINT "FK_3d6915a33798152a079997cad28" FOREIGN KEY ("departmentId") REFERENCES "department"("id") ON DELETE SET NULL ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "approval_rule" ADD CONSTRAINT "FK_822e8f6b8a9eb06ac39e4887840" FOREIGN KEY ("leaveTypeId") REFERENCES "leave_type"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "leave_event" ADD CONSTRAINT "FK_0cb6b63d7c590f703f9470b035b" FOREIGN KEY ("leaveId") REFERENCES "leave"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "leave_event" ADD CONSTRAINT "FK_6d176b1587a979400adeb3fd745" FOREIGN KEY ("actorId") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "leave_event" ADD CONSTRAINT "FK_a6c36c3a54c054c9f74a3a80032" FOREIGN KEY ("onBehalfOfId") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "webhook_delivery" ADD CONSTRAINT "FK_af981295b68ba78ace2cb980613" FOREIGN KEY ("subscriptionId") REFERENCES "webhook_subscription"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "notification" ADD CONSTRAINT "FK_1ced25315eb974b73391fb1c81b" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "notification" ADD CONSTRAINT "FK_78b59c034bf9cd3258cc38d7848" FOREIGN KEY ("leaveId") REFERENCES "leave"("id") ON DELETE SET NULL ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "notification_preference" ADD CONSTRAINT "FK_c8721bd56ae600308745ad49744" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "leave_attachment" ADD CONSTRAINT "FK_08a56b6e0805e6ded4795e76f95" FOREIGN KEY ("leaveId") REFERENCES "leave"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "leave_attachment" ADD CONSTRAINT "FK_13f9ecacde2ceb6ec87f094ab0c" FOREIGN KEY ("uploadedById") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "escalation_rule" ADD CONSTRAINT "FK_48af65b934f748498630110e12e" FOREIGN KEY ("leaveTypeId") REFERENCES "leave_type"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "escalation_log" ADD CONSTRAINT "FK_c4d72f219d8e6a43c3559f06f74" FOREIGN KEY ("leaveId") REFERENCES "leave"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "escalation_log" ADD CONSTRAINT "FK_90440e95706853999dcf3c7d3d1" FOREIGN KEY ("ruleId") REFERENCES "escalation_rule"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "calendar_feed" ADD CONSTRAINT "FK_3a78dc39c9cff2bd1e4f31c349e" FOREIGN KEY ("ownerId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ledger_entry" ADD CONSTRAINT "FK_d90bdf76a4e458e2b0963a73b02" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ledger_entry" ADD CONSTRAINT "FK_9caecb8d665aa2e51e67388d01a" FOREIGN KEY ("leaveTypeId") REFERENCES "leave_type"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ledger_entry" ADD CONSTRAINT "FK_b5695e56d244b38ccb2d4c1f93d" FOREIGN KEY ("leaveId") REFERENCES "leave"("id") ON DELETE SET NULL ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ledger_entry" ADD CONSTRAINT "FK_85c9ce23cf344e53ae34f65d1eb" FOREIGN KEY ("createdById") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "leave_entitlement" ADD CONSTRAINT "FK_283ba3489cd26487849743bbc1f" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "leave_entitlement" ADD CONSTRAINT "FK_8014625ed84a83b03e402d9fc9e" FOREIGN KEY ("leaveTypeId") REFERENCES "leave_type"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "refresh_token" ADD CONSTRAINT "FK_8e913e288156c133999341156ad" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "password_reset_token" ADD CONSTRAINT "FK_a4e53583f7a8ab7d01cded46a41" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "approval_delegation" ADD CONSTRAINT "FK_b162943d8d592e26c4832bfcf1f" FOREIGN KEY ("delegatorId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "approval_delegation" ADD CONSTRAINT "FK_51fde14e111c85d5c4ab69588fa" FOREIGN KEY ("delegateId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "approval_delegation" ADD CONSTRAINT "FK_40f525e6332ecf3df132861d4c2" FOREIGN KEY ("leaveTypeId") REFERENCES "leave_type"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "approval_delegation" DROP CONSTRAINT "FK_40f525e6332ecf3df132861d4c2"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "approval_delegation" DROP CONSTRAINT "FK_51fde14e111c85d5c4ab69588fa"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "approval_delegation" DROP CONSTRAINT "FK_b162943d8d592e26c4832bfcf1f"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "password_reset_token" DROP CONSTRAINT "FK_a4e53583f7a8ab7d01cded46a41"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "refresh_token" DROP CONSTRAINT "FK_8e913e288156c133999341156ad"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "leave_entitlement" DROP CONSTRAINT "FK_8014625ed84a83b03e402d9fc9e"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "leave_entitlement" DROP CONSTRAINT "FK_283ba3489cd26487849743bbc1f"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ledger_entry" DROP CONSTRAINT "FK_85c9ce23cf344e53ae34f65d1eb"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ledger_entry" DROP CONSTRAINT "FK_b5695e56d244b38ccb2d4c1f93d"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ledger_entry" DROP CONSTRAINT "FK_9caecb8d665aa2e51e67388d01a"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ledger_entry" DROP CONSTRAINT "FK_d90bdf76a4e458e2b0963a73b02"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "calendar_feed" DROP CONSTRAINT "FK_3a78dc39c9cff2bd1e4f31c349e"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "escalation_log" DROP CONSTRAINT "FK_90440e95706853999dcf3c7d3d1"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "escalation_log" DROP CONSTRAINT "FK_c4d72f219d8e6a43c3559f06f74"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "escalation_rule" DROP CONSTRAINT "FK_48af65b934f748498630110e12e"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "leave_attachment" DROP CONSTRAINT "FK_13f9ecacde2ceb6ec87f094ab0c"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "leave_attachment" DROP CONSTRAINT "FK_08a56b6e0805e6ded4795e76f95"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "notification_preference" DROP CONSTRAINT "FK_c8721bd56ae600308745ad49744"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "notification" DROP CONSTRAINT "FK_78b59c034bf9cd3258cc38d7848"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "notification" DROP CONSTRAINT "FK_1ced25315eb974b73391fb1c81b"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "webhook_delivery" DROP CONSTRAINT "FK_af981295b68ba78ace2cb980613"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "leave_event" DROP CONSTRAINT "FK_a6c36c3a54c054c9f74a3a80032"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "leave_event" DROP CONSTRAINT "FK_6d176b1587a979400adeb3fd745"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "leave_event" DROP CONSTRAINT "FK_0cb6b63d7c590f703f9470b035b"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "approval_rule" DROP CONSTRAINT "FK_822e8f6b8a9eb06ac39e4887840"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user" DROP CONSTRAINT "FK_3d6915a33798152a079997cad28"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user" DROP CONSTRAINT "FK_df69481de1f438f2082e4d54749"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "department" DROP CONSTRAINT "FK_704562fff92144d2bc2ade1016a"`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."user_role_enum_old" AS ENUM('user', 'admin')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user" ALTER COLUMN "role" DROP DEFAULT`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user" ALTER COLUMN "role" TYPE "public"."user_role_enum_old" USING "role"::"text"::"public"."user_role_enum_old"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user" ALTER COLUMN "role" SET DEFAULT 'user'`,
+    );
+    await queryRunner.query(`DROP TYPE "public"."user_role_enum"`);
+    await queryRunner.query(
+      `ALTER TYPE "public"."user_role_enum_old" RENAME TO "user_role_enum"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "leave" DROP COLUMN "cancellationReason"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "leave" DROP COLUMN "cancellationRequestedAt"`,
+    );
+    await queryRunner.query(`ALTER TABLE "leave" DROP COLUMN "currentStep"`);
+    await queryRunner.query(`ALTER TABLE "leave" DROP COLUMN "approvalSteps"`);
+    await queryRunner.query(`DROP TYPE "public"."leave_approvalsteps_enum"`);
+    await queryRunner.query(`ALTER TABLE "leave" DROP COLUMN "hours"`);
+    await queryRunner.query(`ALTER TABLE "leave" DROP COLUMN "workingDays"`);
+    await queryRunner.query(`ALTER TABLE "leave" DROP COLUMN "endDayPart"`);
+    await queryRunner.query(`DROP TYPE "public"."leave_enddaypart_enum"`);
+    await queryRunner.query(`ALTER TABLE "leave" DROP COLUMN "startDayPart"`);
+    await queryRunner.query(`DROP TYPE "public"."leave_startdaypart_enum"`);
+    await queryRunner.query(`ALTER TABLE "user" DROP COLUMN "departmentId"`);
+    await queryRunner.query(`ALTER TABLE "user" DROP COLUMN "managerId"`);
+    await queryRunner.query(`ALTER TABLE "user" DROP COLUMN "tokenVersion"`);
+    await queryRunner.query(`DROP TABLE "approval_delegation"`);
+    await queryRunner.query(`DROP TABLE "password_reset_token"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_407cbf7a33b94af93195029996"`,
+    );
+    await queryRunner.query(`DROP TABLE "refresh_token"`);
+    await queryRunner.query(`DROP TABLE "leave_entitlement"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_d5e619c3b7a4dad3e605c6f8f8"`,
+    );
+    await queryRunner.query(`DROP TABLE "ledger_entry"`);
+    await queryRunner.query(`DROP TYPE "public"."ledger_entry_kind_enum"`);
+    await queryRunner.query(`DROP TABLE "calendar_feed"`);
+    await queryRunner.query(`DROP TYPE "public"."calendar_feed_scope_enum"`);
+    await queryRunner.query(`DROP TABLE "escalation_log"`);
+    await queryRunner.query(`DROP TABLE "escalation_rule"`);
+    await queryRunner.query(`DROP TYPE "public"."escalation_rule_action_enum"`);
+    await queryRunner.query(`DROP TABLE "holiday"`);
+    await queryRunner.query(`DROP TABLE "work_week"`);
+    await queryRunner.query(`DROP TABLE "leave_attachment"`);
+    await queryRunner.query(`DROP TABLE "notification_preference"`);
+    await queryRunner.query(
+      `DROP TYPE "public"."notification_preference_channel_enum"`,
+    );
+    await queryRunner.query(
+      `DROP TYPE "public"."notification_preference_event_enum"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_039c7fcba309434f48b3ffaa58"`,
+    );
+    await queryRunner.query(`DROP TABLE "notification"`);
+    await queryRunner.query(`DROP TYPE "public"."notification_event_enum"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_55e7fe82445685ecf690cfefba"`,
+    );
+    await queryRunner.query(`DROP TABLE "outbox_event"`);
+    await queryRunner.query(`DROP TYPE "public"."outbox_event_status_enum"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_94782787f6d98f21d3cf247962"`,
+    );
+    await queryRunner.query(`DROP TABLE "webhook_delivery"`);
+    await queryRunner.query(
+      `DROP TYPE "public"."webhook_delivery_status_enum"`,
+    );
+    await queryRunner.query(`DROP TABLE "webhook_subscription"`);
+    await queryRunner.query(`DROP TABLE "leave_event"`);
+    await queryRunner.query(`DROP TYPE "public"."leave_event_tostatus_enum"`);
+    await queryRunner.query(`DROP TYPE "public"."leave_event_fromstatus_enum"`);
+    await queryRunner.query(`DROP TYPE "public"."leave_event_action_enum"`);
+    await queryRunner.query(`DROP TABLE "approval_rule"`);
+    await queryRunner.query(`DROP TYPE "public"."approval_rule_steps_enum"`);
+    await queryRunner.query(`DROP TABLE "leave_type"`);
+    await queryRunner.query(`DROP TYPE "public"."leave_type_unit_enum"`);
+    await queryRunner.query(`DROP TABLE "department"`);
+  }
+}
@@ -0,0 +1,53 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/** Catalog code for a free-text type of the first release, e.g. "Sick Leave" becomes SICK_LEAVE */
+const legacyCode = (column: string) =>
+  `COALESCE(NULLIF(UPPER(TRIM(BOTH '_' FROM REGEXP_REPLACE(${column}, '[^A-Za-z0-9]+', '_', 'g'))), ''), 'OTHER')`;
+
+/**
+ * Replaces the free-text leave type with a reference to the leave type catalog.
+ * Every type string found on existing leaves becomes a catalog entry before the
+ * column is made required.
+ */
+export class MoveLeaveTypesToCatalog1792430967818 implements MigrationInterface {
+  name = 'MoveLeaveTypesToCatalog1792430967818';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "leave" ADD "typeId" integer`);
+    await queryRunner.query(
+      `INSERT INTO "leave_type" ("code", "name")
+       SELECT ${legacyCode('"type"')}, MIN(COALESCE(NULLIF(TRIM("type"), ''), 'Other'))
+       FROM "leave"
+       GROUP BY 1
+       ON CONFLICT ("code") DO NOTHING`,
+    );
+    await queryRunner.query(
+      `UPDATE "leave" SET "typeId" = "leave_type"."id"
+       FROM "leave_type"
+       WHERE "leave_type"."code" = ${legacyCode('"leave"."type"')}`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "leave" ALTER COLUMN "typeId" SET NOT NULL`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "leave" ADD CONSTRAINT "FK_b20229b09745b34a49881013e72" FOREIGN KEY ("typeId") REFERENCES "leave_type"("id") ON DELETE RESTRICT ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(`ALTER TABLE "leave" DROP COLUMN "type"`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "leave" ADD "type" character varying`);
+    await queryRunner.query(
+      `UPDATE "leave" SET "type" = "leave_type"."name"
+       FROM "leave_type"
+       WHERE "leave_type"."id" = "leave"."typeId"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "leave" ALTER COLUMN "type" SET NOT NULL`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "leave" DROP CONSTRAINT "FK_b20229b09745b34a49881013e72"`,
+    );
+    await queryRunner.query(`ALTER TABLE "leave" DROP COLUMN "typeId"`);
+  }
+}
@@ -0,0 +1,66 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+const STATUSES = ['PENDING', 'APPROVED', 'REJECTED', 'WITHDRAWN', 'CANCELLED'];
+
+/** Spellings the first release accepted for statuses that exist under another name */
+const LEGACY_STATUSES: Record<string, string> = {
+  CANCELED: 'CANCELLED',
+  DENIED: 'REJECTED',
+  DECLINED: 'REJECTED',
+};
+
+/**
+ * Turns the free-text leave status into an enum, keeping every existing status.
+ * Statuses are upper-cased and legacy spellings mapped first; any other value stops
+ * the migration so that it can be corrected by hand instead of being lost.
+ */
+export class ConvertLeaveStatusToEnum1792430967819 implements MigrationInterface {
+  name = 'ConvertLeaveStatusToEnum1792430967819';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `UPDATE "leave" SET "status" = UPPER(TRIM("status"))`,
+    );
+    for (const [legacy, status] of Object.entries(LEGACY_STATUSES)) {
+      await queryRunner.query(
+        `UPDATE "leave" SET "status" = $1 WHERE "status" = $2`,
+        [status, legacy],
+      );
+    }
+    const unknown = (await queryRunner.query(
+      `SELECT DISTINCT "status" FROM "leave" WHERE NOT ("status" = ANY($1))`,
+      [STATUSES],
+    )) as { status: string }[];
+    if (unknown.length) {
+      throw new Error(
+        `Unknown leave status(es) ${unknown.map((row) => `"${row.status}"`).join(', ')}; set them to one of ${STATUSES.join(', ')} and migrate again`,
+      );
+    }
+
+    await queryRunner.query(
+      `CREATE TYPE "public"."leave_status_enum" AS ENUM('PENDING', 'APPROVED', 'REJECTED', 'WITHDRAWN', 'CANCELLED')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "leave" ALTER COLUMN "status" DROP DEFAULT`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "leave" ALTER COLUMN "status" TYPE "public"."leave_status_enum" USING "status"::"public"."leave_status_enum"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "leave" ALTER COLUMN "status" SET DEFAULT 'PENDING'`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "leave" ALTER COLUMN "status" DROP DEFAULT`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "leave" ALTER COLUMN "status" TYPE character varying USING "status"::"text"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "leave" ALTER COLUMN "status" SET DEFAULT 'PENDING'`,
+    );
+    await queryRunner.query(`DROP TYPE "public"."leave_status_enum"`);
+  }
+}
@@ -0,0 +1,23 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddLoginThrottling1792431396925 implements MigrationInterface {
+  name = 'AddLoginThrottling1792431396925';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "attempt_counter_entry" ("key" character varying NOT NULL, "count" integer NOT NULL, "lastAttemptAt" TIMESTAMP NOT NULL, "expiresAt" TIMESTAMP NOT NULL, CONSTRAINT "PK_47cdf2570757b885108cb395a2c" PRIMARY KEY ("key"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_29e23dc4b06ede338a3a3bb4db" ON "attempt_counter_entry" ("expiresAt") `,
+    );
+    await queryRunner.query(`ALTER TABLE "user" ADD "lockedUntil" TIMESTAMP`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "user" DROP COLUMN "lockedUntil"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_29e23dc4b06ede338a3a3bb4db"`,
+    );
+    await queryRunner.query(`DROP TABLE "attempt_counter_entry"`);
+  }
+}
@@ -0,0 +1,74 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddLeaveNotificationEvents1792432591904 implements MigrationInterface {
+  name = 'AddLeaveNotificationEvents1792432591904';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TYPE "public"."notification_event_enum" RENAME TO "notification_event_enum_old"`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."notification_event_enum" AS ENUM('leave.submitted', 'leave.approved', 'leave.rejected', 'leave.cancelled', 'leave.step_pending', 'leave.cancellation_requested', 'leave.reminder', 'leave.escalated')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "notification" ALTER COLUMN "event" TYPE "public"."notification_event_enum" USING "event"::"text"::"public"."notification_event_enum"`,
+    );
+    await queryRunner.query(`DROP TYPE "public"."notification_event_enum_old"`);
+    await queryRunner.query(
+      `ALTER TABLE "notification_preference" DROP CONSTRAINT "UQ_81cdbcc55f29ed25e3ce0769a90"`,
+    );
+    await queryRunner.query(
+      `ALTER TYPE "public"."notification_preference_event_enum" RENAME TO "notification_preference_event_enum_old"`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."notification_preference_event_enum" AS ENUM('leave.submitted', 'leave.approved', 'leave.rejected', 'leave.cancelled', 'leave.step_pending', 'leave.cancellation_requested', 'leave.reminder', 'leave.escalated')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "notification_preference" ALTER COLUMN "event" TYPE "public"."notification_preference_event_enum" USING "event"::"text"::"public"."notification_preference_event_enum"`,
+    );
+    await queryRunner.query(
+      `DROP TYPE "public"."notification_preference_event_enum_old"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "notification_preference" ADD CONSTRAINT "UQ_81cdbcc55f29ed25e3ce0769a90" UNIQUE ("userId", "event", "channel")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // The old types cannot hold the new events
+    await queryRunner.query(
+      `DELETE FROM "notification" WHERE "event" IN ('leave.step_pending', 'leave.cancellation_requested')`,
+    );
+    await queryRunner.query(
+      `DELETE FROM "notification_preference" WHERE "event" IN ('leave.step_pending', 'leave.cancellation_requested')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "notification_preference" DROP CONSTRAINT "UQ_81cdbcc55f29ed25e3ce0769a90"`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."notification_preference_event_enum_old" AS ENUM('leave.submitted', 'leave.approved', 'leave.rejected', 'leave.cancelled', 'leave.reminder', 'leave.escalated')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "notification_preference" ALTER COLUMN "event" TYPE "public"."notification_preference_event_enum_old" USING "event"::"text"::"public"."notification_preference_event_enum_old"`,
+    );
+    await queryRunner.query(
+      `DROP TYPE "public"."notification_preference_event_enum"`,
+    );
+    await queryRunner.query(
+      `ALTER TYPE "public"."notification_preference_event_enum_old" RENAME TO "notification_preference_event_enum"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "notification_preference" ADD CONSTRAINT "UQ_81cdbcc55f29ed25e3ce0769a90" UNIQUE ("event", "channel", "userId")`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."notification_event_enum_old" AS ENUM('leave.submitted', 'leave.approved', 'leave.rejected', 'leave.cancelled', 'leave.reminder', 'leave.escalated')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "notification" ALTER COLUMN "event" TYPE "public"."notification_event_enum_old" USING "event"::"text"::"public"."notification_event_enum_old"`,
+    );
+    await queryRunner.query(`DROP TYPE "public"."notification_event_enum"`);
+    await queryRunner.query(
+      `ALTER TYPE "public"."notification_event_enum_old" RENAME TO "notification_event_enum"`,
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddNotificationOutboxEvent1792432692637 implements MigrationInterface {
+  name = 'AddNotificationOutboxEvent1792432692637';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "notification" ADD "outboxEventId" integer`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_47c6aa68e4dbe621ca9e44bc35" ON "notification" ("userId", "outboxEventId") `,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_47c6aa68e4dbe621ca9e44bc35"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "notification" DROP COLUMN "outboxEventId"`,
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class RestrictLeaveTypeReferences1792433190518 implements MigrationInterface {
+  name = 'RestrictLeaveTypeReferences1792433190518';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "approval_rule" DROP CONSTRAINT "FK_822e8f6b8a9eb06ac39e4887840"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "escalation_rule" DROP CONSTRAINT "FK_48af65b934f748498630110e12e"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ledger_entry" DROP CONSTRAINT "FK_9caecb8d665aa2e51e67388d01a"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "leave_entitlement" DROP CONSTRAINT "FK_8014625ed84a83b03e402d9fc9e"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "approval_delegation" DROP CONSTRAINT "FK_40f525e6332ecf3df132861d4c2"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "approval_rule" ADD CONSTRAINT "FK_822e8f6b8a9eb06ac39e4887840" FOREIGN KEY ("leaveTypeId") REFERENCES "leave_type"("id") ON DELETE RESTRICT ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "escalation_rule" ADD CONSTRAINT "FK_48af65b934f748498630110e12e" FOREIGN KEY ("leaveTypeId") REFERENCES "leave_type"("id") ON DELETE RESTRICT ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ledger_entry" ADD CONSTRAINT "FK_9caecb8d665aa2e51e67388d01a" FOREIGN KEY ("leaveTypeId") REFERENCES "leave_type"("id") ON DELETE RESTRICT ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "leave_entitlement" ADD CONSTRAINT "FK_8014625ed84a83b03e402d9fc9e" FOREIGN KEY ("leaveTypeId") REFERENCES "leave_type"("id") ON DELETE RESTRICT ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "approval_delegation" ADD CONSTRAINT "FK_40f525e6332ecf3df132861d4c2" FOREIGN KEY ("leaveTypeId") REFERENCES "leave_type"("id") ON DELETE RESTRICT ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "approval_delegation" DROP CONSTRAINT "FK_40f525e6332ecf3df132861d4c2"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "leave_entitlement" DROP CONSTRAINT "FK_8014625ed84a83b03e402d9fc9e"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ledger_entry" DROP CONSTRAINT "FK_9caecb8d665aa2e51e67388d01a"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "escalation_rule" DROP CONSTRAINT "FK_48af65b934f748498630110e12e"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "approval_rule" DROP CONSTRAINT "FK_822e8f6b8a9eb06ac39e4887840"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "approval_delegation" ADD CONSTRAINT "FK_40f525e6332ecf3df132861d4c2" FOREIGN KEY ("leaveTypeId") REFERENCES "leave_type"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "leave_entitlement" ADD CONSTRAINT "FK_8014625ed84a83b03e402d9fc9e" FOREIGN KEY ("leaveTypeId") REFERENCES "leave_type"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ledger_entry" ADD CONSTRAINT "FK_9caecb8d665aa2e51e67388d01a" FOREIGN KEY ("leaveTypeId") REFERENCES "leave_type"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "escalation_rule" ADD CONSTRAINT "FK_48af65b934f748498630110e12e" FOREIGN KEY ("leaveTypeId") REFERENCES "leave_type"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "approval_rule" ADD CONSTRAINT "FK_822e8f6b8a9eb06ac39e4887840" FOREIGN KEY ("leaveTypeId") REFERENCES "leave_type"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddCancelledWebhookDeliveries1792435628548 implements MigrationInterface {
+  name = 'AddCancelledWebhookDeliveries1792435628548';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_94782787f6d98f21d3cf247962"`,
+    );
+    await queryRunner.query(
+      `ALTER TYPE "public"."webhook_delivery_status_enum" RENAME TO "webhook_delivery_status_enum_old"`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."webhook_delivery_status_enum" AS ENUM('PENDING', 'SUCCEEDED', 'DEAD', 'CANCELLED')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "webhook_delivery" ALTER COLUMN "status" DROP DEFAULT`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "webhook_delivery" ALTER COLUMN "status" TYPE "public"."webhook_delivery_status_enum" USING "status"::"text"::"public"."webhook_delivery_status_enum"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "webhook_delivery" ALTER COLUMN "status" SET DEFAULT 'PENDING'`,
+    );
+    await queryRunner.query(
+      `DROP TYPE "public"."webhook_delivery_status_enum_old"`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_94782787f6d98f21d3cf247962" ON "webhook_delivery" ("status", "nextAttemptAt") `,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // The old type has no CANCELLED; such deliveries were not sent either
+    await queryRunner.query(
+      `UPDATE "webhook_delivery" SET "status" = 'DEAD' WHERE "status" = 'CANCELLED'`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_94782787f6d98f21d3cf247962"`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."webhook_delivery_status_enum_old" AS ENUM('PENDING', 'SUCCEEDED', 'DEAD')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "webhook_delivery" ALTER COLUMN "status" DROP DEFAULT`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "webhook_delivery" ALTER COLUMN "status" TYPE "public"."webhook_delivery_status_enum_old" USING "status"::"text"::"public"."webhook_delivery_status_enum_old"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "webhook_delivery" ALTER COLUMN "status" SET DEFAULT 'PENDING'`,
+    );
+    await queryRunner.query(
+      `DROP TYPE "public"."webhook_delivery_status_enum"`,
+    );
+    await queryRunner.query(
+      `ALTER TYPE "public"."webhook_delivery_status_enum_old" RENAME TO "webhook_delivery_status_enum"`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_94782787f6d98f21d3cf247962" ON "webhook_delivery" ("status", "nextAttemptAt") `,
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddOutboxDeliveryTracking1792435797556 implements MigrationInterface {
+  name = 'AddOutboxDeliveryTracking1792435797556';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."notification_delivery_channel_enum" AS ENUM('email', 'in_app')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "notification_delivery" ("id" SERIAL NOT NULL, "outboxEventId" integer NOT NULL, "channel" "public"."notification_delivery_channel_enum" NOT NULL, "deliveredAt" TIMESTAMP NOT NULL DEFAULT now(), "userId" integer, CONSTRAINT "UQ_f21a8aee49a057b7866bef135f9" UNIQUE ("outboxEventId", "userId", "channel"), CONSTRAINT "PK_109dea88c25343da49d86de6bfd" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "outbox_event" ADD "completedHandlers" text array NOT NULL DEFAULT '{}'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "notification_delivery" ADD CONSTRAINT "FK_44b54a7cba438980c056c2fc67d" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "notification_delivery" DROP CONSTRAINT "FK_44b54a7cba438980c056c2fc67d"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "outbox_event" DROP COLUMN "completedHandlers"`,
+    );
+    await queryRunner.query(`DROP TABLE "notification_delivery"`);
+    await queryRunner.query(
+      `DROP TYPE "public"."notification_delivery_channel_enum"`,
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Trims and lower-cases stored emails, which are now looked up that way.
+ * Accounts whose emails differ only in case stop the migration so that they can be
+ * merged or renamed by hand instead of one of them becoming unreachable.
+ */
+export class NormalizeUserEmails1792436120384 implements MigrationInterface {
+  name = 'NormalizeUserEmails1792436120384';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const clashes = (await queryRunner.query(
+      `SELECT LOWER(TRIM("email")) AS "email" FROM "user" GROUP BY 1 HAVING COUNT(*) > 1`,
+    )) as { email: string }[];
+    if (clashes.length) {
+      throw new Error(
+        `Several accounts use the email(s) ${clashes.map((row) => `"${row.email}"`).join(', ')} in different cases; give each account a distinct email and migrate again`,
+      );
+    }
+    await queryRunner.query(
+      `UPDATE "user" SET "email" = LOWER(TRIM("email")) WHERE "email" <> LOWER(TRIM("email"))`,
+    );
+  }
+
+  // The original spelling of the emails is not kept
+  public async down(): Promise<void> {}
+}
@@ -0,0 +1,137 @@
+import {
+  DataSource,
+  EntityTarget,
+  FindOptionsWhere,
+  ObjectLiteral,
+} from 'typeorm';
+import * as bcrypt from 'bcrypt';
+import { User, UserRole } from '../../users/entities/user.entity';
+import {
+  LeaveType,
+  LeaveUnit,
+} from '../../leave-types/entities/leave-type.entity';
+import { Department } from '../../departments/entities/department.entity';
+import { Holiday } from '../../holidays/entities/holiday.entity';
+
+/**
+ * Which sample records were created and which were already there
+ */
+export interface SeedReport {
+  created: string[];
+  existing: string[];
+}
+
+const LEAVE_TYPES: Partial<LeaveType>[] = [
+  {
+    code: 'ANNUAL',
+    name: 'Annual Leave',
+    defaultEntitlement: 20,
+    carryOverCap: 5,
+    carryOverExpiryMonth: 3,
+  },
+  {
+    code: 'SICK',
+    name: 'Sick Leave',
+    countsAgainstBalance: false,
+    requiresAttachment: true,
+    attachmentRequiredAfterDays: 2,
+  },
+  {
+    code: 'UNPAID',
+    name: 'Unpaid Leave',
+    paid: false,
+    countsAgainstBalance: false,
+  },
+  {
+    code: 'TOIL',
+    name: 'Time Off in Lieu',
+    unit: LeaveUnit.HOURS,
+    defaultEntitlement: 16,
+  },
+];
+
+/**
+ * Sample catalog, department, users and holidays for development and demos.
+ * Records are matched on their unique key and left alone when they exist, so
+ * seeding can be repeated. Every sample user gets the given password.
+ */
+export async function seedSampleData(
+  dataSource: DataSource,
+  password: string,
+): Promise<SeedReport> {
+  const report: SeedReport = { created: [], existing: [] };
+
+  const findOrCreate = async <T extends ObjectLiteral>(
+    entity: EntityTarget<T>,
+    label: string,
+    where: FindOptionsWhere<T>,
+    values: Partial<T>,
+  ): Promise<T> => {
+    const repo = dataSource.getRepository(entity);
+    const existing = await repo.findOne({ where });
+    if (existing) {
+      report.existing.push(label);
+      return existing;
+    }
+    report.created.push(label);
+    return repo.save(repo.create({ ...where, ...values } as T));
+  };
+
+  for (const type of LEAVE_TYPES) {
+    await findOrCreate(
+      LeaveType,
+      `leave type ${type.code}`,
+      { code: type.code },
+      type,
+    );
+  }
+
+  const hashed = await bcrypt.hash(password, 10);
+  const user = (
+    email: string,
+    name: string,
+    role: UserRole,
+    values: Partial<User> = {},
+  ) =>
+    findOrCreate(
+      User,
+      `user ${email}`,
+      { email },
+      { name, role, password: hashed, ...values },
+    );
+
+  await user('admin@example.com', 'Ada Admin', UserRole.ADMIN);
+  const manager = await user(
+    'manager@example.com',
+    'Max Manager',
+    UserRole.MANAGER,
+  );
+  const department = await findOrCreate(
+    Department,
+    'department Engineering',
+    { name: 'Engineering' },
+    { head: manager, minHeadcount: 1 },
+  );
+  if (report.created.includes('department Engineering')) {
+    await dataSource.getRepository(User).update(manager.id, { department });
+  }
+  await user('alice@example.com', 'Alice Employee', UserRole.USER, {
+    manager,
+    department,
+  });
+  await user('bob@example.com', 'Bob Employee', UserRole.USER, {
+    manager,
+    department,
+  });
+
+  const year = new Date().getFullYear();
+  for (const [date, name] of [
+    [`${year}-01-01`, "New Year's Day"],
+    [`${year}-12-25`, 'Christmas Day'],
+    [`${year}-12-26`, 'Boxing Day'],
+  ]) {
+    await findOrCreate(Holiday, `holiday ${date}`, { date }, { name });
+  }
+
+  return report;
+}
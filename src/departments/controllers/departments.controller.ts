@@ -0,0 +1,142 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Param,
+  Body,
+  UseGuards,
+  ValidationPipe,
+  ParseIntPipe,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiBearerAuth,
+  ApiResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+} from '@nestjs/swagger';
+import { DepartmentsService } from '../services/departments.service';
+import { JwtAuthGuard } from '../../auth/jwt/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/guards/roles.decorator';
+import { UserRole } from '../../users/entities/user.entity';
+import {
+  CreateDepartmentDto,
+  UpdateDepartmentDto,
+} from '../dto/department.dto';
+
+/**
+ * Departments Controller
+ * Manages the departments users belong to
+ * Any authenticated user can list departments; changes require admin role
+ * Users are assigned to a department with PUT /users/:id
+ */
+@ApiTags('Departments')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('departments')
+export class DepartmentsController {
+  constructor(private departmentsService: DepartmentsService) {}
+
+  /**
+   * Get all departments
+   */
+  @Get()
+  @ApiOperation({
+    summary: 'Get all departments',
+    description:
+      'Lists departments ordered by name with their head, minimum headcount and member count.',
+  })
+  @ApiResponse({ status: 200, description: 'Returns an array of departments.' })
+  findAll() {
+    return this.departmentsService.findAll();
+  }
+
+  /**
+   * Get department by ID
+   * Retrieves a department with its members
+   */
+  @Get(':id')
+  @ApiOperation({
+    summary: 'Get department by ID',
+    description:
+      'Retrieves a department with the id, name, email and role of its members.',
+  })
+  @ApiResponse({ status: 200, description: 'Returns the department.' })
+  @ApiNotFoundResponse({
+    description: 'Department with the specified ID does not exist',
+  })
+  findOne(@Param('id', ParseIntPipe) id: number) {
+    return this.departmentsService.findOne(id);
+  }
+
+  /**
+   * Create a department
+   */
+  @Post()
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Create department (Admin only)',
+    description:
+      'Creates a department with an optional head and minimum headcount. Leave approvals that would leave fewer members present on a working day are refused with 409 unless an admin overrides them.',
+  })
+  @ApiResponse({ status: 201, description: 'Department created.' })
+  @ApiResponse({
+    status: 409,
+    description: 'A department with this name already exists',
+  })
+  @ApiForbiddenResponse({
+    description: 'Access denied - only admins can manage departments.',
+  })
+  create(@Body(new ValidationPipe()) body: CreateDepartmentDto) {
+    return this.departmentsService.create(body);
+  }
+
+  /**
+   * Update a department
+   */
+  @Put(':id')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Update department (Admin only)',
+    description: 'Changes the name, head or minimum headcount of a department.',
+  })
+  @ApiResponse({ status: 200, description: 'Department updated.' })
+  @ApiResponse({
+    status: 409,
+    description: 'A department with this name already exists',
+  })
+  @ApiNotFoundResponse({
+    description: 'Department with the specified ID does not exist',
+  })
+  update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body(new ValidationPipe()) body: UpdateDepartmentDto,
+  ) {
+    return this.departmentsService.update(id, body);
+  }
+
+  /**
+   * Delete a department
+   */
+  @Delete(':id')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Delete department (Admin only)',
+    description:
+      'Deletes a department. Its members are kept without a department.',
+  })
+  @ApiResponse({ status: 204, description: 'Department deleted.' })
+  @ApiNotFoundResponse({
+    description: 'Department with the specified ID does not exist',
+  })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  remove(@Param('id', ParseIntPipe) id: number) {
+    return this.departmentsService.remove(id);
+  }
+}
@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Department } from './entities/department.entity';
+import { User } from '../users/entities/user.entity';
+import { Leave } from '../leaves/entities/leave.entity';
+import { DepartmentsService } from './services/departments.service';
+import { StaffingService } from './services/staffing.service';
+import { DepartmentsController } from './controllers/departments.controller';
+import { HolidaysModule } from '../holidays/holidays.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Department, User, Leave]),
+    HolidaysModule,
+  ],
+  providers: [DepartmentsService, StaffingService],
+  controllers: [DepartmentsController],
+  exports: [DepartmentsService, StaffingService],
+})
+export class DepartmentsModule {}
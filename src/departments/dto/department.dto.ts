@@ -0,0 +1,40 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsInt,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiProperty, PartialType } from '@nestjs/swagger';
+
+export class CreateDepartmentDto {
+  @ApiProperty({ example: 'Customer Support' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    example: 4,
+    required: false,
+    nullable: true,
+    description: 'ID of the department head; null removes the head',
+  })
+  @IsOptional()
+  @IsInt()
+  headId?: number | null;
+
+  @ApiProperty({
+    example: 2,
+    required: false,
+    description:
+      'Members that must be present on every working day; approvals that would drop below it are refused (default 0, no minimum)',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  minHeadcount?: number;
+}
+
+export class UpdateDepartmentDto extends PartialType(CreateDepartmentDto) {}
@@ -0,0 +1,40 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  OneToMany,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+/**
+ * Department
+ * Team a user belongs to; users join one through their departmentId
+ * Approvals that would leave fewer than minHeadcount members present on a working day are refused
+ */
+@Entity()
+export class Department {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ unique: true })
+  name: string;
+
+  @OneToMany(() => User, (user) => user.department)
+  members: User[];
+
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  head: User | null;
+
+  /** Members that must be present on every working day; 0 disables the check */
+  @Column({ default: 0 })
+  minHeadcount: number;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
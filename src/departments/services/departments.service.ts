@@ -0,0 +1,102 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Department } from '../entities/department.entity';
+import { User } from '../../users/entities/user.entity';
+import {
+  CreateDepartmentDto,
+  UpdateDepartmentDto,
+} from '../dto/department.dto';
+
+@Injectable()
+export class DepartmentsService {
+  constructor(
+    @InjectRepository(Department)
+    private departmentRepo: Repository<Department>,
+    @InjectRepository(User)
+    private userRepo: Repository<User>,
+  ) {}
+
+  findAll() {
+    return this.departmentRepo
+      .createQueryBuilder('department')
+      .leftJoin('department.head', 'head')
+      .addSelect(['head.id', 'head.name', 'head.email'])
+      .loadRelationCountAndMap('department.memberCount', 'department.members')
+      .orderBy('department.name', 'ASC')
+      .getMany();
+  }
+
+  async findOne(id: number) {
+    const department = await this.departmentRepo
+      .createQueryBuilder('department')
+      .leftJoin('department.head', 'head')
+      .addSelect(['head.id', 'head.name', 'head.email'])
+      .leftJoin('department.members', 'member')
+      .addSelect(['member.id', 'member.name', 'member.email', 'member.role'])
+      .where('department.id = :id', { id })
+      .orderBy('member.name', 'ASC')
+      .getOne();
+    if (!department) {
+      throw new NotFoundException(`Department ${id} not found`);
+    }
+    return department;
+  }
+
+  async create(data: CreateDepartmentDto) {
+    const { headId, ...fields } = data;
+    await this.assertNameAvailable(fields.name);
+    if (headId !== undefined && headId !== null) {
+      await this.assertUserExists(headId);
+    }
+    const department = await this.departmentRepo.save(
+      this.departmentRepo.create({
+        ...fields,
+        head: headId ? { id: headId } : null,
+      }),
+    );
+    return this.findOne(department.id);
+  }
+
+  async update(id: number, data: UpdateDepartmentDto) {
+    const { headId, ...fields } = data;
+    const department = await this.findOne(id);
+    if (fields.name && fields.name !== department.name) {
+      await this.assertNameAvailable(fields.name);
+    }
+    if (headId !== undefined && headId !== null) {
+      await this.assertUserExists(headId);
+    }
+    await this.departmentRepo.update(id, {
+      ...fields,
+      ...(headId !== undefined && {
+        head: headId === null ? null : { id: headId },
+      }),
+    });
+    return this.findOne(id);
+  }
+
+  /**
+   * Members stay, without a department
+   */
+  async remove(id: number) {
+    await this.findOne(id);
+    await this.departmentRepo.delete(id);
+  }
+
+  private async assertNameAvailable(name: string) {
+    if (await this.departmentRepo.exists({ where: { name } })) {
+      throw new ConflictException(`Department ${name} already exists`);
+    }
+  }
+
+  private async assertUserExists(userId: number) {
+    if (!(await this.userRepo.exists({ where: { id: userId } }))) {
+      throw new NotFoundException(`User ${userId} not found`);
+    }
+  }
+}
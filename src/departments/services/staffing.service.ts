@@ -0,0 +1,94 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Department } from '../entities/department.entity';
+import { User } from '../../users/entities/user.entity';
+import { Leave, LeaveStatus } from '../../leaves/entities/leave.entity';
+import { HolidaysService } from '../../holidays/services/holidays.service';
+
+export interface StaffingShortfall {
+  date: string;
+  /** Members present that day if the leave were approved */
+  present: number;
+}
+
+export interface StaffingCheck {
+  department: { id: number; name: string };
+  minimum: number;
+  shortfalls: StaffingShortfall[];
+}
+
+/**
+ * Staffing Service
+ * Checks a leave against the minimum headcount of the requester's department
+ */
+@Injectable()
+export class StaffingService {
+  constructor(
+    @InjectRepository(Department)
+    private departmentRepo: Repository<Department>,
+    @InjectRepository(User)
+    private userRepo: Repository<User>,
+    @InjectRepository(Leave)
+    private leaveRepo: Repository<Leave>,
+    private holidaysService: HolidaysService,
+  ) {}
+
+  /**
+   * Working days of the leave on which approving it would leave the department
+   * below its minimum, counting the other members' approved leave.
+   * Returns null when the requester's department has no minimum.
+   */
+  async check(leave: Leave): Promise<StaffingCheck | null> {
+    const department = await this.departmentRepo.findOne({
+      where: { members: { id: leave.user.id } },
+    });
+    if (!department || department.minHeadcount <= 0) {
+      return null;
+    }
+
+    const [members, dates] = await Promise.all([
+      this.userRepo.count({ where: { department: { id: department.id } } }),
+      this.holidaysService.getWorkingDates(leave.startDate, leave.endDate),
+    ]);
+    if (!dates.length) {
+      return null;
+    }
+    const absences = await this.leaveRepo
+      .createQueryBuilder('leave')
+      .innerJoin('leave.user', 'user')
+      .select(['leave.id', 'leave.startDate', 'leave.endDate', 'user.id'])
+      .where('user.departmentId = :departmentId', {
+        departmentId: department.id,
+      })
+      .andWhere('leave.status = :status', { status: LeaveStatus.APPROVED })
+      .andWhere('leave.id != :leaveId', { leaveId: leave.id })
+      .andWhere('leave.startDate <= :last', {
+        last: `${dates[dates.length - 1]}T23:59:59`,
+      })
+      .andWhere('leave.endDate >= :first', { first: dates[0] })
+      .getMany();
+
+    const shortfalls: StaffingShortfall[] = [];
+    for (const date of dates) {
+      const absent = new Set<number>([leave.user.id]);
+      for (const absence of absences) {
+        if (
+          absence.startDate.substring(0, 10) <= date &&
+          absence.endDate.substring(0, 10) >= date
+        ) {
+          absent.add(absence.user.id);
+        }
+      }
+      const present = members - absent.size;
+      if (present < department.minHeadcount) {
+        shortfalls.push({ date, present });
+      }
+    }
+    return {
+      department: { id: department.id, name: department.name },
+      minimum: department.minHeadcount,
+      shortfalls,
+    };
+  }
+}
@@ -0,0 +1,121 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Param,
+  Body,
+  UseGuards,
+  ValidationPipe,
+  ParseIntPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiBearerAuth,
+  ApiResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+} from '@nestjs/swagger';
+import { EscalationRulesService } from '../services/escalation-rules.service';
+import { JwtAuthGuard } from '../../auth/jwt/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/guards/roles.decorator';
+import { UserRole } from '../../users/entities/user.entity';
+import {
+  CreateEscalationRuleDto,
+  UpdateEscalationRuleDto,
+} from '../dto/escalation.dto';
+
+/**
+ * Escalation Rules Controller
+ * Configures reminders and escalations for requests nobody acts on
+ * All endpoints require admin role for access
+ */
+@ApiTags('Escalations')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@Controller('escalation-rules')
+export class EscalationRulesController {
+  constructor(private escalationRulesService: EscalationRulesService) {}
+
+  /**
+   * Get all escalation rules
+   */
+  @Get()
+  @ApiOperation({
+    summary: 'Get all escalation rules (Admin only)',
+    description: 'Lists escalation rules by delay.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns an array of escalation rules.',
+  })
+  @ApiForbiddenResponse({
+    description: 'Access denied - only admins can access this endpoint.',
+  })
+  findAll() {
+    return this.escalationRulesService.findAll();
+  }
+
+  /**
+   * Create an escalation rule
+   * E.g. remind the approver after 2 business days and escalate to the admins after 5
+   */
+  @Post()
+  @ApiOperation({
+    summary: 'Create escalation rule (Admin only)',
+    description:
+      'Adds a rule that acts on pending requests of a leave type (or any type) once their current approval step has waited afterBusinessDays working days. REMIND notifies the approvers again; ESCALATE hands the step to the admins and records it in the leave history. Each rule acts at most once per approval step.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Escalation rule created. Returns the rule.',
+  })
+  @ApiForbiddenResponse({
+    description: 'Access denied - only admins can access this endpoint.',
+  })
+  create(@Body(new ValidationPipe()) body: CreateEscalationRuleDto) {
+    return this.escalationRulesService.create(body);
+  }
+
+  /**
+   * Update an escalation rule
+   */
+  @Put(':id')
+  @ApiOperation({ summary: 'Update escalation rule (Admin only)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Escalation rule updated. Returns the rule.',
+  })
+  @ApiForbiddenResponse({
+    description: 'Access denied - only admins can access this endpoint.',
+  })
+  @ApiNotFoundResponse({
+    description: 'Escalation rule with the specified ID does not exist',
+  })
+  update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body(new ValidationPipe()) body: UpdateEscalationRuleDto,
+  ) {
+    return this.escalationRulesService.update(id, body);
+  }
+
+  /**
+   * Delete an escalation rule
+   */
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete escalation rule (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Escalation rule deleted.' })
+  @ApiForbiddenResponse({
+    description: 'Access denied - only admins can access this endpoint.',
+  })
+  @ApiNotFoundResponse({
+    description: 'Escalation rule with the specified ID does not exist',
+  })
+  remove(@Param('id', ParseIntPipe) id: number) {
+    return this.escalationRulesService.remove(id);
+  }
+}
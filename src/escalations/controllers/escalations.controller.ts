@@ -0,0 +1,57 @@
+import {
+  Controller,
+  Get,
+  Query,
+  UseGuards,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiBearerAuth,
+  ApiResponse,
+  ApiForbiddenResponse,
+} from '@nestjs/swagger';
+import { EscalationsService } from '../services/escalations.service';
+import { JwtAuthGuard } from '../../auth/jwt/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/guards/roles.decorator';
+import { UserRole } from '../../users/entities/user.entity';
+import { OverdueQueryDto } from '../dto/escalation.dto';
+
+/**
+ * Escalations Controller
+ * Shows which pending requests are waiting too long for a decision
+ * All endpoints require admin role for access
+ */
+@ApiTags('Escalations')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@Controller('escalations')
+export class EscalationsController {
+  constructor(private escalationsService: EscalationsService) {}
+
+  /**
+   * Get overdue requests
+   * Lists pending requests whose current approval step waited too long
+   */
+  @Get('overdue')
+  @ApiOperation({
+    summary: 'Get overdue leave requests (Admin only)',
+    description:
+      'Lists pending requests with the approval step they are waiting on, since when, and for how many business days, longest waiting first. By default a request is overdue once any active escalation rule applies to it; pass days to use a fixed threshold instead.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns an array of overdue requests.',
+  })
+  @ApiForbiddenResponse({
+    description: 'Access denied - only admins can access this endpoint.',
+  })
+  findOverdue(
+    @Query(new ValidationPipe({ transform: true })) query: OverdueQueryDto,
+  ) {
+    return this.escalationsService.findOverdue(query.days);
+  }
+}
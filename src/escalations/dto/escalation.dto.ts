@@ -0,0 +1,70 @@
+import {
+  IsString,
+  IsBoolean,
+  IsInt,
+  IsOptional,
+  IsEnum,
+  Min,
+  MinLength,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, PartialType } from '@nestjs/swagger';
+import { EscalationAction } from '../entities/escalation-rule.entity';
+
+export class CreateEscalationRuleDto {
+  @ApiProperty({ example: 'Remind approver', minLength: 2 })
+  @IsString()
+  @MinLength(2, { message: 'Name must be at least 2 characters' })
+  name: string;
+
+  @ApiProperty({
+    example: 'ANNUAL',
+    required: false,
+    nullable: true,
+    description: 'Leave type code the rule applies to; omit for every type',
+  })
+  @IsOptional()
+  @IsString()
+  leaveType?: string | null;
+
+  @ApiProperty({
+    example: EscalationAction.REMIND,
+    enum: EscalationAction,
+    description:
+      'REMIND notifies the approvers again, ESCALATE hands the approval step to the admins',
+  })
+  @IsEnum(EscalationAction)
+  action: EscalationAction;
+
+  @ApiProperty({
+    example: 2,
+    description:
+      'Business days the current approval step has to be waiting before the rule acts',
+  })
+  @IsInt()
+  @Min(1)
+  afterBusinessDays: number;
+
+  @ApiProperty({ example: true, required: false })
+  @IsOptional()
+  @IsBoolean()
+  active?: boolean;
+}
+
+export class UpdateEscalationRuleDto extends PartialType(
+  CreateEscalationRuleDto,
+) {}
+
+export class OverdueQueryDto {
+  @ApiProperty({
+    example: 3,
+    required: false,
+    description:
+      'List requests waiting at least this many business days; by default those due for any active escalation rule',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  days?: number;
+}
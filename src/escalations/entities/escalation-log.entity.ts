@@ -0,0 +1,35 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  CreateDateColumn,
+  Unique,
+} from 'typeorm';
+import { Leave } from '../../leaves/entities/leave.entity';
+import { EscalationRule } from './escalation-rule.entity';
+
+/**
+ * Escalation Log
+ * Records that a rule acted on an approval step of a leave, so that it acts on
+ * each step at most once however often the job runs
+ */
+@Entity()
+@Unique(['leave', 'rule', 'step'])
+export class EscalationLog {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => Leave, { nullable: false, onDelete: 'CASCADE' })
+  leave: Leave;
+
+  @ManyToOne(() => EscalationRule, { nullable: false, onDelete: 'CASCADE' })
+  rule: EscalationRule;
+
+  /** Index of the approval step the rule acted on */
+  @Column({ type: 'int' })
+  step: number;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,50 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { LeaveType } from '../../leave-types/entities/leave-type.entity';
+
+/**
+ * What a rule does with a request that waited too long
+ * REMIND notifies the approvers of the current step again, ESCALATE hands the step to the admins
+ */
+export enum EscalationAction {
+  REMIND = 'REMIND',
+  ESCALATE = 'ESCALATE',
+}
+
+/**
+ * Escalation Rule
+ * Acts on pending requests of a leave type (or any type) whose current approval
+ * step has waited a number of business days
+ */
+@Entity()
+export class EscalationRule {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  name: string;
+
+  @ManyToOne(() => LeaveType, { nullable: true, onDelete: 'RESTRICT' })
+  leaveType: LeaveType | null;
+
+  @Column({ type: 'enum', enum: EscalationAction })
+  action: EscalationAction;
+
+  @Column({ type: 'int' })
+  afterBusinessDays: number;
+
+  @Column({ default: true })
+  active: boolean;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,32 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { EscalationRule } from './entities/escalation-rule.entity';
+import { EscalationLog } from './entities/escalation-log.entity';
+import { Leave } from '../leaves/entities/leave.entity';
+import { LeaveEvent } from '../leaves/entities/leave-event.entity';
+import { EscalationRulesService } from './services/escalation-rules.service';
+import { EscalationsService } from './services/escalations.service';
+import { EscalationRulesController } from './controllers/escalation-rules.controller';
+import { EscalationsController } from './controllers/escalations.controller';
+import { LeavesModule } from '../leaves/leaves.module';
+import { LeaveTypesModule } from '../leave-types/leave-types.module';
+import { HolidaysModule } from '../holidays/holidays.module';
+import { SchedulerModule } from '../scheduler/scheduler.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      EscalationRule,
+      EscalationLog,
+      Leave,
+      LeaveEvent,
+    ]),
+    LeavesModule,
+    LeaveTypesModule,
+    HolidaysModule,
+    SchedulerModule,
+  ],
+  providers: [EscalationRulesService, EscalationsService],
+  controllers: [EscalationRulesController, EscalationsController],
+})
+export class EscalationsModule {}
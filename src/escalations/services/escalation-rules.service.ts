@@ -0,0 +1,60 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { EscalationRule } from '../entities/escalation-rule.entity';
+import {
+  CreateEscalationRuleDto,
+  UpdateEscalationRuleDto,
+} from '../dto/escalation.dto';
+import { LeaveTypesService } from '../../leave-types/services/leave-types.service';
+
+@Injectable()
+export class EscalationRulesService {
+  constructor(
+    @InjectRepository(EscalationRule)
+    private ruleRepo: Repository<EscalationRule>,
+    private leaveTypesService: LeaveTypesService,
+  ) {}
+
+  findAll() {
+    return this.ruleRepo.find({
+      relations: ['leaveType'],
+      order: { afterBusinessDays: 'ASC', id: 'ASC' },
+    });
+  }
+
+  async findOne(id: number) {
+    const rule = await this.ruleRepo.findOne({
+      where: { id },
+      relations: ['leaveType'],
+    });
+    if (!rule) {
+      throw new NotFoundException(`Escalation rule ${id} not found`);
+    }
+    return rule;
+  }
+
+  async create(data: CreateEscalationRuleDto) {
+    const leaveType = await this.resolveLeaveType(data.leaveType);
+    return this.ruleRepo.save(this.ruleRepo.create({ ...data, leaveType }));
+  }
+
+  async update(id: number, data: UpdateEscalationRuleDto) {
+    const rule = await this.findOne(id);
+    const { leaveType, ...fields } = data;
+    this.ruleRepo.merge(rule, fields);
+    if (leaveType !== undefined) {
+      rule.leaveType = await this.resolveLeaveType(leaveType);
+    }
+    return this.ruleRepo.save(rule);
+  }
+
+  async remove(id: number) {
+    await this.findOne(id);
+    return this.ruleRepo.delete(id);
+  }
+
+  private async resolveLeaveType(code?: string | null) {
+    return code ? this.leaveTypesService.findActiveByCode(code) : null;
+  }
+}
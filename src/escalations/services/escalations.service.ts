@@ -0,0 +1,217 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import {
+  EscalationAction,
+  EscalationRule,
+} from '../entities/escalation-rule.entity';
+import { EscalationLog } from '../entities/escalation-log.entity';
+import { Leave, LeaveStatus } from '../../leaves/entities/leave.entity';
+import {
+  LeaveEvent,
+  LeaveEventAction,
+} from '../../leaves/entities/leave-event.entity';
+import { LeavesService } from '../../leaves/services/leaves.service';
+import { HolidaysService } from '../../holidays/services/holidays.service';
+import { SchedulerService } from '../../scheduler/services/scheduler.service';
+import { ScheduledJob } from '../../scheduler/interfaces/scheduled-job.interface';
+import { ApprovalStep } from '../../approvals/entities/approval-rule.entity';
+import { addDays, eachDate, formatDate } from '../../common/utils/dates';
+
+/**
+ * Pending request with how long its current approval step has been waiting
+ */
+export interface OverdueLeave {
+  leave: Leave;
+  step: ApprovalStep;
+  waitingSince: Date;
+  businessDaysWaiting: number;
+}
+
+/**
+ * Escalations Service
+ * Scheduled job that applies the active escalation rules to pending requests.
+ * The time a step has waited is counted in working days (weekends and holidays
+ * excluded) since it was submitted or since the previous step was approved.
+ */
+@Injectable()
+export class EscalationsService implements ScheduledJob, OnModuleInit {
+  readonly name = 'leave-escalations';
+  private readonly logger = new Logger(EscalationsService.name);
+
+  constructor(
+    @InjectRepository(EscalationRule)
+    private ruleRepo: Repository<EscalationRule>,
+    @InjectRepository(EscalationLog)
+    private logRepo: Repository<EscalationLog>,
+    @InjectRepository(Leave)
+    private leaveRepo: Repository<Leave>,
+    @InjectRepository(LeaveEvent)
+    private eventRepo: Repository<LeaveEvent>,
+    private leavesService: LeavesService,
+    private holidaysService: HolidaysService,
+    private schedulerService: SchedulerService,
+  ) {}
+
+  onModuleInit() {
+    this.schedulerService.register(this);
+  }
+
+  /**
+   * Pending requests waiting at least the given business days, or due for at
+   * least one active rule when days is omitted; longest waiting first
+   */
+  async findOverdue(days?: number): Promise<OverdueLeave[]> {
+    const [rules, waiting] = await Promise.all([
+      this.findActiveRules(),
+      this.findWaiting(),
+    ]);
+    return waiting
+      .filter((item) =>
+        days !== undefined
+          ? item.businessDaysWaiting >= days
+          : rules.some((rule) => this.isDue(rule, item)),
+      )
+      .sort(
+        (a, b) =>
+          b.businessDaysWaiting - a.businessDaysWaiting ||
+          a.leave.id - b.leave.id,
+      );
+  }
+
+  /**
+   * Applies every active rule to the requests due for it, shortest delay first.
+   * A rule acts at most once per request and approval step.
+   */
+  async run() {
+    const rules = await this.findActiveRules();
+    if (!rules.length) {
+      return;
+    }
+    const waiting = await this.findWaiting();
+    for (const rule of rules) {
+      for (const item of waiting.filter((item) => this.isDue(rule, item))) {
+        try {
+          await this.apply(rule, item.leave);
+        } catch (error) {
+          this.logger.error(
+            `Escalation rule ${rule.id} failed for leave ${item.leave.id}`,
+            error,
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * The log entry and the reminder or escalation are written in one transaction,
+   * with the leave locked so a decision taken meanwhile is not overwritten
+   */
+  private apply(rule: EscalationRule, leave: Leave) {
+    return this.logRepo.manager.transaction(async (manager) => {
+      await manager
+        .createQueryBuilder(Leave, 'leave')
+        .setLock('pessimistic_write')
+        .where('leave.id = :id', { id: leave.id })
+        .getOne();
+      const current = await manager.findOne(Leave, {
+        where: { id: leave.id },
+        relations: ['user', 'type'],
+      });
+      if (
+        current?.status !== LeaveStatus.PENDING ||
+        current.currentStep !== leave.currentStep
+      ) {
+        return;
+      }
+
+      const logged = await manager
+        .createQueryBuilder()
+        .insert()
+        .into(EscalationLog)
+        .values({
+          leave: { id: current.id },
+          rule: { id: rule.id },
+          step: current.currentStep,
+        })
+        .orIgnore()
+        .execute();
+      if (!(logged.raw as unknown[]).length) {
+        return;
+      }
+
+      if (rule.action === EscalationAction.REMIND) {
+        await this.leavesService.remind(current, manager);
+      } else {
+        await this.leavesService.escalate(
+          current,
+          `Escalated by rule "${rule.name}" after ${rule.afterBusinessDays} business day(s) without a decision`,
+          manager,
+        );
+      }
+    });
+  }
+
+  private findActiveRules() {
+    return this.ruleRepo.find({
+      where: { active: true },
+      relations: ['leaveType'],
+      order: { afterBusinessDays: 'ASC', id: 'ASC' },
+    });
+  }
+
+  private isDue(rule: EscalationRule, item: OverdueLeave) {
+    return (
+      (!rule.leaveType || rule.leaveType.id === item.leave.type.id) &&
+      item.businessDaysWaiting >= rule.afterBusinessDays
+    );
+  }
+
+  /**
+   * Every pending request with the start of its current step
+   */
+  private async findWaiting(): Promise<OverdueLeave[]> {
+    const leaves = await this.leaveRepo
+      .createQueryBuilder('leave')
+      .innerJoin('leave.user', 'user')
+      .addSelect(['user.id', 'user.name', 'user.email'])
+      .innerJoinAndSelect('leave.type', 'type')
+      .where('leave.status = :status', { status: LeaveStatus.PENDING })
+      .orderBy('leave.id', 'ASC')
+      .getMany();
+    if (!leaves.length) {
+      return [];
+    }
+
+    const stepStarts = await this.eventRepo
+      .createQueryBuilder('event')
+      .select('event.leaveId', 'leaveId')
+      .addSelect('MAX(event.createdAt)', 'startedAt')
+      .where('event.leaveId IN (:...ids)', {
+        ids: leaves.map((leave) => leave.id),
+      })
+      .andWhere('event.action IN (:...actions)', {
+        actions: [LeaveEventAction.SUBMITTED, LeaveEventAction.STEP_APPROVED],
+      })
+      .groupBy('event.leaveId')
+      .getRawMany<{ leaveId: number; startedAt: Date }>();
+    const startedAt = new Map(
+      stepStarts.map((row) => [Number(row.leaveId), row.startedAt]),
+    );
+
+    const isWorkingDay = await this.holidaysService.getWorkingDayPredicate();
+    const today = formatDate(new Date());
+    return leaves.map((leave) => {
+      const waitingSince = startedAt.get(leave.id) ?? leave.createdAt;
+      return {
+        leave,
+        step: leave.approvalSteps[leave.currentStep],
+        waitingSince,
+        businessDaysWaiting: eachDate(
+          addDays(formatDate(waitingSince), 1),
+          today,
+        ).filter(isWorkingDay).length,
+      };
+    });
+  }
+}
@@ -0,0 +1,146 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Param,
+  Body,
+  Query,
+  UseGuards,
+  ValidationPipe,
+  ParseIntPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiBearerAuth,
+  ApiResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+} from '@nestjs/swagger';
+import { HolidaysService } from '../services/holidays.service';
+import { JwtAuthGuard } from '../../auth/jwt/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/guards/roles.decorator';
+import { UserRole } from '../../users/entities/user.entity';
+import {
+  CreateHolidayDto,
+  HolidayQueryDto,
+  UpdateWeekendDto,
+} from '../dto/holiday.dto';
+
+/**
+ * Holidays Controller
+ * Manages the public holiday calendar and weekend definition used to count working days
+ * Any authenticated user can read the calendar; changes require admin role
+ */
+@ApiTags('Holidays')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('holidays')
+export class HolidaysController {
+  constructor(private holidaysService: HolidaysService) {}
+
+  /**
+   * Get holidays
+   * Lists public holidays, optionally for a single year
+   */
+  @Get()
+  @ApiOperation({
+    summary: 'Get public holidays',
+    description:
+      'Lists public holidays ordered by date. Pass year to only list holidays in that year.',
+  })
+  @ApiResponse({ status: 200, description: 'Returns an array of holidays.' })
+  findAll(
+    @Query(new ValidationPipe({ transform: true })) query: HolidayQueryDto,
+  ) {
+    return this.holidaysService.findAll(query.year);
+  }
+
+  /**
+   * Get weekend definition
+   * Returns the days of the week that are not counted as working days
+   */
+  @Get('weekend')
+  @ApiOperation({
+    summary: 'Get weekend definition',
+    description:
+      'Returns the days of the week (0 = Sunday ... 6 = Saturday) that are not counted as working days.',
+  })
+  @ApiResponse({ status: 200, description: 'Returns the weekend days.' })
+  async getWeekend() {
+    return { weekendDays: await this.holidaysService.getWeekendDays() };
+  }
+
+  /**
+   * Update weekend definition
+   * Changes which days of the week are not counted as working days
+   */
+  @Put('weekend')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Update weekend definition (Admin only)',
+    description:
+      'Sets the days of the week (0 = Sunday ... 6 = Saturday) that are not counted as working days for new leave requests.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Weekend updated. Returns the weekend days.',
+  })
+  @ApiForbiddenResponse({
+    description:
+      'Access denied - only admins can change the weekend definition.',
+  })
+  setWeekend(@Body(new ValidationPipe()) body: UpdateWeekendDto) {
+    return this.holidaysService.setWeekendDays(body.weekendDays);
+  }
+
+  /**
+   * Create a holiday
+   * Adds a public holiday to the calendar
+   */
+  @Post()
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Create public holiday (Admin only)',
+    description:
+      'Adds a public holiday. Holidays are excluded from the working-day count of new leave requests.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Holiday created. Returns the holiday.',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'A holiday is already defined on this date.',
+  })
+  @ApiForbiddenResponse({
+    description: 'Access denied - only admins can manage holidays.',
+  })
+  create(@Body(new ValidationPipe()) body: CreateHolidayDto) {
+    return this.holidaysService.create(body);
+  }
+
+  /**
+   * Delete a holiday
+   * Removes a public holiday from the calendar
+   */
+  @Delete(':id')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Delete public holiday (Admin only)',
+    description: 'Removes a public holiday from the calendar.',
+  })
+  @ApiResponse({ status: 200, description: 'Holiday deleted.' })
+  @ApiForbiddenResponse({
+    description: 'Access denied - only admins can manage holidays.',
+  })
+  @ApiNotFoundResponse({
+    description: 'Holiday with the specified ID does not exist',
+  })
+  remove(@Param('id', ParseIntPipe) id: number) {
+    return this.holidaysService.remove(id);
+  }
+}
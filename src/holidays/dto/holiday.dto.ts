@@ -0,0 +1,56 @@
+import {
+  IsString,
+  IsDateString,
+  IsInt,
+  IsArray,
+  IsOptional,
+  ArrayUnique,
+  ArrayMaxSize,
+  Min,
+  Max,
+  MinLength,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CreateHolidayDto {
+  @ApiProperty({
+    example: '2025-12-25',
+    description: 'Holiday date in YYYY-MM-DD format',
+  })
+  @IsDateString()
+  date: string;
+
+  @ApiProperty({ example: 'Christmas Day', minLength: 2 })
+  @IsString()
+  @MinLength(2, { message: 'Name must be at least 2 characters' })
+  name: string;
+}
+
+export class HolidayQueryDto {
+  @ApiProperty({
+    example: 2025,
+    required: false,
+    description: 'Only list holidays in this year',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(2000)
+  @Max(2100)
+  year?: number;
+}
+
+export class UpdateWeekendDto {
+  @ApiProperty({
+    example: [0, 6],
+    description: 'Non-working days of the week, 0 = Sunday ... 6 = Saturday',
+  })
+  @IsArray()
+  @ArrayUnique()
+  @ArrayMaxSize(6)
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(6, { each: true })
+  weekendDays: number[];
+}
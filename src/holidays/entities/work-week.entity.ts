@@ -0,0 +1,18 @@
+import { Entity, PrimaryColumn, Column, UpdateDateColumn } from 'typeorm';
+
+/**
+ * Work Week
+ * Single-row table holding the organisation's weekend definition
+ */
+@Entity()
+export class WorkWeek {
+  @PrimaryColumn()
+  id: number;
+
+  /** Days of the week that are not worked, 0 = Sunday ... 6 = Saturday */
+  @Column({ type: 'int', array: true })
+  weekendDays: number[];
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
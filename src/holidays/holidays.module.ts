@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Holiday } from './entities/holiday.entity';
+import { WorkWeek } from './entities/work-week.entity';
+import { HolidaysService } from './services/holidays.service';
+import { HolidaysController } from './controllers/holidays.controller';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Holiday, WorkWeek])],
+  providers: [HolidaysService],
+  controllers: [HolidaysController],
+  exports: [HolidaysService],
+})
+export class HolidaysModule {}
@@ -0,0 +1,69 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { HolidaysService } from './holidays.service';
+import { Holiday } from '../entities/holiday.entity';
+import { WorkWeek } from '../entities/work-week.entity';
+
+describe('HolidaysService', () => {
+  let service: HolidaysService;
+  let holidays: Partial<Holiday>[];
+  let workWeek: Partial<WorkWeek> | null;
+
+  beforeEach(async () => {
+    holidays = [];
+    workWeek = null;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        HolidaysService,
+        {
+          provide: getRepositoryToken(Holiday),
+          useValue: { find: jest.fn(() => Promise.resolve(holidays)) },
+        },
+        {
+          provide: getRepositoryToken(WorkWeek),
+          useValue: { findOne: jest.fn(() => Promise.resolve(workWeek)) },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((_key: string, fallback: string) => fallback),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<HolidaysService>(HolidaysService);
+  });
+
+  describe('countWorkingDays', () => {
+    it('should skip Saturday and Sunday by default', async () => {
+      // Friday 2024-03-01 to Tuesday 2024-03-05
+      expect(await service.countWorkingDays('2024-03-01', '2024-03-05')).toBe(
+        3,
+      );
+    });
+
+    it('should skip public holidays', async () => {
+      holidays = [{ date: '2024-03-04', name: 'Test Holiday' }];
+      expect(await service.countWorkingDays('2024-03-01', '2024-03-05')).toBe(
+        2,
+      );
+    });
+
+    it('should use the configured weekend definition', async () => {
+      // Friday and Saturday weekend
+      workWeek = { weekendDays: [5, 6] };
+      expect(await service.getWorkingDates('2024-03-01', '2024-03-05')).toEqual(
+        ['2024-03-03', '2024-03-04', '2024-03-05'],
+      );
+    });
+
+    it('should count a single working day', async () => {
+      expect(await service.countWorkingDays('2024-03-04', '2024-03-04')).toBe(
+        1,
+      );
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Between, Repository } from 'typeorm';
+import { Holiday } from '../entities/holiday.entity';
+import { WorkWeek } from '../entities/work-week.entity';
+import { CreateHolidayDto } from '../dto/holiday.dto';
+import { eachDate, parseDate } from '../../common/utils/dates';
+
+const WORK_WEEK_ID = 1;
+
+@Injectable()
+export class HolidaysService {
+  constructor(
+    @InjectRepository(Holiday)
+    private holidayRepo: Repository<Holiday>,
+    @InjectRepository(WorkWeek)
+    private workWeekRepo: Repository<WorkWeek>,
+    private configService: ConfigService,
+  ) {}
+
+  findAll(year?: number) {
+    return this.holidayRepo.find({
+      where: year ? { date: Between(`${year}-01-01`, `${year}-12-31`) } : {},
+      order: { date: 'ASC' },
+    });
+  }
+
+  async create(data: CreateHolidayDto) {
+    const date = data.date.substring(0, 10);
+    if (await this.holidayRepo.exists({ where: { date } })) {
+      throw new ConflictException(`A holiday is already defined on ${date}`);
+    }
+    return this.holidayRepo.save(this.holidayRepo.create({ ...data, date }));
+  }
+
+  async remove(id: number) {
+    const result = await this.holidayRepo.delete(id);
+    if (!result.affected) {
+      throw new NotFoundException(`Holiday ${id} not found`);
+    }
+    return result;
+  }
+
+  /**
+   * Weekend days from the admin-managed work week, falling back to WEEKEND_DAYS (default Saturday and Sunday)
+   */
+  async getWeekendDays(): Promise<number[]> {
+    const workWeek = await this.workWeekRepo.findOne({
+      where: { id: WORK_WEEK_ID },
+    });
+    if (workWeek) {
+      return workWeek.weekendDays;
+    }
+    return this.configService
+      .get<string>('WEEKEND_DAYS', '0,6')
+      .split(',')
+      .filter((day) => day.trim() !== '')
+      .map(Number);
+  }
+
+  async setWeekendDays(weekendDays: number[]) {
+    await this.workWeekRepo.save({
+      id: WORK_WEEK_ID,
+      weekendDays: [...weekendDays].sort((a, b) => a - b),
+    });
+    return { weekendDays: await this.getWeekendDays() };
+  }
+
+  /**
+   * Dates between start and end (inclusive) that are neither weekend days nor holidays
+   */
+  async getWorkingDates(startDate: string, endDate: string): Promise<string[]> {
+    const [weekendDays, holidays] = await Promise.all([
+      this.getWeekendDays(),
+      this.holidayRepo.find({
+        where: {
+          date: Between(startDate.substring(0, 10), endDate.substring(0, 10)),
+        },
+      }),
+    ]);
+    const holidayDates = new Set(holidays.map((holiday) => holiday.date));
+
+    return eachDate(startDate, endDate).filter(
+      (date) =>
+        !weekendDays.includes(parseDate(date).getUTCDay()) &&
+        !holidayDates.has(date),
+    );
+  }
+
+  /**
+   * Same rule as getWorkingDates, with the calendar loaded once for callers that check many dates
+   */
+  async getWorkingDayPredicate(): Promise<(date: string) => boolean> {
+    const [weekendDays, holidays] = await Promise.all([
+      this.getWeekendDays(),
+      this.findAll(),
+    ]);
+    const holidayDates = new Set(holidays.map((holiday) => holiday.date));
+    return (date: string) =>
+      !weekendDays.includes(parseDate(date).getUTCDay()) &&
+      !holidayDates.has(date);
+  }
+
+  async countWorkingDays(startDate: string, endDate: string): Promise<number> {
+    return (await this.getWorkingDates(startDate, endDate)).length;
+  }
+}
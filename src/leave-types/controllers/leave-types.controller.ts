@@ -0,0 +1,168 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Param,
+  Body,
+  Query,
+  UseGuards,
+  ValidationPipe,
+  ParseIntPipe,
+  ParseBoolPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiBearerAuth,
+  ApiResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { LeaveTypesService } from '../services/leave-types.service';
+import { JwtAuthGuard } from '../../auth/jwt/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/guards/roles.decorator';
+import { UserRole } from '../../users/entities/user.entity';
+import { CreateLeaveTypeDto, UpdateLeaveTypeDto } from '../dto/leave-type.dto';
+
+/**
+ * Leave Types Controller
+ * Manages the catalog of leave types employees can request
+ * Any authenticated user can list types; changes require admin role
+ */
+@ApiTags('Leave Types')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('leave-types')
+export class LeaveTypesController {
+  constructor(private leaveTypesService: LeaveTypesService) {}
+
+  /**
+   * Get all leave types
+   * Lists active leave types, optionally including inactive ones
+   */
+  @Get()
+  @ApiOperation({
+    summary: 'Get all leave types',
+    description:
+      'Lists the leave types that can be used in leave requests. Pass includeInactive=true to also list archived types.',
+  })
+  @ApiQuery({ name: 'includeInactive', required: false, type: Boolean })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns an array of leave types ordered by code.',
+  })
+  findAll(
+    @Query('includeInactive', new ParseBoolPipe({ optional: true }))
+    includeInactive?: boolean,
+  ) {
+    return this.leaveTypesService.findAll(includeInactive);
+  }
+
+  /**
+   * Get leave type by ID
+   * Retrieves a single leave type including its rules
+   */
+  @Get(':id')
+  @ApiOperation({
+    summary: 'Get leave type by ID',
+    description:
+      'Retrieves a single leave type including its paid flag, request limits and balance rules.',
+  })
+  @ApiResponse({ status: 200, description: 'Returns the leave type.' })
+  @ApiNotFoundResponse({
+    description: 'Leave type with the specified ID does not exist',
+  })
+  findOne(@Param('id', ParseIntPipe) id: number) {
+    return this.leaveTypesService.findOne(id);
+  }
+
+  /**
+   * Create a leave type
+   * Adds a new type to the catalog
+   */
+  @Post()
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Create leave type (Admin only)',
+    description:
+      'Adds a new leave type. The code is normalised to upper-case and must be unique.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Leave type created. Returns the leave type.',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'A leave type with this code already exists.',
+  })
+  @ApiForbiddenResponse({
+    description: 'Access denied - only admins can manage leave types.',
+  })
+  create(
+    @Body(new ValidationPipe({ transform: true })) body: CreateLeaveTypeDto,
+  ) {
+    return this.leaveTypesService.create(body);
+  }
+
+  /**
+   * Update a leave type
+   * Changes the rules of a type or (de)activates it
+   */
+  @Put(':id')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Update leave type (Admin only)',
+    description:
+      'Updates a leave type. Set active=false to stop it being used for new requests while keeping history intact.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Leave type updated. Returns the leave type.',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'A leave type with this code already exists.',
+  })
+  @ApiForbiddenResponse({
+    description: 'Access denied - only admins can manage leave types.',
+  })
+  @ApiNotFoundResponse({
+    description: 'Leave type with the specified ID does not exist',
+  })
+  update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body(new ValidationPipe({ transform: true })) body: UpdateLeaveTypeDto,
+  ) {
+    return this.leaveTypesService.update(id, body);
+  }
+
+  /**
+   * Delete a leave type
+   * Only types that were never used can be deleted
+   */
+  @Delete(':id')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Delete leave type (Admin only)',
+    description:
+      'Permanently removes a leave type. Types referenced by leave requests, ledger entries, entitlements, approval or escalation rules or delegations cannot be deleted and should be deactivated instead.',
+  })
+  @ApiResponse({ status: 200, description: 'Leave type deleted.' })
+  @ApiResponse({
+    status: 409,
+    description: 'The leave type is in use; the error lists what refers to it.',
+  })
+  @ApiForbiddenResponse({
+    description: 'Access denied - only admins can manage leave types.',
+  })
+  @ApiNotFoundResponse({
+    description: 'Leave type with the specified ID does not exist',
+  })
+  remove(@Param('id', ParseIntPipe) id: number) {
+    return this.leaveTypesService.remove(id);
+  }
+}
@@ -0,0 +1,144 @@
+import {
+  IsString,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  Matches,
+  MinLength,
+  Min,
+  Max,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty, PartialType } from '@nestjs/swagger';
+import { LeaveUnit } from '../entities/leave-type.entity';
+
+export class CreateLeaveTypeDto {
+  @ApiProperty({
+    example: 'SICK',
+    description:
+      'Unique code, stored upper-case (letters, digits and underscores)',
+  })
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string' ? value.trim().toUpperCase() : value,
+  )
+  @IsString()
+  @Matches(/^[A-Z0-9_]+$/, {
+    message: 'Code may only contain letters, digits and underscores',
+  })
+  code: string;
+
+  @ApiProperty({ example: 'Sick Leave', minLength: 2 })
+  @IsString()
+  @MinLength(2, { message: 'Name must be at least 2 characters' })
+  name: string;
+
+  @ApiProperty({
+    example: true,
+    required: false,
+    description: 'Whether the leave is paid (default true)',
+  })
+  @IsOptional()
+  @IsBoolean()
+  paid?: boolean;
+
+  @ApiProperty({
+    example: 10,
+    required: false,
+    nullable: true,
+    description: 'Maximum number of days in a single request',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxDaysPerRequest?: number | null;
+
+  @ApiProperty({
+    example: false,
+    required: false,
+    description:
+      'Whether a supporting document must be attached before the request can be approved',
+  })
+  @IsOptional()
+  @IsBoolean()
+  requiresAttachment?: boolean;
+
+  @ApiProperty({
+    example: 2,
+    required: false,
+    description:
+      'With requiresAttachment, only requests longer than this many working days need a document (default 0)',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  attachmentRequiredAfterDays?: number;
+
+  @ApiProperty({
+    example: true,
+    required: false,
+    description:
+      'Whether approved days are deducted from the yearly balance (default true)',
+  })
+  @IsOptional()
+  @IsBoolean()
+  countsAgainstBalance?: boolean;
+
+  @ApiProperty({
+    example: LeaveUnit.DAYS,
+    enum: LeaveUnit,
+    required: false,
+    description:
+      'Unit requests and balances are measured in (default DAYS). Requests of HOURS types cover a single working day and give the number of hours.',
+  })
+  @IsOptional()
+  @IsEnum(LeaveUnit)
+  unit?: LeaveUnit;
+
+  @ApiProperty({
+    example: 12,
+    required: false,
+    description:
+      'Yearly days (or hours for HOURS types) granted when no per-user entitlement is set',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  defaultEntitlement?: number;
+
+  @ApiProperty({
+    example: 5,
+    required: false,
+    description:
+      'Unused days (or hours for HOURS types) carried into the next year at year end (default 0, no carry-over)',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  carryOverCap?: number;
+
+  @ApiProperty({
+    example: 3,
+    required: false,
+    nullable: true,
+    description:
+      'Carried days not used by the end of this month (1-12) of the next year expire; omit to keep them for the whole year',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(12)
+  carryOverExpiryMonth?: number | null;
+
+  @ApiProperty({
+    example: true,
+    required: false,
+    description: 'Inactive types cannot be used for new requests',
+  })
+  @IsOptional()
+  @IsBoolean()
+  active?: boolean;
+}
+
+export class UpdateLeaveTypeDto extends PartialType(CreateLeaveTypeDto) {}
@@ -0,0 +1,77 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { numericTransformer } from '../../common/transformers/numeric.transformer';
+
+export enum LeaveUnit {
+  DAYS = 'DAYS',
+  HOURS = 'HOURS',
+}
+
+@Entity()
+export class LeaveType {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ unique: true })
+  code: string;
+
+  @Column()
+  name: string;
+
+  @Column({ default: true })
+  paid: boolean;
+
+  @Column({ type: 'int', nullable: true })
+  maxDaysPerRequest: number | null;
+
+  @Column({ default: false })
+  requiresAttachment: boolean;
+
+  // With requiresAttachment, only requests longer than this many working days need a document
+  @Column({ default: 0 })
+  attachmentRequiredAfterDays: number;
+
+  @Column({ default: true })
+  countsAgainstBalance: boolean;
+
+  // Hourly types are requested in hours and their entitlements, ledger and balances are kept in hours
+  @Column({ type: 'enum', enum: LeaveUnit, default: LeaveUnit.DAYS })
+  unit: LeaveUnit;
+
+  @Column({
+    type: 'numeric',
+    precision: 6,
+    scale: 2,
+    default: 0,
+    transformer: numericTransformer,
+  })
+  defaultEntitlement: number;
+
+  // Unused balance of up to this many days (hours for hourly types) moves into the next year at year end
+  @Column({
+    type: 'numeric',
+    precision: 6,
+    scale: 2,
+    default: 0,
+    transformer: numericTransformer,
+  })
+  carryOverCap: number;
+
+  // Carried days not used by the end of this month of the next year expire; null keeps them all year
+  @Column({ type: 'int', nullable: true })
+  carryOverExpiryMonth: number | null;
+
+  @Column({ default: true })
+  active: boolean;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { LeaveType } from './entities/leave-type.entity';
+import { Leave } from '../leaves/entities/leave.entity';
+import { LeaveTypesService } from './services/leave-types.service';
+import { LeaveTypesController } from './controllers/leave-types.controller';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([LeaveType, Leave])],
+  providers: [LeaveTypesService],
+  controllers: [LeaveTypesController],
+  exports: [LeaveTypesService],
+})
+export class LeaveTypesModule {}
@@ -0,0 +1,122 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { LeaveType } from '../entities/leave-type.entity';
+import { Leave } from '../../leaves/entities/leave.entity';
+import { LedgerEntry } from '../../balances/entities/ledger-entry.entity';
+import { LeaveEntitlement } from '../../balances/entities/leave-entitlement.entity';
+import { ApprovalRule } from '../../approvals/entities/approval-rule.entity';
+import { ApprovalDelegation } from '../../approvals/entities/approval-delegation.entity';
+import { EscalationRule } from '../../escalations/entities/escalation-rule.entity';
+import { CreateLeaveTypeDto, UpdateLeaveTypeDto } from '../dto/leave-type.dto';
+
+@Injectable()
+export class LeaveTypesService {
+  constructor(
+    @InjectRepository(LeaveType)
+    private leaveTypeRepo: Repository<LeaveType>,
+    @InjectRepository(Leave)
+    private leaveRepo: Repository<Leave>,
+  ) {}
+
+  findAll(includeInactive = false) {
+    return this.leaveTypeRepo.find({
+      where: includeInactive ? {} : { active: true },
+      order: { code: 'ASC' },
+    });
+  }
+
+  async findOne(id: number) {
+    const leaveType = await this.leaveTypeRepo.findOne({ where: { id } });
+    if (!leaveType) {
+      throw new NotFoundException(`Leave type ${id} not found`);
+    }
+    return leaveType;
+  }
+
+  /**
+   * Resolves a type code submitted by an employee; only active types are accepted
+   */
+  async findActiveByCode(code: string) {
+    const leaveType = await this.leaveTypeRepo.findOne({
+      where: { code: code.trim().toUpperCase() },
+    });
+    if (!leaveType || !leaveType.active) {
+      throw new BadRequestException(`Unknown or inactive leave type: ${code}`);
+    }
+    return leaveType;
+  }
+
+  async create(data: CreateLeaveTypeDto) {
+    await this.assertCodeAvailable(data.code);
+    return this.leaveTypeRepo.save(this.leaveTypeRepo.create(data));
+  }
+
+  async update(id: number, data: UpdateLeaveTypeDto) {
+    const leaveType = await this.findOne(id);
+    if (data.code && data.code !== leaveType.code) {
+      await this.assertCodeAvailable(data.code);
+    }
+    if (data.unit && data.unit !== leaveType.unit) {
+      const usage = await this.leaveRepo.count({ where: { type: { id } } });
+      if (usage > 0) {
+        throw new ConflictException(
+          `Leave type ${leaveType.code} is used by ${usage} leave request(s); its unit cannot be changed`,
+        );
+      }
+    }
+    return this.leaveTypeRepo.save(this.leaveTypeRepo.merge(leaveType, data));
+  }
+
+  /**
+   * Only types nothing refers to yet can be removed; the foreign keys restrict
+   * the rest, which are retired by deactivating them
+   */
+  async remove(id: number) {
+    const leaveType = await this.findOne(id);
+    const usage = await this.findUsage(id);
+    if (usage.length) {
+      throw new ConflictException({
+        message: `Leave type ${leaveType.code} is used by ${usage.join(', ')}; deactivate it instead`,
+        error: { usage },
+      });
+    }
+    return this.leaveTypeRepo.delete(id);
+  }
+
+  /**
+   * What refers to a type, e.g. ['3 leave request(s)', '12 ledger entry(ies)']
+   */
+  private async findUsage(id: number) {
+    const manager = this.leaveTypeRepo.manager;
+    const counts = await Promise.all([
+      this.leaveRepo.count({ where: { type: { id } } }),
+      manager.count(LedgerEntry, { where: { leaveType: { id } } }),
+      manager.count(LeaveEntitlement, { where: { leaveType: { id } } }),
+      manager.count(ApprovalRule, { where: { leaveType: { id } } }),
+      manager.count(ApprovalDelegation, { where: { leaveType: { id } } }),
+      manager.count(EscalationRule, { where: { leaveType: { id } } }),
+    ]);
+    return [
+      'leave request(s)',
+      'ledger entry(ies)',
+      'entitlement(s)',
+      'approval rule(s)',
+      'approval delegation(s)',
+      'escalation rule(s)',
+    ]
+      .map((label, index) => (counts[index] ? `${counts[index]} ${label}` : ''))
+      .filter(Boolean);
+  }
+
+  private async assertCodeAvailable(code: string) {
+    if (await this.leaveTypeRepo.exists({ where: { code } })) {
+      throw new ConflictException(`Leave type code ${code} already exists`);
+    }
+  }
+}
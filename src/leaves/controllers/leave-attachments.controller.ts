@@ -0,0 +1,159 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  Res,
+  Request,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  ParseIntPipe,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiBearerAuth,
+  ApiResponse,
+  ApiConsumes,
+  ApiBody,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+} from '@nestjs/swagger';
+import type { Response } from 'express';
+import { LeaveAttachmentsService } from '../services/leave-attachments.service';
+import { JwtAuthGuard } from '../../auth/jwt/jwt-auth.guard';
+
+/**
+ * Leave Attachments Controller
+ * Supporting documents such as medical certificates for leave requests
+ * The owner, their approvers and admins can list and download documents
+ * Only the owner and admins can upload or remove them
+ */
+@ApiTags('Leaves')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('leaves/:id/attachments')
+export class LeaveAttachmentsController {
+  constructor(private leaveAttachmentsService: LeaveAttachmentsService) {}
+
+  /**
+   * Get attachments
+   * Lists the documents attached to a leave request
+   */
+  @Get()
+  @ApiOperation({
+    summary: 'Get leave request attachments',
+    description:
+      'Lists the file name, type and size of every document attached to the leave request.',
+  })
+  @ApiResponse({ status: 200, description: 'Returns an array of attachments.' })
+  @ApiNotFoundResponse({
+    description: 'Leave request does not exist or is not visible to the caller',
+  })
+  findAll(@Param('id', ParseIntPipe) id: number, @Request() req) {
+    return this.leaveAttachmentsService.findAll(id, req.user);
+  }
+
+  /**
+   * Upload an attachment
+   * Attaches a supporting document sent as multipart/form-data
+   */
+  @Post()
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['file'],
+      properties: { file: { type: 'string', format: 'binary' } },
+    },
+  })
+  @ApiOperation({
+    summary: 'Upload leave request attachment',
+    description:
+      'Uploads a supporting document in the "file" field. Allowed types are set by ATTACHMENT_MIME_TYPES (PDF, JPEG and PNG by default) and the size by ATTACHMENT_MAX_BYTES (5 MB by default). Leave types that require a document cannot be approved without one.',
+  })
+  @ApiResponse({ status: 201, description: 'Attachment stored.' })
+  @ApiResponse({
+    status: 400,
+    description: 'No file, or a file type that is not allowed',
+  })
+  @ApiResponse({ status: 413, description: 'File is too large' })
+  @ApiResponse({
+    status: 409,
+    description: 'Leave request is rejected, withdrawn or cancelled',
+  })
+  @ApiForbiddenResponse({
+    description: 'Only the owner or an admin can add documents',
+  })
+  upload(
+    @Param('id', ParseIntPipe) id: number,
+    @UploadedFile() file: Express.Multer.File | undefined,
+    @Request() req,
+  ) {
+    return this.leaveAttachmentsService.upload(id, req.user, file);
+  }
+
+  /**
+   * Download an attachment
+   */
+  @Get(':attachmentId')
+  @ApiOperation({
+    summary: 'Download leave request attachment',
+    description:
+      'Returns the document content as a file download with its original type and name.',
+  })
+  @ApiResponse({ status: 200, description: 'Returns the file.' })
+  @ApiNotFoundResponse({
+    description:
+      'Leave request or attachment does not exist or is not visible to the caller',
+  })
+  async download(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('attachmentId', ParseIntPipe) attachmentId: number,
+    @Request() req,
+    @Res() res: Response,
+  ) {
+    const { attachment, stream } = await this.leaveAttachmentsService.download(
+      id,
+      attachmentId,
+      req.user,
+    );
+    res.attachment(attachment.fileName);
+    res.set('Content-Type', attachment.mimeType);
+    res.set('Content-Length', String(attachment.size));
+    res.set('X-Content-Type-Options', 'nosniff');
+    res.set('Cache-Control', 'private, no-store');
+    stream.pipe(res);
+  }
+
+  /**
+   * Remove an attachment
+   */
+  @Delete(':attachmentId')
+  @ApiOperation({
+    summary: 'Remove leave request attachment',
+    description:
+      'Deletes a document. Owners can remove documents while the request is pending; admins at any time.',
+  })
+  @ApiResponse({ status: 204, description: 'Attachment removed.' })
+  @ApiForbiddenResponse({
+    description: 'Only the owner or an admin can remove documents',
+  })
+  @ApiNotFoundResponse({
+    description: 'Leave request or attachment does not exist',
+  })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  remove(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('attachmentId', ParseIntPipe) attachmentId: number,
+    @Request() req,
+  ) {
+    return this.leaveAttachmentsService.remove(id, attachmentId, req.user);
+  }
+}
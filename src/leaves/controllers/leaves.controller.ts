@@ -1,16 +1,36 @@
-import { Controller, Post, Get, Put, Param, Body, UseGuards, Request, ValidationPipe } from '@nestjs/common';
+import {
+  Controller,
+  Post,
+  Get,
+  Put,
+  Param,
+  Body,
+  Query,
+  UseGuards,
+  Request,
+  ValidationPipe,
+} from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiBearerAuth, ApiResponse, ApiForbiddenResponse, ApiNotFoundResponse } from '@nestjs/swagger';
 import { LeavesService } from '../services/leaves.service';
 import { JwtAuthGuard } from '../../auth/jwt/jwt-auth.guard';
 import { RolesGuard } from '../../common/guards/roles.guard';
 import { Roles } from '../../common/guards/roles.decorator';
 import { UserRole } from '../../users/entities/user.entity';
-import { CreateLeaveDto } from '../dto/leave.dto';
+import {
+  CreateLeaveDto,
+  CancellationRequestDto,
+  LeaveCommentDto,
+  ApproveLeaveDto,
+  RejectLeaveDto,
+  LeaveQueryDto,
+} from '../dto/leave.dto';
+import { BalanceQueryDto } from '../../balances/dto/balance.dto';
 
 /**
  * Leaves Controller
  * Handles all leave request operations for the Internal Leave Request API
  * Users can create and view their own leave requests
+ * Managers can view and approve their direct reports' requests
  * Admins can approve/reject leave requests and view all requests
  */
 @ApiTags('Leaves')
@@ -27,30 +47,68 @@ export class LeavesController {
   @Post()
   @ApiOperation({ 
     summary: 'Create a new leave request',
-    description: 'Submit a new leave request. Available leave types: ANNUAL, SICK, PERSONAL, and other approved leave types.'
+    description:
+      'Submit a new leave request. The type must be the code of an active leave type from GET /leave-types. The first and last day can be taken as AM/PM half days; hourly types take a number of hours on a single day. Requests that overlap another pending or approved request of the same user are refused.',
   })
   @ApiResponse({ status: 201, description: 'Leave request created successfully. Returns the created leave request details.' })
-  @ApiResponse({ status: 400, description: 'Bad request - validation failed (missing required fields, invalid date format, or invalid leave type)' })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Bad request - validation failed (missing required fields, invalid date format, end date before start date, invalid day parts or hours, unknown or inactive leave type, too many days for the type) or insufficient leave balance',
+  })
+  @ApiResponse({
+    status: 409,
+    description:
+      'Conflict - the request overlaps pending or approved leave of the same user (the conflicting leave IDs are listed).',
+  })
   create(@Body(new ValidationPipe()) body: CreateLeaveDto, @Request() req) {
-    const leaveData = {
-      ...body,
-      user: { id: req.user.userId } as any,
-    };
-    return this.leavesService.create(leaveData);
+    return this.leavesService.create(req.user.userId, body);
   }
 
   /**
    * Get all leave requests
-   * Returns all leave requests in the system (admin sees all, users see their own)
+   * Returns one page of the leave requests visible to the caller (admin sees all, managers see their reports', users see their own)
    */
   @Get()
   @ApiOperation({ 
     summary: 'Get all leave requests',
-    description: 'Retrieves a list of all leave requests. Admin users can see all requests, regular users can only see their own.'
+    description:
+      'Retrieves a paginated list of leave requests. Admin users can see all requests, managers also see requests of their direct reports, regular users can only see their own. Supports filtering by status, type, user and overlapping date range, and sorting.',
   })
-  @ApiResponse({ status: 200, description: 'Returns an array of leave requests with user details.' })
-  findAll() {
-    return this.leavesService.findAll();
+  @ApiResponse({
+    status: 200,
+    description:
+      'Returns a page of leave requests with user details and paging metadata.',
+  })
+  findAll(
+    @Request() req,
+    @Query(new ValidationPipe({ transform: true })) query: LeaveQueryDto,
+  ) {
+    return this.leavesService.findAll(req.user, query);
+  }
+
+  /**
+   * Get own leave balance
+   * Returns entitled, taken, pending and remaining days per leave type for the current user
+   */
+  @Get('balance')
+  @ApiOperation({
+    summary: 'Get own leave balance',
+    description:
+      'Returns entitled, taken, pending and remaining days per leave type for the authenticated user. Defaults to the current year.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns an array of balances, one per leave type.',
+  })
+  getBalance(
+    @Query(new ValidationPipe({ transform: true })) query: BalanceQueryDto,
+    @Request() req,
+  ) {
+    return this.leavesService.getBalances(
+      req.user.userId,
+      query.year ?? new Date().getFullYear(),
+    );
   }
 
   /**
@@ -63,45 +121,195 @@ export class LeavesController {
     description: 'Retrieves detailed information about a specific leave request including status, dates, and reason.'
   })
   @ApiResponse({ status: 200, description: 'Returns the leave request details.' })
-  @ApiResponse({ status: 404, description: 'Leave request not found - no request exists with the provided ID.' })
+  @ApiResponse({
+    status: 404,
+    description:
+      'Leave request not found - no request exists with the provided ID, or it belongs to another user.',
+  })
   @ApiNotFoundResponse({ description: 'Leave request with the specified ID does not exist' })
-  findOne(@Param('id') id: number) {
-    return this.leavesService.findOne(id);
+  findOne(@Param('id') id: number, @Request() req) {
+    return this.leavesService.findOne(id, req.user);
+  }
+
+  /**
+   * Get leave request history
+   * Returns the audit trail of a leave request
+   */
+  @Get(':id/history')
+  @ApiOperation({
+    summary: 'Get leave request history',
+    description:
+      'Returns every change made to a leave request in chronological order, with the acting user, previous and new status, and comment.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns an array of history events.',
+  })
+  @ApiNotFoundResponse({
+    description:
+      'Leave request with the specified ID does not exist or is not visible to the caller',
+  })
+  getHistory(@Param('id') id: number, @Request() req) {
+    return this.leavesService.getHistory(id, req.user);
   }
 
   /**
    * Approve a leave request
-   * Admin-only endpoint to approve a pending leave request
+   * Signs off the current step of the approval chain; the last step approves the request
    */
   @Put(':id/approve')
   @UseGuards(RolesGuard)
-  @Roles(UserRole.ADMIN)
+  @Roles(UserRole.ADMIN, UserRole.MANAGER)
   @ApiOperation({ 
-    summary: 'Approve a leave request (Admin only)',
-    description: 'Approves a pending leave request. Only users with admin role can access this endpoint.'
+    summary: 'Approve a leave request (Manager/Admin)',
+    description:
+      "Signs off the current step of the approval chain. After the final step the request is approved and the employee balance is debited. Managers can act on steps assigned to the direct manager; admins can act on any step. Delegates can act for an approver who delegated to them (see /approval-delegations); the history then records both. Leave types that require a supporting document cannot be approved until one is attached. Approvals that would leave the employee's department below its minimum headcount are refused unless an admin sets overrideStaffing, which is recorded in the history.",
   })
   @ApiResponse({ status: 200, description: 'Leave request approved successfully.' })
   @ApiResponse({ status: 404, description: 'Leave request not found.' })
-  @ApiForbiddenResponse({ description: 'Access denied - only admins can approve leave requests.' })
-  approve(@Param('id') id: number) {
-    return this.leavesService.updateStatus(id, 'APPROVED');
+  @ApiResponse({
+    status: 409,
+    description:
+      'Conflict - the leave request is no longer pending, it overlaps another pending or approved request of the same user (the conflicting leave IDs are listed), or the department would drop below its minimum headcount (the affected dates are listed).',
+  })
+  @ApiForbiddenResponse({
+    description:
+      'Access denied - you are not an approver for the current step, or only admins can override minimum staffing.',
+  })
+  approve(
+    @Param('id') id: number,
+    @Body(new ValidationPipe({ transform: true })) body: ApproveLeaveDto,
+    @Request() req,
+  ) {
+    return this.leavesService.approve(
+      id,
+      req.user,
+      body.comment,
+      body.overrideStaffing,
+    );
   }
 
   /**
    * Reject a leave request
-   * Admin-only endpoint to reject a pending leave request
+   * Rejects a pending leave request at its current approval step
    */
   @Put(':id/reject')
   @UseGuards(RolesGuard)
-  @Roles(UserRole.ADMIN)
+  @Roles(UserRole.ADMIN, UserRole.MANAGER)
   @ApiOperation({ 
-    summary: 'Reject a leave request (Admin only)',
-    description: 'Rejects a pending leave request. Only users with admin role can access this endpoint.'
+    summary: 'Reject a leave request (Manager/Admin)',
+    description:
+      'Rejects a pending leave request. A reason is required and recorded in the leave history. Managers can reject requests awaiting their sign-off; admins can reject any pending request. Delegates can reject for an approver who delegated to them.',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - a rejection reason is required.',
   })
   @ApiResponse({ status: 200, description: 'Leave request rejected successfully.' })
   @ApiResponse({ status: 404, description: 'Leave request not found.' })
-  @ApiForbiddenResponse({ description: 'Access denied - only admins can reject leave requests.' })
-  reject(@Param('id') id: number) {
-    return this.leavesService.updateStatus(id, 'REJECTED');
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - the leave request is no longer pending.',
+  })
+  @ApiForbiddenResponse({
+    description:
+      'Access denied - you are not an approver for the current step.',
+  })
+  reject(
+    @Param('id') id: number,
+    @Body(new ValidationPipe({ transform: true })) body: RejectLeaveDto,
+    @Request() req,
+  ) {
+    return this.leavesService.reject(id, req.user, body.reason);
+  }
+
+  /**
+   * Withdraw a leave request
+   * Lets employees pull back their own request while it is still pending
+   */
+  @Put(':id/withdraw')
+  @ApiOperation({
+    summary: 'Withdraw own leave request',
+    description:
+      'Withdraws a pending leave request. Only the employee who submitted the request can withdraw it.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Leave request withdrawn successfully.',
+  })
+  @ApiResponse({ status: 404, description: 'Leave request not found.' })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - only pending requests can be withdrawn.',
+  })
+  @ApiForbiddenResponse({
+    description: 'Access denied - the leave request belongs to another user.',
+  })
+  withdraw(
+    @Param('id') id: number,
+    @Body(new ValidationPipe({ transform: true })) body: LeaveCommentDto,
+    @Request() req,
+  ) {
+    return this.leavesService.withdraw(id, req.user, body.comment);
+  }
+
+  /**
+   * Request cancellation of an approved leave
+   * Flags an approved leave for cancellation; an admin has to confirm it
+   */
+  @Put(':id/cancellation-request')
+  @ApiOperation({
+    summary: 'Request cancellation of own approved leave',
+    description:
+      'Asks for an approved leave to be cancelled. The leave stays approved until an admin confirms the cancellation.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Cancellation requested. Returns the leave request.',
+  })
+  @ApiResponse({ status: 404, description: 'Leave request not found.' })
+  @ApiResponse({
+    status: 409,
+    description:
+      'Conflict - the leave is not approved or cancellation was already requested.',
+  })
+  @ApiForbiddenResponse({
+    description: 'Access denied - the leave request belongs to another user.',
+  })
+  requestCancellation(
+    @Param('id') id: number,
+    @Body(new ValidationPipe({ transform: true })) body: CancellationRequestDto,
+    @Request() req,
+  ) {
+    return this.leavesService.requestCancellation(id, req.user, body.reason);
+  }
+
+  /**
+   * Cancel an approved leave
+   * Admin-only endpoint to confirm cancellation and give the days back
+   */
+  @Put(':id/cancel')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Cancel an approved leave (Admin only)',
+    description:
+      'Cancels an approved leave, typically after the employee requested it, and credits the days back to their balance.',
+  })
+  @ApiResponse({ status: 200, description: 'Leave cancelled successfully.' })
+  @ApiResponse({ status: 404, description: 'Leave request not found.' })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - only approved leaves can be cancelled.',
+  })
+  @ApiForbiddenResponse({
+    description: 'Access denied - only admins can cancel approved leaves.',
+  })
+  cancel(
+    @Param('id') id: number,
+    @Body(new ValidationPipe({ transform: true })) body: LeaveCommentDto,
+    @Request() req,
+  ) {
+    return this.leavesService.cancel(id, req.user, body.comment);
   }
 }
@@ -1,8 +1,26 @@
-import { IsString, IsDateString, IsOptional } from 'class-validator';
+import {
+  IsString,
+  IsDateString,
+  IsOptional,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsBoolean,
+  IsNumber,
+  IsPositive,
+  Max,
+  MinLength,
+} from 'class-validator';
+import { Type } from 'class-transformer';
 import { ApiProperty } from '@nestjs/swagger';
+import { DayPart, LeaveStatus } from '../entities/leave.entity';
+import { PaginationQueryDto } from '../../common/dto/pagination.dto';
 
 export class CreateLeaveDto {
-  @ApiProperty({ example: 'Sick Leave', description: 'Type of leave (e.g., Annual, Sick, Personal)' })
+  @ApiProperty({
+    example: 'SICK',
+    description: 'Code of an active leave type (see GET /leave-types)',
+  })
   @IsString()
   type: string;
 
@@ -14,6 +32,40 @@ export class CreateLeaveDto {
   @IsDateString()
   endDate: string;
 
+  @ApiProperty({
+    example: DayPart.PM,
+    enum: DayPart,
+    required: false,
+    description:
+      'Part of the first day taken off (default FULL). Requests over several days can only start with FULL or PM.',
+  })
+  @IsOptional()
+  @IsEnum(DayPart)
+  startDayPart?: DayPart;
+
+  @ApiProperty({
+    example: DayPart.FULL,
+    enum: DayPart,
+    required: false,
+    description:
+      'Part of the last day taken off (default FULL). Requests over several days can only end with FULL or AM; single-day requests use startDayPart.',
+  })
+  @IsOptional()
+  @IsEnum(DayPart)
+  endDayPart?: DayPart;
+
+  @ApiProperty({
+    example: 2.5,
+    required: false,
+    description:
+      'Hours taken off; required for, and only allowed on, hourly leave types',
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @IsPositive()
+  @Max(24)
+  hours?: number;
+
   @ApiProperty({ example: 'Not feeling well', required: false, description: 'Reason for leave' })
   @IsOptional()
   @IsString()
@@ -21,7 +73,123 @@ export class CreateLeaveDto {
 }
 
 export class UpdateLeaveStatusDto {
-  @ApiProperty({ example: 'approved', description: 'New status (pending, approved, rejected)' })
+  @ApiProperty({
+    example: LeaveStatus.APPROVED,
+    enum: LeaveStatus,
+    description: 'New status',
+  })
+  @IsEnum(LeaveStatus)
+  status: LeaveStatus;
+}
+
+export class CancellationRequestDto {
+  @ApiProperty({
+    example: 'Trip was cancelled',
+    required: false,
+    description: 'Why the approved leave should be cancelled',
+  })
+  @IsOptional()
   @IsString()
-  status: string;
+  reason?: string;
+}
+
+export class LeaveCommentDto {
+  @ApiProperty({
+    example: 'Enjoy your holiday',
+    required: false,
+    description: 'Comment recorded in the leave history',
+  })
+  @IsOptional()
+  @IsString()
+  comment?: string;
+}
+
+export class ApproveLeaveDto extends LeaveCommentDto {
+  @ApiProperty({
+    example: false,
+    required: false,
+    description:
+      'Admins only: approve even if the department would drop below its minimum headcount. The override is recorded in the leave history.',
+  })
+  @IsOptional()
+  @IsBoolean()
+  overrideStaffing?: boolean;
+}
+
+export class RejectLeaveDto {
+  @ApiProperty({
+    example: 'Team is at minimum staffing that week',
+    minLength: 3,
+    description: 'Why the request is rejected',
+  })
+  @IsString()
+  @MinLength(3, {
+    message: 'A rejection reason of at least 3 characters is required',
+  })
+  reason: string;
+}
+
+export const LEAVE_SORT_FIELDS = [
+  'createdAt',
+  'startDate',
+  'endDate',
+  'status',
+  'workingDays',
+] as const;
+
+export class LeaveQueryDto extends PaginationQueryDto {
+  @ApiProperty({
+    enum: LeaveStatus,
+    required: false,
+    description: 'Only leaves with this status',
+  })
+  @IsOptional()
+  @IsEnum(LeaveStatus)
+  status?: LeaveStatus;
+
+  @ApiProperty({
+    example: 'ANNUAL',
+    required: false,
+    description: 'Only leaves of this leave type code',
+  })
+  @IsOptional()
+  @IsString()
+  type?: string;
+
+  @ApiProperty({
+    example: 12,
+    required: false,
+    description: 'Only leaves of this user',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  userId?: number;
+
+  @ApiProperty({
+    example: '2025-01-01',
+    required: false,
+    description: 'Only leaves ending on or after this date',
+  })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiProperty({
+    example: '2025-01-31',
+    required: false,
+    description: 'Only leaves starting on or before this date',
+  })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @ApiProperty({
+    enum: LEAVE_SORT_FIELDS,
+    required: false,
+    description: 'Sort field (default createdAt)',
+  })
+  @IsOptional()
+  @IsIn(LEAVE_SORT_FIELDS)
+  sort: (typeof LEAVE_SORT_FIELDS)[number] = 'createdAt';
 }
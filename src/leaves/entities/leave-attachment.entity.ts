@@ -0,0 +1,41 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  CreateDateColumn,
+} from 'typeorm';
+import { Leave } from './leave.entity';
+import { User } from '../../users/entities/user.entity';
+
+/**
+ * Leave Attachment
+ * Supporting document for a leave request, e.g. a medical certificate
+ * The file itself lives in FileStorage under storageKey
+ */
+@Entity()
+export class LeaveAttachment {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => Leave, { onDelete: 'CASCADE' })
+  leave: Leave;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  uploadedBy: User | null;
+
+  @Column()
+  fileName: string;
+
+  @Column()
+  mimeType: string;
+
+  @Column()
+  size: number;
+
+  @Column({ select: false })
+  storageKey: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,67 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  CreateDateColumn,
+} from 'typeorm';
+import { Leave, LeaveStatus } from './leave.entity';
+import { User } from '../../users/entities/user.entity';
+
+export enum LeaveEventAction {
+  SUBMITTED = 'SUBMITTED',
+  STEP_APPROVED = 'STEP_APPROVED',
+  APPROVED = 'APPROVED',
+  REJECTED = 'REJECTED',
+  WITHDRAWN = 'WITHDRAWN',
+  CANCELLATION_REQUESTED = 'CANCELLATION_REQUESTED',
+  CANCELLED = 'CANCELLED',
+  ESCALATED = 'ESCALATED',
+}
+
+/**
+ * Minimum staffing rule an admin overrode when approving
+ */
+export interface StaffingOverride {
+  departmentId: number;
+  minimum: number;
+  dates: string[];
+}
+
+/**
+ * Leave Event
+ * One entry in the audit trail of a leave request
+ */
+@Entity()
+export class LeaveEvent {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => Leave, { onDelete: 'CASCADE' })
+  leave: Leave;
+
+  @Column({ type: 'enum', enum: LeaveEventAction })
+  action: LeaveEventAction;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  actor: User | null;
+
+  /** Approver the actor stood in for when deciding under a delegation */
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  onBehalfOf: User | null;
+
+  @Column({ type: 'enum', enum: LeaveStatus, nullable: true })
+  fromStatus: LeaveStatus | null;
+
+  @Column({ type: 'enum', enum: LeaveStatus })
+  toStatus: LeaveStatus;
+
+  @Column({ type: 'text', nullable: true })
+  comment: string | null;
+
+  @Column({ type: 'jsonb', nullable: true })
+  staffingOverride: StaffingOverride | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
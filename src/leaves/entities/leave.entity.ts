@@ -1,13 +1,31 @@
 import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, CreateDateColumn, UpdateDateColumn } from 'typeorm';
 import { User } from '../../users/entities/user.entity';
+import { LeaveType } from '../../leave-types/entities/leave-type.entity';
+import { numericTransformer } from '../../common/transformers/numeric.transformer';
+import { ApprovalStep } from '../../approvals/entities/approval-rule.entity';
+
+export enum LeaveStatus {
+  PENDING = 'PENDING',
+  APPROVED = 'APPROVED',
+  REJECTED = 'REJECTED',
+  WITHDRAWN = 'WITHDRAWN',
+  CANCELLED = 'CANCELLED',
+}
+
+/** Part of a day taken off; AM and PM are half days */
+export enum DayPart {
+  FULL = 'FULL',
+  AM = 'AM',
+  PM = 'PM',
+}
 
 @Entity()
 export class Leave {
   @PrimaryGeneratedColumn()
   id: number;
 
-  @Column()
-  type: string;
+  @ManyToOne(() => LeaveType, { nullable: false, onDelete: 'RESTRICT' })
+  type: LeaveType;
 
   @Column()
   startDate: string;
@@ -15,12 +33,55 @@ export class Leave {
   @Column()
   endDate: string;
 
-  @Column({ default: 'PENDING' })
-  status: string;
+  @Column({ type: 'enum', enum: DayPart, default: DayPart.FULL })
+  startDayPart: DayPart;
+
+  @Column({ type: 'enum', enum: DayPart, default: DayPart.FULL })
+  endDayPart: DayPart;
+
+  @Column({
+    type: 'numeric',
+    precision: 6,
+    scale: 2,
+    default: 0,
+    transformer: numericTransformer,
+  })
+  workingDays: number;
+
+  /** Hours requested; only set for hourly leave types, whose balances are kept in hours */
+  @Column({
+    type: 'numeric',
+    precision: 5,
+    scale: 2,
+    nullable: true,
+    transformer: numericTransformer,
+  })
+  hours: number | null;
+
+  @Column({
+    type: 'enum',
+    enum: LeaveStatus,
+    default: LeaveStatus.PENDING,
+  })
+  status: LeaveStatus;
 
   @Column({ nullable: true })
   reason: string;
 
+  /** Approval chain resolved when the request was submitted */
+  @Column({ type: 'enum', enum: ApprovalStep, array: true, default: [] })
+  approvalSteps: ApprovalStep[];
+
+  /** Index into approvalSteps of the step awaiting sign-off; equals its length once fully approved */
+  @Column({ type: 'int', default: 0 })
+  currentStep: number;
+
+  @Column({ type: 'timestamp', nullable: true })
+  cancellationRequestedAt: Date | null;
+
+  @Column({ nullable: true })
+  cancellationReason: string;
+
   @ManyToOne(() => User, (user) => user.leaves, { onDelete: 'CASCADE' })
   user: User;
 
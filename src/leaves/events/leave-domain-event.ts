@@ -0,0 +1,68 @@
+import { DayPart, LeaveStatus } from '../entities/leave.entity';
+import { LeaveEventAction } from '../entities/leave-event.entity';
+
+/**
+ * Outbox event types published by LeavesService
+ */
+export enum LeaveDomainEvent {
+  SUBMITTED = 'leave.submitted',
+  APPROVED = 'leave.approved',
+  REJECTED = 'leave.rejected',
+  CANCELLED = 'leave.cancelled',
+  /** An approval step was signed off and the next one is waiting for its approvers */
+  STEP_PENDING = 'leave.step_pending',
+  /** The requester asked for an approved leave to be cancelled; an admin has to confirm */
+  CANCELLATION_REQUESTED = 'leave.cancellation_requested',
+  /** The current step is still waiting for its approvers; not a change to the leave */
+  REMINDER = 'leave.reminder',
+  /** The current step was handed to the admins after waiting too long */
+  ESCALATED = 'leave.escalated',
+}
+
+export const LEAVE_DOMAIN_EVENTS: Partial<
+  Record<LeaveEventAction, LeaveDomainEvent>
+> = {
+  [LeaveEventAction.SUBMITTED]: LeaveDomainEvent.SUBMITTED,
+  [LeaveEventAction.STEP_APPROVED]: LeaveDomainEvent.STEP_PENDING,
+  [LeaveEventAction.APPROVED]: LeaveDomainEvent.APPROVED,
+  [LeaveEventAction.REJECTED]: LeaveDomainEvent.REJECTED,
+  [LeaveEventAction.CANCELLATION_REQUESTED]:
+    LeaveDomainEvent.CANCELLATION_REQUESTED,
+  [LeaveEventAction.CANCELLED]: LeaveDomainEvent.CANCELLED,
+  [LeaveEventAction.ESCALATED]: LeaveDomainEvent.ESCALATED,
+};
+
+/**
+ * Events addressed to the approvers of the current step rather than to the requester
+ */
+export const LEAVE_APPROVER_EVENTS: LeaveDomainEvent[] = [
+  LeaveDomainEvent.SUBMITTED,
+  LeaveDomainEvent.STEP_PENDING,
+  LeaveDomainEvent.REMINDER,
+  LeaveDomainEvent.ESCALATED,
+];
+
+/**
+ * Events addressed to the admins, who alone can act on them
+ */
+export const LEAVE_ADMIN_EVENTS: LeaveDomainEvent[] = [
+  LeaveDomainEvent.CANCELLATION_REQUESTED,
+];
+
+export interface LeaveEventPayload {
+  leaveId: number;
+  user: { id: number; name: string; email: string };
+  type: { code: string; name: string };
+  startDate: string;
+  endDate: string;
+  startDayPart: DayPart;
+  endDayPart: DayPart;
+  workingDays: number;
+  /** Only set for hourly leave types */
+  hours: number | null;
+  status: LeaveStatus;
+  actorId: number | null;
+  comment: string | null;
+  /** Users asked to act on the request; only set for approver and admin events */
+  approverIds: number[];
+}
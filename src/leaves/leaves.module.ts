@@ -1,13 +1,54 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { MulterModule } from '@nestjs/platform-express';
 import { Leave } from './entities/leave.entity';
+import { LeaveEvent } from './entities/leave-event.entity';
+import { LeaveAttachment } from './entities/leave-attachment.entity';
 import { User } from '../users/entities/user.entity';
 import { LeavesService } from './services/leaves.service';
+import { LeaveAccessService } from './services/leave-access.service';
+import { LeaveHistoryService } from './services/leave-history.service';
+import { LeaveAttachmentsService } from './services/leave-attachments.service';
 import { LeavesController } from './controllers/leaves.controller';
+import { LeaveAttachmentsController } from './controllers/leave-attachments.controller';
+import { BalancesModule } from '../balances/balances.module';
+import { LeaveTypesModule } from '../leave-types/leave-types.module';
+import { HolidaysModule } from '../holidays/holidays.module';
+import { ApprovalsModule } from '../approvals/approvals.module';
+import { OutboxModule } from '../outbox/outbox.module';
+import { DepartmentsModule } from '../departments/departments.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Leave, User])],
-  providers: [LeavesService],
-  controllers: [LeavesController],
+  imports: [
+    TypeOrmModule.forFeature([Leave, LeaveEvent, LeaveAttachment, User]),
+    // Uploads are kept in memory until validated, so the size limit also bounds memory use
+    MulterModule.registerAsync({
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => ({
+        limits: {
+          files: 1,
+          fileSize: parseInt(
+            configService.get<string>('ATTACHMENT_MAX_BYTES', '5242880'),
+            10,
+          ),
+        },
+      }),
+    }),
+    BalancesModule,
+    LeaveTypesModule,
+    HolidaysModule,
+    ApprovalsModule,
+    OutboxModule,
+    DepartmentsModule,
+  ],
+  providers: [
+    LeavesService,
+    LeaveAccessService,
+    LeaveHistoryService,
+    LeaveAttachmentsService,
+  ],
+  controllers: [LeavesController, LeaveAttachmentsController],
+  exports: [LeavesService, LeaveAccessService],
 })
 export class LeavesModule {}
@@ -0,0 +1,80 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { SelectQueryBuilder } from 'typeorm';
+import { Leave, LeaveStatus } from '../entities/leave.entity';
+import { UserRole } from '../../users/entities/user.entity';
+import { AuthUser } from '../../auth/interfaces/auth-user.interface';
+import { ApprovalStep } from '../../approvals/entities/approval-rule.entity';
+import { ApprovalsService } from '../../approvals/services/approvals.service';
+import { formatDate } from '../../common/utils/dates';
+
+/**
+ * Leave Access Service
+ * Row-level authorization for leave requests.
+ * Admins see every leave, managers see their own and their direct reports' leaves,
+ * everyone else only sees their own. Delegates also see the pending requests whose
+ * current step they can sign off for an approver.
+ */
+@Injectable()
+export class LeaveAccessService {
+  constructor(private approvalsService: ApprovalsService) {}
+
+  /**
+   * Limits a leave query to the rows the actor may see
+   * Expects the query to alias the leave as "leave" and join its user as "user"
+   */
+  applyScope(qb: SelectQueryBuilder<Leave>, actor: AuthUser) {
+    if (actor.role === UserRole.ADMIN) {
+      return qb;
+    }
+    const own =
+      actor.role === UserRole.MANAGER
+        ? '(user.id = :actorId OR user.managerId = :actorId)'
+        : 'user.id = :actorId';
+    // Mirrors ApprovalsService.findDelegator for the current step of pending leaves
+    const delegated = `"leave"."status" = :pending AND EXISTS (
+      SELECT 1 FROM approval_delegation delegation
+      INNER JOIN "user" delegator ON delegator.id = delegation."delegatorId"
+      WHERE delegation."delegateId" = :actorId
+        AND delegation."revokedAt" IS NULL
+        AND delegation."startDate" <= :today
+        AND delegation."endDate" >= :today
+        AND (delegation."leaveTypeId" IS NULL OR delegation."leaveTypeId" = "leave"."typeId")
+        AND delegator.id != "user"."id"
+        AND (delegator.role = :admin OR ("leave"."approvalSteps"["leave"."currentStep" + 1] = :managerStep AND "user"."managerId" = delegator.id))
+    )`;
+    return qb.andWhere(`(${own} OR (${delegated}))`, {
+      actorId: actor.userId,
+      pending: LeaveStatus.PENDING,
+      today: formatDate(new Date()),
+      admin: UserRole.ADMIN,
+      managerStep: ApprovalStep.MANAGER,
+    });
+  }
+
+  /**
+   * Expects leave.user.manager and leave.type to be loaded
+   */
+  async canView(actor: AuthUser, leave: Leave): Promise<boolean> {
+    if (
+      actor.role === UserRole.ADMIN ||
+      leave.user.id === actor.userId ||
+      (actor.role === UserRole.MANAGER &&
+        leave.user.manager?.id === actor.userId)
+    ) {
+      return true;
+    }
+    return (
+      leave.status === LeaveStatus.PENDING &&
+      !!(await this.approvalsService.findDelegator(actor, leave))
+    );
+  }
+
+  /**
+   * Leaves the actor may not see are reported as missing so their existence is not disclosed
+   */
+  async assertCanView(actor: AuthUser, leave: Leave) {
+    if (!(await this.canView(actor, leave))) {
+      throw new NotFoundException(`Leave request ${leave.id} not found`);
+    }
+  }
+}
@@ -0,0 +1,200 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { randomUUID } from 'crypto';
+import { basename } from 'path';
+import { Leave, LeaveStatus } from '../entities/leave.entity';
+import { LeaveAttachment } from '../entities/leave-attachment.entity';
+import { LeaveAccessService } from './leave-access.service';
+import { FileStorage } from '../../storage/file-storage';
+import { UserRole } from '../../users/entities/user.entity';
+import { AuthUser } from '../../auth/interfaces/auth-user.interface';
+
+const DEFAULT_MIME_TYPES = 'application/pdf,image/jpeg,image/png';
+
+/** Leading bytes of the allowed formats, so a renamed executable is not accepted as a PDF */
+const SIGNATURES: Record<string, number[]> = {
+  'application/pdf': [0x25, 0x50, 0x44, 0x46],
+  'image/jpeg': [0xff, 0xd8, 0xff],
+  'image/png': [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+};
+
+/** Documents can no longer be added to leaves in these states */
+const CLOSED_STATUSES = [
+  LeaveStatus.REJECTED,
+  LeaveStatus.WITHDRAWN,
+  LeaveStatus.CANCELLED,
+];
+
+/**
+ * Leave Attachments Service
+ * Supporting documents of leave requests. Anyone who can see a leave (owner,
+ * their approvers and admins) can list and download its documents; only the
+ * owner and admins can add or remove them.
+ */
+@Injectable()
+export class LeaveAttachmentsService {
+  constructor(
+    @InjectRepository(LeaveAttachment)
+    private attachmentRepo: Repository<LeaveAttachment>,
+    @InjectRepository(Leave)
+    private leaveRepo: Repository<Leave>,
+    private leaveAccessService: LeaveAccessService,
+    private fileStorage: FileStorage,
+    private configService: ConfigService,
+  ) {}
+
+  async findAll(leaveId: number, actor: AuthUser) {
+    await this.getLeave(leaveId, actor);
+    return this.attachmentRepo.find({
+      where: { leave: { id: leaveId } },
+      order: { id: 'ASC' },
+    });
+  }
+
+  async upload(leaveId: number, actor: AuthUser, file?: Express.Multer.File) {
+    const leave = await this.getLeave(leaveId, actor);
+    this.assertCanChange(leave, actor);
+    if (CLOSED_STATUSES.includes(leave.status)) {
+      throw new ConflictException(
+        `Documents cannot be added to a ${leave.status} leave request`,
+      );
+    }
+    if (!file) {
+      throw new BadRequestException('A file must be sent in the "file" field');
+    }
+    this.assertAllowedType(file);
+
+    const storageKey = `leaves/${leave.id}/${randomUUID()}`;
+    await this.fileStorage.put(storageKey, file.buffer);
+    try {
+      const attachment = await this.attachmentRepo.save(
+        this.attachmentRepo.create({
+          leave: { id: leave.id },
+          uploadedBy: { id: actor.userId },
+          fileName: this.cleanFileName(file.originalname),
+          mimeType: file.mimetype,
+          size: file.size,
+          storageKey,
+        }),
+      );
+      return this.findOne(leave.id, attachment.id);
+    } catch (error) {
+      await this.fileStorage.delete(storageKey);
+      throw error;
+    }
+  }
+
+  /**
+   * Returns the attachment metadata and a stream of its content
+   */
+  async download(leaveId: number, attachmentId: number, actor: AuthUser) {
+    await this.getLeave(leaveId, actor);
+    const attachment = await this.findOne(leaveId, attachmentId, true);
+    try {
+      return {
+        attachment,
+        stream: await this.fileStorage.read(attachment.storageKey),
+      };
+    } catch {
+      throw new NotFoundException(
+        `Content of attachment ${attachmentId} is missing`,
+      );
+    }
+  }
+
+  async remove(leaveId: number, attachmentId: number, actor: AuthUser) {
+    const leave = await this.getLeave(leaveId, actor);
+    this.assertCanChange(leave, actor);
+    // Once approved, a required document may only be withdrawn by an admin
+    if (leave.status !== LeaveStatus.PENDING && actor.role !== UserRole.ADMIN) {
+      throw new ConflictException(
+        `Documents of a ${leave.status} leave request can only be removed by an admin`,
+      );
+    }
+    const attachment = await this.findOne(leaveId, attachmentId, true);
+    await this.attachmentRepo.delete(attachment.id);
+    await this.fileStorage.delete(attachment.storageKey);
+  }
+
+  count(leaveId: number) {
+    return this.attachmentRepo.count({ where: { leave: { id: leaveId } } });
+  }
+
+  private async findOne(
+    leaveId: number,
+    attachmentId: number,
+    withStorageKey = false,
+  ) {
+    const qb = this.attachmentRepo
+      .createQueryBuilder('attachment')
+      .where('attachment.id = :attachmentId', { attachmentId })
+      .andWhere('attachment.leaveId = :leaveId', { leaveId });
+    if (withStorageKey) {
+      qb.addSelect('attachment.storageKey');
+    }
+    const attachment = await qb.getOne();
+    if (!attachment) {
+      throw new NotFoundException(`Attachment ${attachmentId} not found`);
+    }
+    return attachment;
+  }
+
+  private async getLeave(id: number, actor: AuthUser) {
+    const leave = await this.leaveRepo.findOne({
+      where: { id },
+      relations: ['user', 'user.manager', 'type'],
+    });
+    if (!leave) {
+      throw new NotFoundException(`Leave request ${id} not found`);
+    }
+    await this.leaveAccessService.assertCanView(actor, leave);
+    return leave;
+  }
+
+  private assertCanChange(leave: Leave, actor: AuthUser) {
+    if (leave.user.id !== actor.userId && actor.role !== UserRole.ADMIN) {
+      throw new ForbiddenException(
+        'You can only change documents of your own leave requests',
+      );
+    }
+  }
+
+  private assertAllowedType(file: Express.Multer.File) {
+    const allowed = this.configService
+      .get<string>('ATTACHMENT_MIME_TYPES', DEFAULT_MIME_TYPES)
+      .split(',')
+      .map((type) => type.trim());
+    if (!allowed.includes(file.mimetype)) {
+      throw new BadRequestException(
+        `File type ${file.mimetype} is not allowed. Allowed types: ${allowed.join(', ')}`,
+      );
+    }
+    const signature = SIGNATURES[file.mimetype];
+    if (
+      signature &&
+      !signature.every((byte, index) => file.buffer[index] === byte)
+    ) {
+      throw new BadRequestException(
+        `File content does not match its type ${file.mimetype}`,
+      );
+    }
+  }
+
+  /**
+   * Drops any client-side path and control characters from the uploaded name
+   */
+  private cleanFileName(name: string) {
+    const cleaned = [...basename(name.replace(/\\/g, '/'))]
+      .filter((char) => char >= ' ' && char !== '\x7f')
+      .join('');
+    return cleaned.slice(0, 255) || 'attachment';
+  }
+}
@@ -0,0 +1,131 @@
+import { BadRequestException } from '@nestjs/common';
+import { DayPart, Leave } from '../entities/leave.entity';
+import { eachDate, yearOf } from '../../common/utils/dates';
+
+type LeaveDates = Pick<
+  Leave,
+  'startDate' | 'endDate' | 'startDayPart' | 'endDayPart'
+>;
+
+/**
+ * Validates the day parts of a request and fills in their defaults
+ * A single day is either taken in full or as one half; a longer request can only
+ * start in the afternoon and end in the morning so that the time off stays contiguous
+ */
+export function resolveDayParts(
+  startDate: string,
+  endDate: string,
+  startDayPart = DayPart.FULL,
+  endDayPart?: DayPart,
+): { startDayPart: DayPart; endDayPart: DayPart } {
+  if (startDate.substring(0, 10) === endDate.substring(0, 10)) {
+    if (endDayPart && endDayPart !== startDayPart) {
+      throw new BadRequestException(
+        'A single-day request must use the same start and end day part',
+      );
+    }
+    return { startDayPart, endDayPart: startDayPart };
+  }
+
+  if (startDayPart === DayPart.AM) {
+    throw new BadRequestException(
+      'A request over several days can only start with a full day or in the afternoon (PM)',
+    );
+  }
+  if (endDayPart === DayPart.PM) {
+    throw new BadRequestException(
+      'A request over several days can only end with a full day or in the morning (AM)',
+    );
+  }
+  return { startDayPart, endDayPart: endDayPart ?? DayPart.FULL };
+}
+
+/**
+ * Working days a leave takes within the given working dates, counting a half
+ * first or last day as 0.5
+ */
+export function countLeaveDays(workingDates: string[], leave: LeaveDates) {
+  const start = leave.startDate.substring(0, 10);
+  const end = leave.endDate.substring(0, 10);
+  return workingDates.reduce((days, date) => {
+    const half =
+      (date === start && leave.startDayPart !== DayPart.FULL) ||
+      (date === end && leave.endDayPart !== DayPart.FULL);
+    return days + (half ? 0.5 : 1);
+  }, 0);
+}
+
+/**
+ * What a leave takes from its balance: hours for hourly types, working days otherwise
+ */
+export function leaveAmount(leave: Pick<Leave, 'workingDays' | 'hours'>) {
+  return leave.hours ?? leave.workingDays;
+}
+
+/**
+ * What a leave takes from the balance of each calendar year it covers, given its working dates
+ * Only leave counted in days can span New Year; its last year takes the rest of the
+ * leave's working days, so that the years always add up to the whole leave
+ */
+export function leaveAmountsByYear(
+  leave: LeaveDates & Pick<Leave, 'workingDays' | 'hours'>,
+  workingDates: string[],
+) {
+  const amounts = new Map<number, number>();
+  const lastYear = yearOf(leave.endDate);
+  let rest = leaveAmount(leave);
+  for (let year = yearOf(leave.startDate); year < lastYear; year++) {
+    const days = countLeaveDays(
+      workingDates.filter((date) => yearOf(date) === year),
+      leave,
+    );
+    amounts.set(year, days);
+    rest -= days;
+  }
+  amounts.set(lastYear, rest);
+  return amounts;
+}
+
+/**
+ * Throws 400 when a request ends before it starts
+ */
+export function assertValidRange(startDate: string, endDate: string) {
+  if (endDate.substring(0, 10) < startDate.substring(0, 10)) {
+    throw new BadRequestException('endDate must not be before startDate');
+  }
+}
+
+/**
+ * Halves of a day a leave takes; hourly leave has no time of day and takes the whole day
+ */
+function partsOn(leave: LeaveDates, date: string): DayPart[] {
+  if (date === leave.startDate.substring(0, 10)) {
+    return leave.startDayPart === DayPart.FULL
+      ? [DayPart.AM, DayPart.PM]
+      : [leave.startDayPart];
+  }
+  if (date === leave.endDate.substring(0, 10)) {
+    return leave.endDayPart === DayPart.FULL
+      ? [DayPart.AM, DayPart.PM]
+      : [leave.endDayPart];
+  }
+  return [DayPart.AM, DayPart.PM];
+}
+
+/**
+ * Whether two leaves share any time off; a morning and an afternoon on the same day do not clash
+ */
+export function leavesOverlap(a: LeaveDates, b: LeaveDates) {
+  const start = [a.startDate, b.startDate]
+    .map((date) => date.substring(0, 10))
+    .sort()[1];
+  const end = [a.endDate, b.endDate]
+    .map((date) => date.substring(0, 10))
+    .sort()[0];
+  return (
+    start <= end &&
+    eachDate(start, end).some((date) =>
+      partsOn(a, date).some((part) => partsOn(b, date).includes(part)),
+    )
+  );
+}
@@ -0,0 +1,72 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+import {
+  LeaveEvent,
+  LeaveEventAction,
+  StaffingOverride,
+} from '../entities/leave-event.entity';
+import { Leave, LeaveStatus } from '../entities/leave.entity';
+
+/**
+ * A change to record in a leave's history
+ */
+export interface LeaveChange {
+  action: LeaveEventAction;
+  fromStatus: LeaveStatus | null;
+  actorId: number | null;
+  /** Approver a delegate acted for */
+  onBehalfOfId?: number | null;
+  comment?: string | null;
+  staffingOverride?: StaffingOverride | null;
+}
+
+@Injectable()
+export class LeaveHistoryService {
+  constructor(
+    @InjectRepository(LeaveEvent)
+    private eventRepo: Repository<LeaveEvent>,
+  ) {}
+
+  record(
+    leave: Leave,
+    change: LeaveChange,
+    manager: EntityManager = this.eventRepo.manager,
+  ) {
+    const repo = manager.getRepository(LeaveEvent);
+    return repo.save(
+      repo.create({
+        leave: { id: leave.id },
+        action: change.action,
+        actor: change.actorId ? { id: change.actorId } : null,
+        onBehalfOf: change.onBehalfOfId ? { id: change.onBehalfOfId } : null,
+        fromStatus: change.fromStatus,
+        toStatus: leave.status,
+        comment: change.comment ?? null,
+        staffingOverride: change.staffingOverride ?? null,
+      }),
+    );
+  }
+
+  /**
+   * Events of a leave in chronological order, with only public actor details
+   */
+  findForLeave(leaveId: number) {
+    return this.eventRepo.find({
+      where: { leave: { id: leaveId } },
+      relations: ['actor', 'onBehalfOf'],
+      select: {
+        id: true,
+        action: true,
+        fromStatus: true,
+        toStatus: true,
+        comment: true,
+        staffingOverride: true,
+        createdAt: true,
+        actor: { id: true, name: true, email: true, role: true },
+        onBehalfOf: { id: true, name: true, email: true, role: true },
+      },
+      order: { createdAt: 'ASC', id: 'ASC' },
+    });
+  }
+}
@@ -0,0 +1,33 @@
+import { ConflictException } from '@nestjs/common';
+import { LeaveStatus } from '../entities/leave.entity';
+
+/**
+ * Allowed leave status transitions
+ * REJECTED, WITHDRAWN and CANCELLED are final
+ */
+export const LEAVE_STATUS_TRANSITIONS: Record<LeaveStatus, LeaveStatus[]> = {
+  [LeaveStatus.PENDING]: [
+    LeaveStatus.APPROVED,
+    LeaveStatus.REJECTED,
+    LeaveStatus.WITHDRAWN,
+  ],
+  [LeaveStatus.APPROVED]: [LeaveStatus.CANCELLED],
+  [LeaveStatus.REJECTED]: [],
+  [LeaveStatus.WITHDRAWN]: [],
+  [LeaveStatus.CANCELLED]: [],
+};
+
+export function canTransition(from: LeaveStatus, to: LeaveStatus): boolean {
+  return LEAVE_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Throws 409 Conflict when a leave cannot move from one status to the other
+ */
+export function assertTransition(from: LeaveStatus, to: LeaveStatus) {
+  if (!canTransition(from, to)) {
+    throw new ConflictException(
+      `Cannot change leave status from ${from} to ${to}`,
+    );
+  }
+}
@@ -1,32 +1,612 @@
-import { Injectable } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { Leave } from '../entities/leave.entity';
+import { ConfigService } from '@nestjs/config';
+import { EntityManager, Repository } from 'typeorm';
+import { DayPart, Leave, LeaveStatus } from '../entities/leave.entity';
+import {
+  LeaveEventAction,
+  StaffingOverride,
+} from '../entities/leave-event.entity';
+import { CreateLeaveDto, LeaveQueryDto } from '../dto/leave.dto';
+import { assertTransition } from './leave-state-machine';
+import {
+  assertValidRange,
+  countLeaveDays,
+  leavesOverlap,
+  resolveDayParts,
+} from './leave-duration';
+import { LeaveAccessService } from './leave-access.service';
+import { LeaveHistoryService, LeaveChange } from './leave-history.service';
+import { LeaveAttachmentsService } from './leave-attachments.service';
+import {
+  LEAVE_ADMIN_EVENTS,
+  LEAVE_APPROVER_EVENTS,
+  LEAVE_DOMAIN_EVENTS,
+  LeaveDomainEvent,
+  LeaveEventPayload,
+} from '../events/leave-domain-event';
+import { BalancesService } from '../../balances/services/balances.service';
+import { LeaveTypesService } from '../../leave-types/services/leave-types.service';
+import {
+  LeaveType,
+  LeaveUnit,
+} from '../../leave-types/entities/leave-type.entity';
+import { HolidaysService } from '../../holidays/services/holidays.service';
+import { ApprovalsService } from '../../approvals/services/approvals.service';
+import { ApprovalStep } from '../../approvals/entities/approval-rule.entity';
+import { OutboxService } from '../../outbox/services/outbox.service';
+import { StaffingService } from '../../departments/services/staffing.service';
+import { User, UserRole } from '../../users/entities/user.entity';
+import { AuthUser } from '../../auth/interfaces/auth-user.interface';
+import { Paginated } from '../../common/dto/pagination.dto';
 
 @Injectable()
 export class LeavesService {
   constructor(
     @InjectRepository(Leave)
     private leaveRepo: Repository<Leave>,
+    private balancesService: BalancesService,
+    private leaveTypesService: LeaveTypesService,
+    private holidaysService: HolidaysService,
+    private leaveAccessService: LeaveAccessService,
+    private approvalsService: ApprovalsService,
+    private leaveHistoryService: LeaveHistoryService,
+    private outboxService: OutboxService,
+    private leaveAttachmentsService: LeaveAttachmentsService,
+    private staffingService: StaffingService,
+    private configService: ConfigService,
   ) {}
 
-  create(data: Partial<Leave>) {
-    return this.leaveRepo.save(data);
+  async create(userId: number, input: CreateLeaveDto) {
+    // Leave covers whole days or day parts, so a time of day is dropped
+    const data: CreateLeaveDto = {
+      ...input,
+      startDate: input.startDate.substring(0, 10),
+      endDate: input.endDate.substring(0, 10),
+    };
+    assertValidRange(data.startDate, data.endDate);
+    const type = await this.leaveTypesService.findActiveByCode(data.type);
+    const duration = await this.calculateDuration(type, data);
+    await this.assertNoOverlap(userId, { ...data, ...duration });
+    if (
+      type.maxDaysPerRequest &&
+      duration.workingDays > type.maxDaysPerRequest
+    ) {
+      throw new BadRequestException(
+        `${type.name} requests are limited to ${type.maxDaysPerRequest} working day(s)`,
+      );
+    }
+
+    await this.balancesService.assertAvailable(userId, type, {
+      ...data,
+      ...duration,
+    });
+    const approvalSteps = await this.approvalsService.resolveChain(
+      userId,
+      type,
+      duration.workingDays,
+    );
+    const leave = this.leaveRepo.create({
+      ...data,
+      status: LeaveStatus.PENDING,
+      type,
+      ...duration,
+      approvalSteps,
+      user: { id: userId },
+    });
+    return this.commit(leave, {
+      action: LeaveEventAction.SUBMITTED,
+      fromStatus: null,
+      actorId: userId,
+    });
+  }
+
+  async findAll(actor: AuthUser, query: LeaveQueryDto) {
+    const qb = this.leaveRepo
+      .createQueryBuilder('leave')
+      .leftJoin('leave.user', 'user')
+      .addSelect(['user.id', 'user.name', 'user.email'])
+      .leftJoinAndSelect('leave.type', 'type');
+    this.leaveAccessService.applyScope(qb, actor);
+
+    if (query.status) {
+      qb.andWhere('leave.status = :status', { status: query.status });
+    }
+    if (query.type) {
+      qb.andWhere('type.code = :type', { type: query.type.toUpperCase() });
+    }
+    if (query.userId) {
+      qb.andWhere('user.id = :userId', { userId: query.userId });
+    }
+    // Date filters select every leave overlapping the range, not only those contained in it
+    if (query.from) {
+      qb.andWhere('leave.endDate >= :from', { from: query.from });
+    }
+    if (query.to) {
+      qb.andWhere('leave.startDate <= :to', { to: query.to });
+    }
+
+    const [items, total] = await qb
+      .orderBy(`leave.${query.sort}`, query.order)
+      .addOrderBy('leave.id', query.order)
+      .skip((query.page - 1) * query.limit)
+      .take(query.limit)
+      .getManyAndCount();
+    return new Paginated(items, total, query);
+  }
+
+  findOne(id: number, actor: AuthUser) {
+    return this.getLeave(id, actor);
+  }
+
+  getBalances(userId: number, year: number) {
+    return this.balancesService.getBalances(userId, year);
+  }
+
+  async getHistory(id: number, actor: AuthUser) {
+    const leave = await this.getLeave(id, actor);
+    return this.leaveHistoryService.findForLeave(leave.id);
+  }
+
+  /**
+   * Signs off the current approval step; the leave only becomes APPROVED after the last one
+   */
+  async approve(
+    id: number,
+    actor: AuthUser,
+    comment?: string,
+    overrideStaffing = false,
+  ) {
+    const { leave, onBehalfOfId } = await this.getLeaveForDecision(
+      id,
+      actor,
+      LeaveStatus.APPROVED,
+    );
+    // Other requests may have been submitted or approved since this one
+    assertValidRange(leave.startDate, leave.endDate);
+    await this.assertNoOverlap(leave.user.id, leave, leave.id);
+    await this.assertAttachmentProvided(leave);
+    const staffingOverride = await this.checkStaffing(
+      leave,
+      actor,
+      overrideStaffing,
+    );
+
+    leave.currentStep += 1;
+    if (leave.currentStep < leave.approvalSteps.length) {
+      return this.commit(leave, {
+        action: LeaveEventAction.STEP_APPROVED,
+        fromStatus: leave.status,
+        actorId: actor.userId,
+        onBehalfOfId,
+        comment,
+        staffingOverride,
+      });
+    }
+    const fromStatus = leave.status;
+    leave.status = LeaveStatus.APPROVED;
+    return this.commit(leave, {
+      action: LeaveEventAction.APPROVED,
+      fromStatus,
+      actorId: actor.userId,
+      onBehalfOfId,
+      comment,
+      staffingOverride,
+    });
+  }
+
+  async reject(id: number, actor: AuthUser, reason: string) {
+    const { leave, onBehalfOfId } = await this.getLeaveForDecision(
+      id,
+      actor,
+      LeaveStatus.REJECTED,
+    );
+    return this.transition(
+      leave,
+      LeaveStatus.REJECTED,
+      LeaveEventAction.REJECTED,
+      actor,
+      reason,
+      onBehalfOfId,
+    );
+  }
+
+  /**
+   * Employee pulls back their own request before anyone has acted on it
+   */
+  async withdraw(id: number, actor: AuthUser, comment?: string) {
+    const leave = await this.getLeave(id, actor);
+    this.assertOwner(leave, actor);
+    return this.transition(
+      leave,
+      LeaveStatus.WITHDRAWN,
+      LeaveEventAction.WITHDRAWN,
+      actor,
+      comment,
+    );
+  }
+
+  /**
+   * Employee asks for an approved leave to be cancelled; an admin confirms with cancel()
+   */
+  async requestCancellation(id: number, actor: AuthUser, reason?: string) {
+    const leave = await this.getLeave(id, actor);
+    this.assertOwner(leave, actor);
+    assertTransition(leave.status, LeaveStatus.CANCELLED);
+    if (leave.cancellationRequestedAt) {
+      throw new ConflictException(
+        `Cancellation of leave request ${id} has already been requested`,
+      );
+    }
+
+    leave.cancellationRequestedAt = new Date();
+    leave.cancellationReason = reason ?? leave.cancellationReason;
+    return this.commit(leave, {
+      action: LeaveEventAction.CANCELLATION_REQUESTED,
+      fromStatus: leave.status,
+      actorId: actor.userId,
+      comment: reason,
+    });
+  }
+
+  async cancel(id: number, actor: AuthUser, comment?: string) {
+    return this.transition(
+      await this.getLeave(id, actor),
+      LeaveStatus.CANCELLED,
+      LeaveEventAction.CANCELLED,
+      actor,
+      comment,
+    );
+  }
+
+  /**
+   * Reminds the approvers of the current step that a request is still waiting
+   * for them; nothing changes on the leave itself
+   */
+  remind(leave: Leave, manager: EntityManager) {
+    return this.publish(
+      LeaveDomainEvent.REMINDER,
+      leave,
+      { actorId: null },
+      manager,
+    );
+  }
+
+  /**
+   * Hands the current step of a request nobody acted on to the admins; an admin
+   * step right after it is merged into it. A step that already belongs to the
+   * admins stays as it is and they are notified again.
+   */
+  escalate(leave: Leave, comment: string, manager: EntityManager) {
+    const steps = [...leave.approvalSteps];
+    steps[leave.currentStep] = ApprovalStep.ADMIN;
+    leave.approvalSteps = steps.filter(
+      (step, index) => index <= leave.currentStep || step !== steps[index - 1],
+    );
+    return this.save(
+      leave,
+      {
+        action: LeaveEventAction.ESCALATED,
+        fromStatus: leave.status,
+        actorId: null,
+        comment,
+      },
+      manager,
+    );
+  }
+
+  private transition(
+    leave: Leave,
+    status: LeaveStatus,
+    action: LeaveEventAction,
+    actor: AuthUser,
+    comment?: string,
+    onBehalfOfId?: number | null,
+  ) {
+    const fromStatus = leave.status;
+    assertTransition(fromStatus, status);
+    leave.status = status;
+    return this.commit(leave, {
+      action,
+      fromStatus,
+      actorId: actor.userId,
+      onBehalfOfId,
+      comment,
+    });
+  }
+
+  /**
+   * Saves a leave together with its history event, balance side effects and
+   * outbox event in one transaction
+   */
+  private commit(leave: Leave, change: LeaveChange) {
+    return this.leaveRepo.manager.transaction((manager) =>
+      this.save(leave, change, manager),
+    );
+  }
+
+  /**
+   * Does the work of commit() in a transaction the caller already runs
+   */
+  private async save(
+    leave: Leave,
+    change: LeaveChange,
+    manager: EntityManager,
+  ) {
+    const saved = await manager.save(leave);
+    if (saved.status !== change.fromStatus) {
+      if (saved.status === LeaveStatus.APPROVED) {
+        await this.balancesService.recordApproval(
+          saved,
+          change.actorId ?? undefined,
+          manager,
+        );
+      } else if (change.fromStatus === LeaveStatus.APPROVED) {
+        await this.balancesService.recordCancellation(
+          saved,
+          change.actorId ?? undefined,
+          manager,
+        );
+      }
+    }
+    await this.leaveHistoryService.record(saved, change, manager);
+    const type = LEAVE_DOMAIN_EVENTS[change.action];
+    if (type) {
+      await this.publish(type, saved, change, manager);
+    }
+    return saved;
+  }
+
+  private async publish(
+    type: LeaveDomainEvent,
+    leave: Leave,
+    change: Pick<LeaveChange, 'actorId' | 'comment'>,
+    manager: EntityManager,
+  ) {
+    const user = await manager.findOneOrFail(User, {
+      where: { id: leave.user.id },
+      select: ['id', 'name', 'email'],
+    });
+    const payload: LeaveEventPayload = {
+      leaveId: leave.id,
+      user: { id: user.id, name: user.name, email: user.email },
+      type: { code: leave.type.code, name: leave.type.name },
+      startDate: leave.startDate,
+      endDate: leave.endDate,
+      startDayPart: leave.startDayPart,
+      endDayPart: leave.endDayPart,
+      workingDays: leave.workingDays,
+      hours: leave.hours,
+      status: leave.status,
+      actorId: change.actorId,
+      comment: change.comment ?? null,
+      approverIds: await this.findRecipientIds(type, leave),
+    };
+    await this.outboxService.enqueue(type, payload, manager);
+  }
+
+  /**
+   * Users asked to act on the request an event is about
+   */
+  private findRecipientIds(type: LeaveDomainEvent, leave: Leave) {
+    if (LEAVE_APPROVER_EVENTS.includes(type)) {
+      return this.approvalsService.findApproverIds(leave);
+    }
+    if (LEAVE_ADMIN_EVENTS.includes(type)) {
+      return this.approvalsService.findAdminIds(leave);
+    }
+    return Promise.resolve([]);
+  }
+
+  /**
+   * Working days, day parts and hours of a new request
+   * Hourly types cover a single working day of at most WORKDAY_HOURS; their
+   * working days are the hours as a fraction of a working day
+   */
+  private async calculateDuration(
+    type: LeaveType,
+    data: CreateLeaveDto,
+  ): Promise<
+    Pick<Leave, 'workingDays' | 'startDayPart' | 'endDayPart' | 'hours'>
+  > {
+    const hourly = type.unit === LeaveUnit.HOURS;
+    if (!hourly && data.hours !== undefined) {
+      throw new BadRequestException(
+        `${type.name} is requested in days; hours are only allowed for hourly leave types`,
+      );
+    }
+    if (
+      hourly &&
+      (data.startDate.substring(0, 10) !== data.endDate.substring(0, 10) ||
+        data.startDayPart ||
+        data.endDayPart)
+    ) {
+      throw new BadRequestException(
+        `${type.name} is requested in hours for a single day, without day parts`,
+      );
+    }
+    const dayParts = hourly
+      ? { startDayPart: DayPart.FULL, endDayPart: DayPart.FULL }
+      : resolveDayParts(
+          data.startDate,
+          data.endDate,
+          data.startDayPart,
+          data.endDayPart,
+        );
+
+    const workingDates = await this.holidaysService.getWorkingDates(
+      data.startDate,
+      data.endDate,
+    );
+    if (workingDates.length === 0) {
+      throw new BadRequestException(
+        'Leave request does not cover any working days',
+      );
+    }
+    if (!hourly) {
+      return {
+        ...dayParts,
+        workingDays: countLeaveDays(workingDates, { ...data, ...dayParts }),
+        hours: null,
+      };
+    }
+
+    const workdayHours = parseFloat(
+      this.configService.get<string>('WORKDAY_HOURS', '8'),
+    );
+    if (data.hours === undefined) {
+      throw new BadRequestException(`${type.name} requests must give hours`);
+    }
+    if (data.hours > workdayHours) {
+      throw new BadRequestException(
+        `${type.name} requests are limited to ${workdayHours} hour(s), a full working day`,
+      );
+    }
+    return {
+      ...dayParts,
+      workingDays: Math.round((data.hours / workdayHours) * 100) / 100,
+      hours: data.hours,
+    };
+  }
+
+  /**
+   * Loads a leave the actor is allowed to see, or throws 404
+   */
+  private async getLeave(id: number, actor: AuthUser) {
+    const leave = await this.findLeave(id);
+    await this.leaveAccessService.assertCanView(actor, leave);
+    return leave;
+  }
+
+  /**
+   * Loads a leave for an approve or reject decision and checks that the actor
+   * may sign off its current step, either directly or for an approver who
+   * delegated to them; in that case the approver's ID is returned for the history
+   */
+  private async getLeaveForDecision(
+    id: number,
+    actor: AuthUser,
+    status: LeaveStatus,
+  ) {
+    const leave = await this.findLeave(id);
+    const delegator = this.approvalsService.canAct(actor, leave)
+      ? null
+      : await this.approvalsService.findDelegator(actor, leave);
+    if (!delegator) {
+      await this.leaveAccessService.assertCanView(actor, leave);
+    }
+    assertTransition(leave.status, status);
+    if (!delegator) {
+      this.approvalsService.assertCanAct(actor, leave);
+    }
+    return { leave, onBehalfOfId: delegator?.id ?? null };
+  }
+
+  private async findLeave(id: number) {
+    const leave = await this.leaveRepo.findOne({
+      where: { id },
+      relations: ['user', 'user.manager', 'type'],
+    });
+    if (!leave) {
+      throw new NotFoundException(`Leave request ${id} not found`);
+    }
+    return leave;
   }
 
-  findAll() {
-    return this.leaveRepo.find({ relations: ['user'] });
+  /**
+   * Refuses a leave that shares time off with another pending or approved
+   * request of the same user; the 409 lists the conflicting leave IDs
+   */
+  private async assertNoOverlap(
+    userId: number,
+    leave: Pick<Leave, 'startDate' | 'endDate' | 'startDayPart' | 'endDayPart'>,
+    excludeId?: number,
+  ) {
+    const qb = this.leaveRepo
+      .createQueryBuilder('leave')
+      .where('leave.userId = :userId', { userId })
+      .andWhere('leave.status IN (:...statuses)', {
+        statuses: [LeaveStatus.PENDING, LeaveStatus.APPROVED],
+      })
+      .andWhere('leave.endDate >= :startDate', {
+        startDate: leave.startDate.substring(0, 10),
+      })
+      .andWhere('leave.startDate <= :endDate', {
+        endDate: `${leave.endDate.substring(0, 10)}T23:59:59`,
+      });
+    if (excludeId) {
+      qb.andWhere('leave.id != :excludeId', { excludeId });
+    }
+    const conflicts = (await qb.orderBy('leave.id', 'ASC').getMany()).filter(
+      (other) => leavesOverlap(leave, other),
+    );
+    if (conflicts.length) {
+      const ids = conflicts.map((conflict) => conflict.id);
+      throw new ConflictException({
+        message: `Leave overlaps existing request(s) ${ids.join(', ')}`,
+        error: { conflictingLeaveIds: ids },
+      });
+    }
   }
 
-  findOne(id: number) {
-    return this.leaveRepo.findOne({ where: { id }, relations: ['user'] });
+  /**
+   * Leave types that require a document, e.g. a medical certificate for longer
+   * sick leave, cannot be signed off until one is attached
+   */
+  private async assertAttachmentProvided(leave: Leave) {
+    if (
+      leave.type.requiresAttachment &&
+      leave.workingDays > leave.type.attachmentRequiredAfterDays &&
+      (await this.leaveAttachmentsService.count(leave.id)) === 0
+    ) {
+      throw new BadRequestException(
+        `${leave.type.name} requests of more than ${leave.type.attachmentRequiredAfterDays} working day(s) need a supporting document before they can be approved`,
+      );
+    }
   }
 
-  updateStatus(id: number, status: string) {
-    return this.leaveRepo.update(id, { status });
+  /**
+   * Refuses approvals that would leave the requester's department below its
+   * minimum headcount, unless an admin explicitly overrides the rule; the
+   * override is returned so it can be recorded
+   */
+  private async checkStaffing(
+    leave: Leave,
+    actor: AuthUser,
+    override: boolean,
+  ): Promise<StaffingOverride | null> {
+    const staffing = await this.staffingService.check(leave);
+    if (!staffing?.shortfalls.length) {
+      return null;
+    }
+    const dates = staffing.shortfalls.map((shortfall) => shortfall.date);
+    if (!override) {
+      throw new ConflictException({
+        message: `Approving would leave ${staffing.department.name} below its minimum of ${staffing.minimum} present on ${dates.join(', ')}`,
+        error: staffing,
+      });
+    }
+    if (actor.role !== UserRole.ADMIN) {
+      throw new ForbiddenException('Only admins can override minimum staffing');
+    }
+    return {
+      departmentId: staffing.department.id,
+      minimum: staffing.minimum,
+      dates,
+    };
   }
 
-  remove(id: number) {
-    return this.leaveRepo.delete(id);
+  private assertOwner(leave: Leave, actor: AuthUser) {
+    if (leave.user.id !== actor.userId) {
+      throw new ForbiddenException(
+        'You can only change your own leave requests',
+      );
+    }
   }
 }
@@ -0,0 +1,25 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MailTransport } from './transports/mail-transport';
+import { SmtpMailTransport } from './transports/smtp-mail.transport';
+import { OutboxMailTransport } from './transports/outbox-mail.transport';
+
+/**
+ * Mail Module
+ * Provides the MailTransport selected by MAIL_TRANSPORT (smtp or outbox, default outbox)
+ */
+@Global()
+@Module({
+  providers: [
+    {
+      provide: MailTransport,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService): MailTransport =>
+        configService.get<string>('MAIL_TRANSPORT', 'outbox') === 'smtp'
+          ? new SmtpMailTransport(configService)
+          : new OutboxMailTransport(configService),
+    },
+  ],
+  exports: [MailTransport],
+})
+export class MailModule {}
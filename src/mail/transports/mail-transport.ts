@@ -0,0 +1,15 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Mail Transport
+ * Delivers outgoing email. Inject this class; MailModule decides which
+ * implementation backs it from the MAIL_TRANSPORT setting.
+ */
+export abstract class MailTransport {
+  abstract send(message: MailMessage): Promise<void>;
+}
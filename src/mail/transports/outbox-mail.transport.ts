@@ -0,0 +1,59 @@
+import { ConfigService } from '@nestjs/config';
+import { mkdir, readdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { randomBytes } from 'crypto';
+import { MailMessage, MailTransport } from './mail-transport';
+
+export interface OutboxMail extends MailMessage {
+  sentAt: string;
+}
+
+/**
+ * Outbox Mail Transport
+ * Writes each email as a JSON file to MAIL_OUTBOX_DIR instead of sending it.
+ * Meant for local development and tests.
+ */
+export class OutboxMailTransport extends MailTransport {
+  private dir: string;
+
+  constructor(configService: ConfigService) {
+    super();
+    this.dir = configService.get<string>('MAIL_OUTBOX_DIR', 'mail-outbox');
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    const sentAt = new Date();
+    // Timestamp prefix keeps the files in sending order
+    const file = `${sentAt.getTime()}-${randomBytes(4).toString('hex')}.json`;
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(
+      join(this.dir, file),
+      JSON.stringify({ ...message, sentAt: sentAt.toISOString() }, null, 2),
+    );
+  }
+
+  /**
+   * Emails in the outbox, oldest first, optionally only those sent to one address
+   */
+  async list(to?: string): Promise<OutboxMail[]> {
+    let files: string[];
+    try {
+      files = (await readdir(this.dir)).filter((file) =>
+        file.endsWith('.json'),
+      );
+    } catch {
+      return [];
+    }
+    const mails = await Promise.all(
+      files
+        .sort()
+        .map(
+          async (file) =>
+            JSON.parse(
+              await readFile(join(this.dir, file), 'utf8'),
+            ) as OutboxMail,
+        ),
+    );
+    return to ? mails.filter((mail) => mail.to === to) : mails;
+  }
+}
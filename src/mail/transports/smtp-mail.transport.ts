@@ -0,0 +1,30 @@
+import { ConfigService } from '@nestjs/config';
+import { createTransport, Transporter } from 'nodemailer';
+import { MailMessage, MailTransport } from './mail-transport';
+
+/**
+ * SMTP Mail Transport
+ * Sends email through the SMTP server configured by the SMTP_* settings
+ */
+export class SmtpMailTransport extends MailTransport {
+  private transporter: Transporter;
+  private from: string;
+
+  constructor(configService: ConfigService) {
+    super();
+    const user = configService.get<string>('SMTP_USER');
+    this.transporter = createTransport({
+      host: configService.get<string>('SMTP_HOST', 'localhost'),
+      port: parseInt(configService.get<string>('SMTP_PORT', '587'), 10),
+      secure: configService.get<string>('SMTP_SECURE', 'false') === 'true',
+      auth: user
+        ? { user, pass: configService.get<string>('SMTP_PASSWORD') }
+        : undefined,
+    });
+    this.from = configService.get<string>('MAIL_FROM', 'no-reply@example.com');
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: this.from, ...message });
+  }
+}
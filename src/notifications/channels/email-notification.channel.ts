@@ -0,0 +1,23 @@
+import { Injectable } from '@nestjs/common';
+import {
+  NotificationChannel,
+  NotificationMessage,
+  NotificationRecipient,
+} from './notification-channel';
+import { NotificationChannelType } from '../entities/notification-preference.entity';
+import { MailTransport } from '../../mail/transports/mail-transport';
+
+@Injectable()
+export class EmailNotificationChannel implements NotificationChannel {
+  readonly type = NotificationChannelType.EMAIL;
+
+  constructor(private mailTransport: MailTransport) {}
+
+  deliver(recipient: NotificationRecipient, message: NotificationMessage) {
+    return this.mailTransport.send({
+      to: recipient.email,
+      subject: message.title,
+      text: `Hello ${recipient.name || recipient.email},\n\n${message.body}`,
+    });
+  }
+}
@@ -0,0 +1,41 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import {
+  NotificationChannel,
+  NotificationMessage,
+  NotificationRecipient,
+} from './notification-channel';
+import { Notification } from '../entities/notification.entity';
+import { NotificationChannelType } from '../entities/notification-preference.entity';
+
+@Injectable()
+export class InAppNotificationChannel implements NotificationChannel {
+  readonly type = NotificationChannelType.IN_APP;
+
+  constructor(
+    @InjectRepository(Notification)
+    private notificationRepo: Repository<Notification>,
+  ) {}
+
+  async deliver(
+    recipient: NotificationRecipient,
+    message: NotificationMessage,
+  ) {
+    // A retried event finds the notification already there
+    await this.notificationRepo
+      .createQueryBuilder()
+      .insert()
+      .into(Notification)
+      .values({
+        user: { id: recipient.id },
+        event: message.event,
+        title: message.title,
+        body: message.body,
+        leave: message.leaveId ? { id: message.leaveId } : null,
+        outboxEventId: message.outboxEventId,
+      })
+      .orIgnore()
+      .execute();
+  }
+}
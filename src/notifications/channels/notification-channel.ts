@@ -0,0 +1,34 @@
+import { NotificationChannelType } from '../entities/notification-preference.entity';
+import { LeaveDomainEvent } from '../../leaves/events/leave-domain-event';
+
+export interface NotificationRecipient {
+  id: number;
+  name: string;
+  email: string;
+}
+
+export interface NotificationMessage {
+  event: LeaveDomainEvent;
+  title: string;
+  body: string;
+  leaveId: number | null;
+  /** Outbox event being delivered; the same for every retry of it */
+  outboxEventId: number;
+}
+
+/**
+ * Notification Channel
+ * One way of delivering a notification to a user. Channels are collected under
+ * the NOTIFICATION_CHANNELS token in NotificationsModule. Successful deliveries
+ * are recorded by the NotificationDispatcher and not repeated when the outbox event
+ * is retried.
+ */
+export interface NotificationChannel {
+  readonly type: NotificationChannelType;
+  deliver(
+    recipient: NotificationRecipient,
+    message: NotificationMessage,
+  ): Promise<void>;
+}
+
+export const NOTIFICATION_CHANNELS = Symbol('NOTIFICATION_CHANNELS');
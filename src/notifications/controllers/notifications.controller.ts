@@ -0,0 +1,129 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Param,
+  Body,
+  Query,
+  Request,
+  UseGuards,
+  ValidationPipe,
+  ParseIntPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiBearerAuth,
+  ApiResponse,
+  ApiNotFoundResponse,
+} from '@nestjs/swagger';
+import { NotificationsService } from '../services/notifications.service';
+import { JwtAuthGuard } from '../../auth/jwt/jwt-auth.guard';
+import {
+  NotificationQueryDto,
+  UpdateNotificationPreferencesDto,
+} from '../dto/notification.dto';
+
+/**
+ * Notifications Controller
+ * In-app notification inbox and per-event notification preferences of the current user
+ */
+@ApiTags('Notifications')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('notifications')
+export class NotificationsController {
+  constructor(private notificationsService: NotificationsService) {}
+
+  /**
+   * Get notifications
+   * Lists the current user's in-app notifications, newest first
+   */
+  @Get()
+  @ApiOperation({
+    summary: 'Get own notifications',
+    description:
+      'Returns a page of in-app notifications about leave requests (submitted, approved, rejected, cancelled). Pass unread=true to only list unread ones.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns a page of notifications with paging metadata.',
+  })
+  findAll(
+    @Request() req,
+    @Query(new ValidationPipe({ transform: true })) query: NotificationQueryDto,
+  ) {
+    return this.notificationsService.findForUser(req.user.userId, query);
+  }
+
+  /**
+   * Get notification preferences
+   * Returns which channels are enabled for each event
+   */
+  @Get('preferences')
+  @ApiOperation({
+    summary: 'Get notification preferences',
+    description:
+      'Returns every event and channel (email, in_app) combination and whether it is enabled. Everything is enabled by default.',
+  })
+  @ApiResponse({ status: 200, description: 'Returns the preferences.' })
+  getPreferences(@Request() req) {
+    return this.notificationsService.getPreferences(req.user.userId);
+  }
+
+  /**
+   * Update notification preferences
+   * Enables or disables channels per event
+   */
+  @Put('preferences')
+  @ApiOperation({
+    summary: 'Update notification preferences',
+    description:
+      'Enables or disables a channel for an event. Combinations that are not listed keep their current setting.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Preferences updated. Returns all preferences.',
+  })
+  updatePreferences(
+    @Request() req,
+    @Body(new ValidationPipe()) body: UpdateNotificationPreferencesDto,
+  ) {
+    return this.notificationsService.updatePreferences(
+      req.user.userId,
+      body.preferences,
+    );
+  }
+
+  /**
+   * Mark all notifications read
+   */
+  @Put('read-all')
+  @ApiOperation({
+    summary: 'Mark all notifications as read',
+    description: 'Marks every unread notification of the current user as read.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the number of notifications marked as read.',
+  })
+  markAllRead(@Request() req) {
+    return this.notificationsService.markAllRead(req.user.userId);
+  }
+
+  /**
+   * Mark a notification read
+   */
+  @Put(':id/read')
+  @ApiOperation({
+    summary: 'Mark notification as read',
+    description: 'Marks one of your notifications as read.',
+  })
+  @ApiResponse({ status: 200, description: 'Returns the notification.' })
+  @ApiNotFoundResponse({
+    description: 'Notification does not exist or belongs to someone else',
+  })
+  markRead(@Request() req, @Param('id', ParseIntPipe) id: number) {
+    return this.notificationsService.markRead(id, req.user.userId);
+  }
+}
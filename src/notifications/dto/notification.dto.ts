@@ -0,0 +1,51 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsOptional,
+  ValidateNested,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { PaginationQueryDto } from '../../common/dto/pagination.dto';
+import { LeaveDomainEvent } from '../../leaves/events/leave-domain-event';
+import { NotificationChannelType } from '../entities/notification-preference.entity';
+
+export class NotificationQueryDto extends PaginationQueryDto {
+  @ApiProperty({
+    example: true,
+    required: false,
+    description: 'Only list unread notifications',
+  })
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    value === 'true' ? true : value === 'false' ? false : value,
+  )
+  @IsBoolean()
+  unread?: boolean;
+}
+
+export class NotificationPreferenceDto {
+  @ApiProperty({ enum: LeaveDomainEvent, example: LeaveDomainEvent.APPROVED })
+  @IsEnum(LeaveDomainEvent)
+  event: LeaveDomainEvent;
+
+  @ApiProperty({
+    enum: NotificationChannelType,
+    example: NotificationChannelType.EMAIL,
+  })
+  @IsEnum(NotificationChannelType)
+  channel: NotificationChannelType;
+
+  @ApiProperty({ example: false })
+  @IsBoolean()
+  enabled: boolean;
+}
+
+export class UpdateNotificationPreferencesDto {
+  @ApiProperty({ type: [NotificationPreferenceDto] })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => NotificationPreferenceDto)
+  preferences: NotificationPreferenceDto[];
+}
@@ -0,0 +1,34 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  CreateDateColumn,
+  Unique,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { NotificationChannelType } from './notification-preference.entity';
+
+/**
+ * Notification Delivery
+ * Records that the notification for an outbox event reached a user through one
+ * channel, so a retried event only delivers what is still missing
+ */
+@Entity()
+@Unique(['outboxEventId', 'user', 'channel'])
+export class NotificationDelivery {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  outboxEventId: number;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  user: User;
+
+  @Column({ type: 'enum', enum: NotificationChannelType })
+  channel: NotificationChannelType;
+
+  @CreateDateColumn()
+  deliveredAt: Date;
+}
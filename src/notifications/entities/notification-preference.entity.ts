@@ -0,0 +1,37 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  Unique,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { LeaveDomainEvent } from '../../leaves/events/leave-domain-event';
+
+export enum NotificationChannelType {
+  EMAIL = 'email',
+  IN_APP = 'in_app',
+}
+
+/**
+ * Notification Preference
+ * Opt-in/opt-out of one channel for one event; without a row the channel is enabled
+ */
+@Entity()
+@Unique(['user', 'event', 'channel'])
+export class NotificationPreference {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  user: User;
+
+  @Column({ type: 'enum', enum: LeaveDomainEvent })
+  event: LeaveDomainEvent;
+
+  @Column({ type: 'enum', enum: NotificationChannelType })
+  channel: NotificationChannelType;
+
+  @Column()
+  enabled: boolean;
+}
@@ -0,0 +1,48 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { Leave } from '../../leaves/entities/leave.entity';
+import { LeaveDomainEvent } from '../../leaves/events/leave-domain-event';
+
+/**
+ * Notification
+ * One message in a user's in-app inbox
+ */
+@Entity()
+@Index(['user', 'createdAt'])
+@Index(['user', 'outboxEventId'], { unique: true })
+export class Notification {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  user: User;
+
+  @Column({ type: 'enum', enum: LeaveDomainEvent })
+  event: LeaveDomainEvent;
+
+  @Column()
+  title: string;
+
+  @Column({ type: 'text' })
+  body: string;
+
+  @ManyToOne(() => Leave, { nullable: true, onDelete: 'SET NULL' })
+  leave: Leave | null;
+
+  // Outbox event the notification was created for; keeps retried deliveries from adding it twice
+  @Column({ type: 'int', nullable: true, select: false })
+  outboxEventId: number | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  readAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,38 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Notification } from './entities/notification.entity';
+import { NotificationPreference } from './entities/notification-preference.entity';
+import { NotificationDelivery } from './entities/notification-delivery.entity';
+import { User } from '../users/entities/user.entity';
+import { NotificationsService } from './services/notifications.service';
+import { NotificationDispatcher } from './services/notification-dispatcher.service';
+import { NotificationsController } from './controllers/notifications.controller';
+import { NOTIFICATION_CHANNELS } from './channels/notification-channel';
+import { EmailNotificationChannel } from './channels/email-notification.channel';
+import { InAppNotificationChannel } from './channels/in-app-notification.channel';
+import { OutboxModule } from '../outbox/outbox.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      Notification,
+      NotificationPreference,
+      NotificationDelivery,
+      User,
+    ]),
+    OutboxModule,
+  ],
+  providers: [
+    NotificationsService,
+    NotificationDispatcher,
+    EmailNotificationChannel,
+    InAppNotificationChannel,
+    {
+      provide: NOTIFICATION_CHANNELS,
+      inject: [InAppNotificationChannel, EmailNotificationChannel],
+      useFactory: (...channels: unknown[]) => channels,
+    },
+  ],
+  controllers: [NotificationsController],
+})
+export class NotificationsModule {}
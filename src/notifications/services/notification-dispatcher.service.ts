@@ -0,0 +1,172 @@
+import { Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { NotificationsService } from './notifications.service';
+import {
+  NOTIFICATION_CHANNELS,
+  NotificationChannel,
+  NotificationMessage,
+} from '../channels/notification-channel';
+import { OutboxDispatcher } from '../../outbox/services/outbox-dispatcher.service';
+import { OutboxEvent } from '../../outbox/entities/outbox-event.entity';
+import { OutboxHandler } from '../../outbox/interfaces/outbox-handler.interface';
+import {
+  LEAVE_ADMIN_EVENTS,
+  LEAVE_APPROVER_EVENTS,
+  LeaveDomainEvent,
+  LeaveEventPayload,
+} from '../../leaves/events/leave-domain-event';
+import { User } from '../../users/entities/user.entity';
+import { NotificationDelivery } from '../entities/notification-delivery.entity';
+
+/**
+ * Notification Dispatcher
+ * Turns leave outbox events into notifications and delivers them through every
+ * channel the recipient has not opted out of. Each delivery is recorded; a failing
+ * one does not stop the others, but fails the event afterwards so the outbox retries
+ * it with backoff, and the retry only sends the deliveries that are still missing.
+ */
+@Injectable()
+export class NotificationDispatcher implements OutboxHandler, OnModuleInit {
+  readonly name = 'notifications';
+  private readonly logger = new Logger(NotificationDispatcher.name);
+
+  constructor(
+    private outboxDispatcher: OutboxDispatcher,
+    private notificationsService: NotificationsService,
+    @Inject(NOTIFICATION_CHANNELS)
+    private channels: NotificationChannel[],
+    @InjectRepository(User)
+    private userRepo: Repository<User>,
+    @InjectRepository(NotificationDelivery)
+    private deliveryRepo: Repository<NotificationDelivery>,
+  ) {}
+
+  onModuleInit() {
+    this.outboxDispatcher.register(this);
+  }
+
+  async handle(event: OutboxEvent) {
+    if (!Object.values<string>(LeaveDomainEvent).includes(event.type)) {
+      return;
+    }
+    const type = event.type as LeaveDomainEvent;
+    const payload = event.payload as unknown as LeaveEventPayload;
+
+    // Nobody is told about their own action
+    const recipientIds = (
+      LEAVE_APPROVER_EVENTS.includes(type) || LEAVE_ADMIN_EVENTS.includes(type)
+        ? payload.approverIds
+        : [payload.user.id]
+    ).filter((id) => id !== payload.actorId);
+    if (!recipientIds.length) {
+      return;
+    }
+
+    const recipients = await this.userRepo.find({
+      where: { id: In(recipientIds) },
+      select: ['id', 'name', 'email'],
+    });
+    const message = this.buildMessage(type, payload, event.id);
+    const delivered = new Set(
+      (
+        await this.deliveryRepo.find({
+          where: { outboxEventId: event.id },
+          relations: ['user'],
+          select: { id: true, channel: true, user: { id: true } },
+        })
+      ).map((delivery) => `${delivery.user.id}:${delivery.channel}`),
+    );
+    const failures: string[] = [];
+    for (const recipient of recipients) {
+      for (const channel of this.channels) {
+        if (
+          delivered.has(`${recipient.id}:${channel.type}`) ||
+          !(await this.notificationsService.isEnabled(
+            recipient.id,
+            type,
+            channel.type,
+          ))
+        ) {
+          continue;
+        }
+        try {
+          await channel.deliver(recipient, message);
+          await this.deliveryRepo
+            .createQueryBuilder()
+            .insert()
+            .values({
+              outboxEventId: event.id,
+              user: { id: recipient.id },
+              channel: channel.type,
+            })
+            .orIgnore()
+            .execute();
+        } catch (error) {
+          this.logger.error(
+            `Could not deliver ${type} for leave ${payload.leaveId} to user ${recipient.id} via ${channel.type}`,
+            error,
+          );
+          failures.push(`user ${recipient.id} via ${channel.type}`);
+        }
+      }
+    }
+    if (failures.length) {
+      throw new Error(
+        `Could not deliver ${type} for leave ${payload.leaveId} to ${failures.join(', ')}`,
+      );
+    }
+  }
+
+  private buildMessage(
+    type: LeaveDomainEvent,
+    payload: LeaveEventPayload,
+    outboxEventId: number,
+  ): NotificationMessage {
+    const period = `${payload.type.name} from ${payload.startDate} to ${payload.endDate} (${payload.workingDays} working day(s))`;
+    const comment = payload.comment ? `\n\nComment: ${payload.comment}` : '';
+    const requester = payload.user.name || payload.user.email;
+    const messages: Record<LeaveDomainEvent, [string, string]> = {
+      [LeaveDomainEvent.SUBMITTED]: [
+        `New leave request from ${requester}`,
+        `${requester} requested ${period}. It is waiting for your approval.`,
+      ],
+      [LeaveDomainEvent.STEP_PENDING]: [
+        `Leave request from ${requester} needs your approval`,
+        `${requester} requested ${period}. The previous approval step was signed off and it is now waiting for your approval.${comment}`,
+      ],
+      [LeaveDomainEvent.APPROVED]: [
+        'Your leave request was approved',
+        `Your request for ${period} was approved.${comment}`,
+      ],
+      [LeaveDomainEvent.REJECTED]: [
+        'Your leave request was rejected',
+        `Your request for ${period} was rejected.${comment}`,
+      ],
+      [LeaveDomainEvent.CANCELLATION_REQUESTED]: [
+        `Cancellation requested by ${requester}`,
+        `${requester} asked to cancel their approved ${period}. It is waiting for an admin to confirm.${comment}`,
+      ],
+      [LeaveDomainEvent.CANCELLED]: [
+        'Your leave was cancelled',
+        `Your leave for ${period} was cancelled.${comment}`,
+      ],
+      [LeaveDomainEvent.REMINDER]: [
+        `Leave request from ${requester} is waiting for you`,
+        `${requester} requested ${period}. It is still waiting for your approval.`,
+      ],
+      [LeaveDomainEvent.ESCALATED]: [
+        `Escalated leave request from ${requester}`,
+        `${requester} requested ${period}. Nobody has acted on it in time, so it now needs an admin's approval.${comment}`,
+      ],
+    };
+    const [title, body] = messages[type];
+    return {
+      event: type,
+      title,
+      body,
+      leaveId: payload.leaveId,
+      outboxEventId,
+    };
+  }
+}
@@ -0,0 +1,123 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { Notification } from '../entities/notification.entity';
+import {
+  NotificationChannelType,
+  NotificationPreference,
+} from '../entities/notification-preference.entity';
+import {
+  NotificationQueryDto,
+  NotificationPreferenceDto,
+} from '../dto/notification.dto';
+import { LeaveDomainEvent } from '../../leaves/events/leave-domain-event';
+import { Paginated } from '../../common/dto/pagination.dto';
+
+@Injectable()
+export class NotificationsService {
+  constructor(
+    @InjectRepository(Notification)
+    private notificationRepo: Repository<Notification>,
+    @InjectRepository(NotificationPreference)
+    private preferenceRepo: Repository<NotificationPreference>,
+  ) {}
+
+  async findForUser(userId: number, query: NotificationQueryDto) {
+    const qb = this.notificationRepo
+      .createQueryBuilder('notification')
+      .leftJoin('notification.leave', 'leave')
+      .addSelect('leave.id')
+      .where('notification.userId = :userId', { userId });
+    if (query.unread !== undefined) {
+      qb.andWhere(
+        query.unread
+          ? 'notification.readAt IS NULL'
+          : 'notification.readAt IS NOT NULL',
+      );
+    }
+
+    const [items, total] = await qb
+      .orderBy('notification.createdAt', query.order)
+      .addOrderBy('notification.id', query.order)
+      .skip((query.page - 1) * query.limit)
+      .take(query.limit)
+      .getManyAndCount();
+    return new Paginated(items, total, query);
+  }
+
+  async markRead(id: number, userId: number) {
+    const notification = await this.notificationRepo.findOne({
+      where: { id, user: { id: userId } },
+    });
+    if (!notification) {
+      throw new NotFoundException(`Notification ${id} not found`);
+    }
+    if (!notification.readAt) {
+      notification.readAt = new Date();
+      await this.notificationRepo.save(notification);
+    }
+    return notification;
+  }
+
+  async markAllRead(userId: number) {
+    const { affected } = await this.notificationRepo.update(
+      { user: { id: userId }, readAt: IsNull() },
+      { readAt: new Date() },
+    );
+    return { updated: affected ?? 0 };
+  }
+
+  /**
+   * Every event and channel combination with its current setting
+   */
+  async getPreferences(userId: number): Promise<NotificationPreferenceDto[]> {
+    const disabled = await this.findDisabled(userId);
+    return Object.values(LeaveDomainEvent).flatMap((event) =>
+      Object.values(NotificationChannelType).map((channel) => ({
+        event,
+        channel,
+        enabled: !disabled.has(`${event}:${channel}`),
+      })),
+    );
+  }
+
+  async updatePreferences(
+    userId: number,
+    preferences: NotificationPreferenceDto[],
+  ) {
+    for (const { event, channel, enabled } of preferences) {
+      const existing = await this.preferenceRepo.findOne({
+        where: { user: { id: userId }, event, channel },
+      });
+      await this.preferenceRepo.save(
+        existing
+          ? { ...existing, enabled }
+          : this.preferenceRepo.create({
+              user: { id: userId },
+              event,
+              channel,
+              enabled,
+            }),
+      );
+    }
+    return this.getPreferences(userId);
+  }
+
+  async isEnabled(
+    userId: number,
+    event: LeaveDomainEvent,
+    channel: NotificationChannelType,
+  ) {
+    const preference = await this.preferenceRepo.findOne({
+      where: { user: { id: userId }, event, channel },
+    });
+    return preference?.enabled ?? true;
+  }
+
+  private async findDisabled(userId: number) {
+    const rows = await this.preferenceRepo.find({
+      where: { user: { id: userId }, enabled: false },
+    });
+    return new Set(rows.map((row) => `${row.event}:${row.channel}`));
+  }
+}
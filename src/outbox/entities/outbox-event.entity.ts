@@ -0,0 +1,54 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+export enum OutboxStatus {
+  PENDING = 'PENDING',
+  PROCESSED = 'PROCESSED',
+  FAILED = 'FAILED',
+}
+
+/**
+ * Outbox Event
+ * A domain event written in the same transaction as the change that caused it,
+ * and handed to the registered handlers afterwards by the OutboxDispatcher
+ */
+@Entity()
+@Index(['status', 'availableAt'])
+export class OutboxEvent {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  type: string;
+
+  @Column({ type: 'jsonb' })
+  payload: Record<string, unknown>;
+
+  @Column({ type: 'enum', enum: OutboxStatus, default: OutboxStatus.PENDING })
+  status: OutboxStatus;
+
+  @Column({ default: 0 })
+  attempts: number;
+
+  @Column({ type: 'text', nullable: true })
+  lastError: string | null;
+
+  // Names of the handlers done with the event; a retry skips them
+  @Column({ type: 'text', array: true, default: [] })
+  completedHandlers: string[];
+
+  // Not picked up before this time; pushed back while being dispatched and after a failed attempt
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  availableAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  processedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,13 @@
+import { OutboxEvent } from '../entities/outbox-event.entity';
+
+/**
+ * Consumer of outbox events, registered with OutboxDispatcher.register()
+ * Handlers receive every event and ignore the types they do not care about.
+ * Throwing makes the dispatcher retry the event later, but only for the handlers
+ * that have not completed it yet.
+ */
+export interface OutboxHandler {
+  /** Stable name stored on the events the handler has completed */
+  readonly name: string;
+  handle(event: OutboxEvent): Promise<void>;
+}
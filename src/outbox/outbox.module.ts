@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { OutboxEvent } from './entities/outbox-event.entity';
+import { OutboxService } from './services/outbox.service';
+import { OutboxDispatcher } from './services/outbox-dispatcher.service';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([OutboxEvent])],
+  providers: [OutboxService, OutboxDispatcher],
+  exports: [OutboxService, OutboxDispatcher],
+})
+export class OutboxModule {}
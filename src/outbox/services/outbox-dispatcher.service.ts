@@ -0,0 +1,161 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { OutboxEvent, OutboxStatus } from '../entities/outbox-event.entity';
+import { OutboxHandler } from '../interfaces/outbox-handler.interface';
+
+const BATCH_SIZE = 50;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+/** How long a claimed event is left alone before another dispatch may take it over */
+const CLAIM_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Outbox Dispatcher
+ * Polls the outbox every OUTBOX_DISPATCH_INTERVAL_MS (0 disables polling) and hands
+ * pending events to the registered handlers. An event is claimed with SKIP LOCKED
+ * in a short transaction that pushes back its availableAt, so several instances can
+ * dispatch side by side and the handlers run without holding a row lock. A handler
+ * that fails is retried with backoff; the ones that completed are not run again.
+ */
+@Injectable()
+export class OutboxDispatcher
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(OutboxDispatcher.name);
+  private readonly handlers: OutboxHandler[] = [];
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    @InjectRepository(OutboxEvent)
+    private outboxRepo: Repository<OutboxEvent>,
+    private configService: ConfigService,
+  ) {}
+
+  register(handler: OutboxHandler) {
+    this.handlers.push(handler);
+  }
+
+  onApplicationBootstrap() {
+    const interval = parseInt(
+      this.configService.get<string>('OUTBOX_DISPATCH_INTERVAL_MS', '5000'),
+      10,
+    );
+    if (interval > 0) {
+      this.timer = setInterval(() => void this.poll(), interval);
+    }
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.timer);
+  }
+
+  /**
+   * Dispatches up to one batch of due events and returns how many were attempted
+   */
+  async dispatchPending(): Promise<number> {
+    let count = 0;
+    while (count < BATCH_SIZE && (await this.dispatchNext())) {
+      count++;
+    }
+    return count;
+  }
+
+  private async poll() {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    try {
+      await this.dispatchPending();
+    } catch (error) {
+      this.logger.error('Outbox dispatch failed', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async dispatchNext(): Promise<boolean> {
+    const event = await this.claimNext();
+    if (!event) {
+      return false;
+    }
+
+    const errors: string[] = [];
+    for (const handler of this.handlers) {
+      if (event.completedHandlers.includes(handler.name)) {
+        continue;
+      }
+      try {
+        await handler.handle(event);
+        event.completedHandlers.push(handler.name);
+        await this.outboxRepo.update(event.id, {
+          completedHandlers: event.completedHandlers,
+        });
+      } catch (error) {
+        errors.push(
+          `${handler.name}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+
+    if (!errors.length) {
+      await this.outboxRepo.update(event.id, {
+        status: OutboxStatus.PROCESSED,
+        processedAt: new Date(),
+        lastError: null,
+      });
+      return true;
+    }
+    const attempts = event.attempts + 1;
+    const lastError = errors.join('; ');
+    const maxAttempts = parseInt(
+      this.configService.get<string>('OUTBOX_MAX_ATTEMPTS', '5'),
+      10,
+    );
+    const delay = Math.min(
+      BASE_RETRY_DELAY_MS * 2 ** (attempts - 1),
+      MAX_RETRY_DELAY_MS,
+    );
+    await this.outboxRepo.update(event.id, {
+      attempts,
+      lastError,
+      ...(attempts >= maxAttempts
+        ? { status: OutboxStatus.FAILED }
+        : { availableAt: new Date(Date.now() + delay) }),
+    });
+    this.logger.warn(
+      `Outbox event ${event.id} (${event.type}) failed on attempt ${attempts}: ${lastError}`,
+    );
+    return true;
+  }
+
+  /**
+   * Takes the next due event and keeps other dispatchers off it for CLAIM_TIMEOUT_MS
+   */
+  private claimNext(): Promise<OutboxEvent | null> {
+    return this.outboxRepo.manager.transaction(async (manager) => {
+      const event = await manager
+        .createQueryBuilder(OutboxEvent, 'event')
+        .where('event.status = :status', { status: OutboxStatus.PENDING })
+        .andWhere('event.availableAt <= now()')
+        .orderBy('event.id', 'ASC')
+        .setLock('pessimistic_write')
+        .setOnLocked('skip_locked')
+        .getOne();
+      if (event) {
+        await manager.update(OutboxEvent, event.id, {
+          availableAt: new Date(Date.now() + CLAIM_TIMEOUT_MS),
+        });
+      }
+      return event;
+    });
+  }
+}
@@ -0,0 +1,29 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+import { OutboxEvent } from '../entities/outbox-event.entity';
+
+@Injectable()
+export class OutboxService {
+  constructor(
+    @InjectRepository(OutboxEvent)
+    private outboxRepo: Repository<OutboxEvent>,
+  ) {}
+
+  /**
+   * Records an event; pass the manager of the surrounding transaction so the
+   * event is only published if that transaction commits
+   */
+  enqueue(
+    type: string,
+    payload: object,
+    manager: EntityManager = this.outboxRepo.manager,
+  ) {
+    return manager.save(
+      manager.create(OutboxEvent, {
+        type,
+        payload: payload as Record<string, unknown>,
+      }),
+    );
+  }
+}
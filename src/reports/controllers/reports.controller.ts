@@ -0,0 +1,139 @@
+import {
+  Controller,
+  Get,
+  Logger,
+  Query,
+  Request,
+  Res,
+  UseGuards,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiBearerAuth,
+  ApiResponse,
+  ApiForbiddenResponse,
+} from '@nestjs/swagger';
+import type { Response } from 'express';
+import { LeaveExportService } from '../services/leave-export.service';
+import { AbsenceAnalyticsService } from '../services/absence-analytics.service';
+import { JwtAuthGuard } from '../../auth/jwt/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/guards/roles.decorator';
+import { UserRole } from '../../users/entities/user.entity';
+import {
+  AbsenceReportQueryDto,
+  BradfordQueryDto,
+  LeaveExportQueryDto,
+} from '../dto/report.dto';
+
+/**
+ * Reports Controller
+ * Exports and absence analytics for HR, finance and managers
+ * Analytics are available to managers for their direct reports; exports require admin role
+ */
+@ApiTags('Reports')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('reports')
+export class ReportsController {
+  private readonly logger = new Logger(ReportsController.name);
+
+  constructor(
+    private leaveExportService: LeaveExportService,
+    private absenceAnalyticsService: AbsenceAnalyticsService,
+  ) {}
+
+  /**
+   * Get absence statistics
+   * Aggregates leave requests by month, leave type, user or department
+   */
+  @Get('absence')
+  @Roles(UserRole.ADMIN, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Get absence statistics (Manager/Admin)',
+    description:
+      "Groups the leave requests starting within from/to by month, leave type, user or department. Each group has the number of requests, approved and rejected decisions, approval rate, average hours from submission to decision and the working days of currently approved leave. Managers only see their own and their direct reports' requests.",
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns an array of statistics ordered by group key.',
+  })
+  @ApiResponse({ status: 400, description: 'Invalid grouping or date range' })
+  @ApiForbiddenResponse({
+    description: 'Access denied - only managers and admins can view reports.',
+  })
+  getAbsenceStatistics(
+    @Request() req,
+    @Query(new ValidationPipe({ transform: true }))
+    query: AbsenceReportQueryDto,
+  ) {
+    return this.absenceAnalyticsService.getAbsenceStatistics(req.user, query);
+  }
+
+  /**
+   * Get Bradford factors
+   * Scores frequent short sick absences higher than occasional long ones
+   */
+  @Get('bradford')
+  @Roles(UserRole.ADMIN, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Get Bradford factors (Manager/Admin)',
+    description:
+      'Returns S² × D per user with approved sick leave in the range (the last 52 weeks by default), where S is the number of spells (requests) and D the working days absent, highest first. The sick leave type is chosen by code (SICK by default).',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Returns an array of users with spells, days and Bradford factor.',
+  })
+  @ApiForbiddenResponse({
+    description: 'Access denied - only managers and admins can view reports.',
+  })
+  getBradfordFactors(
+    @Request() req,
+    @Query(new ValidationPipe({ transform: true })) query: BradfordQueryDto,
+  ) {
+    return this.absenceAnalyticsService.getBradfordFactors(req.user, query);
+  }
+
+  /**
+   * Export leave records
+   * Streams one row per leave (or per leave and month) as CSV or XLSX for payroll
+   */
+  @Get('leaves/export')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Export leave records (Admin only)',
+    description:
+      'Downloads leaves overlapping from/to with employee, type, dates, working days and status. Only approved leaves are exported unless status is given. With splitByMonth=true a leave spanning several calendar months becomes one row per month, limited to from/to, with the working days falling in that month.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the CSV or XLSX file as a download.',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Unknown format or status, invalid dates, or to before from',
+  })
+  @ApiForbiddenResponse({
+    description: 'Access denied - only admins can export leave records.',
+  })
+  async exportLeaves(
+    @Query(new ValidationPipe({ transform: true })) query: LeaveExportQueryDto,
+    @Res() res: Response,
+  ) {
+    const leaveExport = this.leaveExportService.createExport(query);
+    res.attachment(leaveExport.fileName);
+    res.set('Content-Type', leaveExport.contentType);
+    res.set('Cache-Control', 'private, no-store');
+    try {
+      await leaveExport.write(res);
+    } catch (error) {
+      // Headers are already sent, so the client can only notice the truncated download
+      this.logger.error('Leave export failed', error);
+      res.destroy();
+    }
+  }
+}
@@ -0,0 +1,116 @@
+import {
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { LeaveStatus } from '../../leaves/entities/leave.entity';
+
+export enum ExportFormat {
+  CSV = 'csv',
+  XLSX = 'xlsx',
+}
+
+export class LeaveExportQueryDto {
+  @ApiProperty({ enum: ExportFormat, required: false, default: 'csv' })
+  @IsOptional()
+  @IsEnum(ExportFormat)
+  format: ExportFormat = ExportFormat.CSV;
+
+  @ApiProperty({
+    example: '2025-01-01',
+    required: false,
+    description: 'Only export leaves ending on or after this date',
+  })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiProperty({
+    example: '2025-01-31',
+    required: false,
+    description: 'Only export leaves starting on or before this date',
+  })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @ApiProperty({
+    enum: LeaveStatus,
+    required: false,
+    default: LeaveStatus.APPROVED,
+  })
+  @IsOptional()
+  @IsEnum(LeaveStatus)
+  status: LeaveStatus = LeaveStatus.APPROVED;
+
+  @ApiProperty({
+    example: true,
+    required: false,
+    description:
+      'Export one row per calendar month of each leave, with the working days in that month. Rows are clipped to from/to.',
+  })
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    value === 'true' ? true : value === 'false' ? false : value,
+  )
+  @IsBoolean()
+  splitByMonth?: boolean;
+}
+
+export enum AbsenceGroupBy {
+  MONTH = 'month',
+  TYPE = 'type',
+  USER = 'user',
+  DEPARTMENT = 'department',
+}
+
+export class ReportRangeQueryDto {
+  @ApiProperty({
+    example: '2025-01-01',
+    required: false,
+    description: 'Only include leaves starting on or after this date',
+  })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiProperty({
+    example: '2025-12-31',
+    required: false,
+    description: 'Only include leaves starting on or before this date',
+  })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+}
+
+export class AbsenceReportQueryDto extends ReportRangeQueryDto {
+  @ApiProperty({ enum: AbsenceGroupBy, example: AbsenceGroupBy.MONTH })
+  @IsEnum(AbsenceGroupBy)
+  groupBy: AbsenceGroupBy;
+
+  @ApiProperty({
+    example: 'ANNUAL',
+    required: false,
+    description: 'Only include leaves of this leave type code',
+  })
+  @IsOptional()
+  @IsString()
+  type?: string;
+}
+
+export class BradfordQueryDto extends ReportRangeQueryDto {
+  @ApiProperty({
+    example: 'SICK',
+    required: false,
+    default: 'SICK',
+    description: 'Code of the sick leave type',
+  })
+  @IsOptional()
+  @IsString()
+  type: string = 'SICK';
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Leave } from '../leaves/entities/leave.entity';
+import { LeaveExportService } from './services/leave-export.service';
+import { AbsenceAnalyticsService } from './services/absence-analytics.service';
+import { ReportsController } from './controllers/reports.controller';
+import { HolidaysModule } from '../holidays/holidays.module';
+import { LeavesModule } from '../leaves/leaves.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Leave]), HolidaysModule, LeavesModule],
+  providers: [LeaveExportService, AbsenceAnalyticsService],
+  controllers: [ReportsController],
+})
+export class ReportsModule {}
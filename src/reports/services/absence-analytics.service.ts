@@ -0,0 +1,232 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, SelectQueryBuilder } from 'typeorm';
+import { Leave, LeaveStatus } from '../../leaves/entities/leave.entity';
+import {
+  LeaveEvent,
+  LeaveEventAction,
+} from '../../leaves/entities/leave-event.entity';
+import { LeaveAccessService } from '../../leaves/services/leave-access.service';
+import { AuthUser } from '../../auth/interfaces/auth-user.interface';
+import {
+  AbsenceGroupBy,
+  AbsenceReportQueryDto,
+  BradfordQueryDto,
+  ReportRangeQueryDto,
+} from '../dto/report.dto';
+import { addDays, formatDate } from '../../common/utils/dates';
+
+/** Bradford factors are conventionally taken over a rolling 52 weeks */
+const BRADFORD_WINDOW_DAYS = 52 * 7;
+
+/** SQL for the key and label of each grouping */
+const GROUPS: Record<AbsenceGroupBy, { key: string; label: string }> = {
+  [AbsenceGroupBy.MONTH]: {
+    key: 'SUBSTRING(leave.startDate, 1, 7)',
+    label: 'SUBSTRING(leave.startDate, 1, 7)',
+  },
+  [AbsenceGroupBy.TYPE]: { key: 'type.code', label: 'type.name' },
+  [AbsenceGroupBy.USER]: {
+    key: 'CAST(user.id AS varchar)',
+    label: 'COALESCE(user.name, user.email)',
+  },
+  [AbsenceGroupBy.DEPARTMENT]: {
+    key: 'CAST(department.id AS varchar)',
+    label: "COALESCE(department.name, 'No department')",
+  },
+};
+
+export interface AbsenceStatistics {
+  /** Month (YYYY-MM), type code, user ID or department ID; null for users without a department */
+  key: string | null;
+  label: string;
+  requests: number;
+  approved: number;
+  rejected: number;
+  /** Share of decided requests that were approved; null when none were decided */
+  approvalRate: number | null;
+  /** Average time from submission to the final approval or rejection */
+  averageTurnaroundHours: number | null;
+  /** Working days of leaves that are currently approved */
+  daysTaken: number;
+}
+
+export interface BradfordScore {
+  user: { id: number; name: string; email: string };
+  spells: number;
+  days: number;
+  bradfordFactor: number;
+}
+
+interface RawStatistics {
+  key: string | null;
+  label: string;
+  requests: string;
+  approved: string;
+  rejected: string;
+  approvalRate: string | null;
+  averageTurnaroundHours: string | null;
+  daysTaken: string;
+}
+
+interface RawBradford {
+  userId: number;
+  name: string;
+  email: string;
+  spells: string;
+  days: string;
+  bradfordFactor: string;
+}
+
+/**
+ * Absence Analytics Service
+ * Aggregates leave requests in SQL. Leaves count towards the period and month
+ * they start in. Managers only see figures for themselves and their direct reports.
+ */
+@Injectable()
+export class AbsenceAnalyticsService {
+  constructor(
+    @InjectRepository(Leave)
+    private leaveRepo: Repository<Leave>,
+    private leaveAccessService: LeaveAccessService,
+  ) {}
+
+  async getAbsenceStatistics(
+    actor: AuthUser,
+    query: AbsenceReportQueryDto,
+  ): Promise<AbsenceStatistics[]> {
+    this.assertRange(query);
+    const group = GROUPS[query.groupBy];
+    const qb = this.baseQuery(actor, query)
+      .leftJoin('user.department', 'department')
+      .leftJoin(
+        (subQuery) =>
+          subQuery
+            .select('event.leaveId', 'leaveId')
+            .addSelect('MIN(event.createdAt)', 'decidedAt')
+            .addSelect('BOOL_OR(event.action = :approvedAction)', 'approved')
+            .from(LeaveEvent, 'event')
+            .where('event.action IN (:...decisionActions)')
+            .groupBy('event.leaveId'),
+        'decision',
+        '"decision"."leaveId" = leave.id',
+      )
+      .setParameters({
+        approvedAction: LeaveEventAction.APPROVED,
+        decisionActions: [LeaveEventAction.APPROVED, LeaveEventAction.REJECTED],
+        approvedStatus: LeaveStatus.APPROVED,
+      })
+      .select(group.key, 'key')
+      .addSelect(group.label, 'label')
+      .addSelect('COUNT(*)', 'requests')
+      .addSelect('COUNT(*) FILTER (WHERE "decision"."approved")', 'approved')
+      .addSelect(
+        'COUNT(*) FILTER (WHERE NOT "decision"."approved")',
+        'rejected',
+      )
+      .addSelect(
+        'ROUND(COUNT(*) FILTER (WHERE "decision"."approved")::numeric / NULLIF(COUNT("decision"."leaveId"), 0), 4)',
+        'approvalRate',
+      )
+      .addSelect(
+        'ROUND(AVG(EXTRACT(EPOCH FROM ("decision"."decidedAt" - leave.createdAt)) / 3600)::numeric, 2)',
+        'averageTurnaroundHours',
+      )
+      .addSelect(
+        'COALESCE(SUM(leave.workingDays) FILTER (WHERE leave.status = :approvedStatus), 0)',
+        'daysTaken',
+      );
+    if (query.type) {
+      qb.andWhere('type.code = :type', { type: query.type.toUpperCase() });
+    }
+
+    const rows = await qb
+      .groupBy(group.key)
+      .addGroupBy(group.label)
+      .orderBy(group.key, 'ASC', 'NULLS LAST')
+      .getRawMany<RawStatistics>();
+    return rows.map((row) => ({
+      key: row.key,
+      label: row.label,
+      requests: Number(row.requests),
+      approved: Number(row.approved),
+      rejected: Number(row.rejected),
+      approvalRate: row.approvalRate === null ? null : Number(row.approvalRate),
+      averageTurnaroundHours:
+        row.averageTurnaroundHours === null
+          ? null
+          : Number(row.averageTurnaroundHours),
+      daysTaken: Number(row.daysTaken),
+    }));
+  }
+
+  /**
+   * Bradford factor S² × D per user, where S is the number of approved sick
+   * leave requests (spells) and D their working days. Defaults to the last 52 weeks.
+   */
+  async getBradfordFactors(
+    actor: AuthUser,
+    query: BradfordQueryDto,
+  ): Promise<BradfordScore[]> {
+    const to = query.to ?? formatDate(new Date());
+    const from = query.from ?? addDays(to, -BRADFORD_WINDOW_DAYS + 1);
+    this.assertRange({ from, to });
+
+    const rows = await this.baseQuery(actor, { from, to })
+      .andWhere('leave.status = :status', { status: LeaveStatus.APPROVED })
+      .andWhere('type.code = :type', { type: query.type.toUpperCase() })
+      .select('user.id', 'userId')
+      .addSelect('user.name', 'name')
+      .addSelect('user.email', 'email')
+      .addSelect('COUNT(*)', 'spells')
+      .addSelect('SUM(leave.workingDays)', 'days')
+      .addSelect(
+        'COUNT(*) * COUNT(*) * SUM(leave.workingDays)',
+        'bradfordFactor',
+      )
+      .groupBy('user.id')
+      .addGroupBy('user.name')
+      .addGroupBy('user.email')
+      .orderBy('"bradfordFactor"', 'DESC')
+      .addOrderBy('user.id', 'ASC')
+      .getRawMany<RawBradford>();
+    return rows.map((row) => ({
+      user: { id: row.userId, name: row.name, email: row.email },
+      spells: Number(row.spells),
+      days: Number(row.days),
+      bradfordFactor: Number(row.bradfordFactor),
+    }));
+  }
+
+  /**
+   * Leaves visible to the actor that start within the range
+   */
+  private baseQuery(
+    actor: AuthUser,
+    range: ReportRangeQueryDto,
+  ): SelectQueryBuilder<Leave> {
+    const qb = this.leaveRepo
+      .createQueryBuilder('leave')
+      .innerJoin('leave.user', 'user')
+      .innerJoin('leave.type', 'type');
+    this.leaveAccessService.applyScope(qb, actor);
+    if (range.from) {
+      qb.andWhere('leave.startDate >= :from', {
+        from: range.from.substring(0, 10),
+      });
+    }
+    if (range.to) {
+      // Also matches start dates stored with a time component on the last day
+      qb.andWhere('leave.startDate <= :to', {
+        to: `${range.to.substring(0, 10)}T23:59:59`,
+      });
+    }
+    return qb;
+  }
+
+  private assertRange(range: ReportRangeQueryDto) {
+    if (range.from && range.to && range.to < range.from) {
+      throw new BadRequestException('to must not be before from');
+    }
+  }
+}
@@ -0,0 +1,233 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Writable } from 'stream';
+import { once } from 'events';
+import * as ExcelJS from 'exceljs';
+import { Leave } from '../../leaves/entities/leave.entity';
+import { HolidaysService } from '../../holidays/services/holidays.service';
+import { countLeaveDays } from '../../leaves/services/leave-duration';
+import { ExportFormat, LeaveExportQueryDto } from '../dto/report.dto';
+import { toCsvRow } from '../../common/utils/csv';
+import { eachDate, splitByMonth } from '../../common/utils/dates';
+
+const BATCH_SIZE = 500;
+
+type ExportValue = string | number | null;
+
+interface ExportColumn {
+  header: string;
+  width: number;
+}
+
+const COLUMNS: ExportColumn[] = [
+  { header: 'Leave ID', width: 10 },
+  { header: 'Employee ID', width: 12 },
+  { header: 'Employee', width: 28 },
+  { header: 'Email', width: 32 },
+  { header: 'Type code', width: 12 },
+  { header: 'Type', width: 20 },
+  { header: 'Start date', width: 12 },
+  { header: 'End date', width: 12 },
+  { header: 'Working days', width: 13 },
+  { header: 'Hours', width: 8 },
+  { header: 'Status', width: 12 },
+];
+
+const PERIOD_COLUMN: ExportColumn = { header: 'Period', width: 10 };
+
+export interface LeaveExport {
+  fileName: string;
+  contentType: string;
+  write(output: Writable): Promise<void>;
+}
+
+/**
+ * Leave Export Service
+ * Writes leave records for payroll as CSV or XLSX. Leaves are read in keyset
+ * batches and written as they arrive, so exports of any size use constant memory.
+ */
+@Injectable()
+export class LeaveExportService {
+  constructor(
+    @InjectRepository(Leave)
+    private leaveRepo: Repository<Leave>,
+    private holidaysService: HolidaysService,
+  ) {}
+
+  /**
+   * Validates the query up front so errors are reported before the response starts
+   */
+  createExport(query: LeaveExportQueryDto): LeaveExport {
+    if (query.from && query.to && query.to < query.from) {
+      throw new BadRequestException('to must not be before from');
+    }
+    const columns = query.splitByMonth ? [PERIOD_COLUMN, ...COLUMNS] : COLUMNS;
+    const fileName = [
+      'leaves',
+      query.status.toLowerCase(),
+      query.from?.substring(0, 10),
+      query.to?.substring(0, 10),
+    ]
+      .filter(Boolean)
+      .join('-');
+
+    if (query.format === ExportFormat.XLSX) {
+      return {
+        fileName: `${fileName}.xlsx`,
+        contentType:
+          'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        write: (output) => this.writeXlsx(query, columns, output),
+      };
+    }
+    return {
+      fileName: `${fileName}.csv`,
+      contentType: 'text/csv; charset=utf-8',
+      write: (output) => this.writeCsv(query, columns, output),
+    };
+  }
+
+  private async writeCsv(
+    query: LeaveExportQueryDto,
+    columns: ExportColumn[],
+    output: Writable,
+  ) {
+    const write = async (chunk: string) => {
+      if (!output.write(chunk)) {
+        await once(output, 'drain');
+      }
+    };
+    await write(toCsvRow(columns.map((column) => column.header)));
+    for await (const row of this.rows(query)) {
+      await write(toCsvRow(row));
+    }
+    output.end();
+  }
+
+  private async writeXlsx(
+    query: LeaveExportQueryDto,
+    columns: ExportColumn[],
+    output: Writable,
+  ) {
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+      stream: output,
+      useStyles: true,
+    });
+    const sheet = workbook.addWorksheet('Leaves', {
+      views: [{ state: 'frozen', ySplit: 1 }],
+    });
+    sheet.columns = columns.map((column) => ({
+      header: column.header,
+      width: column.width,
+    }));
+    sheet.getRow(1).font = { bold: true };
+    sheet.getRow(1).commit();
+    for await (const row of this.rows(query)) {
+      sheet.addRow(row).commit();
+    }
+    sheet.commit();
+    await workbook.commit();
+  }
+
+  /**
+   * One row per matching leave, or per calendar month of each leave when splitting
+   */
+  private async *rows(
+    query: LeaveExportQueryDto,
+  ): AsyncGenerator<ExportValue[]> {
+    const isWorkingDay = query.splitByMonth
+      ? await this.holidaysService.getWorkingDayPredicate()
+      : undefined;
+    for await (const leave of this.leaves(query)) {
+      const values: ExportValue[] = [
+        leave.id,
+        leave.user.id,
+        leave.user.name,
+        leave.user.email,
+        leave.type.code,
+        leave.type.name,
+      ];
+      if (!isWorkingDay) {
+        yield [
+          ...values,
+          leave.startDate,
+          leave.endDate,
+          leave.workingDays,
+          leave.hours,
+          leave.status,
+        ];
+        continue;
+      }
+
+      const from = this.later(leave.startDate, query.from);
+      const to = this.earlier(leave.endDate, query.to);
+      for (const range of splitByMonth(from, to)) {
+        // Hourly leave covers a single day, so it never spans months
+        const workingDays =
+          leave.hours !== null
+            ? leave.workingDays
+            : countLeaveDays(
+                eachDate(range.startDate, range.endDate).filter(isWorkingDay),
+                leave,
+              );
+        yield [
+          range.startDate.substring(0, 7),
+          ...values,
+          range.startDate,
+          range.endDate,
+          workingDays,
+          leave.hours,
+          leave.status,
+        ];
+      }
+    }
+  }
+
+  private async *leaves(query: LeaveExportQueryDto): AsyncGenerator<Leave> {
+    let after: { startDate: string; id: number } | undefined;
+    for (;;) {
+      const qb = this.leaveRepo
+        .createQueryBuilder('leave')
+        .innerJoin('leave.user', 'user')
+        .addSelect(['user.id', 'user.name', 'user.email'])
+        .innerJoinAndSelect('leave.type', 'type')
+        .where('leave.status = :status', { status: query.status });
+      // Date filters select every leave overlapping the range, like GET /leaves
+      if (query.from) {
+        qb.andWhere('leave.endDate >= :from', { from: query.from });
+      }
+      if (query.to) {
+        qb.andWhere('leave.startDate <= :to', { to: query.to });
+      }
+      if (after) {
+        qb.andWhere('(leave.startDate, leave.id) > (:afterDate, :afterId)', {
+          afterDate: after.startDate,
+          afterId: after.id,
+        });
+      }
+      const batch = await qb
+        .orderBy('leave.startDate', 'ASC')
+        .addOrderBy('leave.id', 'ASC')
+        .take(BATCH_SIZE)
+        .getMany();
+      yield* batch;
+      if (batch.length < BATCH_SIZE) {
+        return;
+      }
+      const last = batch[batch.length - 1];
+      after = { startDate: last.startDate, id: last.id };
+    }
+  }
+
+  private later(date: string, bound?: string) {
+    return bound && bound.substring(0, 10) > date
+      ? bound.substring(0, 10)
+      : date;
+  }
+
+  private earlier(date: string, bound?: string) {
+    return bound && bound.substring(0, 10) < date
+      ? bound.substring(0, 10)
+      : date;
+  }
+}
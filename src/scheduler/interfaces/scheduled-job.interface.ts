@@ -0,0 +1,9 @@
+/**
+ * Periodic job, registered with SchedulerService.register()
+ * Jobs must be idempotent: a run that is interrupted is simply repeated on the next tick.
+ */
+export interface ScheduledJob {
+  /** Unique name, also used as the key of the job's database lock */
+  readonly name: string;
+  run(): Promise<void>;
+}
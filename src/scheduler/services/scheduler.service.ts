@@ -0,0 +1,96 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DataSource } from 'typeorm';
+import { ScheduledJob } from '../interfaces/scheduled-job.interface';
+
+/**
+ * Scheduler
+ * Runs the registered jobs every SCHEDULER_INTERVAL_MS (0 disables the timer).
+ * Each run holds a Postgres advisory lock named after the job, so when several
+ * instances tick at the same time only one of them runs a given job.
+ */
+@Injectable()
+export class SchedulerService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(SchedulerService.name);
+  private readonly jobs: ScheduledJob[] = [];
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private dataSource: DataSource,
+    private configService: ConfigService,
+  ) {}
+
+  register(job: ScheduledJob) {
+    this.jobs.push(job);
+  }
+
+  onApplicationBootstrap() {
+    const interval = parseInt(
+      this.configService.get<string>('SCHEDULER_INTERVAL_MS', '60000'),
+      10,
+    );
+    if (interval > 0) {
+      this.timer = setInterval(() => void this.tick(), interval);
+    }
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.timer);
+  }
+
+  /**
+   * Runs every job once; returns the names of the jobs this instance ran,
+   * leaving out those locked by another instance
+   */
+  async runAll(): Promise<string[]> {
+    const ran: string[] = [];
+    for (const job of this.jobs) {
+      try {
+        if (await this.runLocked(job)) {
+          ran.push(job.name);
+        }
+      } catch (error) {
+        this.logger.error(`Scheduled job ${job.name} failed`, error);
+      }
+    }
+    return ran;
+  }
+
+  private async tick() {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    try {
+      await this.runAll();
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * The transaction-level lock is released when the transaction ends, including
+   * when the process dies, so a crashed instance never blocks a job for good
+   */
+  private runLocked(job: ScheduledJob): Promise<boolean> {
+    return this.dataSource.transaction(async (manager) => {
+      const [{ locked }] = await manager.query<{ locked: boolean }[]>(
+        'SELECT pg_try_advisory_xact_lock(hashtext($1)) AS locked',
+        [`scheduler:${job.name}`],
+      );
+      if (!locked) {
+        return false;
+      }
+      await job.run();
+      return true;
+    });
+  }
+}
@@ -0,0 +1,12 @@
+import { Readable } from 'stream';
+
+/**
+ * File Storage
+ * Keeps uploaded files under opaque keys. Inject this class; StorageModule
+ * decides which implementation backs it from the STORAGE_DRIVER setting.
+ */
+export abstract class FileStorage {
+  abstract put(key: string, content: Buffer): Promise<void>;
+  abstract read(key: string): Promise<Readable>;
+  abstract delete(key: string): Promise<void>;
+}
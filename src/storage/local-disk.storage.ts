@@ -0,0 +1,44 @@
+import { ConfigService } from '@nestjs/config';
+import { createReadStream } from 'fs';
+import { access, mkdir, rm, writeFile } from 'fs/promises';
+import { dirname, join, resolve, sep } from 'path';
+import { Readable } from 'stream';
+import { FileStorage } from './file-storage';
+
+/**
+ * Local Disk Storage
+ * Stores files below STORAGE_DIR, one file per key
+ */
+export class LocalDiskStorage extends FileStorage {
+  private root: string;
+
+  constructor(configService: ConfigService) {
+    super();
+    this.root = resolve(configService.get<string>('STORAGE_DIR', 'storage'));
+  }
+
+  async put(key: string, content: Buffer): Promise<void> {
+    const path = this.pathOf(key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, content);
+  }
+
+  async read(key: string): Promise<Readable> {
+    const path = this.pathOf(key);
+    // Fail before the response starts streaming rather than halfway through
+    await access(path);
+    return createReadStream(path);
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.pathOf(key), { force: true });
+  }
+
+  private pathOf(key: string) {
+    const path = resolve(join(this.root, key));
+    if (!path.startsWith(this.root + sep)) {
+      throw new Error(`Invalid storage key ${key}`);
+    }
+    return path;
+  }
+}
@@ -0,0 +1,27 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { FileStorage } from './file-storage';
+import { LocalDiskStorage } from './local-disk.storage';
+
+/**
+ * Storage Module
+ * Provides the FileStorage selected by STORAGE_DRIVER (only local for now)
+ */
+@Global()
+@Module({
+  providers: [
+    {
+      provide: FileStorage,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService): FileStorage => {
+        const driver = configService.get<string>('STORAGE_DRIVER', 'local');
+        if (driver !== 'local') {
+          throw new Error(`Unsupported STORAGE_DRIVER ${driver}`);
+        }
+        return new LocalDiskStorage(configService);
+      },
+    },
+  ],
+  exports: [FileStorage],
+})
+export class StorageModule {}
@@ -1,11 +1,45 @@
-import { Controller, Get, Put, Delete, Param, Body, UseGuards, ValidationPipe } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiBearerAuth, ApiResponse, ApiForbiddenResponse, ApiNotFoundResponse } from '@nestjs/swagger';
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Param,
+  Body,
+  Query,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  ValidationPipe,
+  ParseIntPipe,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiBearerAuth,
+  ApiResponse,
+  ApiConsumes,
+  ApiBody,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+} from '@nestjs/swagger';
 import { UsersService } from '../services/users.service';
+import { UserImportService } from '../services/user-import.service';
+import { LoginThrottleService } from '../../auth/services/login-throttle.service';
 import { JwtAuthGuard } from '../../auth/jwt/jwt-auth.guard';
 import { RolesGuard } from '../../common/guards/roles.guard';
 import { Roles } from '../../common/guards/roles.decorator';
 import { UserRole } from '../entities/user.entity';
-import { UpdateUserDto } from '../dto/user.dto';
+import {
+  UpdateUserDto,
+  UserQueryDto,
+  UserImportQueryDto,
+} from '../dto/user.dto';
+
+const MAX_IMPORT_BYTES = 1024 * 1024;
 
 /**
  * Users Controller
@@ -17,7 +51,11 @@ import { UpdateUserDto } from '../dto/user.dto';
 @UseGuards(JwtAuthGuard, RolesGuard)
 @Controller('users')
 export class UsersController {
-  constructor(private usersService: UsersService) {}
+  constructor(
+    private usersService: UsersService,
+    private userImportService: UserImportService,
+    private loginThrottleService: LoginThrottleService,
+  ) {}
 
   /**
    * Get all users
@@ -27,12 +65,65 @@ export class UsersController {
   @Roles(UserRole.ADMIN)
   @ApiOperation({ 
     summary: 'Get all users (Admin only)',
-    description: 'Retrieves a complete list of all registered users including their email, name, role, and registration date.'
+    description:
+      'Retrieves a paginated list of registered users including their email, name, role, manager and registration date. Supports filtering by role and searching by name or email.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns a page of users with paging metadata.',
   })
-  @ApiResponse({ status: 200, description: 'Returns an array of all users in the system.' })
   @ApiForbiddenResponse({ description: 'Access denied - only admins can access this endpoint.' })
-  findAll() {
-    return this.usersService.findAll();
+  findAll(@Query(new ValidationPipe({ transform: true })) query: UserQueryDto) {
+    return this.usersService.findAll(query);
+  }
+
+  /**
+   * Import users from CSV
+   * Creates many users at once and emails each of them a link to set their password
+   */
+  @Post('import')
+  @Roles(UserRole.ADMIN)
+  @UseInterceptors(
+    FileInterceptor('file', {
+      limits: { files: 1, fileSize: MAX_IMPORT_BYTES },
+    }),
+  )
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['file'],
+      properties: { file: { type: 'string', format: 'binary' } },
+    },
+  })
+  @ApiOperation({
+    summary: 'Import users from CSV (Admin only)',
+    description:
+      'Uploads a CSV (up to 1000 rows) with the header columns email, name, role (user, manager or admin; default user), manager_email and one optional column per leave type code holding the starting entitlement for the year. Managers can be existing users or other rows of the file. With dryRun=true nothing is saved and every row error is reported. Otherwise all users are created in one transaction, or none if any row is invalid, and each receives an invite email with a single-use link to set their password (redeemed through POST /auth/reset-password).',
+  })
+  @ApiResponse({
+    status: 201,
+    description:
+      'Returns the users to be created (dry run) or created, and the row errors.',
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'No file, too many rows, or invalid rows (listed in errors) - nothing was imported.',
+  })
+  @ApiResponse({
+    status: 409,
+    description:
+      'One of the emails was registered during the import - nothing was imported.',
+  })
+  @ApiForbiddenResponse({
+    description: 'Access denied - only admins can import users.',
+  })
+  importUsers(
+    @UploadedFile() file: Express.Multer.File | undefined,
+    @Query(new ValidationPipe({ transform: true })) query: UserImportQueryDto,
+  ) {
+    return this.userImportService.import(file?.buffer, query);
   }
 
   /**
@@ -61,7 +152,8 @@ export class UsersController {
   @Roles(UserRole.ADMIN)
   @ApiOperation({ 
     summary: 'Update user (Admin only)',
-    description: 'Updates user information. Can modify name or role. The email cannot be changed after registration.'
+    description:
+      'Updates user information. Can modify name, role, direct manager or department. Reporting lines cannot be circular.',
   })
   @ApiResponse({ status: 200, description: 'User updated successfully. Returns the updated user details.' })
   @ApiResponse({ status: 404, description: 'User not found - no user exists with the provided ID.' })
@@ -73,6 +165,32 @@ export class UsersController {
     return this.usersService.update(id, data);
   }
 
+  /**
+   * Unlock user
+   * Lifts a temporary lock caused by repeated failed logins
+   */
+  @Post(':id/unlock')
+  @Roles(UserRole.ADMIN)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Unlock user (Admin only)',
+    description:
+      'Lifts the temporary lock set after too many failed login attempts and clears the failed attempt count of the account.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'User unlocked. Returns the user details.',
+  })
+  @ApiNotFoundResponse({
+    description: 'User not found - no user exists with the provided ID.',
+  })
+  @ApiForbiddenResponse({
+    description: 'Access denied - only admins can access this endpoint.',
+  })
+  unlock(@Param('id', ParseIntPipe) id: number) {
+    return this.loginThrottleService.unlock(id);
+  }
+
   /**
    * Delete user
    * Removes a user from the system (irreversible action)
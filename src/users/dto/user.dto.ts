@@ -1,5 +1,18 @@
-import { IsEmail, IsOptional, IsString } from 'class-validator';
+import {
+  IsBoolean,
+  IsEmail,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
 import { ApiProperty } from '@nestjs/swagger';
+import { UserRole } from '../entities/user.entity';
+import { PaginationQueryDto } from '../../common/dto/pagination.dto';
 
 export class UpdateUserDto {
   @ApiProperty({ example: 'newemail@example.com', required: false })
@@ -11,4 +24,85 @@ export class UpdateUserDto {
   @IsOptional()
   @IsString()
   name?: string;
+
+  @ApiProperty({ example: UserRole.MANAGER, enum: UserRole, required: false })
+  @IsOptional()
+  @IsEnum(UserRole)
+  role?: UserRole;
+
+  @ApiProperty({
+    example: 2,
+    required: false,
+    nullable: true,
+    description: 'ID of the direct manager; null removes the manager',
+  })
+  @IsOptional()
+  @IsInt()
+  managerId?: number | null;
+
+  @ApiProperty({
+    example: 3,
+    required: false,
+    nullable: true,
+    description:
+      'ID of the department; null removes the user from their department',
+  })
+  @IsOptional()
+  @IsInt()
+  departmentId?: number | null;
+}
+
+export const USER_SORT_FIELDS = ['createdAt', 'name', 'email'] as const;
+
+export class UserQueryDto extends PaginationQueryDto {
+  @ApiProperty({ enum: UserRole, required: false })
+  @IsOptional()
+  @IsEnum(UserRole)
+  role?: UserRole;
+
+  @ApiProperty({
+    example: 'john',
+    required: false,
+    description: 'Case-insensitive match on name or email',
+  })
+  @IsOptional()
+  @IsString()
+  search?: string;
+
+  @ApiProperty({
+    enum: USER_SORT_FIELDS,
+    required: false,
+    description: 'Sort field (default createdAt)',
+  })
+  @IsOptional()
+  @IsIn(USER_SORT_FIELDS)
+  sort: (typeof USER_SORT_FIELDS)[number] = 'createdAt';
+}
+
+export class UserImportQueryDto {
+  @ApiProperty({
+    example: true,
+    required: false,
+    description:
+      'Validate the file and report what would be created without saving anything',
+  })
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    value === 'true' ? true : value === 'false' ? false : value,
+  )
+  @IsBoolean()
+  dryRun?: boolean;
+
+  @ApiProperty({
+    example: 2025,
+    required: false,
+    description:
+      'Year the starting balances apply to (defaults to the current year)',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(2000)
+  @Max(2100)
+  year?: number;
 }
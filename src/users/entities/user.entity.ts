@@ -1,18 +1,32 @@
-import { Entity, PrimaryGeneratedColumn, Column, OneToMany, CreateDateColumn, UpdateDateColumn } from 'typeorm';
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  OneToMany,
+  ManyToOne,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
 import { Exclude } from 'class-transformer';
 import { Leave } from '../../leaves/entities/leave.entity';
+import { Department } from '../../departments/entities/department.entity';
+import { emailTransformer } from '../../common/transformers/email.transformer';
 
 export enum UserRole {
   USER = 'user',
+  MANAGER = 'manager',
   ADMIN = 'admin',
 }
 
+/** Roles that may have direct reports */
+export const MANAGER_ROLES = [UserRole.MANAGER, UserRole.ADMIN];
+
 @Entity()
 export class User {
   @PrimaryGeneratedColumn()
   id: number;
 
-  @Column({ unique: true })
+  @Column({ unique: true, transformer: emailTransformer })
   email: string;
 
   @Exclude()
@@ -29,9 +43,32 @@ export class User {
   })
   role: UserRole;
 
+  @ManyToOne(() => User, (user) => user.reports, {
+    nullable: true,
+    onDelete: 'SET NULL',
+  })
+  manager: User | null;
+
+  @OneToMany(() => User, (user) => user.manager)
+  reports: User[];
+
+  @ManyToOne(() => Department, (department) => department.members, {
+    nullable: true,
+    onDelete: 'SET NULL',
+  })
+  department: Department | null;
+
   @OneToMany(() => Leave, (leave) => leave.user)
   leaves: Leave[];
 
+  // Bumped to invalidate every access token issued before (log out all sessions)
+  @Column({ default: 0, select: false })
+  tokenVersion: number;
+
+  // Set after too many failed logins; logins are refused until then unless an admin unlocks the account
+  @Column({ type: 'timestamp', nullable: true })
+  lockedUntil: Date | null;
+
   @CreateDateColumn()
   createdAt: Date;
 
@@ -0,0 +1,51 @@
+import { User, UserRole } from '../entities/user.entity';
+
+/**
+ * Outbox event types published when accounts change
+ */
+export enum UserDomainEvent {
+  CREATED = 'user.created',
+  UPDATED = 'user.updated',
+  DELETED = 'user.deleted',
+  /** Sign-in was blocked for a while after too many failed attempts */
+  LOCKED = 'user.locked',
+  /** An account was created on the user's behalf; they are emailed a set-password link */
+  INVITED = 'user.invited',
+}
+
+export interface UserEventPayload {
+  user: {
+    id: number;
+    email: string;
+    name: string;
+    role: UserRole;
+    managerId: number | null;
+  };
+}
+
+export interface UserLockedPayload {
+  user: { id: number; email: string; name: string };
+  lockedUntil: string;
+  failures: number;
+  /** Address of the last failed attempt */
+  ip: string;
+}
+
+export interface UserInvitedPayload {
+  user: { id: number; email: string; name: string };
+}
+
+/**
+ * Expects user.manager to be loaded when the user has one
+ */
+export function toUserEventPayload(user: User): UserEventPayload {
+  return {
+    user: {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      role: user.role,
+      managerId: user.manager?.id ?? null,
+    },
+  };
+}
@@ -0,0 +1,405 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { QueryFailedError, Repository } from 'typeorm';
+import { isEmail } from 'class-validator';
+import { randomBytes } from 'crypto';
+import * as bcrypt from 'bcrypt';
+import { MANAGER_ROLES, User, UserRole } from '../entities/user.entity';
+import { UserImportQueryDto } from '../dto/user.dto';
+import {
+  UserDomainEvent,
+  UserInvitedPayload,
+  toUserEventPayload,
+} from '../events/user-domain-event';
+import { OutboxService } from '../../outbox/services/outbox.service';
+import { LeaveTypesService } from '../../leave-types/services/leave-types.service';
+import { LeaveEntitlement } from '../../balances/entities/leave-entitlement.entity';
+import { LeaveType } from '../../leave-types/entities/leave-type.entity';
+import { parseCsv } from '../../common/utils/csv';
+import { normalizeEmail } from '../../common/transformers/email.transformer';
+
+const MAX_ROWS = 1000;
+const MAX_BALANCE_DAYS = 9999;
+
+/** Known columns by normalized header; every other column is a leave type code */
+const COLUMNS = {
+  email: 'email',
+  name: 'name',
+  role: 'role',
+  manageremail: 'managerEmail',
+} as const;
+
+type ImportField = (typeof COLUMNS)[keyof typeof COLUMNS];
+
+export interface UserImportError {
+  /** Record number in the file, the header being row 1 */
+  row: number;
+  email?: string;
+  message: string;
+}
+
+export interface UserImportRow {
+  row: number;
+  email: string;
+  name: string;
+  role: UserRole;
+  managerEmail: string | null;
+  /** Starting entitlement in days by leave type code */
+  balances: Record<string, number>;
+  id?: number;
+}
+
+export interface UserImportResult {
+  dryRun: boolean;
+  year: number;
+  users: UserImportRow[];
+  errors: UserImportError[];
+}
+
+interface ImportHeader {
+  fields: Partial<Record<ImportField, number>>;
+  balances: { index: number; type: LeaveType }[];
+}
+
+/**
+ * User Import Service
+ * Onboards users in bulk from a CSV file with the columns email, name, role
+ * (user, manager or admin; default user), manager_email and one column per
+ * leave type code holding the starting entitlement. Managers may be existing
+ * users or other rows of the same file. Either every row is imported in one
+ * transaction or nothing is; imported users get a set-password link, emailed
+ * through the outbox, instead of a password.
+ */
+@Injectable()
+export class UserImportService {
+  constructor(
+    @InjectRepository(User)
+    private userRepo: Repository<User>,
+    private outboxService: OutboxService,
+    private leaveTypesService: LeaveTypesService,
+  ) {}
+
+  async import(
+    content: Buffer | undefined,
+    options: UserImportQueryDto,
+  ): Promise<UserImportResult> {
+    if (!content) {
+      throw new BadRequestException(
+        'A CSV file must be sent in the "file" field',
+      );
+    }
+    const [headerRecord, ...records] = parseCsv(content.toString('utf8'));
+    if (!headerRecord) {
+      throw new BadRequestException('CSV file is empty');
+    }
+    if (records.length > MAX_ROWS) {
+      throw new BadRequestException(
+        `CSV files are limited to ${MAX_ROWS} users, got ${records.length}`,
+      );
+    }
+
+    const year = options.year ?? new Date().getFullYear();
+    const errors: UserImportError[] = [];
+    const header = await this.parseHeader(headerRecord, errors);
+    const rows = header
+      ? await this.parseRows(header, headerRecord.length, records, errors)
+      : [];
+    const result = { dryRun: !!options.dryRun, year, users: rows, errors };
+
+    if (options.dryRun) {
+      return result;
+    }
+    if (errors.length) {
+      throw new BadRequestException({
+        message: `CSV contains ${errors.length} error(s); nothing was imported`,
+        error: errors,
+      });
+    }
+
+    await this.save(rows, year);
+    return result;
+  }
+
+  private async parseHeader(
+    record: string[],
+    errors: UserImportError[],
+  ): Promise<ImportHeader | null> {
+    const types = await this.leaveTypesService.findAll();
+    const header: ImportHeader = { fields: {}, balances: [] };
+    const seen = new Set<string>();
+
+    record.forEach((column, index) => {
+      const normalized = column
+        .trim()
+        .toLowerCase()
+        .replace(/[\s_-]/g, '');
+      if (seen.has(normalized)) {
+        errors.push({ row: 1, message: `Column "${column}" appears twice` });
+        return;
+      }
+      seen.add(normalized);
+
+      const field = COLUMNS[normalized as keyof typeof COLUMNS];
+      if (field) {
+        header.fields[field] = index;
+        return;
+      }
+      const type = types.find(
+        (candidate) => candidate.code === column.trim().toUpperCase(),
+      );
+      if (type) {
+        header.balances.push({ index, type });
+      } else {
+        errors.push({
+          row: 1,
+          message: `Column "${column}" is neither a known column nor an active leave type code`,
+        });
+      }
+    });
+
+    for (const required of ['email', 'name'] as const) {
+      if (header.fields[required] === undefined) {
+        errors.push({
+          row: 1,
+          message: `Missing required column "${required}"`,
+        });
+      }
+    }
+    return errors.length ? null : header;
+  }
+
+  private async parseRows(
+    header: ImportHeader,
+    columnCount: number,
+    records: string[][],
+    errors: UserImportError[],
+  ): Promise<UserImportRow[]> {
+    const value = (record: string[], field: ImportField) => {
+      const index = header.fields[field];
+      return index === undefined ? '' : (record[index] ?? '').trim();
+    };
+    const roleOf = (record: string[]) =>
+      (value(record, 'role') || UserRole.USER).toLowerCase();
+
+    const emails = records.map((record) =>
+      normalizeEmail(value(record, 'email')),
+    );
+    const managerEmails = records
+      .map((record) => normalizeEmail(value(record, 'managerEmail')))
+      .filter(Boolean);
+    const [taken, existingManagers] = await Promise.all([
+      this.findUsers(emails),
+      this.findUsers(managerEmails),
+    ]);
+    const fileRoles = new Map(
+      records.map((record, position) => [emails[position], roleOf(record)]),
+    );
+
+    const rows: UserImportRow[] = [];
+    const seen = new Set<string>();
+    records.forEach((record, position) => {
+      const row = position + 2;
+      const email = emails[position];
+      const fail = (message: string) =>
+        errors.push({ row, ...(email && { email }), message });
+
+      if (record.length !== columnCount) {
+        fail(`Expected ${columnCount} columns, got ${record.length}`);
+        return;
+      }
+      let valid = true;
+      const check = (condition: boolean, message: string) => {
+        if (!condition) {
+          fail(message);
+          valid = false;
+        }
+      };
+
+      check(isEmail(email), 'email is not a valid email address');
+      check(!seen.has(email), 'email appears more than once in the file');
+      check(!taken.has(email), 'a user with this email already exists');
+      seen.add(email);
+
+      const name = value(record, 'name');
+      check(name !== '', 'name is required');
+
+      const role = roleOf(record);
+      check(
+        Object.values(UserRole).includes(role as UserRole),
+        `role must be one of ${Object.values(UserRole).join(', ')}`,
+      );
+
+      const managerEmail =
+        normalizeEmail(value(record, 'managerEmail')) || null;
+      if (managerEmail) {
+        check(managerEmail !== email, 'a user cannot be their own manager');
+        const managerRole =
+          fileRoles.get(managerEmail) ??
+          existingManagers.get(managerEmail)?.role;
+        check(
+          managerRole !== undefined,
+          `manager ${managerEmail} is neither an existing user nor in the file`,
+        );
+        check(
+          managerRole === undefined ||
+            MANAGER_ROLES.includes(managerRole as UserRole),
+          `manager ${managerEmail} has the ${managerRole} role; only managers and admins can have reports`,
+        );
+      }
+
+      const balances: Record<string, number> = {};
+      for (const { index, type } of header.balances) {
+        const raw = record[index].trim();
+        if (raw === '') {
+          continue;
+        }
+        const days = Number(raw);
+        check(
+          Number.isFinite(days) && days >= 0 && days <= MAX_BALANCE_DAYS,
+          `${type.code} must be a number of days between 0 and ${MAX_BALANCE_DAYS}`,
+        );
+        balances[type.code] = days;
+      }
+
+      if (valid) {
+        rows.push({
+          row,
+          email,
+          name,
+          role: role as UserRole,
+          managerEmail,
+          balances,
+        });
+      }
+    });
+
+    this.checkManagerCycles(rows, errors);
+    return rows;
+  }
+
+  /**
+   * Existing accounts can never report to new ones, so only chains within the file can loop
+   */
+  private checkManagerCycles(rows: UserImportRow[], errors: UserImportError[]) {
+    const managerOf = new Map(rows.map((row) => [row.email, row.managerEmail]));
+    for (const row of rows) {
+      const visited = new Set<string>([row.email]);
+      let current = row.managerEmail;
+      while (current && managerOf.has(current)) {
+        if (visited.has(current)) {
+          errors.push({
+            row: row.row,
+            email: row.email,
+            message: 'manager_email creates a circular reporting line',
+          });
+          break;
+        }
+        visited.add(current);
+        current = managerOf.get(current) ?? null;
+      }
+    }
+  }
+
+  /**
+   * Existing users with one of the (normalized) emails, with their IDs and roles, by email
+   */
+  private async findUsers(emails: string[]) {
+    const found = new Map<string, User>();
+    if (!emails.length) {
+      return found;
+    }
+    const users = await this.userRepo
+      .createQueryBuilder('user')
+      .select(['user.id', 'user.email', 'user.role'])
+      .where('user.email IN (:...emails)', { emails })
+      .getMany();
+    for (const user of users) {
+      found.set(user.email, user);
+    }
+    return found;
+  }
+
+  /**
+   * Creates the users, their reporting lines, starting balances and their
+   * user.created and user.invited events in one transaction
+   */
+  private async save(rows: UserImportRow[], year: number) {
+    // Nobody knows this password; users choose their own through the invite
+    const password = await bcrypt.hash(randomBytes(32).toString('hex'), 10);
+    const managerEmails = rows
+      .map((row) => row.managerEmail)
+      .filter((email): email is string => !!email);
+    const existingManagers = await this.findUsers(managerEmails);
+
+    try {
+      await this.userRepo.manager.transaction(async (manager) => {
+        const users = await manager.save(
+          rows.map((row) =>
+            manager.create(User, {
+              email: row.email,
+              name: row.name,
+              role: row.role,
+              password,
+            }),
+          ),
+        );
+        const ids = new Map(users.map((user) => [user.email, user.id]));
+        users.forEach((user, index) => (rows[index].id = user.id));
+
+        for (const [index, row] of rows.entries()) {
+          const user = users[index];
+          if (row.managerEmail) {
+            const managerId =
+              ids.get(row.managerEmail) ??
+              existingManagers.get(row.managerEmail)!.id;
+            await manager.update(User, user.id, { manager: { id: managerId } });
+            user.manager = { id: managerId } as User;
+          }
+          await this.outboxService.enqueue(
+            UserDomainEvent.CREATED,
+            toUserEventPayload(user),
+            manager,
+          );
+          const invite: UserInvitedPayload = {
+            user: { id: user.id, email: user.email, name: user.name },
+          };
+          await this.outboxService.enqueue(
+            UserDomainEvent.INVITED,
+            invite,
+            manager,
+          );
+        }
+
+        const types = await this.leaveTypesService.findAll();
+        const entitlements = rows.flatMap((row) =>
+          Object.entries(row.balances).map(([code, days]) =>
+            manager.create(LeaveEntitlement, {
+              user: { id: row.id },
+              leaveType: types.find((type) => type.code === code),
+              year,
+              days,
+            }),
+          ),
+        );
+        if (entitlements.length) {
+          await manager.save(entitlements);
+        }
+      });
+    } catch (error) {
+      // Someone registered one of the emails after validation
+      if (
+        error instanceof QueryFailedError &&
+        (error.driverError as { code?: string }).code === '23505'
+      ) {
+        throw new ConflictException(
+          'One of the users was created while importing; nothing was imported',
+        );
+      }
+      throw error;
+    }
+  }
+}
@@ -1,32 +1,163 @@
-import { Injectable } from '@nestjs/common';
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
-import { User } from '../entities/user.entity';
+import { MANAGER_ROLES, User } from '../entities/user.entity';
+import { Department } from '../../departments/entities/department.entity';
+import { UpdateUserDto, UserQueryDto } from '../dto/user.dto';
+import { Paginated } from '../../common/dto/pagination.dto';
+import { OutboxService } from '../../outbox/services/outbox.service';
+import {
+  UserDomainEvent,
+  toUserEventPayload,
+} from '../events/user-domain-event';
 
 @Injectable()
 export class UsersService {
   constructor(
     @InjectRepository(User)
     private userRepo: Repository<User>,
+    private outboxService: OutboxService,
   ) {}
 
-  findAll() {
-    return this.userRepo.find({ relations: ['leaves'] });
+  async findAll(query: UserQueryDto) {
+    const qb = this.userRepo
+      .createQueryBuilder('user')
+      .select([
+        'user.id',
+        'user.email',
+        'user.name',
+        'user.role',
+        'user.lockedUntil',
+        'user.createdAt',
+        'user.updatedAt',
+      ])
+      .leftJoin('user.manager', 'manager')
+      .addSelect(['manager.id', 'manager.name', 'manager.email'])
+      .leftJoinAndSelect('user.department', 'department');
+
+    if (query.role) {
+      qb.andWhere('user.role = :role', { role: query.role });
+    }
+    if (query.search) {
+      qb.andWhere('(user.name ILIKE :search OR user.email ILIKE :search)', {
+        search: `%${query.search}%`,
+      });
+    }
+
+    const [items, total] = await qb
+      .orderBy(`user.${query.sort}`, query.order)
+      .addOrderBy('user.id', query.order)
+      .skip((query.page - 1) * query.limit)
+      .take(query.limit)
+      .getManyAndCount();
+    return new Paginated(items, total, query);
   }
 
   findOne(id: number) {
-    return this.userRepo.findOne({ where: { id }, relations: ['leaves'] });
+    return this.userRepo.findOne({
+      where: { id },
+      relations: ['leaves', 'manager', 'department'],
+    });
   }
 
   findByEmail(email: string) {
     return this.userRepo.findOne({ where: { email } });
   }
 
-  update(id: number, data: Partial<User>) {
-    return this.userRepo.update(id, data);
+  async update(id: number, data: UpdateUserDto) {
+    const { managerId, departmentId, ...fields } = data;
+    if (managerId !== undefined && managerId !== null) {
+      await this.assertValidManager(id, managerId);
+    }
+    if (departmentId !== undefined && departmentId !== null) {
+      await this.assertDepartmentExists(departmentId);
+    }
+
+    return this.userRepo.manager.transaction(async (manager) => {
+      const result = await manager.update(User, id, {
+        ...fields,
+        ...(managerId !== undefined && {
+          manager: managerId === null ? null : { id: managerId },
+        }),
+        ...(departmentId !== undefined && {
+          department: departmentId === null ? null : { id: departmentId },
+        }),
+      });
+      if (result.affected) {
+        const user = await manager.findOneOrFail(User, {
+          where: { id },
+          relations: ['manager'],
+        });
+        await this.outboxService.enqueue(
+          UserDomainEvent.UPDATED,
+          toUserEventPayload(user),
+          manager,
+        );
+      }
+      return result;
+    });
   }
 
   remove(id: number) {
-    return this.userRepo.delete(id);
+    return this.userRepo.manager.transaction(async (manager) => {
+      const user = await manager.findOne(User, {
+        where: { id },
+        relations: ['manager'],
+      });
+      const result = await manager.delete(User, id);
+      if (user) {
+        await this.outboxService.enqueue(
+          UserDomainEvent.DELETED,
+          toUserEventPayload(user),
+          manager,
+        );
+      }
+      return result;
+    });
+  }
+
+  private async assertDepartmentExists(departmentId: number) {
+    const exists = await this.userRepo.manager.exists(Department, {
+      where: { id: departmentId },
+    });
+    if (!exists) {
+      throw new NotFoundException(`Department ${departmentId} not found`);
+    }
+  }
+
+  /**
+   * Rejects managers that do not exist or would make the reporting line circular
+   */
+  private async assertValidManager(userId: number, managerId: number) {
+    let current = await this.userRepo.findOne({
+      where: { id: managerId },
+      relations: ['manager'],
+    });
+    if (!current) {
+      throw new NotFoundException(`Manager ${managerId} not found`);
+    }
+    if (!MANAGER_ROLES.includes(current.role)) {
+      throw new BadRequestException(
+        `User ${managerId} has the ${current.role} role; only managers and admins can have reports`,
+      );
+    }
+
+    while (current) {
+      if (current.id === Number(userId)) {
+        throw new BadRequestException(
+          'A user cannot report to themselves, directly or indirectly',
+        );
+      }
+      current = current.manager
+        ? await this.userRepo.findOne({
+            where: { id: current.manager.id },
+            relations: ['manager'],
+          })
+        : null;
+    }
   }
 }
@@ -2,12 +2,21 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { User } from './entities/user.entity';
 import { UsersService } from './services/users.service';
+import { UserImportService } from './services/user-import.service';
 import { UsersController } from './controllers/users.controller';
+import { OutboxModule } from '../outbox/outbox.module';
+import { AuthModule } from '../auth/auth.module';
+import { LeaveTypesModule } from '../leave-types/leave-types.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([User])],
+  imports: [
+    TypeOrmModule.forFeature([User]),
+    OutboxModule,
+    AuthModule,
+    LeaveTypesModule,
+  ],
   controllers: [UsersController],
-  providers: [UsersService],
+  providers: [UsersService, UserImportService],
   exports: [UsersService, TypeOrmModule],
 })
 export class UsersModule {}
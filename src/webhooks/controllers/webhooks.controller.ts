@@ -0,0 +1,170 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Param,
+  Body,
+  Query,
+  UseGuards,
+  ValidationPipe,
+  ParseIntPipe,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiBearerAuth,
+  ApiResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+} from '@nestjs/swagger';
+import { WebhooksService } from '../services/webhooks.service';
+import { JwtAuthGuard } from '../../auth/jwt/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/guards/roles.decorator';
+import { UserRole } from '../../users/entities/user.entity';
+import {
+  CreateWebhookDto,
+  UpdateWebhookDto,
+  WebhookDeliveryQueryDto,
+} from '../dto/webhook.dto';
+
+/**
+ * Webhooks Controller
+ * Manages outgoing webhook subscriptions for HR and payroll integrations
+ * Deliveries are POSTed as JSON and signed with HMAC-SHA256 in the X-Webhook-Signature header
+ * All endpoints require admin role for access
+ */
+@ApiTags('Webhooks')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@Controller('webhooks')
+export class WebhooksController {
+  constructor(private webhooksService: WebhooksService) {}
+
+  /**
+   * Get all webhooks
+   */
+  @Get()
+  @ApiOperation({
+    summary: 'Get all webhooks (Admin only)',
+    description: 'Lists webhook subscriptions. Secrets are not included.',
+  })
+  @ApiResponse({ status: 200, description: 'Returns an array of webhooks.' })
+  @ApiForbiddenResponse({
+    description: 'Access denied - only admins can access this endpoint.',
+  })
+  findAll() {
+    return this.webhooksService.findAll();
+  }
+
+  /**
+   * Create a webhook
+   * Subscribes a URL to a set of event types
+   */
+  @Post()
+  @ApiOperation({
+    summary: 'Create webhook (Admin only)',
+    description:
+      'Subscribes a URL to leave and user events. Each delivery carries X-Webhook-Timestamp and X-Webhook-Signature headers; the signature is "sha256=" followed by the hex HMAC-SHA256 of "<timestamp>.<body>" keyed with the secret. The secret is only returned in this response.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Webhook created. Returns the webhook including its secret.',
+  })
+  @ApiForbiddenResponse({
+    description: 'Access denied - only admins can manage webhooks.',
+  })
+  create(@Body(new ValidationPipe()) body: CreateWebhookDto) {
+    return this.webhooksService.create(body);
+  }
+
+  /**
+   * Update a webhook
+   */
+  @Put(':id')
+  @ApiOperation({
+    summary: 'Update webhook (Admin only)',
+    description:
+      'Changes the URL, events, secret or active flag of a webhook. Deactivating a webhook cancels its pending deliveries; they can be redelivered once it is active again.',
+  })
+  @ApiResponse({ status: 200, description: 'Webhook updated.' })
+  @ApiNotFoundResponse({
+    description: 'Webhook with the specified ID does not exist',
+  })
+  update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body(new ValidationPipe()) body: UpdateWebhookDto,
+  ) {
+    return this.webhooksService.update(id, body);
+  }
+
+  /**
+   * Delete a webhook
+   */
+  @Delete(':id')
+  @ApiOperation({
+    summary: 'Delete webhook (Admin only)',
+    description: 'Deletes a webhook together with its delivery log.',
+  })
+  @ApiResponse({ status: 204, description: 'Webhook deleted.' })
+  @ApiNotFoundResponse({
+    description: 'Webhook with the specified ID does not exist',
+  })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  remove(@Param('id', ParseIntPipe) id: number) {
+    return this.webhooksService.remove(id);
+  }
+
+  /**
+   * Get delivery log
+   * Lists deliveries of a webhook with the outcome of their latest attempt
+   */
+  @Get(':id/deliveries')
+  @ApiOperation({
+    summary: 'Get webhook delivery log (Admin only)',
+    description:
+      'Returns a page of deliveries, newest first by default, with attempts, last status code and error. Filter by status to find dead deliveries.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns a page of deliveries with paging metadata.',
+  })
+  @ApiNotFoundResponse({
+    description: 'Webhook with the specified ID does not exist',
+  })
+  findDeliveries(
+    @Param('id', ParseIntPipe) id: number,
+    @Query(new ValidationPipe({ transform: true }))
+    query: WebhookDeliveryQueryDto,
+  ) {
+    return this.webhooksService.findDeliveries(id, query);
+  }
+
+  /**
+   * Redeliver
+   * Queues a delivery again, typically a dead one
+   */
+  @Post(':id/deliveries/:deliveryId/redeliver')
+  @ApiOperation({
+    summary: 'Redeliver webhook delivery (Admin only)',
+    description:
+      'Puts a delivery back in the queue with a fresh set of retry attempts.',
+  })
+  @ApiResponse({ status: 200, description: 'Delivery queued.' })
+  @ApiResponse({ status: 409, description: 'The webhook is inactive.' })
+  @ApiNotFoundResponse({
+    description: 'Delivery does not exist for this webhook',
+  })
+  @HttpCode(HttpStatus.OK)
+  redeliver(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('deliveryId', ParseIntPipe) deliveryId: number,
+  ) {
+    return this.webhooksService.redeliver(id, deliveryId);
+  }
+}
@@ -0,0 +1,63 @@
+import {
+  IsString,
+  IsBoolean,
+  IsOptional,
+  IsArray,
+  IsIn,
+  IsEnum,
+  IsUrl,
+  ArrayMinSize,
+  ArrayUnique,
+  MinLength,
+} from 'class-validator';
+import { ApiProperty, PartialType } from '@nestjs/swagger';
+import { WEBHOOK_EVENTS } from '../entities/webhook-subscription.entity';
+import { WebhookDeliveryStatus } from '../entities/webhook-delivery.entity';
+import { PaginationQueryDto } from '../../common/dto/pagination.dto';
+
+export class CreateWebhookDto {
+  @ApiProperty({ example: 'https://payroll.example.com/hooks/leave' })
+  @IsUrl({ require_tld: false, protocols: ['http', 'https'] })
+  url: string;
+
+  @ApiProperty({
+    example: ['leave.approved', 'leave.cancelled'],
+    enum: WEBHOOK_EVENTS,
+    isArray: true,
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayUnique()
+  @IsIn(WEBHOOK_EVENTS, { each: true })
+  events: string[];
+
+  @ApiProperty({
+    required: false,
+    minLength: 16,
+    description:
+      'Secret used to sign deliveries; generated when omitted. Only returned in this response.',
+  })
+  @IsOptional()
+  @IsString()
+  @MinLength(16, { message: 'Secret must be at least 16 characters' })
+  secret?: string;
+
+  @ApiProperty({ example: 'Payroll sync', required: false })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({ example: true, required: false })
+  @IsOptional()
+  @IsBoolean()
+  active?: boolean;
+}
+
+export class UpdateWebhookDto extends PartialType(CreateWebhookDto) {}
+
+export class WebhookDeliveryQueryDto extends PaginationQueryDto {
+  @ApiProperty({ enum: WebhookDeliveryStatus, required: false })
+  @IsOptional()
+  @IsEnum(WebhookDeliveryStatus)
+  status?: WebhookDeliveryStatus;
+}
@@ -0,0 +1,72 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  CreateDateColumn,
+  Index,
+  Unique,
+} from 'typeorm';
+import { WebhookSubscription } from './webhook-subscription.entity';
+
+export enum WebhookDeliveryStatus {
+  PENDING = 'PENDING',
+  SUCCEEDED = 'SUCCEEDED',
+  DEAD = 'DEAD',
+  CANCELLED = 'CANCELLED',
+}
+
+/**
+ * Webhook Delivery
+ * One event to be POSTed to one subscription, with the outcome of the latest attempt.
+ * Deliveries that keep failing end up DEAD, and pending ones are CANCELLED when their
+ * webhook is deactivated; an admin can redeliver either.
+ */
+@Entity()
+@Unique(['subscription', 'eventId'])
+@Index(['status', 'nextAttemptAt'])
+export class WebhookDelivery {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => WebhookSubscription, { onDelete: 'CASCADE' })
+  subscription: WebhookSubscription;
+
+  // Outbox event id, sent to receivers so they can drop duplicates
+  @Column()
+  eventId: number;
+
+  @Column()
+  eventType: string;
+
+  @Column({ type: 'jsonb' })
+  payload: Record<string, unknown>;
+
+  @Column({
+    type: 'enum',
+    enum: WebhookDeliveryStatus,
+    default: WebhookDeliveryStatus.PENDING,
+  })
+  status: WebhookDeliveryStatus;
+
+  @Column({ default: 0 })
+  attempts: number;
+
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  nextAttemptAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastAttemptAt: Date | null;
+
+  @Column({ type: 'int', nullable: true })
+  lastStatusCode: number | null;
+
+  @Column({ type: 'text', nullable: true })
+  lastError: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  deliveredAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,46 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { LeaveDomainEvent } from '../../leaves/events/leave-domain-event';
+import { UserDomainEvent } from '../../users/events/user-domain-event';
+
+export const WEBHOOK_EVENTS: string[] = [
+  ...Object.values(LeaveDomainEvent),
+  ...Object.values(UserDomainEvent),
+];
+
+/**
+ * Webhook Subscription
+ * An external endpoint that receives the selected outbox events, signed with its secret
+ */
+@Entity()
+export class WebhookSubscription {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  url: string;
+
+  @Column({ type: 'text', array: true })
+  events: string[];
+
+  // Needed in clear text to sign payloads, so it is never returned after creation
+  @Column({ select: false })
+  secret: string;
+
+  @Column({ nullable: true })
+  description: string;
+
+  @Column({ default: true })
+  active: boolean;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,237 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { createHmac } from 'crypto';
+import { WebhookSubscription } from '../entities/webhook-subscription.entity';
+import {
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+} from '../entities/webhook-delivery.entity';
+import { OutboxDispatcher } from '../../outbox/services/outbox-dispatcher.service';
+import { OutboxEvent } from '../../outbox/entities/outbox-event.entity';
+import { OutboxHandler } from '../../outbox/interfaces/outbox-handler.interface';
+
+const BATCH_SIZE = 20;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+
+/**
+ * HMAC-SHA256 over "<timestamp>.<body>", hex encoded and prefixed with "sha256="
+ */
+export function signWebhook(secret: string, timestamp: number, body: string) {
+  return (
+    'sha256=' +
+    createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+  );
+}
+
+/**
+ * Webhook Delivery Service
+ * Queues a delivery per matching subscription for every outbox event, and POSTs
+ * due deliveries every WEBHOOK_DELIVERY_INTERVAL_MS (0 disables polling). Failed
+ * attempts are retried with exponential backoff until WEBHOOK_MAX_ATTEMPTS, after
+ * which the delivery is DEAD.
+ */
+@Injectable()
+export class WebhookDeliveryService
+  implements
+    OutboxHandler,
+    OnModuleInit,
+    OnApplicationBootstrap,
+    OnModuleDestroy
+{
+  readonly name = 'webhooks';
+  private readonly logger = new Logger(WebhookDeliveryService.name);
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    @InjectRepository(WebhookSubscription)
+    private subscriptionRepo: Repository<WebhookSubscription>,
+    @InjectRepository(WebhookDelivery)
+    private deliveryRepo: Repository<WebhookDelivery>,
+    private outboxDispatcher: OutboxDispatcher,
+    private configService: ConfigService,
+  ) {}
+
+  onModuleInit() {
+    this.outboxDispatcher.register(this);
+  }
+
+  onApplicationBootstrap() {
+    const interval = parseInt(
+      this.configService.get<string>('WEBHOOK_DELIVERY_INTERVAL_MS', '5000'),
+      10,
+    );
+    if (interval > 0) {
+      this.timer = setInterval(() => void this.poll(), interval);
+    }
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.timer);
+  }
+
+  /**
+   * Queues the event for every active subscription listening to its type
+   * Safe to call again for the same event; existing deliveries are kept
+   */
+  async handle(event: OutboxEvent) {
+    const subscriptions = await this.subscriptionRepo
+      .createQueryBuilder('subscription')
+      .where('subscription.active = true')
+      .andWhere(':type = ANY(subscription.events)', { type: event.type })
+      .getMany();
+    if (!subscriptions.length) {
+      return;
+    }
+
+    await this.deliveryRepo
+      .createQueryBuilder()
+      .insert()
+      .values(
+        subscriptions.map((subscription) => ({
+          subscription: { id: subscription.id },
+          eventId: event.id,
+          eventType: event.type,
+          payload: event.payload as object,
+        })),
+      )
+      .orIgnore()
+      .execute();
+  }
+
+  /**
+   * Attempts up to one batch of due deliveries and returns how many were attempted
+   */
+  async deliverDue(): Promise<number> {
+    let count = 0;
+    while (count < BATCH_SIZE && (await this.deliverNext())) {
+      count++;
+    }
+    return count;
+  }
+
+  private async poll() {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    try {
+      await this.deliverDue();
+    } catch (error) {
+      this.logger.error('Webhook delivery failed', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private deliverNext(): Promise<boolean> {
+    return this.deliveryRepo.manager.transaction(async (manager) => {
+      const delivery = await manager
+        .createQueryBuilder(WebhookDelivery, 'delivery')
+        .innerJoin('delivery.subscription', 'subscription')
+        .addSelect([
+          'subscription.id',
+          'subscription.url',
+          'subscription.secret',
+        ])
+        .where('delivery.status = :status', {
+          status: WebhookDeliveryStatus.PENDING,
+        })
+        .andWhere('delivery.nextAttemptAt <= now()')
+        .andWhere('subscription.active = true')
+        .orderBy('delivery.id', 'ASC')
+        .setLock('pessimistic_write', undefined, ['delivery'])
+        .setOnLocked('skip_locked')
+        .getOne();
+      if (!delivery) {
+        return false;
+      }
+
+      delivery.attempts += 1;
+      delivery.lastAttemptAt = new Date();
+      const { statusCode, error } = await this.post(delivery);
+      delivery.lastStatusCode = statusCode;
+      delivery.lastError = error;
+      if (!error) {
+        delivery.status = WebhookDeliveryStatus.SUCCEEDED;
+        delivery.deliveredAt = new Date();
+      } else if (delivery.attempts >= this.maxAttempts()) {
+        delivery.status = WebhookDeliveryStatus.DEAD;
+        this.logger.warn(
+          `Webhook delivery ${delivery.id} is dead after ${delivery.attempts} attempts: ${error}`,
+        );
+      } else {
+        const delay = Math.min(
+          BASE_RETRY_DELAY_MS * 2 ** (delivery.attempts - 1),
+          MAX_RETRY_DELAY_MS,
+        );
+        delivery.nextAttemptAt = new Date(Date.now() + delay);
+      }
+      await manager.save(delivery);
+      return true;
+    });
+  }
+
+  private async post(
+    delivery: WebhookDelivery,
+  ): Promise<{ statusCode: number | null; error: string | null }> {
+    const body = JSON.stringify({
+      id: delivery.eventId,
+      event: delivery.eventType,
+      createdAt: delivery.createdAt,
+      data: delivery.payload,
+    });
+    const timestamp = Math.floor(Date.now() / 1000);
+    try {
+      const response = await fetch(delivery.subscription.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'internal-leave-api-webhooks',
+          'X-Webhook-Event': delivery.eventType,
+          'X-Webhook-Delivery': String(delivery.id),
+          [TIMESTAMP_HEADER]: String(timestamp),
+          [SIGNATURE_HEADER]: signWebhook(
+            delivery.subscription.secret,
+            timestamp,
+            body,
+          ),
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      return {
+        statusCode: response.status,
+        error: response.ok
+          ? null
+          : `Receiver responded with ${response.status}`,
+      };
+    } catch (error) {
+      return {
+        statusCode: null,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  private maxAttempts() {
+    return parseInt(
+      this.configService.get<string>('WEBHOOK_MAX_ATTEMPTS', '8'),
+      10,
+    );
+  }
+}
@@ -0,0 +1,114 @@
+import {
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { randomBytes } from 'crypto';
+import { WebhookSubscription } from '../entities/webhook-subscription.entity';
+import {
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+} from '../entities/webhook-delivery.entity';
+import {
+  CreateWebhookDto,
+  UpdateWebhookDto,
+  WebhookDeliveryQueryDto,
+} from '../dto/webhook.dto';
+import { Paginated } from '../../common/dto/pagination.dto';
+
+@Injectable()
+export class WebhooksService {
+  constructor(
+    @InjectRepository(WebhookSubscription)
+    private subscriptionRepo: Repository<WebhookSubscription>,
+    @InjectRepository(WebhookDelivery)
+    private deliveryRepo: Repository<WebhookDelivery>,
+  ) {}
+
+  findAll() {
+    return this.subscriptionRepo.find({ order: { id: 'ASC' } });
+  }
+
+  async findOne(id: number) {
+    const subscription = await this.subscriptionRepo.findOne({ where: { id } });
+    if (!subscription) {
+      throw new NotFoundException(`Webhook ${id} not found`);
+    }
+    return subscription;
+  }
+
+  /**
+   * The secret is only part of this response
+   */
+  async create(data: CreateWebhookDto) {
+    const secret = data.secret ?? randomBytes(32).toString('hex');
+    const subscription = await this.subscriptionRepo.save(
+      this.subscriptionRepo.create({ ...data, secret }),
+    );
+    return { ...(await this.findOne(subscription.id)), secret };
+  }
+
+  /**
+   * Deactivating a webhook cancels its pending deliveries, which would otherwise never be sent
+   */
+  async update(id: number, data: UpdateWebhookDto) {
+    const subscription = await this.findOne(id);
+    await this.subscriptionRepo.manager.transaction(async (manager) => {
+      await manager.save(WebhookSubscription, { ...subscription, ...data });
+      if (subscription.active && data.active === false) {
+        await manager
+          .createQueryBuilder()
+          .update(WebhookDelivery)
+          .set({
+            status: WebhookDeliveryStatus.CANCELLED,
+            lastError: 'Webhook deactivated',
+          })
+          .where('subscriptionId = :id', { id })
+          .andWhere('status = :status', {
+            status: WebhookDeliveryStatus.PENDING,
+          })
+          .execute();
+      }
+    });
+    return this.findOne(id);
+  }
+
+  async remove(id: number) {
+    await this.subscriptionRepo.remove(await this.findOne(id));
+  }
+
+  async findDeliveries(id: number, query: WebhookDeliveryQueryDto) {
+    await this.findOne(id);
+    const [items, total] = await this.deliveryRepo.findAndCount({
+      where: { subscription: { id }, status: query.status },
+      order: { id: query.order },
+      skip: (query.page - 1) * query.limit,
+      take: query.limit,
+    });
+    return new Paginated(items, total, query);
+  }
+
+  /**
+   * Puts a delivery back in the queue with a fresh set of attempts, e.g. a dead one after the receiver was fixed
+   * The webhook has to be active, or the delivery would wait forever
+   */
+  async redeliver(id: number, deliveryId: number) {
+    const delivery = await this.deliveryRepo.findOne({
+      where: { id: deliveryId, subscription: { id } },
+    });
+    if (!delivery) {
+      throw new NotFoundException(`Webhook delivery ${deliveryId} not found`);
+    }
+    if (!(await this.findOne(id)).active) {
+      throw new ConflictException(
+        `Webhook ${id} is inactive; activate it before redelivering`,
+      );
+    }
+    delivery.status = WebhookDeliveryStatus.PENDING;
+    delivery.attempts = 0;
+    delivery.nextAttemptAt = new Date();
+    return this.deliveryRepo.save(delivery);
+  }
+}
@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { WebhookSubscription } from './entities/webhook-subscription.entity';
+import { WebhookDelivery } from './entities/webhook-delivery.entity';
+import { WebhooksService } from './services/webhooks.service';
+import { WebhookDeliveryService } from './services/webhook-delivery.service';
+import { WebhooksController } from './controllers/webhooks.controller';
+import { OutboxModule } from '../outbox/outbox.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([WebhookSubscription, WebhookDelivery]),
+    OutboxModule,
+  ],
+  providers: [WebhooksService, WebhookDeliveryService],
+  controllers: [WebhooksController],
+})
+export class WebhooksModule {}
@@ -1,32 +1,154 @@
 import request from 'supertest';
+import { App } from 'supertest/types';
+import { INestApplication } from '@nestjs/common';
 import { Test } from '@nestjs/testing';
 import { getRepositoryToken } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { DataSource, Repository } from 'typeorm';
 import * as bcrypt from 'bcrypt';
+import { createHmac } from 'crypto';
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
 import { AppModule } from '../src/app.module';
 import { User, UserRole } from '../src/users/entities/user.entity';
+import {
+  LeaveType,
+  LeaveUnit,
+} from '../src/leave-types/entities/leave-type.entity';
+import { Leave, LeaveStatus } from '../src/leaves/entities/leave.entity';
+import {
+  LeaveEvent,
+  LeaveEventAction,
+} from '../src/leaves/entities/leave-event.entity';
+import {
+  LeaveDomainEvent,
+  LeaveEventPayload,
+} from '../src/leaves/events/leave-domain-event';
+import { SchedulerService } from '../src/scheduler/services/scheduler.service';
+import {
+  LedgerEntry,
+  LedgerEntryKind,
+} from '../src/balances/entities/ledger-entry.entity';
+import { Department } from '../src/departments/entities/department.entity';
+import { LeaveEntitlement } from '../src/balances/entities/leave-entitlement.entity';
+import { EscalationRule } from '../src/escalations/entities/escalation-rule.entity';
+import { MailTransport } from '../src/mail/transports/mail-transport';
+import { AttemptStore } from '../src/auth/attempts/attempt-store';
+import { MemoryAttemptStore } from '../src/auth/attempts/memory-attempt.store';
+import { DatabaseAttemptStore } from '../src/auth/attempts/database-attempt.store';
+import { AttemptCounterEntry } from '../src/auth/entities/attempt-counter-entry.entity';
+import { OutboxMailTransport } from '../src/mail/transports/outbox-mail.transport';
+import { OutboxDispatcher } from '../src/outbox/services/outbox-dispatcher.service';
+import {
+  OutboxEvent,
+  OutboxStatus,
+} from '../src/outbox/entities/outbox-event.entity';
+import { WebhookDeliveryService } from '../src/webhooks/services/webhook-delivery.service';
+import { WebhookDelivery } from '../src/webhooks/entities/webhook-delivery.entity';
+import {
+  ApprovalRule,
+  ApprovalStep,
+} from '../src/approvals/entities/approval-rule.entity';
+import { ApprovalDelegation } from '../src/approvals/entities/approval-delegation.entity';
+import { ResponseInterceptor } from '../src/common/interceptors/response.interceptor';
+import { JwtStrategy } from '../src/auth/jwt/jwt.strategy';
+import { Paginated, PaginationMeta } from '../src/common/dto/pagination.dto';
+import { LeaveBalance } from '../src/balances/services/balances.service';
+import { YearEndReport } from '../src/balances/services/carry-over.service';
+import { LeaveAttachment } from '../src/leaves/entities/leave-attachment.entity';
+import { ApprovalDelegationStatus } from '../src/approvals/services/approval-delegations.service';
+import { OverdueLeave } from '../src/escalations/services/escalations.service';
+import { Notification } from '../src/notifications/entities/notification.entity';
+import { CalendarDay } from '../src/calendar/services/calendar.service';
+import { CalendarFeed } from '../src/calendar/entities/calendar-feed.entity';
+import { WebhookSubscription } from '../src/webhooks/entities/webhook-subscription.entity';
+import {
+  AbsenceStatistics,
+  BradfordScore,
+} from '../src/reports/services/absence-analytics.service';
+import { UserImportResult } from '../src/users/services/user-import.service';
+
+// A supertest response whose JSON body has the given shape
+type JsonResponse<T> = Omit<request.Response, 'body'> & { body: T };
+
+interface TokenPair {
+  access_token: string;
+  refresh_token: string;
+}
+
+interface ErrorBody<E = unknown> {
+  statusCode: number;
+  message: string | string[];
+  error: E;
+}
+
+interface Envelope<T> {
+  success: boolean;
+  data: T;
+  meta?: PaginationMeta;
+  timestamp: string;
+}
+
+type Delegation = ApprovalDelegation & { status: ApprovalDelegationStatus };
+
+type CreatedFeed = CalendarFeed & { token: string; path: string };
 
 describe('Auth & Leave API E2E Tests', () => {
-  let app;
+  let app: INestApplication<App>;
   let token: string;
   let adminToken: string;
   let userId: number;
   let leaveId: number;
   let userRepo: Repository<User>;
+  let leaveTypeRepo: Repository<LeaveType>;
   const testEmail = `test-${Date.now()}@example.com`;
 
   beforeAll(async () => {
+    // Tests dispatch outbox events explicitly instead of waiting for the poller
+    process.env.OUTBOX_DISPATCH_INTERVAL_MS = '0';
+    process.env.WEBHOOK_DELIVERY_INTERVAL_MS = '0';
+    process.env.SCHEDULER_INTERVAL_MS = '0';
+    // Every request comes from one address; the rate limit has its own tests
+    process.env.AUTH_RATE_LIMIT = '0';
     const moduleRef = await Test.createTestingModule({
       imports: [AppModule],
     }).compile();
 
+    // The schema comes from the migrations, as in production
+    await moduleRef.get(DataSource).runMigrations();
+
     app = moduleRef.createNestApplication();
     await app.init();
 
     // Get user repository to create admin user directly
     userRepo = moduleRef.get(getRepositoryToken(User));
+
+    // Make sure the leave types used below exist in the catalog
+    leaveTypeRepo = moduleRef.get(getRepositoryToken(LeaveType));
+    if (!(await leaveTypeRepo.exists({ where: { code: 'ANNUAL' } }))) {
+      await leaveTypeRepo.save({
+        code: 'ANNUAL',
+        name: 'Annual Leave',
+        defaultEntitlement: 12,
+      });
+    }
   });
 
+  // Creates an admin directly in the database and logs in as them
+  const createAdmin = async () => {
+    const email = `admin-test-${Date.now()}-${Math.random().toString(36).slice(2)}@example.com`;
+    const admin = await userRepo.save({
+      email,
+      password: await bcrypt.hash('adminpass123', 10),
+      name: 'Admin User',
+      role: UserRole.ADMIN,
+    });
+    const res: JsonResponse<TokenPair> = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email, password: 'adminpass123' })
+      .expect(200);
+    return { admin, adminToken: res.body.access_token };
+  };
+
   afterAll(async () => {
     // Clean up test data
     if (userRepo && userId) {
@@ -40,7 +162,7 @@ describe('Auth & Leave API E2E Tests', () => {
   // auth tests
   describe('Auth (POST /auth/register & /auth/login)', () => {
     it('should register a new user', async () => {
-      const res = await request(app.getHttpServer())
+      const res: JsonResponse<User> = await request(app.getHttpServer())
         .post('/auth/register')
         .send({ email: testEmail, password: 'password123', name: 'Test User' })
         .expect(201);
@@ -65,13 +187,14 @@ describe('Auth & Leave API E2E Tests', () => {
     });
 
     it('should login and return access token', async () => {
-      const res = await request(app.getHttpServer())
+      const res: JsonResponse<TokenPair> = await request(app.getHttpServer())
         .post('/auth/login')
         .send({ email: testEmail, password: 'password123' })
         .expect(200);
 
       expect(res.body).toHaveProperty('access_token');
       expect(typeof res.body.access_token).toBe('string');
+      expect(typeof res.body.refresh_token).toBe('string');
       token = res.body.access_token;
     });
 
@@ -90,6 +213,444 @@ describe('Auth & Leave API E2E Tests', () => {
     });
   });
 
+  describe('Sessions (POST /auth/refresh, /auth/logout, /auth/logout-all)', () => {
+    const sessionEmail = `session-${Date.now()}@example.com`;
+    let sessionUserId: number;
+
+    const login = async () => {
+      const res: JsonResponse<TokenPair> = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: sessionEmail, password: 'password123' })
+        .expect(200);
+      return res.body;
+    };
+
+    beforeAll(async () => {
+      const res: JsonResponse<User> = await request(app.getHttpServer())
+        .post('/auth/register')
+        .send({
+          email: sessionEmail,
+          password: 'password123',
+          name: 'Session User',
+        })
+        .expect(201);
+      sessionUserId = res.body.id;
+    });
+
+    afterAll(async () => {
+      await userRepo.delete(sessionUserId);
+    });
+
+    it('should rotate refresh tokens and revoke the session on reuse', async () => {
+      const first = await login();
+
+      const rotated: JsonResponse<TokenPair> = await request(
+        app.getHttpServer(),
+      )
+        .post('/auth/refresh')
+        .send({ refresh_token: first.refresh_token })
+        .expect(200);
+      expect(rotated.body.refresh_token).not.toBe(first.refresh_token);
+      await request(app.getHttpServer())
+        .get('/leaves')
+        .set('Authorization', `Bearer ${rotated.body.access_token}`)
+        .expect(200);
+
+      // Replaying the old token ends the session, including the rotated token
+      await request(app.getHttpServer())
+        .post('/auth/refresh')
+        .send({ refresh_token: first.refresh_token })
+        .expect(401);
+      await request(app.getHttpServer())
+        .post('/auth/refresh')
+        .send({ refresh_token: rotated.body.refresh_token })
+        .expect(401);
+    });
+
+    it('should revoke the refresh token on logout', async () => {
+      const session = await login();
+      await request(app.getHttpServer())
+        .post('/auth/logout')
+        .send({ refresh_token: session.refresh_token })
+        .expect(204);
+      await request(app.getHttpServer())
+        .post('/auth/refresh')
+        .send({ refresh_token: session.refresh_token })
+        .expect(401);
+    });
+
+    it('should invalidate every session on logout-all', async () => {
+      const phone = await login();
+      const laptop = await login();
+
+      await request(app.getHttpServer())
+        .post('/auth/logout-all')
+        .set('Authorization', `Bearer ${laptop.access_token}`)
+        .expect(204);
+
+      await request(app.getHttpServer())
+        .get('/leaves')
+        .set('Authorization', `Bearer ${phone.access_token}`)
+        .expect(401);
+      await request(app.getHttpServer())
+        .post('/auth/refresh')
+        .send({ refresh_token: phone.refresh_token })
+        .expect(401);
+
+      const fresh = await login();
+      await request(app.getHttpServer())
+        .get('/leaves')
+        .set('Authorization', `Bearer ${fresh.access_token}`)
+        .expect(200);
+    });
+
+    it('should apply role changes and deletion immediately', async () => {
+      const { admin, adminToken } = await createAdmin();
+      await request(app.getHttpServer())
+        .get('/users')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      await userRepo.update(admin.id, { role: UserRole.USER });
+      await request(app.getHttpServer())
+        .get('/users')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(403);
+
+      await userRepo.delete(admin.id);
+      await request(app.getHttpServer())
+        .get('/leaves')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(401);
+    });
+  });
+
+  describe('Password Management (forgot, reset, change)', () => {
+    const passwordEmail = `password-${Date.now()}@example.com`;
+    let passwordUserId: number;
+
+    // Reset token from the most recent reset email sent to the test user
+    const lastResetToken = async () => {
+      const outbox = app.get<OutboxMailTransport>(MailTransport);
+      const mails = await outbox.list(passwordEmail);
+      const match = mails[mails.length - 1].text.match(/token=([^\s]+)/);
+      return decodeURIComponent(match![1]);
+    };
+
+    beforeAll(async () => {
+      const res: JsonResponse<User> = await request(app.getHttpServer())
+        .post('/auth/register')
+        .send({
+          email: passwordEmail,
+          password: 'password123',
+          name: 'Password User',
+        })
+        .expect(201);
+      passwordUserId = res.body.id;
+    });
+
+    afterAll(async () => {
+      await userRepo.delete(passwordUserId);
+    });
+
+    it('should not reveal whether an account exists', () => {
+      return request(app.getHttpServer())
+        .post('/auth/forgot-password')
+        .send({ email: `nobody-${Date.now()}@example.com` })
+        .expect(202);
+    });
+
+    it('should reset the password with a single-use emailed token', async () => {
+      const session: JsonResponse<TokenPair> = await request(
+        app.getHttpServer(),
+      )
+        .post('/auth/login')
+        .send({ email: passwordEmail, password: 'password123' })
+        .expect(200);
+
+      await request(app.getHttpServer())
+        .post('/auth/forgot-password')
+        .send({ email: passwordEmail })
+        .expect(202);
+      const resetToken = await lastResetToken();
+
+      await request(app.getHttpServer())
+        .post('/auth/reset-password')
+        .send({ token: resetToken, password: 'resetpass123' })
+        .expect(204);
+      await request(app.getHttpServer())
+        .post('/auth/reset-password')
+        .send({ token: resetToken, password: 'anotherpass123' })
+        .expect(400);
+
+      // Existing sessions end with the reset
+      await request(app.getHttpServer())
+        .get('/leaves')
+        .set('Authorization', `Bearer ${session.body.access_token}`)
+        .expect(401);
+      await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: passwordEmail, password: 'password123' })
+        .expect(401);
+      await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: passwordEmail, password: 'resetpass123' })
+        .expect(200);
+    });
+
+    it('should only accept the most recent reset token', async () => {
+      await request(app.getHttpServer())
+        .post('/auth/forgot-password')
+        .send({ email: passwordEmail })
+        .expect(202);
+      const first = await lastResetToken();
+      await request(app.getHttpServer())
+        .post('/auth/forgot-password')
+        .send({ email: passwordEmail })
+        .expect(202);
+
+      await request(app.getHttpServer())
+        .post('/auth/reset-password')
+        .send({ token: first, password: 'stalepass123' })
+        .expect(400);
+    });
+
+    it('should change the password when the current one is given', async () => {
+      const session: JsonResponse<TokenPair> = await request(
+        app.getHttpServer(),
+      )
+        .post('/auth/login')
+        .send({ email: passwordEmail, password: 'resetpass123' })
+        .expect(200);
+
+      await request(app.getHttpServer())
+        .put('/auth/password')
+        .set('Authorization', `Bearer ${session.body.access_token}`)
+        .send({ currentPassword: 'wrongpass', newPassword: 'changedpass123' })
+        .expect(400);
+
+      const changed: JsonResponse<TokenPair> = await request(
+        app.getHttpServer(),
+      )
+        .put('/auth/password')
+        .set('Authorization', `Bearer ${session.body.access_token}`)
+        .send({
+          currentPassword: 'resetpass123',
+          newPassword: 'changedpass123',
+        })
+        .expect(200);
+      await request(app.getHttpServer())
+        .get('/leaves')
+        .set('Authorization', `Bearer ${changed.body.access_token}`)
+        .expect(200);
+      await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: passwordEmail, password: 'changedpass123' })
+        .expect(200);
+    });
+  });
+
+  // brute-force protection of the auth routes
+  describe('Brute-force Protection (POST /auth/login, POST /users/:id/unlock)', () => {
+    const lockEmail = `lockout-${Date.now()}@example.com`;
+    let lockUser: User;
+    let admin: User;
+    let adminToken: string;
+
+    const sleep = (ms: number) =>
+      new Promise((resolve) => setTimeout(resolve, ms));
+
+    const attempt = (password: string, email = lockEmail) =>
+      request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email, password });
+
+    beforeAll(async () => {
+      ({ admin, adminToken } = await createAdmin());
+      lockUser = await userRepo.save({
+        email: lockEmail,
+        password: await bcrypt.hash('password123', 10),
+        name: 'Lockout User',
+        role: UserRole.USER,
+      });
+    });
+
+    afterAll(async () => {
+      await userRepo.delete([lockUser.id, admin.id]);
+    });
+
+    it('should forget failed attempts after a successful login', async () => {
+      await attempt('wrongpassword').expect(401);
+      await attempt('wrongpassword').expect(401);
+      await attempt('password123').expect(200);
+      await attempt('wrongpassword').expect(401);
+      await attempt('wrongpassword').expect(401);
+      await attempt('password123').expect(200);
+    });
+
+    it('should delay, then lock an account after repeated failures', async () => {
+      for (let i = 0; i < 3; i++) {
+        await attempt('wrongpassword').expect(401);
+      }
+      // 1 second after the third failure, then 2 after the fourth
+      const early: JsonResponse<ErrorBody<{ retryAfter: number }>> =
+        await attempt('password123').expect(429);
+      expect(early.headers['retry-after']).toBe('1');
+      expect(early.body.error.retryAfter).toBe(1);
+      await sleep(1100);
+      await attempt('wrongpassword').expect(401);
+      expect(
+        (await attempt('wrongpassword').expect(429)).headers,
+      ).toMatchObject({ 'retry-after': '2' });
+      await sleep(2100);
+
+      // The lock does not depend on the mail server; its email is queued in the outbox
+      const outbox = app.get<OutboxMailTransport>(MailTransport);
+      const send = jest
+        .spyOn(outbox, 'send')
+        .mockRejectedValue(new Error('SMTP unavailable'));
+      const locked = await attempt('wrongpassword').expect(423);
+      send.mockRestore();
+      expect(Number(locked.headers['retry-after'])).toBeGreaterThan(800);
+      await attempt('password123').expect(423);
+      const stored = await userRepo.findOneByOrFail({ id: lockUser.id });
+      expect(stored.lockedUntil!.getTime()).toBeGreaterThan(Date.now());
+
+      const dispatcher = app.get(OutboxDispatcher);
+      while ((await dispatcher.dispatchPending()) > 0) {
+        // keep going until the outbox is drained
+      }
+      const mails = await outbox.list(lockEmail);
+      expect(mails[mails.length - 1].subject).toBe(
+        'Your account has been temporarily locked',
+      );
+      expect(mails[mails.length - 1].text).toContain(
+        'There were 5 failed attempts',
+      );
+    }, 15000);
+
+    it('should let only admins unlock an account', async () => {
+      const user: JsonResponse<User> = await request(app.getHttpServer())
+        .post('/auth/register')
+        .send({
+          email: `unlock-${Date.now()}@example.com`,
+          password: 'password123',
+          name: 'Unlock Tester',
+        })
+        .expect(201);
+      const userLogin: JsonResponse<TokenPair> = await attempt(
+        'password123',
+        user.body.email,
+      ).expect(200);
+      await request(app.getHttpServer())
+        .post(`/users/${lockUser.id}/unlock`)
+        .set('Authorization', `Bearer ${userLogin.body.access_token}`)
+        .expect(403);
+      await userRepo.delete(user.body.id);
+
+      const unlocked: JsonResponse<User> = await request(app.getHttpServer())
+        .post(`/users/${lockUser.id}/unlock`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      expect(unlocked.body.lockedUntil).toBeNull();
+      await attempt('password123').expect(200);
+
+      await request(app.getHttpServer())
+        .post('/users/999999/unlock')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(404);
+    });
+
+    it('should block an address with too many failures', async () => {
+      process.env.LOGIN_IP_MAX_FAILURES = '1';
+      try {
+        const res = await attempt('password123').expect(429);
+        expect(Number(res.headers['retry-after'])).toBeGreaterThan(0);
+      } finally {
+        delete process.env.LOGIN_IP_MAX_FAILURES;
+      }
+      await attempt('password123').expect(200);
+    });
+
+    it('should rate limit auth routes per address', async () => {
+      process.env.AUTH_RATE_LIMIT = '3';
+      try {
+        for (let i = 0; i < 3; i++) {
+          await request(app.getHttpServer())
+            .post('/auth/forgot-password')
+            .send({ email: lockEmail })
+            .expect(202);
+        }
+        const limited = await request(app.getHttpServer())
+          .post('/auth/forgot-password')
+          .send({ email: lockEmail })
+          .expect(429);
+        expect(Number(limited.headers['retry-after'])).toBeGreaterThan(0);
+        expect(Number(limited.headers['retry-after'])).toBeLessThanOrEqual(60);
+        // Other routes have their own budget
+        await attempt('password123').expect(200);
+      } finally {
+        process.env.AUTH_RATE_LIMIT = '0';
+      }
+    });
+
+    it('should lock emails without an account like existing ones, in any case', async () => {
+      process.env.LOGIN_LOCKOUT_THRESHOLD = '2';
+      process.env.LOGIN_DELAY_AFTER_FAILURES = '0';
+      try {
+        const responses: JsonResponse<ErrorBody>[] = [];
+        for (const email of [`nobody-${Date.now()}@example.com`, lockEmail]) {
+          await attempt('wrongpassword', email.toUpperCase()).expect(401);
+          responses.push(await attempt('wrongpassword', email).expect(423));
+        }
+        const [unknown, existing] = responses;
+        expect(unknown.body.message).toBe(existing.body.message);
+        expect(Number(unknown.headers['retry-after'])).toBeGreaterThan(800);
+        expect(Number(existing.headers['retry-after'])).toBeGreaterThan(800);
+        await attempt('password123', lockEmail.toUpperCase()).expect(423);
+      } finally {
+        delete process.env.LOGIN_LOCKOUT_THRESHOLD;
+        delete process.env.LOGIN_DELAY_AFTER_FAILURES;
+      }
+
+      await request(app.getHttpServer())
+        .post(`/users/${lockUser.id}/unlock`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      await attempt('password123', lockEmail.toUpperCase()).expect(200);
+    });
+
+    it.each([
+      ['memory', () => new MemoryAttemptStore()],
+      [
+        'database',
+        () =>
+          new DatabaseAttemptStore(
+            app.get(getRepositoryToken(AttemptCounterEntry)),
+          ),
+      ],
+    ])(
+      'should count attempts per window in the %s store',
+      async (_, create) => {
+        const store: AttemptStore = create();
+        const key = `test:${Date.now()}`;
+        expect(await store.get(key)).toBeNull();
+        await store.increment(key, 60000);
+        const counter = await store.increment(key, 60000);
+        expect(counter.count).toBe(2);
+        expect((await store.get(key))?.count).toBe(2);
+        await store.reset(key);
+        expect(await store.get(key)).toBeNull();
+
+        await store.increment(key, 20);
+        await sleep(50);
+        expect(await store.get(key)).toBeNull();
+        expect((await store.increment(key, 60000)).count).toBe(1);
+        await store.reset(key);
+      },
+    );
+  });
+
   // protected route tests
   describe('Protected Routes (JWT Authorization)', () => {
     it('should block GET /leaves without token', () => {
@@ -114,7 +675,7 @@ describe('Auth & Leave API E2E Tests', () => {
   // leaves CRUD tests
   describe('Leaves CRUD (POST/GET/PUT /leaves)', () => {
     it('should create a leave request with valid token', async () => {
-      const res = await request(app.getHttpServer())
+      const res: JsonResponse<Leave> = await request(app.getHttpServer())
         .post('/leaves')
         .set('Authorization', `Bearer ${token}`)
         .send({
@@ -126,32 +687,138 @@ describe('Auth & Leave API E2E Tests', () => {
         .expect(201);
 
       expect(res.body).toHaveProperty('id');
-      expect(res.body.type).toBe('ANNUAL');
+      expect(res.body.type.code).toBe('ANNUAL');
       expect(res.body.status).toBe('PENDING');
+      // Friday to Tuesday skips the weekend
+      expect(res.body.workingDays).toBe(3);
       leaveId = res.body.id;
     });
 
+    it('should accept a leave type code in any case', async () => {
+      const res: JsonResponse<Leave> = await request(app.getHttpServer())
+        .post('/leaves')
+        .set('Authorization', `Bearer ${token}`)
+        .send({
+          type: 'annual',
+          startDate: '2024-04-01',
+          endDate: '2024-04-01',
+        })
+        .expect(201);
+
+      expect(res.body.type.code).toBe('ANNUAL');
+    });
+
+    it('should reject a leave request that only covers a weekend', () => {
+      return request(app.getHttpServer())
+        .post('/leaves')
+        .set('Authorization', `Bearer ${token}`)
+        .send({
+          type: 'ANNUAL',
+          startDate: '2024-03-09',
+          endDate: '2024-03-10',
+        })
+        .expect(400);
+    });
+
+    it('should reject an unknown leave type', () => {
+      return request(app.getHttpServer())
+        .post('/leaves')
+        .set('Authorization', `Bearer ${token}`)
+        .send({
+          type: 'Sick Leave',
+          startDate: '2024-03-01',
+          endDate: '2024-03-05',
+        })
+        .expect(400);
+    });
+
     it('should get all leaves with valid token', () => {
       return request(app.getHttpServer())
         .get('/leaves')
         .set('Authorization', `Bearer ${token}`)
         .expect(200)
-        .then((res) => {
-          expect(Array.isArray(res.body)).toBe(true);
+        .then((res: JsonResponse<Paginated<Leave>>) => {
+          expect(Array.isArray(res.body.items)).toBe(true);
         });
     });
 
+    it('should filter, sort and paginate leaves', async () => {
+      const page: JsonResponse<Paginated<Leave>> = await request(
+        app.getHttpServer(),
+      )
+        .get('/leaves')
+        .query({ status: 'PENDING', sort: 'startDate', order: 'ASC', limit: 1 })
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+      expect(page.body.items).toHaveLength(1);
+      expect(page.body.items[0].status).toBe('PENDING');
+      expect(page.body.items[0].user.password).toBeUndefined();
+      expect(page.body.meta).toMatchObject({ page: 1, limit: 1 });
+      expect(page.body.meta.total).toBeGreaterThan(0);
+
+      const overlapping: JsonResponse<Paginated<Leave>> = await request(
+        app.getHttpServer(),
+      )
+        .get('/leaves')
+        .query({ from: '2024-03-04', to: '2024-03-04' })
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+      expect(overlapping.body.items.some((leave) => leave.id === leaveId)).toBe(
+        true,
+      );
+
+      const outside: JsonResponse<Paginated<Leave>> = await request(
+        app.getHttpServer(),
+      )
+        .get('/leaves')
+        .query({ from: '2030-01-01' })
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+      expect(outside.body.items).toEqual([]);
+
+      await request(app.getHttpServer())
+        .get('/leaves')
+        .query({ sort: 'password' })
+        .set('Authorization', `Bearer ${token}`)
+        .expect(400);
+    });
+
     it('should get single leave by ID', () => {
       return request(app.getHttpServer())
         .get(`/leaves/${leaveId}`)
         .set('Authorization', `Bearer ${token}`)
         .expect(200)
-        .then((res) => {
+        .then((res: JsonResponse<Leave>) => {
           expect(res.body.id).toBe(leaveId);
-          expect(res.body.type).toBe('ANNUAL');
+          expect(res.body.type.code).toBe('ANNUAL');
+        });
+    });
+
+    it('should return own leave balance', () => {
+      return request(app.getHttpServer())
+        .get('/leaves/balance?year=2024')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200)
+        .then((res: JsonResponse<LeaveBalance[]>) => {
+          const annual = res.body.find((balance) => balance.type === 'ANNUAL')!;
+          expect(annual).toBeDefined();
+          expect(annual.pending).toBe(4);
+          expect(annual.remaining).toBe(annual.entitled - annual.taken - 4);
         });
     });
 
+    it('should reject a leave request exceeding the balance', () => {
+      return request(app.getHttpServer())
+        .post('/leaves')
+        .set('Authorization', `Bearer ${token}`)
+        .send({
+          type: 'ANNUAL',
+          startDate: '2024-06-01',
+          endDate: '2024-07-31',
+        })
+        .expect(400);
+    });
+
     it('should update leave status', async () => {
       // Create admin user directly in database for testing
       const adminEmail = `admin-test-${Date.now()}@example.com`;
@@ -164,7 +831,9 @@ describe('Auth & Leave API E2E Tests', () => {
       });
 
       // Login as admin
-      const adminRes = await request(app.getHttpServer())
+      const adminRes: JsonResponse<TokenPair> = await request(
+        app.getHttpServer(),
+      )
         .post('/auth/login')
         .send({ email: adminEmail, password: 'adminpass123' })
         .expect(200);
@@ -183,40 +852,3326 @@ describe('Auth & Leave API E2E Tests', () => {
     });
   });
 
-  // users CRUD tests (admin only)
-  describe('Users CRUD (GET/PUT/DELETE /users)', () => {
-    it('should get all users', async () => {
-      // Create admin user directly in database for testing
-      const adminEmail = `admin-test-${Date.now()}@example.com`;
-      const hashedPassword = await bcrypt.hash('adminpass123', 10);
-      const adminUser = await userRepo.save({
-        email: adminEmail,
-        password: hashedPassword,
-        name: 'Admin User',
-        role: UserRole.ADMIN,
-      });
+  // main.ts wraps every response; the app above returns the raw payloads
+  describe('Response Envelope (ResponseInterceptor)', () => {
+    let envelopeApp: INestApplication<App>;
+    let envelopeToken: string;
+    let envelopeUserId: number;
+    let envelopeLeaveId: number;
 
-      // Login as admin
-      const adminRes = await request(app.getHttpServer())
+    beforeAll(async () => {
+      // Passport keeps one strategy per name, so share the running app's one
+      const moduleRef = await Test.createTestingModule({
+        imports: [AppModule],
+      })
+        .overrideProvider(JwtStrategy)
+        .useValue(app.get(JwtStrategy))
+        .compile();
+      envelopeApp = moduleRef.createNestApplication();
+      envelopeApp.useGlobalInterceptors(new ResponseInterceptor());
+      await envelopeApp.init();
+
+      const email = `envelope-${Date.now()}@example.com`;
+      const registered: JsonResponse<User> = await request(app.getHttpServer())
+        .post('/auth/register')
+        .send({ email, password: 'password123', name: 'Envelope User' })
+        .expect(201);
+      envelopeUserId = registered.body.id;
+      const login: JsonResponse<TokenPair> = await request(app.getHttpServer())
         .post('/auth/login')
-        .send({ email: adminEmail, password: 'adminpass123' })
+        .send({ email, password: 'password123' })
         .expect(200);
+      envelopeToken = login.body.access_token;
 
-      adminToken = adminRes.body.access_token;
+      // Three one-day requests on consecutive working days
+      for (const day of ['2032-03-01', '2032-03-02', '2032-03-03']) {
+        const res: JsonResponse<Leave> = await request(app.getHttpServer())
+          .post('/leaves')
+          .set('Authorization', `Bearer ${envelopeToken}`)
+          .send({ type: 'ANNUAL', startDate: day, endDate: day })
+          .expect(201);
+        envelopeLeaveId = res.body.id;
+      }
+    });
 
-      // Get all users
-      await request(app.getHttpServer())
-        .get('/users')
+    afterAll(async () => {
+      if (envelopeUserId) {
+        await userRepo.delete(envelopeUserId);
+      }
+      if (envelopeApp) {
+        await envelopeApp.close();
+      }
+    });
+
+    it('should wrap a paginated list in data and meta', async () => {
+      const res: JsonResponse<Envelope<Leave[]>> = await request(
+        envelopeApp.getHttpServer(),
+      )
+        .get('/leaves?limit=2&page=1')
+        .set('Authorization', `Bearer ${envelopeToken}`)
+        .expect(200);
+
+      expect(res.body.success).toBe(true);
+      expect(typeof res.body.timestamp).toBe('string');
+      expect(res.body).not.toHaveProperty('items');
+      expect(res.body.data).toHaveLength(2);
+      expect(res.body.meta).toEqual({
+        page: 1,
+        limit: 2,
+        total: 3,
+        totalPages: 2,
+      });
+    });
+
+    it('should report the remainder on the last page', async () => {
+      const res: JsonResponse<Envelope<Leave[]>> = await request(
+        envelopeApp.getHttpServer(),
+      )
+        .get('/leaves?limit=2&page=2')
+        .set('Authorization', `Bearer ${envelopeToken}`)
+        .expect(200);
+
+      expect(res.body.data).toHaveLength(1);
+      expect(res.body.meta).toEqual({
+        page: 2,
+        limit: 2,
+        total: 3,
+        totalPages: 2,
+      });
+    });
+
+    it('should return an empty page past the end with the same totals', async () => {
+      const res: JsonResponse<Envelope<Leave[]>> = await request(
+        envelopeApp.getHttpServer(),
+      )
+        .get('/leaves?limit=2&page=3')
+        .set('Authorization', `Bearer ${envelopeToken}`)
+        .expect(200);
+
+      expect(res.body.data).toEqual([]);
+      expect(res.body.meta).toEqual({
+        page: 3,
+        limit: 2,
+        total: 3,
+        totalPages: 2,
+      });
+    });
+
+    it('should wrap a single resource without meta', async () => {
+      const res: JsonResponse<Envelope<Leave>> = await request(
+        envelopeApp.getHttpServer(),
+      )
+        .get(`/leaves/${envelopeLeaveId}`)
+        .set('Authorization', `Bearer ${envelopeToken}`)
+        .expect(200);
+
+      expect(res.body.success).toBe(true);
+      expect(res.body.data.id).toBe(envelopeLeaveId);
+      expect(res.body).not.toHaveProperty('meta');
+    });
+  });
+
+  // half-day and hourly requests
+  describe('Half-day and Hourly Leave', () => {
+    let partUserId: number;
+    let partToken: string;
+    let partAdminId: number;
+    let partAdminToken: string;
+    let hourlyType: LeaveType;
+
+    beforeAll(async () => {
+      hourlyType = await leaveTypeRepo.save({
+        code: `HOURLY_${Date.now()}`,
+        name: 'Appointments',
+        unit: LeaveUnit.HOURS,
+        defaultEntitlement: 16,
+      });
+      const email = `parts-${Date.now()}@example.com`;
+      const registered: JsonResponse<User> = await request(app.getHttpServer())
+        .post('/auth/register')
+        .send({ email, password: 'password123', name: 'Part Day User' })
+        .expect(201);
+      partUserId = registered.body.id;
+      const login: JsonResponse<TokenPair> = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email, password: 'password123' })
+        .expect(200);
+      partToken = login.body.access_token;
+      const created = await createAdmin();
+      partAdminId = created.admin.id;
+      partAdminToken = created.adminToken;
+    });
+
+    afterAll(async () => {
+      await userRepo.delete([partUserId, partAdminId]);
+      await leaveTypeRepo.delete(hourlyType.id);
+    });
+
+    const balanceOf = async (code: string) => {
+      const res: JsonResponse<LeaveBalance[]> = await request(
+        app.getHttpServer(),
+      )
+        .get(`/balances/${partUserId}`)
+        .query({ year: 2030 })
+        .set('Authorization', `Bearer ${partAdminToken}`)
+        .expect(200);
+      return res.body.find((balance) => balance.type === code);
+    };
+
+    it('should count half first and last days as half working days', async () => {
+      // Thursday afternoon to Monday morning
+      const res: JsonResponse<Leave> = await request(app.getHttpServer())
+        .post('/leaves')
+        .set('Authorization', `Bearer ${partToken}`)
+        .send({
+          type: 'ANNUAL',
+          startDate: '2030-10-03',
+          endDate: '2030-10-07',
+          startDayPart: 'PM',
+          endDayPart: 'AM',
+        })
+        .expect(201);
+      expect(res.body.workingDays).toBe(2);
+      expect(res.body.startDayPart).toBe('PM');
+      expect(res.body.endDayPart).toBe('AM');
+
+      const single: JsonResponse<Leave> = await request(app.getHttpServer())
+        .post('/leaves')
+        .set('Authorization', `Bearer ${partToken}`)
+        .send({
+          type: 'ANNUAL',
+          startDate: '2030-10-08',
+          endDate: '2030-10-08',
+          startDayPart: 'AM',
+        })
+        .expect(201);
+      expect(single.body.workingDays).toBe(0.5);
+      expect(single.body.endDayPart).toBe('AM');
+
+      const balance = await balanceOf('ANNUAL');
+      expect(balance?.unit).toBe('DAYS');
+      expect(balance?.pending).toBe(2.5);
+    });
+
+    it('should reject day parts that leave a gap', async () => {
+      await request(app.getHttpServer())
+        .post('/leaves')
+        .set('Authorization', `Bearer ${partToken}`)
+        .send({
+          type: 'ANNUAL',
+          startDate: '2030-10-14',
+          endDate: '2030-10-15',
+          startDayPart: 'AM',
+        })
+        .expect(400);
+      await request(app.getHttpServer())
+        .post('/leaves')
+        .set('Authorization', `Bearer ${partToken}`)
+        .send({
+          type: 'ANNUAL',
+          startDate: '2030-10-14',
+          endDate: '2030-10-14',
+          startDayPart: 'AM',
+          endDayPart: 'PM',
+        })
+        .expect(400);
+      await request(app.getHttpServer())
+        .post('/leaves')
+        .set('Authorization', `Bearer ${partToken}`)
+        .send({
+          type: 'ANNUAL',
+          startDate: '2030-10-14',
+          endDate: '2030-10-14',
+          hours: 2,
+        })
+        .expect(400);
+    });
+
+    it('should take hourly leave from an hours balance', async () => {
+      const res: JsonResponse<Leave> = await request(app.getHttpServer())
+        .post('/leaves')
+        .set('Authorization', `Bearer ${partToken}`)
+        .send({
+          type: hourlyType.code,
+          startDate: '2030-10-16',
+          endDate: '2030-10-16',
+          hours: 2.5,
+        })
+        .expect(201);
+      expect(res.body.hours).toBe(2.5);
+      expect(res.body.workingDays).toBe(0.31);
+
+      await request(app.getHttpServer())
+        .put(`/leaves/${res.body.id}/approve`)
+        .set('Authorization', `Bearer ${partAdminToken}`)
+        .send({})
+        .expect(200);
+
+      const balance = await balanceOf(hourlyType.code);
+      expect(balance?.unit).toBe('HOURS');
+      expect(balance?.taken).toBe(2.5);
+      expect(balance?.remaining).toBe(13.5);
+    });
+
+    it('should validate hourly requests', async () => {
+      const send = (body: object) =>
+        request(app.getHttpServer())
+          .post('/leaves')
+          .set('Authorization', `Bearer ${partToken}`)
+          .send({ type: hourlyType.code, ...body });
+
+      // Missing hours, more than a working day, several days, day parts
+      await send({ startDate: '2030-10-17', endDate: '2030-10-17' }).expect(
+        400,
+      );
+      await send({
+        startDate: '2030-10-17',
+        endDate: '2030-10-17',
+        hours: 9,
+      }).expect(400);
+      await send({
+        startDate: '2030-10-17',
+        endDate: '2030-10-18',
+        hours: 2,
+      }).expect(400);
+      await send({
+        startDate: '2030-10-17',
+        endDate: '2030-10-17',
+        startDayPart: 'AM',
+        hours: 2,
+      }).expect(400);
+      // Saturday
+      await send({
+        startDate: '2030-10-19',
+        endDate: '2030-10-19',
+        hours: 2,
+      }).expect(400);
+      // More than the 13.5 hours left
+      await send({
+        startDate: '2030-10-17',
+        endDate: '2030-10-17',
+        hours: 8,
+      }).expect(201);
+      await send({
+        startDate: '2030-10-18',
+        endDate: '2030-10-18',
+        hours: 6,
+      }).expect(400);
+    });
+  });
+
+  // overlap detection
+  describe('Overlapping Leave Requests', () => {
+    let overlapUserId: number;
+    let overlapToken: string;
+    let overlapAdminId: number;
+    let overlapAdminToken: string;
+    let firstLeaveId: number;
+
+    beforeAll(async () => {
+      const email = `overlap-${Date.now()}@example.com`;
+      const registered: JsonResponse<User> = await request(app.getHttpServer())
+        .post('/auth/register')
+        .send({ email, password: 'password123', name: 'Overlap User' })
+        .expect(201);
+      overlapUserId = registered.body.id;
+      const login: JsonResponse<TokenPair> = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email, password: 'password123' })
+        .expect(200);
+      overlapToken = login.body.access_token;
+      const created = await createAdmin();
+      overlapAdminId = created.admin.id;
+      overlapAdminToken = created.adminToken;
+    });
+
+    afterAll(async () => {
+      await userRepo.delete([overlapUserId, overlapAdminId]);
+    });
+
+    const submit = (body: object) =>
+      request(app.getHttpServer())
+        .post('/leaves')
+        .set('Authorization', `Bearer ${overlapToken}`)
+        .send({ type: 'ANNUAL', ...body });
+
+    it('should reject ranges that end before they start', () => {
+      return submit({ startDate: '2030-11-06', endDate: '2030-11-04' }).expect(
+        400,
+      );
+    });
+
+    it('should reject requests overlapping pending or approved leave', async () => {
+      const first: JsonResponse<Leave> = await submit({
+        startDate: '2030-11-04',
+        endDate: '2030-11-06',
+      }).expect(201);
+      firstLeaveId = first.body.id;
+
+      const res: JsonResponse<ErrorBody<{ conflictingLeaveIds: number[] }>> =
+        await submit({
+          startDate: '2030-11-06',
+          endDate: '2030-11-08',
+        }).expect(409);
+      expect(res.body.message).toContain(String(firstLeaveId));
+      expect(res.body.error.conflictingLeaveIds).toEqual([firstLeaveId]);
+    });
+
+    it('should allow a morning and an afternoon off on the same day', async () => {
+      await submit({
+        startDate: '2030-11-11',
+        endDate: '2030-11-11',
+        startDayPart: 'AM',
+      }).expect(201);
+      await submit({
+        startDate: '2030-11-11',
+        endDate: '2030-11-12',
+        startDayPart: 'PM',
+      }).expect(201);
+      await submit({
+        startDate: '2030-11-11',
+        endDate: '2030-11-11',
+        startDayPart: 'PM',
+      }).expect(409);
+    });
+
+    it('should ignore withdrawn leave', async () => {
+      await request(app.getHttpServer())
+        .put(`/leaves/${firstLeaveId}/withdraw`)
+        .set('Authorization', `Bearer ${overlapToken}`)
+        .send({})
+        .expect(200);
+      await submit({ startDate: '2030-11-06', endDate: '2030-11-08' }).expect(
+        201,
+      );
+    });
+
+    it('should check for overlaps again on approval', async () => {
+      const leaveRepo = app.get<Repository<Leave>>(getRepositoryToken(Leave));
+      const pending: JsonResponse<Leave> = await submit({
+        startDate: '2030-11-18',
+        endDate: '2030-11-19',
+      }).expect(201);
+      // A clashing request that slipped in concurrently
+      const clash = await leaveRepo.save(
+        leaveRepo.create({
+          ...(await leaveRepo.findOneOrFail({
+            where: { id: pending.body.id },
+            relations: ['user', 'type'],
+          })),
+          id: undefined,
+        }),
+      );
+
+      const res: JsonResponse<ErrorBody<{ conflictingLeaveIds: number[] }>> =
+        await request(app.getHttpServer())
+          .put(`/leaves/${pending.body.id}/approve`)
+          .set('Authorization', `Bearer ${overlapAdminToken}`)
+          .send({})
+          .expect(409);
+      expect(res.body.error.conflictingLeaveIds).toEqual([clash.id]);
+    });
+
+    it('should split leave over New Year between the balances of both years', async () => {
+      const annualIn = async (year: number) => {
+        const balance: JsonResponse<LeaveBalance[]> = await request(
+          app.getHttpServer(),
+        )
+          .get('/leaves/balance')
+          .query({ year })
+          .set('Authorization', `Bearer ${overlapToken}`)
+          .expect(200);
+        return balance.body.find((entry) => entry.type === 'ANNUAL');
+      };
+
+      // Earlier tests left requests pending in 2030
+      const pendingBefore = (await annualIn(2030))?.pending ?? 0;
+      // Monday 30 December 2030 to Thursday 2 January 2031
+      const leave: JsonResponse<Leave> = await submit({
+        startDate: '2030-12-30',
+        endDate: '2031-01-02',
+        startDayPart: 'PM',
+      }).expect(201);
+      const daysIn2031 = leave.body.workingDays - 1.5;
+      expect(daysIn2031).toBeGreaterThan(0);
+      expect((await annualIn(2030))?.pending).toBe(pendingBefore + 1.5);
+      expect((await annualIn(2031))?.pending).toBe(daysIn2031);
+
+      await request(app.getHttpServer())
+        .put(`/leaves/${leave.body.id}/approve`)
+        .set('Authorization', `Bearer ${overlapAdminToken}`)
+        .send({})
+        .expect(200);
+      expect(await annualIn(2030)).toMatchObject({
+        pending: pendingBefore,
+        taken: 1.5,
+      });
+      expect(await annualIn(2031)).toMatchObject({
+        pending: 0,
+        taken: daysIn2031,
+      });
+
+      // Each year must cover its own part
+      await request(app.getHttpServer())
+        .put(`/balances/${overlapUserId}/entitlements`)
+        .set('Authorization', `Bearer ${overlapAdminToken}`)
+        .send({ type: 'ANNUAL', year: 2032, days: 1 })
+        .expect(200);
+      const res: JsonResponse<ErrorBody> = await submit({
+        startDate: '2031-12-31',
+        endDate: '2032-01-05',
+      }).expect(400);
+      expect(res.body.message).toContain('balance for 2032');
+
+      await request(app.getHttpServer())
+        .put(`/leaves/${leave.body.id}/cancel`)
+        .set('Authorization', `Bearer ${overlapAdminToken}`)
+        .expect(200);
+      expect((await annualIn(2030))?.taken).toBe(0);
+      expect((await annualIn(2031))?.taken).toBe(0);
+    });
+  });
+
+  // row-level access tests
+  describe('Leave Access Control', () => {
+    let otherToken: string;
+    let otherUserId: number;
+
+    beforeAll(async () => {
+      const email = `other-${Date.now()}@example.com`;
+      const registered: JsonResponse<User> = await request(app.getHttpServer())
+        .post('/auth/register')
+        .send({ email, password: 'password123', name: 'Other User' })
+        .expect(201);
+      otherUserId = registered.body.id;
+
+      const res: JsonResponse<TokenPair> = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email, password: 'password123' })
+        .expect(200);
+      otherToken = res.body.access_token;
+    });
+
+    afterAll(async () => {
+      await userRepo.delete(otherUserId);
+    });
+
+    it('should only list own leaves for a regular user', async () => {
+      const own: JsonResponse<Paginated<Leave>> = await request(
+        app.getHttpServer(),
+      )
+        .get('/leaves')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+      expect(own.body.items.length).toBeGreaterThan(0);
+      expect(own.body.items.every((leave) => leave.user.id === userId)).toBe(
+        true,
+      );
+
+      const other: JsonResponse<Paginated<Leave>> = await request(
+        app.getHttpServer(),
+      )
+        .get('/leaves')
+        .set('Authorization', `Bearer ${otherToken}`)
+        .expect(200);
+      expect(other.body.items).toEqual([]);
+    });
+
+    it("should hide another user's leave from a regular user", () => {
+      return request(app.getHttpServer())
+        .get(`/leaves/${leaveId}`)
+        .set('Authorization', `Bearer ${otherToken}`)
+        .expect(404);
+    });
+
+    it("should not let a regular user change another user's leave", () => {
+      return request(app.getHttpServer())
+        .put(`/leaves/${leaveId}/cancellation-request`)
+        .set('Authorization', `Bearer ${otherToken}`)
+        .send({})
+        .expect(404);
+    });
+
+    it('should let admins see every leave', async () => {
+      const { admin, adminToken } = await createAdmin();
+
+      const all: JsonResponse<Paginated<Leave>> = await request(
+        app.getHttpServer(),
+      )
+        .get('/leaves')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      expect(all.body.items.some((leave) => leave.id === leaveId)).toBe(true);
+
+      await request(app.getHttpServer())
+        .get(`/leaves/${leaveId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      await userRepo.delete(admin.id);
+    });
+  });
+
+  // manager hierarchy and approval chain tests
+  describe('Manager Approval Chains', () => {
+    const stamp = Date.now();
+    const chainTypeCode = `CHAIN_${stamp}`;
+    let manager: User;
+    let otherManager: User;
+    let employee: User;
+    let managerToken: string;
+    let otherManagerToken: string;
+    let employeeToken: string;
+    let chainType: LeaveType;
+    let rule: ApprovalRule;
+
+    const login = async (email: string) => {
+      const res: JsonResponse<TokenPair> = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email, password: 'password123' })
+        .expect(200);
+      return res.body.access_token;
+    };
+
+    beforeAll(async () => {
+      const password = await bcrypt.hash('password123', 10);
+      manager = await userRepo.save({
+        email: `manager-${stamp}@example.com`,
+        password,
+        name: 'Manager',
+        role: UserRole.MANAGER,
+      });
+      otherManager = await userRepo.save({
+        email: `other-manager-${stamp}@example.com`,
+        password,
+        name: 'Other Manager',
+        role: UserRole.MANAGER,
+      });
+      employee = await userRepo.save({
+        email: `employee-${stamp}@example.com`,
+        password,
+        name: 'Employee',
+        role: UserRole.USER,
+        manager: { id: manager.id },
+      });
+      managerToken = await login(manager.email);
+      otherManagerToken = await login(otherManager.email);
+      employeeToken = await login(employee.email);
+
+      chainType = await leaveTypeRepo.save({
+        code: chainTypeCode,
+        name: 'Chain Leave',
+        defaultEntitlement: 20,
+      });
+      rule = await app
+        .get<Repository<ApprovalRule>>(getRepositoryToken(ApprovalRule))
+        .save({
+          name: 'Manager then HR',
+          leaveType: chainType,
+          minDays: 2,
+          steps: [ApprovalStep.MANAGER, ApprovalStep.ADMIN],
+        });
+    });
+
+    afterAll(async () => {
+      await app
+        .get<Repository<ApprovalRule>>(getRepositoryToken(ApprovalRule))
+        .delete(rule.id);
+      await userRepo.delete([employee.id, manager.id, otherManager.id]);
+      await leaveTypeRepo.delete(chainType.id);
+    });
+
+    it('should let a manager see and approve a direct report leave', async () => {
+      const created: JsonResponse<Leave> = await request(app.getHttpServer())
+        .post('/leaves')
+        .set('Authorization', `Bearer ${employeeToken}`)
+        .send({
+          type: chainTypeCode,
+          startDate: '2024-10-07',
+          endDate: '2024-10-07',
+        })
+        .expect(201);
+      expect(created.body.approvalSteps).toEqual([ApprovalStep.MANAGER]);
+
+      const list: JsonResponse<Paginated<Leave>> = await request(
+        app.getHttpServer(),
+      )
+        .get('/leaves')
+        .set('Authorization', `Bearer ${managerToken}`)
+        .expect(200);
+      expect(
+        list.body.items.some((leave) => leave.id === created.body.id),
+      ).toBe(true);
+
+      await request(app.getHttpServer())
+        .get(`/leaves/${created.body.id}`)
+        .set('Authorization', `Bearer ${otherManagerToken}`)
+        .expect(404);
+
+      await request(app.getHttpServer())
+        .put(`/leaves/${created.body.id}/approve`)
+        .set('Authorization', `Bearer ${employeeToken}`)
+        .expect(403);
+
+      const approved: JsonResponse<Leave> = await request(app.getHttpServer())
+        .put(`/leaves/${created.body.id}/approve`)
+        .set('Authorization', `Bearer ${managerToken}`)
+        .expect(200);
+      expect(approved.body.status).toBe('APPROVED');
+    });
+
+    it('should require every step of a multi-step chain', async () => {
+      const created: JsonResponse<Leave> = await request(app.getHttpServer())
+        .post('/leaves')
+        .set('Authorization', `Bearer ${employeeToken}`)
+        .send({
+          type: chainTypeCode,
+          startDate: '2024-10-14',
+          endDate: '2024-10-16',
+        })
+        .expect(201);
+      expect(created.body.approvalSteps).toEqual([
+        ApprovalStep.MANAGER,
+        ApprovalStep.ADMIN,
+      ]);
+
+      const first: JsonResponse<Leave> = await request(app.getHttpServer())
+        .put(`/leaves/${created.body.id}/approve`)
+        .set('Authorization', `Bearer ${managerToken}`)
+        .expect(200);
+      expect(first.body.status).toBe('PENDING');
+      expect(first.body.currentStep).toBe(1);
+
+      await request(app.getHttpServer())
+        .put(`/leaves/${created.body.id}/approve`)
+        .set('Authorization', `Bearer ${managerToken}`)
+        .expect(403);
+
+      const { admin, adminToken } = await createAdmin();
+      const final: JsonResponse<Leave> = await request(app.getHttpServer())
+        .put(`/leaves/${created.body.id}/approve`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      expect(final.body.status).toBe('APPROVED');
+
+      const history: JsonResponse<LeaveEvent[]> = await request(
+        app.getHttpServer(),
+      )
+        .get(`/leaves/${created.body.id}/history`)
+        .set('Authorization', `Bearer ${employeeToken}`)
+        .expect(200);
+      expect(history.body.map((event) => event.action)).toEqual([
+        'SUBMITTED',
+        'STEP_APPROVED',
+        'APPROVED',
+      ]);
+      expect(history.body[1].actor?.id).toBe(manager.id);
+      expect(history.body[1].actor).not.toHaveProperty('password');
+      expect(history.body[2].fromStatus).toBe('PENDING');
+      expect(history.body[2].toStatus).toBe('APPROVED');
+      await userRepo.delete(admin.id);
+    });
+
+    it('should require a reason to reject and record it', async () => {
+      const created: JsonResponse<Leave> = await request(app.getHttpServer())
+        .post('/leaves')
+        .set('Authorization', `Bearer ${employeeToken}`)
+        .send({
+          type: chainTypeCode,
+          startDate: '2024-10-21',
+          endDate: '2024-10-21',
+        })
+        .expect(201);
+
+      await request(app.getHttpServer())
+        .put(`/leaves/${created.body.id}/reject`)
+        .set('Authorization', `Bearer ${managerToken}`)
+        .send({})
+        .expect(400);
+
+      await request(app.getHttpServer())
+        .put(`/leaves/${created.body.id}/reject`)
+        .set('Authorization', `Bearer ${managerToken}`)
+        .send({ reason: 'Release week' })
+        .expect(200);
+
+      const history: JsonResponse<LeaveEvent[]> = await request(
+        app.getHttpServer(),
+      )
+        .get(`/leaves/${created.body.id}/history`)
+        .set('Authorization', `Bearer ${managerToken}`)
+        .expect(200);
+      const rejection = history.body[history.body.length - 1];
+      expect(rejection.action).toBe('REJECTED');
+      expect(rejection.comment).toBe('Release week');
+      expect(rejection.actor?.id).toBe(manager.id);
+    });
+
+    it('should not let an admin approve their own request', async () => {
+      const { admin, adminToken } = await createAdmin();
+      const other = await createAdmin();
+      const created: JsonResponse<Leave> = await request(app.getHttpServer())
+        .post('/leaves')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          type: 'ANNUAL',
+          startDate: '2031-05-05',
+          endDate: '2031-05-05',
+        })
+        .expect(201);
+
+      await request(app.getHttpServer())
+        .put(`/leaves/${created.body.id}/approve`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(403);
+      const approved: JsonResponse<Leave> = await request(app.getHttpServer())
+        .put(`/leaves/${created.body.id}/approve`)
+        .set('Authorization', `Bearer ${other.adminToken}`)
+        .expect(200);
+      expect(approved.body.status).toBe('APPROVED');
+      await userRepo.delete([admin.id, other.admin.id]);
+    });
+
+    it('should reject circular reporting lines', async () => {
+      const { admin, adminToken } = await createAdmin();
+      await request(app.getHttpServer())
+        .put(`/users/${otherManager.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ managerId: manager.id })
+        .expect(200);
+      const res: JsonResponse<ErrorBody> = await request(app.getHttpServer())
+        .put(`/users/${manager.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ managerId: otherManager.id })
+        .expect(400);
+      expect(res.body.message).toContain('cannot report to themselves');
+      await request(app.getHttpServer())
+        .put(`/users/${otherManager.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ managerId: null })
+        .expect(200);
+      await userRepo.delete(admin.id);
+    });
+
+    it('should only accept managers and admins as managers', async () => {
+      const { admin, adminToken } = await createAdmin();
+      const res: JsonResponse<ErrorBody> = await request(app.getHttpServer())
+        .put(`/users/${otherManager.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ managerId: employee.id })
+        .expect(400);
+      expect(res.body.message).toContain('only managers and admins');
+      await request(app.getHttpServer())
+        .put(`/users/${otherManager.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ managerId: admin.id })
+        .expect(200);
+      await userRepo.delete(admin.id);
+    });
+  });
+
+  // approval delegation tests
+  describe('Approval Delegation (/approval-delegations)', () => {
+    const stamp = Date.now();
+    const day = (offset: number) =>
+      new Date(Date.now() + offset * 24 * 60 * 60 * 1000)
+        .toISOString()
+        .substring(0, 10);
+    let approver: User;
+    let delegate: User;
+    let employee: User;
+    let approverToken: string;
+    let delegateToken: string;
+    let employeeToken: string;
+    let otherType: LeaveType;
+    let delegationId: number;
+
+    const login = async (email: string) => {
+      const res: JsonResponse<TokenPair> = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email, password: 'password123' })
+        .expect(200);
+      return res.body.access_token;
+    };
+
+    const submit = async (type: string, date: string) => {
+      const res: JsonResponse<Leave> = await request(app.getHttpServer())
+        .post('/leaves')
+        .set('Authorization', `Bearer ${employeeToken}`)
+        .send({ type, startDate: date, endDate: date })
+        .expect(201);
+      return res.body.id;
+    };
+
+    const approveAsDelegate = (leaveId: number) =>
+      request(app.getHttpServer())
+        .put(`/leaves/${leaveId}/approve`)
+        .set('Authorization', `Bearer ${delegateToken}`)
+        .send({});
+
+    beforeAll(async () => {
+      const password = await bcrypt.hash('password123', 10);
+      approver = await userRepo.save({
+        email: `deleg-approver-${stamp}@example.com`,
+        password,
+        name: 'Away Approver',
+        role: UserRole.MANAGER,
+      });
+      delegate = await userRepo.save({
+        email: `deleg-delegate-${stamp}@example.com`,
+        password,
+        name: 'Stand-in Approver',
+        role: UserRole.MANAGER,
+      });
+      employee = await userRepo.save({
+        email: `deleg-employee-${stamp}@example.com`,
+        password,
+        name: 'Delegation Employee',
+        role: UserRole.USER,
+        manager: { id: approver.id },
+      });
+      approverToken = await login(approver.email);
+      delegateToken = await login(delegate.email);
+      employeeToken = await login(employee.email);
+      otherType = await leaveTypeRepo.save({
+        code: `DELEG_${stamp}`,
+        name: 'Delegation Test Leave',
+        defaultEntitlement: 10,
+      });
+    });
+
+    afterAll(async () => {
+      // Leaves first, so their history is gone before the approvers are
+      await userRepo.delete(employee.id);
+      await userRepo.delete([approver.id, delegate.id]);
+      await leaveTypeRepo.delete(otherType.id);
+    });
+
+    it('should validate delegations', async () => {
+      const create = (body: object) =>
+        request(app.getHttpServer())
+          .post('/approval-delegations')
+          .set('Authorization', `Bearer ${approverToken}`)
+          .send({ delegateId: delegate.id, startDate: day(0), ...body });
+
+      await create({ delegateId: approver.id, endDate: day(7) }).expect(400);
+      await create({ delegateId: employee.id, endDate: day(7) }).expect(400);
+      await create({ startDate: day(-7), endDate: day(-1) }).expect(400);
+      await create({ endDate: day(-1) }).expect(400);
+      await request(app.getHttpServer())
+        .post('/approval-delegations')
+        .set('Authorization', `Bearer ${employeeToken}`)
+        .send({ delegateId: delegate.id, startDate: day(0), endDate: day(7) })
+        .expect(403);
+    });
+
+    it('should let a delegate approve for the approver and record both', async () => {
+      const leaveId = await submit('ANNUAL', '2031-03-03');
+      await approveAsDelegate(leaveId).expect(404);
+
+      const created: JsonResponse<Delegation> = await request(
+        app.getHttpServer(),
+      )
+        .post('/approval-delegations')
+        .set('Authorization', `Bearer ${approverToken}`)
+        .send({
+          delegateId: delegate.id,
+          startDate: day(0),
+          endDate: day(7),
+          leaveType: 'ANNUAL',
+          reason: 'Holiday',
+        })
+        .expect(201);
+      delegationId = created.body.id;
+      expect(created.body.status).toBe('ACTIVE');
+      expect(created.body.delegate.id).toBe(delegate.id);
+      expect(created.body.delegator).not.toHaveProperty('password');
+
+      const listed: JsonResponse<Delegation[]> = await request(
+        app.getHttpServer(),
+      )
+        .get('/approval-delegations')
+        .set('Authorization', `Bearer ${delegateToken}`)
+        .expect(200);
+      expect(listed.body.map((delegation) => delegation.id)).toEqual([
+        delegationId,
+      ]);
+
+      await approveAsDelegate(leaveId).expect(200);
+      const history: JsonResponse<LeaveEvent[]> = await request(
+        app.getHttpServer(),
+      )
+        .get(`/leaves/${leaveId}/history`)
+        .set('Authorization', `Bearer ${approverToken}`)
+        .expect(200);
+      const approved = history.body.find(
+        (event) => event.action === LeaveEventAction.APPROVED,
+      );
+      expect(approved?.actor?.id).toBe(delegate.id);
+      expect(approved?.onBehalfOf?.id).toBe(approver.id);
+    });
+
+    it('should let a delegate see the requests they can decide and their documents', async () => {
+      const pdf = Buffer.from('%PDF-1.4\n% delegated certificate\n');
+      const leaveId = await submit('ANNUAL', '2031-03-10');
+      const otherLeaveId = await submit(otherType.code, '2031-03-11');
+      const uploaded: JsonResponse<LeaveAttachment> = await request(
+        app.getHttpServer(),
+      )
+        .post(`/leaves/${leaveId}/attachments`)
+        .set('Authorization', `Bearer ${employeeToken}`)
+        .attach('file', pdf, {
+          filename: 'certificate.pdf',
+          contentType: 'application/pdf',
+        })
+        .expect(201);
+
+      const list: JsonResponse<Paginated<Leave>> = await request(
+        app.getHttpServer(),
+      )
+        .get('/leaves')
+        .query({ status: 'PENDING' })
+        .set('Authorization', `Bearer ${delegateToken}`)
+        .expect(200);
+      const listed = list.body.items.map((leave) => leave.id);
+      expect(listed).toContain(leaveId);
+      // The delegation only covers ANNUAL
+      expect(listed).not.toContain(otherLeaveId);
+      await request(app.getHttpServer())
+        .get(`/leaves/${otherLeaveId}`)
+        .set('Authorization', `Bearer ${delegateToken}`)
+        .expect(404);
+
+      const file = await request(app.getHttpServer())
+        .get(`/leaves/${leaveId}/attachments/${uploaded.body.id}`)
+        .set('Authorization', `Bearer ${delegateToken}`)
+        .buffer(true)
+        .parse((res, done) => {
+          const chunks: Buffer[] = [];
+          res.on('data', (chunk: Buffer) => chunks.push(chunk));
+          res.on('end', () => done(null, Buffer.concat(chunks)));
+        })
+        .expect(200);
+      expect((file.body as Buffer).equals(pdf)).toBe(true);
+
+      // Nothing is left to decide once the request is approved
+      await approveAsDelegate(leaveId).expect(200);
+      await request(app.getHttpServer())
+        .get(`/leaves/${leaveId}`)
+        .set('Authorization', `Bearer ${delegateToken}`)
+        .expect(404);
+    });
+
+    it('should limit a delegation to its leave type', async () => {
+      const leaveId = await submit(otherType.code, '2031-03-04');
+      await approveAsDelegate(leaveId).expect(404);
+    });
+
+    it('should stop delegating once revoked', async () => {
+      const leaveId = await submit('ANNUAL', '2031-03-05');
+      await request(app.getHttpServer())
+        .delete(`/approval-delegations/${delegationId}`)
+        .set('Authorization', `Bearer ${delegateToken}`)
+        .expect(403);
+      const revoked: JsonResponse<Delegation> = await request(
+        app.getHttpServer(),
+      )
+        .delete(`/approval-delegations/${delegationId}`)
+        .set('Authorization', `Bearer ${approverToken}`)
+        .expect(200);
+      expect(revoked.body.status).toBe('REVOKED');
+      await request(app.getHttpServer())
+        .delete(`/approval-delegations/${delegationId}`)
+        .set('Authorization', `Bearer ${approverToken}`)
+        .expect(409);
+
+      await approveAsDelegate(leaveId).expect(404);
+    });
+
+    it('should end delegations automatically after their window', async () => {
+      const leaveId = await submit('ANNUAL', '2031-03-06');
+      const ended = await app
+        .get<
+          Repository<ApprovalDelegation>
+        >(getRepositoryToken(ApprovalDelegation))
+        .save({
+          delegator: { id: approver.id },
+          delegate: { id: delegate.id },
+          startDate: day(-7),
+          endDate: day(-1),
+        });
+      await approveAsDelegate(leaveId).expect(404);
+
+      const current: JsonResponse<Delegation[]> = await request(
+        app.getHttpServer(),
+      )
+        .get('/approval-delegations')
+        .set('Authorization', `Bearer ${approverToken}`)
+        .expect(200);
+      expect(current.body).toEqual([]);
+      const all: JsonResponse<Delegation[]> = await request(app.getHttpServer())
+        .get('/approval-delegations')
+        .query({ includeEnded: 'true' })
+        .set('Authorization', `Bearer ${approverToken}`)
+        .expect(200);
+      expect(
+        all.body.find((delegation) => delegation.id === ended.id)?.status,
+      ).toBe('ENDED');
+    });
+  });
+
+  // leave status state machine tests
+  describe('Minimum Staffing (departments)', () => {
+    const stamp = Date.now();
+    let staffingAdminToken: string;
+    let staffingAdminId: number;
+    let teamManager: User;
+    let colleague: User;
+    let requester: User;
+    let managerToken: string;
+    let colleagueToken: string;
+    let requesterToken: string;
+    let departmentId: number;
+    let requestId: number;
+
+    const login = async (email: string) => {
+      const res: JsonResponse<TokenPair> = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email, password: 'password123' })
+        .expect(200);
+      return res.body.access_token;
+    };
+
+    beforeAll(async () => {
+      const created = await createAdmin();
+      staffingAdminId = created.admin.id;
+      staffingAdminToken = created.adminToken;
+
+      const department: JsonResponse<Department> = await request(
+        app.getHttpServer(),
+      )
+        .post('/departments')
+        .set('Authorization', `Bearer ${staffingAdminToken}`)
+        .send({ name: `Support ${stamp}`, minHeadcount: 2 })
+        .expect(201);
+      departmentId = department.body.id;
+
+      const password = await bcrypt.hash('password123', 10);
+      teamManager = await userRepo.save({
+        email: `staffing-manager-${stamp}@example.com`,
+        password,
+        name: 'Staffing Manager',
+        role: UserRole.MANAGER,
+      });
+      colleague = await userRepo.save({
+        email: `staffing-colleague-${stamp}@example.com`,
+        password,
+        name: 'Colleague',
+        department: { id: departmentId },
+      });
+      requester = await userRepo.save({
+        email: `staffing-requester-${stamp}@example.com`,
+        password,
+        name: 'Requester',
+        manager: { id: teamManager.id },
+        department: { id: departmentId },
+      });
+      await userRepo.save({
+        email: `staffing-third-${stamp}@example.com`,
+        password,
+        name: 'Third Member',
+        department: { id: departmentId },
+      });
+      managerToken = await login(teamManager.email);
+      colleagueToken = await login(colleague.email);
+      requesterToken = await login(requester.email);
+
+      await request(app.getHttpServer())
+        .put(`/departments/${departmentId}`)
+        .set('Authorization', `Bearer ${staffingAdminToken}`)
+        .send({ headId: teamManager.id })
+        .expect(200);
+
+      // The colleague is off Monday 1 to Wednesday 3 May 2034
+      const leave: JsonResponse<Leave> = await request(app.getHttpServer())
+        .post('/leaves')
+        .set('Authorization', `Bearer ${colleagueToken}`)
+        .send({
+          type: 'ANNUAL',
+          startDate: '2034-05-01',
+          endDate: '2034-05-03',
+        })
+        .expect(201);
+      await request(app.getHttpServer())
+        .put(`/leaves/${leave.body.id}/approve`)
+        .set('Authorization', `Bearer ${staffingAdminToken}`)
+        .send({})
+        .expect(200);
+
+      const res: JsonResponse<Leave> = await request(app.getHttpServer())
+        .post('/leaves')
+        .set('Authorization', `Bearer ${requesterToken}`)
+        .send({
+          type: 'ANNUAL',
+          startDate: '2034-05-02',
+          endDate: '2034-05-04',
+        })
+        .expect(201);
+      requestId = res.body.id;
+    });
+
+    afterAll(async () => {
+      await userRepo.delete({ department: { id: departmentId } });
+      await userRepo.delete([teamManager.id, staffingAdminId]);
+      await app
+        .get<Repository<Department>>(getRepositoryToken(Department))
+        .delete(departmentId);
+    });
+
+    it('should show the department head and minimum headcount', async () => {
+      const res: JsonResponse<Department> = await request(app.getHttpServer())
+        .get(`/departments/${departmentId}`)
+        .set('Authorization', `Bearer ${requesterToken}`)
+        .expect(200);
+      expect(res.body).toMatchObject({
+        minHeadcount: 2,
+        head: { id: teamManager.id, name: 'Staffing Manager' },
+      });
+      expect(res.body.members).toHaveLength(3);
+    });
+
+    it('should refuse approvals that drop below the minimum headcount', async () => {
+      const res: JsonResponse<ErrorBody> = await request(app.getHttpServer())
+        .put(`/leaves/${requestId}/approve`)
+        .set('Authorization', `Bearer ${managerToken}`)
+        .send({})
+        .expect(409);
+      expect(res.body.message).toContain('2034-05-02, 2034-05-03');
+      expect(res.body.error).toEqual({
+        department: { id: departmentId, name: `Support ${stamp}` },
+        minimum: 2,
+        shortfalls: [
+          { date: '2034-05-02', present: 1 },
+          { date: '2034-05-03', present: 1 },
+        ],
+      });
+    });
+
+    it('should only let admins override minimum staffing', async () => {
+      await request(app.getHttpServer())
+        .put(`/leaves/${requestId}/approve`)
+        .set('Authorization', `Bearer ${managerToken}`)
+        .send({ overrideStaffing: true })
+        .expect(403);
+
+      const res: JsonResponse<Leave> = await request(app.getHttpServer())
+        .put(`/leaves/${requestId}/approve`)
+        .set('Authorization', `Bearer ${staffingAdminToken}`)
+        .send({ overrideStaffing: true, comment: 'Covered by contractors' })
+        .expect(200);
+      expect(res.body.status).toBe('APPROVED');
+
+      const history: JsonResponse<LeaveEvent[]> = await request(
+        app.getHttpServer(),
+      )
+        .get(`/leaves/${requestId}/history`)
+        .set('Authorization', `Bearer ${requesterToken}`)
+        .expect(200);
+      expect(history.body[history.body.length - 1]).toMatchObject({
+        action: 'APPROVED',
+        comment: 'Covered by contractors',
+        staffingOverride: {
+          departmentId,
+          minimum: 2,
+          dates: ['2034-05-02', '2034-05-03'],
+        },
+      });
+    });
+  });
+
+  // reminders and escalations of requests nobody acts on
+  describe('Escalations (/escalation-rules, /escalations/overdue)', () => {
+    const stamp = Date.now();
+    let admin: User;
+    let adminToken: string;
+    let manager: User;
+    let employee: User;
+    let managerToken: string;
+    let employeeToken: string;
+    let escalationType: LeaveType;
+    let staleLeaveId: number;
+    let freshLeaveId: number;
+
+    const login = async (email: string) => {
+      const res: JsonResponse<TokenPair> = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email, password: 'password123' })
+        .expect(200);
+      return res.body.access_token;
+    };
+
+    const dispatchAll = async () => {
+      const dispatcher = app.get(OutboxDispatcher);
+      while ((await dispatcher.dispatchPending()) > 0) {
+        // keep going until the outbox is drained
+      }
+    };
+
+    const submit = async (date: string) => {
+      const res: JsonResponse<Leave> = await request(app.getHttpServer())
+        .post('/leaves')
+        .set('Authorization', `Bearer ${employeeToken}`)
+        .send({ type: escalationType.code, startDate: date, endDate: date })
+        .expect(201);
+      return res.body.id;
+    };
+
+    beforeAll(async () => {
+      ({ admin, adminToken } = await createAdmin());
+      const password = await bcrypt.hash('password123', 10);
+      manager = await userRepo.save({
+        email: `sla-manager-${stamp}@example.com`,
+        password,
+        name: 'SLA Manager',
+        role: UserRole.MANAGER,
+      });
+      employee = await userRepo.save({
+        email: `sla-employee-${stamp}@example.com`,
+        password,
+        name: 'SLA Employee',
+        role: UserRole.USER,
+        manager: { id: manager.id },
+      });
+      managerToken = await login(manager.email);
+      employeeToken = await login(employee.email);
+      escalationType = await leaveTypeRepo.save({
+        code: `SLA_${stamp}`,
+        name: 'SLA Leave',
+        defaultEntitlement: 10,
+      });
+
+      staleLeaveId = await submit('2031-04-07');
+      freshLeaveId = await submit('2031-04-08');
+      // Submitted four weeks ago: well past both rules below
+      await app
+        .get<Repository<LeaveEvent>>(getRepositoryToken(LeaveEvent))
+        .update(
+          { leave: { id: staleLeaveId } },
+          { createdAt: new Date(Date.now() - 28 * 24 * 60 * 60 * 1000) },
+        );
+    });
+
+    afterAll(async () => {
+      await userRepo.delete(employee.id);
+      await userRepo.delete([manager.id, admin.id]);
+      await app
+        .get<Repository<EscalationRule>>(getRepositoryToken(EscalationRule))
+        .delete({ leaveType: { id: escalationType.id } });
+      await leaveTypeRepo.delete(escalationType.id);
+    });
+
+    it('should let admins configure escalation rules', async () => {
+      for (const rule of [
+        { name: 'Remind approver', action: 'REMIND', afterBusinessDays: 2 },
+        { name: 'Escalate to HR', action: 'ESCALATE', afterBusinessDays: 5 },
+      ]) {
+        await request(app.getHttpServer())
+          .post('/escalation-rules')
+          .set('Authorization', `Bearer ${adminToken}`)
+          .send({ ...rule, leaveType: escalationType.code })
+          .expect(201);
+      }
+      await request(app.getHttpServer())
+        .post('/escalation-rules')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ name: 'Too soon', action: 'REMIND', afterBusinessDays: 0 })
+        .expect(400);
+      await request(app.getHttpServer())
+        .get('/escalation-rules')
+        .set('Authorization', `Bearer ${managerToken}`)
+        .expect(403);
+    });
+
+    it('should list overdue requests for admins', async () => {
+      const overdue: JsonResponse<OverdueLeave[]> = await request(
+        app.getHttpServer(),
+      )
+        .get('/escalations/overdue')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      const ids = overdue.body.map((item) => item.leave.id);
+      expect(ids).toContain(staleLeaveId);
+      expect(ids).not.toContain(freshLeaveId);
+      const stale = overdue.body.find((item) => item.leave.id === staleLeaveId);
+      expect(stale?.step).toBe('MANAGER');
+      expect(stale?.businessDaysWaiting).toBeGreaterThanOrEqual(15);
+
+      const all: JsonResponse<OverdueLeave[]> = await request(
+        app.getHttpServer(),
+      )
+        .get('/escalations/overdue')
+        .query({ days: 0 })
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      expect(all.body.map((item) => item.leave.id)).toContain(freshLeaveId);
+
+      await request(app.getHttpServer())
+        .get('/escalations/overdue')
+        .set('Authorization', `Bearer ${managerToken}`)
+        .expect(403);
+    });
+
+    it('should skip the job while another instance holds its lock', async () => {
+      const runner = app.get(DataSource).createQueryRunner();
+      await runner.startTransaction();
+      try {
+        await runner.query('SELECT pg_advisory_xact_lock(hashtext($1))', [
+          'scheduler:leave-escalations',
+        ]);
+        expect(await app.get(SchedulerService).runAll()).not.toContain(
+          'leave-escalations',
+        );
+      } finally {
+        await runner.rollbackTransaction();
+        await runner.release();
+      }
+    });
+
+    it('should remind, then escalate, exactly once', async () => {
+      const scheduler = app.get(SchedulerService);
+      expect(await scheduler.runAll()).toContain('leave-escalations');
+      await scheduler.runAll();
+      await dispatchAll();
+
+      const inbox: JsonResponse<Paginated<Notification>> = await request(
+        app.getHttpServer(),
+      )
+        .get('/notifications')
+        .set('Authorization', `Bearer ${managerToken}`)
+        .expect(200);
+      const reminders = inbox.body.items.filter(
+        (item) => item.event === LeaveDomainEvent.REMINDER,
+      );
+      expect(reminders).toHaveLength(1);
+      expect(reminders[0].leave?.id).toBe(staleLeaveId);
+
+      const adminInbox: JsonResponse<Paginated<Notification>> = await request(
+        app.getHttpServer(),
+      )
+        .get('/notifications')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      expect(
+        adminInbox.body.items.filter(
+          (item) =>
+            item.event === LeaveDomainEvent.ESCALATED &&
+            item.leave?.id === staleLeaveId,
+        ),
+      ).toHaveLength(1);
+
+      const history: JsonResponse<LeaveEvent[]> = await request(
+        app.getHttpServer(),
+      )
+        .get(`/leaves/${staleLeaveId}/history`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      const escalated = history.body.filter(
+        (event) => event.action === LeaveEventAction.ESCALATED,
+      );
+      expect(escalated).toHaveLength(1);
+      expect(escalated[0].comment).toContain('Escalate to HR');
+
+      // The step now belongs to the admins
+      await request(app.getHttpServer())
+        .put(`/leaves/${staleLeaveId}/approve`)
+        .set('Authorization', `Bearer ${managerToken}`)
+        .send({})
+        .expect(403);
+      await request(app.getHttpServer())
+        .put(`/leaves/${staleLeaveId}/approve`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({})
+        .expect(200);
+
+      const fresh: JsonResponse<Leave> = await request(app.getHttpServer())
+        .get(`/leaves/${freshLeaveId}`)
+        .set('Authorization', `Bearer ${employeeToken}`)
+        .expect(200);
+      expect(fresh.body.approvalSteps).toEqual(['MANAGER']);
+    });
+  });
+
+  describe('Leave Status Transitions', () => {
+    it('should not approve or reject an already approved leave', async () => {
+      const { admin, adminToken } = await createAdmin();
+
+      await request(app.getHttpServer())
+        .put(`/leaves/${leaveId}/approve`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(409);
+
+      await request(app.getHttpServer())
+        .put(`/leaves/${leaveId}/reject`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ reason: 'Too late' })
+        .expect(409);
+
+      await userRepo.delete(admin.id);
+    });
+
+    it('should let the owner withdraw a pending leave once', async () => {
+      const created: JsonResponse<Leave> = await request(app.getHttpServer())
+        .post('/leaves')
+        .set('Authorization', `Bearer ${token}`)
+        .send({
+          type: 'ANNUAL',
+          startDate: '2024-09-02',
+          endDate: '2024-09-02',
+        })
+        .expect(201);
+
+      const res: JsonResponse<Leave> = await request(app.getHttpServer())
+        .put(`/leaves/${created.body.id}/withdraw`)
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+      expect(res.body.status).toBe('WITHDRAWN');
+
+      await request(app.getHttpServer())
+        .put(`/leaves/${created.body.id}/withdraw`)
+        .set('Authorization', `Bearer ${token}`)
+        .expect(409);
+    });
+
+    it('should cancel an approved leave after the owner requests it', async () => {
+      const { admin, adminToken } = await createAdmin();
+
+      await request(app.getHttpServer())
+        .put(`/leaves/${leaveId}/withdraw`)
+        .set('Authorization', `Bearer ${token}`)
+        .expect(409);
+
+      const requested: JsonResponse<Leave> = await request(app.getHttpServer())
+        .put(`/leaves/${leaveId}/cancellation-request`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ reason: 'Plans changed' })
+        .expect(200);
+      expect(requested.body.status).toBe('APPROVED');
+      expect(requested.body.cancellationRequestedAt).toBeTruthy();
+
+      await request(app.getHttpServer())
+        .put(`/leaves/${leaveId}/cancellation-request`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({})
+        .expect(409);
+
+      await request(app.getHttpServer())
+        .put(`/leaves/${leaveId}/cancel`)
+        .set('Authorization', `Bearer ${token}`)
+        .expect(403);
+
+      const cancelled: JsonResponse<Leave> = await request(app.getHttpServer())
+        .put(`/leaves/${leaveId}/cancel`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      expect(cancelled.body.status).toBe('CANCELLED');
+
+      await userRepo.delete(admin.id);
+    });
+  });
+
+  // leave type catalog tests
+  describe('Absence Calendar (GET /calendar)', () => {
+    let calendarToken: string;
+    let calendarUserId: number;
+    let calendarLeaveId: number;
+
+    beforeAll(async () => {
+      const email = `calendar-${Date.now()}@example.com`;
+      const registered: JsonResponse<User> = await request(app.getHttpServer())
+        .post('/auth/register')
+        .send({ email, password: 'password123', name: 'Calendar User' })
+        .expect(201);
+      calendarUserId = registered.body.id;
+
+      const res: JsonResponse<TokenPair> = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email, password: 'password123' })
+        .expect(200);
+      calendarToken = res.body.access_token;
+
+      const leave: JsonResponse<Leave> = await request(app.getHttpServer())
+        .post('/leaves')
+        .set('Authorization', `Bearer ${calendarToken}`)
+        .send({
+          type: 'ANNUAL',
+          startDate: '2030-06-03',
+          endDate: '2030-06-05',
+        })
+        .expect(201);
+      calendarLeaveId = leave.body.id;
+    });
+
+    afterAll(async () => {
+      await userRepo.delete(calendarUserId);
+    });
+
+    it('should group visible absences by day', async () => {
+      const res: JsonResponse<CalendarDay[]> = await request(
+        app.getHttpServer(),
+      )
+        .get('/calendar')
+        .query({ from: '2030-06-04', to: '2030-06-07' })
+        .set('Authorization', `Bearer ${calendarToken}`)
+        .expect(200);
+
+      expect(res.body.map((day) => day.date)).toEqual([
+        '2030-06-04',
+        '2030-06-05',
+        '2030-06-06',
+        '2030-06-07',
+      ]);
+      expect(res.body[0].absences).toHaveLength(1);
+      expect(res.body[0].absences[0]).toMatchObject({
+        leaveId: calendarLeaveId,
+        status: 'PENDING',
+        type: { code: 'ANNUAL' },
+      });
+      expect(res.body[1].absences).toHaveLength(1);
+      expect(res.body[2].absences).toEqual([]);
+    });
+
+    it('should not show absences of other users to a regular user', async () => {
+      const res: JsonResponse<CalendarDay[]> = await request(
+        app.getHttpServer(),
+      )
+        .get('/calendar')
+        .query({ from: '2030-06-03', to: '2030-06-03' })
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+      expect(res.body[0].absences).toEqual([]);
+    });
+
+    it('should reject inverted or too long ranges', async () => {
+      await request(app.getHttpServer())
+        .get('/calendar')
+        .query({ from: '2030-06-07', to: '2030-06-01' })
+        .set('Authorization', `Bearer ${calendarToken}`)
+        .expect(400);
+      await request(app.getHttpServer())
+        .get('/calendar')
+        .query({ from: '2030-01-01', to: '2032-01-01' })
+        .set('Authorization', `Bearer ${calendarToken}`)
+        .expect(400);
+    });
+
+    it('should serve and revoke an iCalendar feed', async () => {
+      const feed: JsonResponse<CreatedFeed> = await request(app.getHttpServer())
+        .post('/calendar/feeds')
+        .set('Authorization', `Bearer ${calendarToken}`)
+        .send({ scope: 'user', name: 'My leave' })
+        .expect(201);
+      expect(feed.body.token).toBeDefined();
+
+      const ics = await request(app.getHttpServer())
+        .get(feed.body.path)
+        .expect(200);
+      expect(ics.headers['content-type']).toContain('text/calendar');
+      expect(ics.text).toContain('BEGIN:VCALENDAR');
+      expect(ics.text).toContain(`UID:leave-${calendarLeaveId}@leave-api`);
+      expect(ics.text).toContain('DTSTART;VALUE=DATE:20300603');
+      expect(ics.text).toContain('DTEND;VALUE=DATE:20300606');
+      expect(ics.text).toContain('STATUS:TENTATIVE');
+
+      const list: JsonResponse<CalendarFeed[]> = await request(
+        app.getHttpServer(),
+      )
+        .get('/calendar/feeds')
+        .set('Authorization', `Bearer ${calendarToken}`)
+        .expect(200);
+      expect(list.body.map((item) => item.id)).toEqual([feed.body.id]);
+      expect(list.body[0].tokenHash).toBeUndefined();
+
+      await request(app.getHttpServer())
+        .delete(`/calendar/feeds/${feed.body.id}`)
+        .set('Authorization', `Bearer ${calendarToken}`)
+        .expect(200);
+      await request(app.getHttpServer()).get(feed.body.path).expect(404);
+    });
+
+    it('should render leave submitted with datetimes as all-day events', async () => {
+      const leave: JsonResponse<Leave> = await request(app.getHttpServer())
+        .post('/leaves')
+        .set('Authorization', `Bearer ${calendarToken}`)
+        .send({
+          type: 'ANNUAL',
+          startDate: '2030-07-01T00:00:00.000Z',
+          endDate: '2030-07-02T00:00:00.000Z',
+        })
+        .expect(201);
+      expect(leave.body.startDate).toBe('2030-07-01');
+      expect(leave.body.endDate).toBe('2030-07-02');
+      const feed: JsonResponse<CreatedFeed> = await request(app.getHttpServer())
+        .post('/calendar/feeds')
+        .set('Authorization', `Bearer ${calendarToken}`)
+        .send({ scope: 'user' })
+        .expect(201);
+
+      const ics = await request(app.getHttpServer())
+        .get(feed.body.path)
+        .expect(200);
+      expect(ics.text).toContain('DTSTART;VALUE=DATE:20300701');
+      expect(ics.text).toContain('DTEND;VALUE=DATE:20300703');
+
+      // Requests stored before dates were normalized still render as dates
+      await app
+        .get<Repository<Leave>>(getRepositoryToken(Leave))
+        .update(leave.body.id, { startDate: '2030-07-01T09:30:00.000Z' });
+      const legacy = await request(app.getHttpServer())
+        .get(feed.body.path)
+        .expect(200);
+      expect(legacy.text).toContain('DTSTART;VALUE=DATE:20300701');
+      expect(legacy.text).not.toContain('T093000');
+    });
+
+    it('should only issue team feeds to managers and admins', () => {
+      return request(app.getHttpServer())
+        .post('/calendar/feeds')
+        .set('Authorization', `Bearer ${calendarToken}`)
+        .send({ scope: 'team' })
+        .expect(403);
+    });
+  });
+
+  describe('Leave Attachments (/leaves/:id/attachments)', () => {
+    const pdf = Buffer.from('%PDF-1.4\n% medical certificate\n');
+    let ownerToken: string;
+    let ownerId: number;
+    let otherToken: string;
+    let otherId: number;
+    let sickLeaveId: number;
+    let attachmentAdminToken: string;
+    let attachmentAdminId: number;
+
+    const registerAndLogin = async (name: string) => {
+      const email = `attach-${name}-${Date.now()}@example.com`;
+      const registered: JsonResponse<User> = await request(app.getHttpServer())
+        .post('/auth/register')
+        .send({ email, password: 'password123', name })
+        .expect(201);
+      const res: JsonResponse<TokenPair> = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email, password: 'password123' })
+        .expect(200);
+      return {
+        id: registered.body.id,
+        token: res.body.access_token,
+      };
+    };
+
+    beforeAll(async () => {
+      if (!(await leaveTypeRepo.exists({ where: { code: 'SICKDOC' } }))) {
+        await leaveTypeRepo.save({
+          code: 'SICKDOC',
+          name: 'Certified Sick Leave',
+          defaultEntitlement: 30,
+          requiresAttachment: true,
+          attachmentRequiredAfterDays: 2,
+        });
+      }
+      ({ id: ownerId, token: ownerToken } = await registerAndLogin('owner'));
+      ({ id: otherId, token: otherToken } = await registerAndLogin('other'));
+      const created = await createAdmin();
+      attachmentAdminId = created.admin.id;
+      attachmentAdminToken = created.adminToken;
+
+      const leave: JsonResponse<Leave> = await request(app.getHttpServer())
+        .post('/leaves')
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({
+          type: 'SICKDOC',
+          startDate: '2030-09-02',
+          endDate: '2030-09-06',
+        })
+        .expect(201);
+      sickLeaveId = leave.body.id;
+    });
+
+    afterAll(async () => {
+      await userRepo.delete([ownerId, otherId, attachmentAdminId]);
+    });
+
+    it('should block approval until a required document is attached', () => {
+      return request(app.getHttpServer())
+        .put(`/leaves/${sickLeaveId}/approve`)
+        .set('Authorization', `Bearer ${attachmentAdminToken}`)
+        .send({})
+        .expect(400);
+    });
+
+    it('should reject disallowed or mislabelled files', async () => {
+      await request(app.getHttpServer())
+        .post(`/leaves/${sickLeaveId}/attachments`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .attach('file', Buffer.from('#!/bin/sh\n'), {
+          filename: 'script.sh',
+          contentType: 'application/x-sh',
+        })
+        .expect(400);
+      await request(app.getHttpServer())
+        .post(`/leaves/${sickLeaveId}/attachments`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .attach('file', Buffer.from('MZ not a pdf'), {
+          filename: 'certificate.pdf',
+          contentType: 'application/pdf',
+        })
+        .expect(400);
+    });
+
+    it('should not let other users upload to or see the leave', async () => {
+      await request(app.getHttpServer())
+        .post(`/leaves/${sickLeaveId}/attachments`)
+        .set('Authorization', `Bearer ${otherToken}`)
+        .attach('file', pdf, {
+          filename: 'certificate.pdf',
+          contentType: 'application/pdf',
+        })
+        .expect(404);
+      await request(app.getHttpServer())
+        .get(`/leaves/${sickLeaveId}/attachments`)
+        .set('Authorization', `Bearer ${otherToken}`)
+        .expect(404);
+    });
+
+    it('should upload, list and download a document', async () => {
+      const uploaded: JsonResponse<LeaveAttachment> = await request(
+        app.getHttpServer(),
+      )
+        .post(`/leaves/${sickLeaveId}/attachments`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .attach('file', pdf, {
+          filename: '../certificate.pdf',
+          contentType: 'application/pdf',
+        })
+        .expect(201);
+      expect(uploaded.body).toMatchObject({
+        fileName: 'certificate.pdf',
+        mimeType: 'application/pdf',
+        size: pdf.length,
+      });
+      expect(uploaded.body.storageKey).toBeUndefined();
+
+      const list: JsonResponse<LeaveAttachment[]> = await request(
+        app.getHttpServer(),
+      )
+        .get(`/leaves/${sickLeaveId}/attachments`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .expect(200);
+      expect(list.body.map((item) => item.id)).toEqual([uploaded.body.id]);
+
+      const path = `/leaves/${sickLeaveId}/attachments/${uploaded.body.id}`;
+      const file = await request(app.getHttpServer())
+        .get(path)
+        .set('Authorization', `Bearer ${attachmentAdminToken}`)
+        .buffer(true)
+        .parse((res, done) => {
+          const chunks: Buffer[] = [];
+          res.on('data', (chunk: Buffer) => chunks.push(chunk));
+          res.on('end', () => done(null, Buffer.concat(chunks)));
+        })
+        .expect(200);
+      expect(file.headers['content-type']).toContain('application/pdf');
+      expect(file.headers['content-disposition']).toContain('certificate.pdf');
+      expect(file.headers['x-content-type-options']).toBe('nosniff');
+      expect((file.body as Buffer).equals(pdf)).toBe(true);
+
+      await request(app.getHttpServer())
+        .get(path)
+        .set('Authorization', `Bearer ${otherToken}`)
+        .expect(404);
+    });
+
+    it('should approve once a document is attached', async () => {
+      const res: JsonResponse<Leave> = await request(app.getHttpServer())
+        .put(`/leaves/${sickLeaveId}/approve`)
+        .set('Authorization', `Bearer ${attachmentAdminToken}`)
+        .send({})
+        .expect(200);
+      expect(res.body.status).toBe('APPROVED');
+    });
+
+    it('should only let admins remove documents of an approved leave', async () => {
+      const list: JsonResponse<LeaveAttachment[]> = await request(
+        app.getHttpServer(),
+      )
+        .get(`/leaves/${sickLeaveId}/attachments`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .expect(200);
+      const path = `/leaves/${sickLeaveId}/attachments/${list.body[0].id}`;
+
+      await request(app.getHttpServer())
+        .delete(path)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .expect(409);
+      await request(app.getHttpServer())
+        .delete(path)
+        .set('Authorization', `Bearer ${attachmentAdminToken}`)
+        .expect(204);
+      await request(app.getHttpServer())
+        .get(path)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .expect(404);
+    });
+  });
+
+  describe('Notifications (GET /notifications)', () => {
+    const stamp = Date.now();
+    let manager: User;
+    let employee: User;
+    let managerToken: string;
+    let employeeToken: string;
+
+    const login = async (email: string) => {
+      const res: JsonResponse<TokenPair> = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email, password: 'password123' })
+        .expect(200);
+      return res.body.access_token;
+    };
+
+    const dispatchAll = async () => {
+      const dispatcher = app.get(OutboxDispatcher);
+      while ((await dispatcher.dispatchPending()) > 0) {
+        // keep going until the outbox is drained
+      }
+    };
+
+    beforeAll(async () => {
+      const password = await bcrypt.hash('password123', 10);
+      manager = await userRepo.save({
+        email: `notify-manager-${stamp}@example.com`,
+        password,
+        name: 'Notify Manager',
+        role: UserRole.MANAGER,
+      });
+      employee = await userRepo.save({
+        email: `notify-employee-${stamp}@example.com`,
+        password,
+        name: 'Notify Employee',
+        role: UserRole.USER,
+        manager: { id: manager.id },
+      });
+      managerToken = await login(manager.email);
+      employeeToken = await login(employee.email);
+    });
+
+    afterAll(async () => {
+      await userRepo.delete([employee.id, manager.id]);
+    });
+
+    it('should notify approvers and requesters through their enabled channels', async () => {
+      await request(app.getHttpServer())
+        .put('/notifications/preferences')
+        .set('Authorization', `Bearer ${employeeToken}`)
+        .send({
+          preferences: [
+            { event: 'leave.approved', channel: 'email', enabled: false },
+          ],
+        })
+        .expect(200)
+        .then((res) => {
+          expect(res.body).toHaveLength(16);
+          expect(res.body).toContainEqual({
+            event: 'leave.approved',
+            channel: 'email',
+            enabled: false,
+          });
+        });
+
+      const leave: JsonResponse<Leave> = await request(app.getHttpServer())
+        .post('/leaves')
+        .set('Authorization', `Bearer ${employeeToken}`)
+        .send({
+          type: 'ANNUAL',
+          startDate: '2030-09-02',
+          endDate: '2030-09-03',
+        })
+        .expect(201);
+      await dispatchAll();
+
+      const inbox: JsonResponse<Paginated<Notification>> = await request(
+        app.getHttpServer(),
+      )
+        .get('/notifications')
+        .set('Authorization', `Bearer ${managerToken}`)
+        .expect(200);
+      expect(inbox.body.items).toHaveLength(1);
+      expect(inbox.body.items[0]).toMatchObject({
+        event: 'leave.submitted',
+        title: 'New leave request from Notify Employee',
+        leave: { id: leave.body.id },
+        readAt: null,
+      });
+      const outbox = app.get<OutboxMailTransport>(MailTransport);
+      expect(await outbox.list(manager.email)).toHaveLength(1);
+
+      await request(app.getHttpServer())
+        .put(`/leaves/${leave.body.id}/approve`)
+        .set('Authorization', `Bearer ${managerToken}`)
+        .send({ comment: 'Enjoy' })
+        .expect(200);
+      await dispatchAll();
+
+      const own: JsonResponse<Paginated<Notification>> = await request(
+        app.getHttpServer(),
+      )
+        .get('/notifications')
+        .set('Authorization', `Bearer ${employeeToken}`)
+        .expect(200);
+      expect(own.body.items.map((item) => item.event)).toEqual([
+        'leave.approved',
+      ]);
+      expect(own.body.items[0].body).toContain('Comment: Enjoy');
+      // Email for approvals was switched off
+      expect(await outbox.list(employee.email)).toEqual([]);
+    });
+
+    it('should mark notifications as read', async () => {
+      const unread: JsonResponse<Paginated<Notification>> = await request(
+        app.getHttpServer(),
+      )
+        .get('/notifications')
+        .query({ unread: true })
+        .set('Authorization', `Bearer ${managerToken}`)
+        .expect(200);
+      expect(unread.body.items).toHaveLength(1);
+
+      await request(app.getHttpServer())
+        .put(`/notifications/${unread.body.items[0].id}/read`)
+        .set('Authorization', `Bearer ${employeeToken}`)
+        .expect(404);
+      await request(app.getHttpServer())
+        .put(`/notifications/${unread.body.items[0].id}/read`)
+        .set('Authorization', `Bearer ${managerToken}`)
+        .expect(200);
+
+      const after: JsonResponse<Paginated<Notification>> = await request(
+        app.getHttpServer(),
+      )
+        .get('/notifications')
+        .query({ unread: true })
+        .set('Authorization', `Bearer ${managerToken}`)
+        .expect(200);
+      expect(after.body.items).toEqual([]);
+    });
+
+    it('should notify the next step and the admins of a cancellation request', async () => {
+      const { admin, adminToken } = await createAdmin();
+      const type = await leaveTypeRepo.save({
+        code: `NOTIFY_${stamp}`,
+        name: 'Notify Leave',
+        defaultEntitlement: 20,
+      });
+      const rule = await app
+        .get<Repository<ApprovalRule>>(getRepositoryToken(ApprovalRule))
+        .save({
+          name: 'Manager then admin',
+          leaveType: type,
+          steps: [ApprovalStep.MANAGER, ApprovalStep.ADMIN],
+        });
+      const inbox = async (token: string) => {
+        await dispatchAll();
+        const res: JsonResponse<Paginated<Notification>> = await request(
+          app.getHttpServer(),
+        )
+          .get('/notifications')
+          .set('Authorization', `Bearer ${token}`)
+          .expect(200);
+        return res.body.items.filter(
+          (item) => item.leave?.id === leave.body.id,
+        );
+      };
+
+      const leave: JsonResponse<Leave> = await request(app.getHttpServer())
+        .post('/leaves')
+        .set('Authorization', `Bearer ${employeeToken}`)
+        .send({
+          type: type.code,
+          startDate: '2030-10-07',
+          endDate: '2030-10-08',
+        })
+        .expect(201);
+      await request(app.getHttpServer())
+        .put(`/leaves/${leave.body.id}/approve`)
+        .set('Authorization', `Bearer ${managerToken}`)
+        .expect(200);
+      expect(await inbox(adminToken)).toMatchObject([
+        {
+          event: 'leave.step_pending',
+          title: 'Leave request from Notify Employee needs your approval',
+        },
+      ]);
+
+      await request(app.getHttpServer())
+        .put(`/leaves/${leave.body.id}/approve`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      await request(app.getHttpServer())
+        .put(`/leaves/${leave.body.id}/cancellation-request`)
+        .set('Authorization', `Bearer ${employeeToken}`)
+        .send({ reason: 'Plans changed' })
+        .expect(200);
+      const notified = await inbox(adminToken);
+      expect(notified.map((item) => item.event)).toEqual([
+        'leave.cancellation_requested',
+        'leave.step_pending',
+      ]);
+      expect(notified[0].body).toContain('Comment: Plans changed');
+      // The manager signed off their step and has nothing left to do
+      expect((await inbox(managerToken)).map((item) => item.event)).toEqual([
+        'leave.submitted',
+      ]);
+
+      await app
+        .get<Repository<ApprovalRule>>(getRepositoryToken(ApprovalRule))
+        .delete(rule.id);
+      await userRepo.delete(admin.id);
+    });
+
+    it('should retry a failed delivery without duplicating in-app notifications', async () => {
+      const outboxRepo: Repository<OutboxEvent> = app.get(
+        getRepositoryToken(OutboxEvent),
+      );
+      const mail = app.get<OutboxMailTransport>(MailTransport);
+      await dispatchAll();
+      const send = jest
+        .spyOn(mail, 'send')
+        .mockRejectedValueOnce(new Error('SMTP unavailable'));
+
+      const leave: JsonResponse<Leave> = await request(app.getHttpServer())
+        .post('/leaves')
+        .set('Authorization', `Bearer ${employeeToken}`)
+        .send({
+          type: 'ANNUAL',
+          startDate: '2030-11-04',
+          endDate: '2030-11-05',
+        })
+        .expect(201);
+      const findEvent = () =>
+        outboxRepo
+          .createQueryBuilder('event')
+          .where('event.type = :type', { type: 'leave.submitted' })
+          .andWhere("event.payload ->> 'leaveId' = :leaveId", {
+            leaveId: String(leave.body.id),
+          })
+          .getOneOrFail();
+      const inbox = async () => {
+        const res: JsonResponse<Paginated<Notification>> = await request(
+          app.getHttpServer(),
+        )
+          .get('/notifications')
+          .set('Authorization', `Bearer ${managerToken}`)
+          .expect(200);
+        return res.body.items.filter(
+          (item) => item.leave?.id === leave.body.id,
+        );
+      };
+
+      await dispatchAll();
+      send.mockRestore();
+      const failed = await findEvent();
+      expect(failed.status).toBe(OutboxStatus.PENDING);
+      expect(failed.attempts).toBe(1);
+      expect(failed.lastError).toContain(`user ${manager.id} via email`);
+      expect(await inbox()).toHaveLength(1);
+
+      // Retry right away instead of waiting for the backoff
+      await outboxRepo.update(failed.id, { availableAt: () => 'now()' });
+      await dispatchAll();
+      expect((await findEvent()).status).toBe(OutboxStatus.PROCESSED);
+      expect(await inbox()).toHaveLength(1);
+      expect(
+        (await mail.list(manager.email)).filter((sent) =>
+          sent.text.includes('from 2030-11-04'),
+        ),
+      ).toHaveLength(1);
+    });
+
+    it('should only retry the handler that failed', async () => {
+      const outboxRepo: Repository<OutboxEvent> = app.get(
+        getRepositoryToken(OutboxEvent),
+      );
+      const mail = app.get<OutboxMailTransport>(MailTransport);
+      await dispatchAll();
+      const webhooks = jest
+        .spyOn(app.get(WebhookDeliveryService), 'handle')
+        .mockRejectedValueOnce(new Error('Database hiccup'));
+      const send = jest.spyOn(mail, 'send');
+
+      const leave: JsonResponse<Leave> = await request(app.getHttpServer())
+        .post('/leaves')
+        .set('Authorization', `Bearer ${employeeToken}`)
+        .send({
+          type: 'ANNUAL',
+          startDate: '2030-11-11',
+          endDate: '2030-11-12',
+        })
+        .expect(201);
+      const findEvent = () =>
+        outboxRepo
+          .createQueryBuilder('event')
+          .where('event.type = :type', { type: 'leave.submitted' })
+          .andWhere("event.payload ->> 'leaveId' = :leaveId", {
+            leaveId: String(leave.body.id),
+          })
+          .getOneOrFail();
+
+      await dispatchAll();
+      const failed = await findEvent();
+      expect(failed.status).toBe(OutboxStatus.PENDING);
+      expect(failed.lastError).toBe('webhooks: Database hiccup');
+      expect(failed.completedHandlers).toEqual(
+        expect.arrayContaining(['notifications']),
+      );
+      expect(failed.completedHandlers).not.toContain('webhooks');
+
+      await outboxRepo.update(failed.id, { availableAt: () => 'now()' });
+      await dispatchAll();
+      expect((await findEvent()).status).toBe(OutboxStatus.PROCESSED);
+      expect(webhooks).toHaveBeenCalledTimes(2);
+      // The manager was emailed once, on the first attempt
+      expect(
+        send.mock.calls.filter(([sent]) => sent.text.includes('2030-11-11')),
+      ).toHaveLength(1);
+      webhooks.mockRestore();
+      send.mockRestore();
+    });
+  });
+
+  describe('Webhooks (admin /webhooks)', () => {
+    const received: { headers: IncomingHttpHeaders; body: string }[] = [];
+    let server: Server;
+    let baseUrl: string;
+    let admin: User;
+    let adminToken: string;
+    let webhookUserId: number;
+    let webhookToken: string;
+    let receiverStatus = 200;
+
+    const dispatchAll = async () => {
+      const dispatcher = app.get(OutboxDispatcher);
+      while ((await dispatcher.dispatchPending()) > 0) {
+        // keep going until the outbox is drained
+      }
+      await app.get(WebhookDeliveryService).deliverDue();
+    };
+
+    const payloadOf = (body: string) =>
+      (JSON.parse(body) as { data: LeaveEventPayload }).data;
+
+    beforeAll(async () => {
+      server = createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => (body += chunk));
+        req.on('end', () => {
+          received.push({ headers: req.headers, body });
+          res.writeHead(receiverStatus).end();
+        });
+      });
+      await new Promise<void>((resolve) =>
+        server.listen(0, '127.0.0.1', resolve),
+      );
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+      ({ admin, adminToken } = await createAdmin());
+      const email = `webhook-${Date.now()}@example.com`;
+      const registered: JsonResponse<User> = await request(app.getHttpServer())
+        .post('/auth/register')
+        .send({ email, password: 'password123', name: 'Webhook User' })
+        .expect(201);
+      webhookUserId = registered.body.id;
+      const res: JsonResponse<TokenPair> = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email, password: 'password123' })
+        .expect(200);
+      webhookToken = res.body.access_token;
+      // Drain earlier events so only the ones below reach the receiver
+      await dispatchAll();
+    });
+
+    afterAll(async () => {
+      await userRepo.delete([webhookUserId, admin.id]);
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should only let admins manage webhooks', () => {
+      return request(app.getHttpServer())
+        .get('/webhooks')
+        .set('Authorization', `Bearer ${webhookToken}`)
+        .expect(403);
+    });
+
+    it('should POST signed events to subscribed URLs', async () => {
+      const webhook: JsonResponse<WebhookSubscription> = await request(
+        app.getHttpServer(),
+      )
+        .post('/webhooks')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ url: `${baseUrl}/payroll`, events: ['leave.submitted'] })
+        .expect(201);
+      expect(webhook.body.secret).toHaveLength(64);
+
+      const leave: JsonResponse<Leave> = await request(app.getHttpServer())
+        .post('/leaves')
+        .set('Authorization', `Bearer ${webhookToken}`)
+        .send({
+          type: 'ANNUAL',
+          startDate: '2030-10-07',
+          endDate: '2030-10-08',
+        })
+        .expect(201);
+      await dispatchAll();
+
+      const delivery = received.find(
+        (item) => payloadOf(item.body).leaveId === leave.body.id,
+      );
+      expect(delivery).toBeDefined();
+      const { headers, body } = delivery!;
+      expect(headers['x-webhook-event']).toBe('leave.submitted');
+      const expected = createHmac('sha256', webhook.body.secret)
+        .update(`${headers['x-webhook-timestamp'] as string}.${body}`)
+        .digest('hex');
+      expect(headers['x-webhook-signature']).toBe(`sha256=${expected}`);
+      expect(payloadOf(body).user.id).toBe(webhookUserId);
+
+      const log: JsonResponse<Paginated<WebhookDelivery>> = await request(
+        app.getHttpServer(),
+      )
+        .get(`/webhooks/${webhook.body.id}/deliveries`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      expect(log.body.items[0]).toMatchObject({
+        eventType: 'leave.submitted',
+        status: 'SUCCEEDED',
+        attempts: 1,
+        lastStatusCode: 200,
+      });
+
+      await request(app.getHttpServer())
+        .delete(`/webhooks/${webhook.body.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(204);
+    });
+
+    it('should retry failing deliveries with backoff and dead-letter them', async () => {
+      process.env.WEBHOOK_MAX_ATTEMPTS = '2';
+      receiverStatus = 500;
+      const deliveryRepo = app.get<Repository<WebhookDelivery>>(
+        getRepositoryToken(WebhookDelivery),
+      );
+      const webhook: JsonResponse<WebhookSubscription> = await request(
+        app.getHttpServer(),
+      )
+        .post('/webhooks')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ url: `${baseUrl}/broken`, events: ['user.updated'] })
+        .expect(201);
+
+      await request(app.getHttpServer())
+        .put(`/users/${webhookUserId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ name: 'Renamed Webhook User' })
+        .expect(200);
+      await dispatchAll();
+
+      const deliveries = () =>
+        request(app.getHttpServer())
+          .get(`/webhooks/${webhook.body.id}/deliveries`)
+          .set('Authorization', `Bearer ${adminToken}`)
+          .expect(200);
+      let log: JsonResponse<Paginated<WebhookDelivery>> = await deliveries();
+      expect(log.body.items[0]).toMatchObject({
+        status: 'PENDING',
+        attempts: 1,
+      });
+      expect(
+        new Date(log.body.items[0].nextAttemptAt).getTime(),
+      ).toBeGreaterThan(Date.now());
+
+      // Skip the backoff wait
+      await deliveryRepo.update(log.body.items[0].id, {
+        nextAttemptAt: new Date(0),
+      });
+      await dispatchAll();
+      log = await deliveries();
+      expect(log.body.items[0]).toMatchObject({
+        status: 'DEAD',
+        attempts: 2,
+        lastStatusCode: 500,
+      });
+
+      receiverStatus = 200;
+      await request(app.getHttpServer())
+        .post(
+          `/webhooks/${webhook.body.id}/deliveries/${log.body.items[0].id}/redeliver`,
+        )
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      await dispatchAll();
+      log = await deliveries();
+      expect(log.body.items[0].status).toBe('SUCCEEDED');
+
+      delete process.env.WEBHOOK_MAX_ATTEMPTS;
+      await request(app.getHttpServer())
+        .delete(`/webhooks/${webhook.body.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(204);
+    });
+
+    it('should cancel pending deliveries when a webhook is deactivated', async () => {
+      const webhook: JsonResponse<WebhookSubscription> = await request(
+        app.getHttpServer(),
+      )
+        .post('/webhooks')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ url: `${baseUrl}/paused`, events: ['user.updated'] })
+        .expect(201);
+      const setActive = (active: boolean) =>
+        request(app.getHttpServer())
+          .put(`/webhooks/${webhook.body.id}`)
+          .set('Authorization', `Bearer ${adminToken}`)
+          .send({ active })
+          .expect(200);
+      const deliveries = () =>
+        request(app.getHttpServer())
+          .get(`/webhooks/${webhook.body.id}/deliveries`)
+          .set('Authorization', `Bearer ${adminToken}`)
+          .expect(200);
+
+      await request(app.getHttpServer())
+        .put(`/users/${webhookUserId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ name: 'Paused Webhook User' })
+        .expect(200);
+      // Queue the delivery without sending it
+      const dispatcher = app.get(OutboxDispatcher);
+      while ((await dispatcher.dispatchPending()) > 0) {
+        // keep going until the outbox is drained
+      }
+      let log: JsonResponse<Paginated<WebhookDelivery>> = await deliveries();
+      expect(log.body.items[0].status).toBe('PENDING');
+
+      await setActive(false);
+      log = await deliveries();
+      expect(log.body.items[0]).toMatchObject({
+        status: 'CANCELLED',
+        attempts: 0,
+      });
+      const redeliver = () =>
+        request(app.getHttpServer())
+          .post(
+            `/webhooks/${webhook.body.id}/deliveries/${log.body.items[0].id}/redeliver`,
+          )
+          .set('Authorization', `Bearer ${adminToken}`);
+      await redeliver().expect(409);
+
+      await setActive(true);
+      await redeliver().expect(200);
+      await dispatchAll();
+      log = await deliveries();
+      expect(log.body.items[0].status).toBe('SUCCEEDED');
+
+      await request(app.getHttpServer())
+        .delete(`/webhooks/${webhook.body.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(204);
+    });
+  });
+
+  describe('Leave Export (GET /reports/leaves/export)', () => {
+    let exportAdminToken: string;
+    let exportAdminId: number;
+    let exportUserToken: string;
+    let exportUserId: number;
+    let exportLeaveId: number;
+
+    beforeAll(async () => {
+      const created = await createAdmin();
+      exportAdminId = created.admin.id;
+      exportAdminToken = created.adminToken;
+
+      const email = `export-${Date.now()}@example.com`;
+      const registered: JsonResponse<User> = await request(app.getHttpServer())
+        .post('/auth/register')
+        .send({
+          email,
+          password: 'password123',
+          name: 'Export, "Payroll" User',
+        })
+        .expect(201);
+      exportUserId = registered.body.id;
+      const login: JsonResponse<TokenPair> = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email, password: 'password123' })
+        .expect(200);
+      exportUserToken = login.body.access_token;
+
+      // Thursday 30 January to Tuesday 4 February 2031: two working days in each month
+      const leave: JsonResponse<Leave> = await request(app.getHttpServer())
+        .post('/leaves')
+        .set('Authorization', `Bearer ${exportUserToken}`)
+        .send({
+          type: 'ANNUAL',
+          startDate: '2031-01-30',
+          endDate: '2031-02-04',
+        })
+        .expect(201);
+      exportLeaveId = leave.body.id;
+      await request(app.getHttpServer())
+        .put(`/leaves/${exportLeaveId}/approve`)
+        .set('Authorization', `Bearer ${exportAdminToken}`)
+        .send({})
+        .expect(200);
+    });
+
+    afterAll(async () => {
+      await userRepo.delete([exportUserId, exportAdminId]);
+    });
+
+    const csvLines = (text: string) =>
+      text
+        .split('\r\n')
+        .filter(
+          (line) =>
+            line.startsWith(`${exportLeaveId},`) ||
+            line.includes(`,${exportLeaveId},`),
+        );
+
+    it('should export approved leaves as CSV', async () => {
+      const res = await request(app.getHttpServer())
+        .get('/reports/leaves/export')
+        .query({ from: '2031-01-01', to: '2031-02-28' })
+        .set('Authorization', `Bearer ${exportAdminToken}`)
+        .expect(200);
+
+      expect(res.headers['content-type']).toContain('text/csv');
+      expect(res.headers['content-disposition']).toContain(
+        'leaves-approved-2031-01-01-2031-02-28.csv',
+      );
+      expect(res.text.split('\r\n')[0]).toBe(
+        'Leave ID,Employee ID,Employee,Email,Type code,Type,Start date,End date,Working days,Hours,Status',
+      );
+      const [line] = csvLines(res.text);
+      expect(line).toContain(
+        `${exportLeaveId},${exportUserId},"Export, ""Payroll"" User",`,
+      );
+      expect(line).toContain(
+        ',ANNUAL,Annual Leave,2031-01-30,2031-02-04,4,,APPROVED',
+      );
+    });
+
+    it('should split leaves by calendar month within the range', async () => {
+      const res = await request(app.getHttpServer())
+        .get('/reports/leaves/export')
+        .query({ from: '2031-01-01', to: '2031-02-03', splitByMonth: 'true' })
+        .set('Authorization', `Bearer ${exportAdminToken}`)
+        .expect(200);
+
+      const lines = csvLines(res.text);
+      expect(lines).toHaveLength(2);
+      expect(lines[0]).toMatch(/^2031-01,/);
+      expect(lines[0]).toContain(',2031-01-30,2031-01-31,2,,APPROVED');
+      expect(lines[1]).toMatch(/^2031-02,/);
+      expect(lines[1]).toContain(',2031-02-01,2031-02-03,1,,APPROVED');
+    });
+
+    it('should export XLSX workbooks', async () => {
+      const res = await request(app.getHttpServer())
+        .get('/reports/leaves/export')
+        .query({ format: 'xlsx', from: '2031-01-01', to: '2031-01-31' })
+        .set('Authorization', `Bearer ${exportAdminToken}`)
+        .buffer(true)
+        .parse((response, done) => {
+          const chunks: Buffer[] = [];
+          response.on('data', (chunk: Buffer) => chunks.push(chunk));
+          response.on('end', () => done(null, Buffer.concat(chunks)));
+        })
+        .expect(200);
+
+      expect(res.headers['content-type']).toContain('spreadsheetml');
+      // XLSX files are zip archives
+      expect((res.body as Buffer).subarray(0, 2).toString()).toBe('PK');
+    });
+
+    it('should validate the query and restrict exports to admins', async () => {
+      await request(app.getHttpServer())
+        .get('/reports/leaves/export')
+        .query({ format: 'pdf' })
+        .set('Authorization', `Bearer ${exportAdminToken}`)
+        .expect(400);
+      await request(app.getHttpServer())
+        .get('/reports/leaves/export')
+        .query({ from: '2031-02-01', to: '2031-01-01' })
+        .set('Authorization', `Bearer ${exportAdminToken}`)
+        .expect(400);
+      await request(app.getHttpServer())
+        .get('/reports/leaves/export')
+        .set('Authorization', `Bearer ${exportUserToken}`)
+        .expect(403);
+    });
+  });
+
+  describe('Absence Analytics (GET /reports/absence, /reports/bradford)', () => {
+    const analyticsEmail = `analytics-${Date.now()}@example.com`;
+    let analyticsAdminToken: string;
+    let analyticsAdminId: number;
+    let analyticsUserToken: string;
+    let analyticsUserId: number;
+    let departmentId: number;
+
+    const submit = async (type: string, startDate: string, endDate: string) => {
+      const res: JsonResponse<Leave> = await request(app.getHttpServer())
+        .post('/leaves')
+        .set('Authorization', `Bearer ${analyticsUserToken}`)
+        .send({ type, startDate, endDate })
+        .expect(201);
+      return res.body.id;
+    };
+
+    beforeAll(async () => {
+      if (!(await leaveTypeRepo.exists({ where: { code: 'SICK' } }))) {
+        await leaveTypeRepo.save({
+          code: 'SICK',
+          name: 'Sick Leave',
+          countsAgainstBalance: false,
+        });
+      }
+      const created = await createAdmin();
+      analyticsAdminId = created.admin.id;
+      analyticsAdminToken = created.adminToken;
+
+      const registered: JsonResponse<User> = await request(app.getHttpServer())
+        .post('/auth/register')
+        .send({
+          email: analyticsEmail,
+          password: 'password123',
+          name: 'Analytics User',
+        })
+        .expect(201);
+      analyticsUserId = registered.body.id;
+      const login: JsonResponse<TokenPair> = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: analyticsEmail, password: 'password123' })
+        .expect(200);
+      analyticsUserToken = login.body.access_token;
+
+      const department: JsonResponse<Department> = await request(
+        app.getHttpServer(),
+      )
+        .post('/departments')
+        .set('Authorization', `Bearer ${analyticsAdminToken}`)
+        .send({ name: `Analytics ${Date.now()}` })
+        .expect(201);
+      departmentId = department.body.id;
+      await request(app.getHttpServer())
+        .put(`/users/${analyticsUserId}`)
+        .set('Authorization', `Bearer ${analyticsAdminToken}`)
+        .send({ departmentId })
+        .expect(200);
+
+      // Two approved sick spells in March 2033 (1 + 2 days) and a rejected request in April
+      for (const [startDate, endDate] of [
+        ['2033-03-07', '2033-03-07'],
+        ['2033-03-14', '2033-03-15'],
+      ]) {
+        const id = await submit('SICK', startDate, endDate);
+        await request(app.getHttpServer())
+          .put(`/leaves/${id}/approve`)
+          .set('Authorization', `Bearer ${analyticsAdminToken}`)
+          .send({})
+          .expect(200);
+      }
+      const rejected = await submit('ANNUAL', '2033-04-04', '2033-04-05');
+      await request(app.getHttpServer())
+        .put(`/leaves/${rejected}/reject`)
+        .set('Authorization', `Bearer ${analyticsAdminToken}`)
+        .send({ reason: 'Release week' })
+        .expect(200);
+    });
+
+    afterAll(async () => {
+      await request(app.getHttpServer())
+        .delete(`/departments/${departmentId}`)
+        .set('Authorization', `Bearer ${analyticsAdminToken}`)
+        .expect(204);
+      await userRepo.delete([analyticsUserId, analyticsAdminId]);
+    });
+
+    const statistics = (groupBy: string) =>
+      request(app.getHttpServer())
+        .get('/reports/absence')
+        .query({ groupBy, from: '2033-01-01', to: '2033-12-31' })
+        .set('Authorization', `Bearer ${analyticsAdminToken}`)
+        .expect(200);
+
+    it('should list department members', async () => {
+      const res: JsonResponse<Department> = await request(app.getHttpServer())
+        .get(`/departments/${departmentId}`)
+        .set('Authorization', `Bearer ${analyticsUserToken}`)
+        .expect(200);
+      expect(res.body.members.map((member) => member.id)).toEqual([
+        analyticsUserId,
+      ]);
+      expect(res.body.members[0].password).toBeUndefined();
+    });
+
+    it('should aggregate requests by month', async () => {
+      const res: JsonResponse<AbsenceStatistics[]> = await statistics('month');
+      const march = res.body.find((row) => row.key === '2033-03');
+      const april = res.body.find((row) => row.key === '2033-04');
+      expect(march).toMatchObject({
+        requests: 2,
+        approved: 2,
+        rejected: 0,
+        approvalRate: 1,
+        daysTaken: 3,
+      });
+      expect(march?.averageTurnaroundHours).toBeGreaterThanOrEqual(0);
+      expect(april).toMatchObject({
+        requests: 1,
+        approved: 0,
+        rejected: 1,
+        approvalRate: 0,
+        daysTaken: 0,
+      });
+    });
+
+    it('should aggregate requests by type, user and department', async () => {
+      const byType: JsonResponse<AbsenceStatistics[]> =
+        await statistics('type');
+      expect(byType.body.find((row) => row.key === 'SICK')).toMatchObject({
+        label: 'Sick Leave',
+        daysTaken: 3,
+      });
+
+      const byUser: JsonResponse<AbsenceStatistics[]> =
+        await statistics('user');
+      expect(
+        byUser.body.find((row) => row.key === String(analyticsUserId)),
+      ).toMatchObject({
+        label: 'Analytics User',
+        requests: 3,
+        approvalRate: 0.6667,
+      });
+
+      const byDepartment: JsonResponse<AbsenceStatistics[]> =
+        await statistics('department');
+      expect(
+        byDepartment.body.find((row) => row.key === String(departmentId)),
+      ).toMatchObject({ requests: 3, approved: 2, rejected: 1, daysTaken: 3 });
+    });
+
+    it('should compute Bradford factors for sick leave', async () => {
+      const res: JsonResponse<BradfordScore[]> = await request(
+        app.getHttpServer(),
+      )
+        .get('/reports/bradford')
+        .query({ from: '2033-01-01', to: '2033-12-31' })
+        .set('Authorization', `Bearer ${analyticsAdminToken}`)
+        .expect(200);
+      expect(res.body.find((row) => row.user.id === analyticsUserId)).toEqual({
+        user: {
+          id: analyticsUserId,
+          name: 'Analytics User',
+          email: analyticsEmail,
+        },
+        spells: 2,
+        days: 3,
+        bradfordFactor: 12,
+      });
+    });
+
+    it('should restrict analytics to managers and admins', async () => {
+      await request(app.getHttpServer())
+        .get('/reports/absence')
+        .query({ groupBy: 'month' })
+        .set('Authorization', `Bearer ${analyticsUserToken}`)
+        .expect(403);
+      await request(app.getHttpServer())
+        .get('/reports/absence')
+        .query({ groupBy: 'week' })
+        .set('Authorization', `Bearer ${analyticsAdminToken}`)
+        .expect(400);
+    });
+  });
+
+  // year-end carry-over and expiry of carried days
+  describe('Year-End Carry-Over (POST /balances/year-end)', () => {
+    const stamp = Date.now();
+    let admin: User;
+    let adminToken: string;
+    let employee: User;
+    let employeeToken: string;
+    let capped: LeaveType;
+    let lasting: LeaveType;
+
+    const runYearEnd = (body: object, token = adminToken) =>
+      request(app.getHttpServer())
+        .post('/balances/year-end')
+        .set('Authorization', `Bearer ${token}`)
+        .send(body);
+
+    const itemsOf = <T extends { userId: number }>(items: T[]) =>
+      items.filter((item) => item.userId === employee.id);
+
+    beforeAll(async () => {
+      ({ admin, adminToken } = await createAdmin());
+      employee = await userRepo.save({
+        email: `carry-${stamp}@example.com`,
+        password: await bcrypt.hash('password123', 10),
+        name: 'Carry Employee',
+        role: UserRole.USER,
+      });
+      const login: JsonResponse<TokenPair> = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: employee.email, password: 'password123' })
+        .expect(200);
+      employeeToken = login.body.access_token;
+
+      // No default entitlement, so only the test employee has anything to carry
+      for (const [code, cap, expiryMonth] of [
+        [`CAP_${stamp}`, 5, 3],
+        [`LAST_${stamp}`, 3, null],
+      ]) {
+        await request(app.getHttpServer())
+          .post('/leave-types')
+          .set('Authorization', `Bearer ${adminToken}`)
+          .send({
+            code,
+            name: 'Carry-over Leave',
+            carryOverCap: cap,
+            carryOverExpiryMonth: expiryMonth,
+          })
+          .expect(201);
+      }
+      capped = await leaveTypeRepo.findOneByOrFail({ code: `CAP_${stamp}` });
+      lasting = await leaveTypeRepo.findOneByOrFail({ code: `LAST_${stamp}` });
+
+      for (const [type, days] of [
+        [capped.code, 10],
+        [lasting.code, 2],
+      ]) {
+        await request(app.getHttpServer())
+          .put(`/balances/${employee.id}/entitlements`)
+          .set('Authorization', `Bearer ${adminToken}`)
+          .send({ type, year: 2020, days })
+          .expect(200);
+      }
+      await request(app.getHttpServer())
+        .post(`/balances/${employee.id}/adjustments`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ type: capped.code, year: 2020, days: -2, note: 'Used' })
+        .expect(201);
+
+      // Two carried days taken before the carry-over expires
+      const leave = await app
+        .get<Repository<Leave>>(getRepositoryToken(Leave))
+        .save({
+          user: { id: employee.id },
+          type: { id: capped.id },
+          startDate: '2021-02-10',
+          endDate: '2021-02-11',
+          workingDays: 2,
+          status: LeaveStatus.APPROVED,
+        });
+      await app
+        .get<Repository<LedgerEntry>>(getRepositoryToken(LedgerEntry))
+        .save({
+          user: { id: employee.id },
+          leaveType: { id: capped.id },
+          year: 2021,
+          kind: LedgerEntryKind.APPROVAL,
+          days: -2,
+          leave: { id: leave.id },
+        });
+    });
+
+    afterAll(async () => {
+      await userRepo.delete([employee.id, admin.id]);
+      await leaveTypeRepo.delete([capped.id, lasting.id]);
+    });
+
+    it('should report a dry run without writing anything', async () => {
+      const res: JsonResponse<YearEndReport> = await runYearEnd({
+        year: 2020,
+        dryRun: true,
+      }).expect(200);
+      expect(res.body.dryRun).toBe(true);
+      expect(itemsOf(res.body.carriedOver)).toEqual([
+        {
+          userId: employee.id,
+          email: employee.email,
+          type: capped.code,
+          remaining: 8,
+          carried: 5,
+          forfeited: 3,
+          expiresOn: '2021-03-31',
+          status: 'PLANNED',
+        },
+        {
+          userId: employee.id,
+          email: employee.email,
+          type: lasting.code,
+          remaining: 2,
+          carried: 2,
+          forfeited: 0,
+          expiresOn: null,
+          status: 'PLANNED',
+        },
+      ]);
+
+      const ledger: JsonResponse<LedgerEntry[]> = await request(
+        app.getHttpServer(),
+      )
+        .get(`/balances/${employee.id}/ledger?year=2021`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      expect(ledger.body).toHaveLength(1);
+    });
+
+    it('should only apply years that have ended', async () => {
+      await runYearEnd({ year: new Date().getFullYear() }).expect(400);
+      await runYearEnd({ year: new Date().getFullYear(), dryRun: true }).expect(
+        200,
+      );
+    });
+
+    it('should carry over up to the cap and expire unused carried days', async () => {
+      const res: JsonResponse<YearEndReport> = await runYearEnd({
+        year: 2020,
+      }).expect(200);
+      expect(
+        itemsOf(res.body.carriedOver).map((item) => [
+          item.carried,
+          item.status,
+        ]),
+      ).toEqual([
+        [5, 'APPLIED'],
+        [2, 'APPLIED'],
+      ]);
+      expect(itemsOf(res.body.expired)).toEqual([
+        {
+          userId: employee.id,
+          email: employee.email,
+          type: capped.code,
+          year: 2021,
+          expiresOn: '2021-03-31',
+          carried: 5,
+          used: 2,
+          expired: 3,
+          status: 'APPLIED',
+        },
+      ]);
+
+      const ledger: JsonResponse<LedgerEntry[]> = await request(
+        app.getHttpServer(),
+      )
+        .get(`/balances/${employee.id}/ledger?year=2021`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      const entries = ledger.body.filter(
+        (entry) => entry.kind !== LedgerEntryKind.APPROVAL,
+      );
+      expect(
+        entries.map((entry) => [entry.leaveType.code, entry.kind, entry.days]),
+      ).toEqual([
+        [capped.code, 'CARRY_OVER', 5],
+        [lasting.code, 'CARRY_OVER', 2],
+        [capped.code, 'CARRY_OVER_EXPIRY', -3],
+      ]);
+      expect(entries[0].createdBy?.id).toBe(admin.id);
+      expect(entries[0].note).toContain('3 over the cap of 5 forfeited');
+
+      const balance: JsonResponse<LeaveBalance[]> = await request(
+        app.getHttpServer(),
+      )
+        .get('/leaves/balance?year=2021')
+        .set('Authorization', `Bearer ${employeeToken}`)
+        .expect(200);
+      const byType = (code: string) =>
+        balance.body.find((item) => item.type === code);
+      expect(byType(capped.code)).toMatchObject({ entitled: 2, taken: 2 });
+      expect(byType(lasting.code)).toMatchObject({ entitled: 2, remaining: 2 });
+    });
+
+    it('should be safe to re-run', async () => {
+      const res: JsonResponse<YearEndReport> = await runYearEnd({
+        year: 2020,
+      }).expect(200);
+      expect(
+        itemsOf(res.body.carriedOver).map((item) => [
+          item.carried,
+          item.status,
+        ]),
+      ).toEqual([
+        [5, 'ALREADY_APPLIED'],
+        [2, 'ALREADY_APPLIED'],
+      ]);
+      expect(itemsOf(res.body.expired)).toEqual([]);
+
+      const ledger: JsonResponse<LedgerEntry[]> = await request(
+        app.getHttpServer(),
+      )
+        .get(`/balances/${employee.id}/ledger?year=2021`)
         .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      expect(ledger.body).toHaveLength(4);
+    });
+
+    it('should be admin only', async () => {
+      await runYearEnd({ year: 2020, dryRun: true }, employeeToken).expect(403);
+    });
+  });
+
+  describe('Leave Types (GET/POST /leave-types)', () => {
+    it('should list active leave types', () => {
+      return request(app.getHttpServer())
+        .get('/leave-types')
+        .set('Authorization', `Bearer ${token}`)
         .expect(200)
-        .then((res) => {
-          expect(Array.isArray(res.body)).toBe(true);
+        .then((res: JsonResponse<LeaveType[]>) => {
+          expect(res.body.some((type) => type.code === 'ANNUAL')).toBe(true);
+        });
+    });
+
+    it('should forbid regular users from creating leave types', () => {
+      return request(app.getHttpServer())
+        .post('/leave-types')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ code: 'UNPAID', name: 'Unpaid Leave' })
+        .expect(403);
+    });
+
+    it('should let admins create and deactivate leave types', async () => {
+      const { admin, adminToken } = await createAdmin();
+      const code = `TEST_${Date.now()}`;
+      const created: JsonResponse<LeaveType> = await request(
+        app.getHttpServer(),
+      )
+        .post('/leave-types')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          code: code.toLowerCase(),
+          name: 'Test Leave',
+          maxDaysPerRequest: 2,
+        })
+        .expect(201);
+
+      expect(created.body.code).toBe(code);
+
+      await request(app.getHttpServer())
+        .post('/leaves')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ type: code, startDate: '2024-05-01', endDate: '2024-05-03' })
+        .expect(400);
+
+      await request(app.getHttpServer())
+        .put(`/leave-types/${created.body.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ active: false })
+        .expect(200);
+
+      await request(app.getHttpServer())
+        .post('/leaves')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ type: code, startDate: '2024-05-01', endDate: '2024-05-01' })
+        .expect(400);
+
+      await leaveTypeRepo.delete(created.body.id);
+      await userRepo.delete(admin.id);
+    });
+
+    it('should only delete leave types nothing refers to', async () => {
+      const { admin, adminToken } = await createAdmin();
+      const created: JsonResponse<LeaveType> = await request(
+        app.getHttpServer(),
+      )
+        .post('/leave-types')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ code: `GONE_${Date.now()}`, name: 'Short-lived Leave' })
+        .expect(201);
+      await request(app.getHttpServer())
+        .put(`/balances/${userId}/entitlements`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ type: created.body.code, year: 2031, days: 3 })
+        .expect(200);
+
+      const res: JsonResponse<ErrorBody> = await request(app.getHttpServer())
+        .delete(`/leave-types/${created.body.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(409);
+      expect(res.body.error).toEqual({ usage: ['1 entitlement(s)'] });
+      expect(
+        await leaveTypeRepo.exists({ where: { id: created.body.id } }),
+      ).toBe(true);
+
+      await app
+        .get<Repository<LeaveEntitlement>>(getRepositoryToken(LeaveEntitlement))
+        .delete({ leaveType: { id: created.body.id } });
+      await request(app.getHttpServer())
+        .delete(`/leave-types/${created.body.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      await userRepo.delete(admin.id);
+    });
+  });
+
+  // users CRUD tests (admin only)
+  describe('User Import (POST /users/import)', () => {
+    const stamp = Date.now();
+    const leadEmail = `import-lead-${stamp}@example.com`;
+    const memberEmail = `import-member-${stamp}@example.com`;
+    let importAdminToken: string;
+    let importAdminId: number;
+
+    const csv = (...lines: string[]) =>
+      Buffer.from(lines.join('\r\n') + '\r\n');
+
+    beforeAll(async () => {
+      const created = await createAdmin();
+      importAdminId = created.admin.id;
+      importAdminToken = created.adminToken;
+    });
+
+    afterAll(async () => {
+      await userRepo.delete({ email: memberEmail });
+      await userRepo.delete({ email: leadEmail });
+      await userRepo.delete(importAdminId);
+    });
+
+    it('should report row errors in a dry run without creating anyone', async () => {
+      const res: JsonResponse<UserImportResult> = await request(
+        app.getHttpServer(),
+      )
+        .post('/users/import')
+        .query({ dryRun: 'true' })
+        .set('Authorization', `Bearer ${importAdminToken}`)
+        .attach(
+          'file',
+          csv(
+            'email,name,role,manager_email,ANNUAL',
+            `${leadEmail},Import Lead,manager,,25`,
+            `not-an-email,Broken,user,,`,
+            `${memberEmail},Import Member,boss,nobody-${stamp}@example.com,-1`,
+            `${testEmail},Existing,user,,`,
+          ),
+          { filename: 'users.csv', contentType: 'text/csv' },
+        )
+        .expect(201);
+
+      expect(res.body.dryRun).toBe(true);
+      expect(res.body.users.map((user) => user.email)).toEqual([leadEmail]);
+      expect(res.body.users[0]).toMatchObject({
+        row: 2,
+        role: 'manager',
+        balances: { ANNUAL: 25 },
+      });
+      expect(res.body.errors.map((error) => error.row)).toEqual([
+        3, 4, 4, 4, 5,
+      ]);
+      expect(await userRepo.exists({ where: { email: leadEmail } })).toBe(
+        false,
+      );
+    });
+
+    it('should only accept managers and admins as manager_email', async () => {
+      const res: JsonResponse<UserImportResult> = await request(
+        app.getHttpServer(),
+      )
+        .post('/users/import')
+        .query({ dryRun: 'true' })
+        .set('Authorization', `Bearer ${importAdminToken}`)
+        .attach(
+          'file',
+          csv(
+            'email,name,role,manager_email',
+            `${leadEmail},Import Lead,user,`,
+            `${memberEmail},Import Member,user,${leadEmail}`,
+            `other-${memberEmail},Other Member,user,${testEmail}`,
+          ),
+          { filename: 'users.csv', contentType: 'text/csv' },
+        )
+        .expect(201);
+
+      expect(res.body.errors).toEqual([
+        {
+          row: 3,
+          email: memberEmail,
+          message: `manager ${leadEmail} has the user role; only managers and admins can have reports`,
+        },
+        {
+          row: 4,
+          email: `other-${memberEmail}`,
+          message: `manager ${testEmail} has the user role; only managers and admins can have reports`,
+        },
+      ]);
+    });
+
+    it('should import nothing when any row is invalid', async () => {
+      const res: JsonResponse<ErrorBody> = await request(app.getHttpServer())
+        .post('/users/import')
+        .set('Authorization', `Bearer ${importAdminToken}`)
+        .attach(
+          'file',
+          csv('email,name', `${leadEmail},Import Lead`, `${leadEmail},Twice`),
+          { filename: 'users.csv', contentType: 'text/csv' },
+        )
+        .expect(400);
+
+      expect(res.body.error).toEqual([
+        {
+          row: 3,
+          email: leadEmail,
+          message: 'email appears more than once in the file',
+        },
+      ]);
+      expect(await userRepo.exists({ where: { email: leadEmail } })).toBe(
+        false,
+      );
+    });
+
+    it('should create users with managers, balances and invites', async () => {
+      const res: JsonResponse<UserImportResult> = await request(
+        app.getHttpServer(),
+      )
+        .post('/users/import')
+        .set('Authorization', `Bearer ${importAdminToken}`)
+        .attach(
+          'file',
+          csv(
+            'Email,Name,Role,Manager Email,ANNUAL',
+            `${memberEmail.toUpperCase()},"Member, Import",,${leadEmail},18.5`,
+            `${leadEmail},Import Lead,manager,,25`,
+          ),
+          { filename: 'users.csv', contentType: 'text/csv' },
+        )
+        .expect(201);
+
+      expect(res.body.errors).toEqual([]);
+      expect(res.body.users).toHaveLength(2);
+      expect(res.body.users[0].email).toBe(memberEmail);
+
+      const member = await userRepo.findOneOrFail({
+        where: { email: memberEmail },
+        relations: ['manager'],
+      });
+      expect(member.name).toBe('Member, Import');
+      expect(member.role).toBe(UserRole.USER);
+      expect(member.manager?.email).toBe(leadEmail);
+
+      // Imported users cannot sign in until they set a password through the invite
+      const outbox = app.get<OutboxMailTransport>(MailTransport);
+      expect(await outbox.list(memberEmail)).toEqual([]);
+      const dispatcher = app.get(OutboxDispatcher);
+      while ((await dispatcher.dispatchPending()) > 0) {
+        // keep going until the outbox is drained
+      }
+      const [invite] = await outbox.list(memberEmail);
+      expect(invite.text).toContain('/set-password?token=');
+      const inviteToken = decodeURIComponent(
+        invite.text.match(/token=([^\s]+)/)![1],
+      );
+      await request(app.getHttpServer())
+        .post('/auth/reset-password')
+        .send({ token: inviteToken, password: 'invitedpass123' })
+        .expect(204);
+      const login: JsonResponse<TokenPair> = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: memberEmail, password: 'invitedpass123' })
+        .expect(200);
+
+      const balance: JsonResponse<LeaveBalance[]> = await request(
+        app.getHttpServer(),
+      )
+        .get('/leaves/balance')
+        .set('Authorization', `Bearer ${login.body.access_token}`)
+        .expect(200);
+      expect(
+        balance.body.find((item) => item.type === 'ANNUAL')?.entitled,
+      ).toBe(18.5);
+    });
+
+    it('should only allow admins to import users', () => {
+      return request(app.getHttpServer())
+        .post('/users/import')
+        .set('Authorization', `Bearer ${token}`)
+        .attach('file', csv('email,name'), {
+          filename: 'users.csv',
+          contentType: 'text/csv',
+        })
+        .expect(403);
+    });
+  });
+
+  describe('Users CRUD (GET/PUT/DELETE /users)', () => {
+    it('should get all users', async () => {
+      // Create admin user directly in database for testing
+      const adminEmail = `admin-test-${Date.now()}@example.com`;
+      const hashedPassword = await bcrypt.hash('adminpass123', 10);
+      const adminUser = await userRepo.save({
+        email: adminEmail,
+        password: hashedPassword,
+        name: 'Admin User',
+        role: UserRole.ADMIN,
+      });
+
+      // Login as admin
+      const adminRes: JsonResponse<TokenPair> = await request(
+        app.getHttpServer(),
+      )
+        .post('/auth/login')
+        .send({ email: adminEmail, password: 'adminpass123' })
+        .expect(200);
+
+      adminToken = adminRes.body.access_token;
+
+      // Get all users
+      await request(app.getHttpServer())
+        .get('/users')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200)
+        .then((res: JsonResponse<Paginated<User>>) => {
+          expect(Array.isArray(res.body.items)).toBe(true);
         });
 
       // Clean up admin user
       await userRepo.delete(adminUser.id);
     });
 
+    it('should filter and search users', async () => {
+      const { admin, adminToken } = await createAdmin();
+
+      const res: JsonResponse<Paginated<User>> = await request(
+        app.getHttpServer(),
+      )
+        .get('/users')
+        .query({ role: 'admin', search: admin.email.toUpperCase() })
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      expect(res.body.items).toHaveLength(1);
+      expect(res.body.items[0].id).toBe(admin.id);
+      expect(res.body.items[0].password).toBeUndefined();
+      expect(res.body.items[0].leaves).toBeUndefined();
+      expect(res.body.meta.total).toBe(1);
+
+      await request(app.getHttpServer())
+        .get('/users')
+        .query({ limit: 500 })
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(400);
+
+      await userRepo.delete(admin.id);
+    });
+
     it('should get user by ID', async () => {
       // Create admin user directly in database for testing
       const adminEmail = `admin-test-${Date.now()}@example.com`;
@@ -229,7 +4184,9 @@ describe('Auth & Leave API E2E Tests', () => {
       });
 
       // Login as admin
-      const adminRes = await request(app.getHttpServer())
+      const adminRes: JsonResponse<TokenPair> = await request(
+        app.getHttpServer(),
+      )
         .post('/auth/login')
         .send({ email: adminEmail, password: 'adminpass123' })
         .expect(200);
@@ -241,7 +4198,7 @@ describe('Auth & Leave API E2E Tests', () => {
         .get(`/users/${userId}`)
         .set('Authorization', `Bearer ${adminToken}`)
         .expect(200)
-        .then((res) => {
+        .then((res: JsonResponse<User>) => {
           expect(res.body.id).toBe(userId);
           expect(res.body.email).toBe(testEmail);
         });
@@ -262,7 +4219,9 @@ describe('Auth & Leave API E2E Tests', () => {
       });
 
       // Login as admin
-      const adminRes = await request(app.getHttpServer())
+      const adminRes: JsonResponse<TokenPair> = await request(
+        app.getHttpServer(),
+      )
         .post('/auth/login')
         .send({ email: adminEmail, password: 'adminpass123' })
         .expect(200);